@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  evaluateAlertCondition,
+  canTrigger,
+  describeAlertCondition,
+  appendSample,
+  createAlertRule,
+  listAlertRules,
+  listEnabledAlertRules,
+  updateAlertRule,
+  deleteAlertRule,
+  recordAlertEvents,
+  listAlertEvents,
+  MAX_ALERT_EVENTS,
+  getFlagKey,
+  toWatchedFlag,
+  diffClusterFlags,
+  createWatchedCluster,
+  listWatchedClusters,
+  listEnabledWatchedClusters,
+  updateWatchedCluster,
+  recordClusterScan,
+} from '@/lib/alerts';
+import { Market, AlertRule, AlertSample, ScannerFlag, MarketCluster, DEFAULT_SCANNER_CONFIG } from '@/types';
+
+const MINUTE = 60 * 1000;
+const now = Date.UTC(2026, 0, 1, 12);
+
+const market: Market = {
+  id: 'alert-market',
+  question: 'Will it happen?',
+  slug: 'will-it-happen',
+  category: 'politics',
+  endDate: new Date(now + 30 * 24 * 60 * MINUTE).toISOString(),
+  volume: 100000,
+  liquidity: 50000,
+  outcomes: [
+    { id: 'yes-token', name: 'Yes', price: 0.4, priceChange24h: 0 },
+    { id: 'no-token', name: 'No', price: 0.6, priceChange24h: 0 },
+  ],
+  createdAt: new Date(now).toISOString(),
+  updatedAt: new Date(now).toISOString(),
+  active: true,
+  closed: false,
+  resolved: false,
+};
+
+function sample(minutesAgo: number, yes: number, extra: Partial<AlertSample> = {}): AlertSample {
+  return { timestamp: now - minutesAgo * MINUTE, prices: [yes, 1 - yes], ...extra };
+}
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'rule',
+    marketId: market.id,
+    marketQuestion: market.question,
+    condition: { type: 'price_cross', outcomeIndex: 0, level: 0.5, direction: 'above' },
+    enabled: true,
+    cooldownMinutes: 60,
+    createdAt: now - 24 * 60 * MINUTE,
+    ...overrides,
+  };
+}
+
+const other: Market = { ...market, id: 'other-market', question: 'Will the other thing happen?' };
+
+function flag(severityScore: number, markets: Market[] = [market, other]): ScannerFlag {
+  return {
+    id: `flag-${Math.random()}`,
+    ruleType: 'sum_to_one',
+    severity: severityScore >= 70 ? 'high' : severityScore >= 40 ? 'medium' : 'low',
+    severityScore,
+    title: 'Sum-to-one violation',
+    explanation: '',
+    affectedMarkets: markets,
+    suggestedTrades: [],
+    confidence: 80,
+    detectedAt: now,
+  };
+}
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-alerts-'));
+
+describe('Alerts', () => {
+  describe('evaluateAlertCondition', () => {
+    it('should fire a price cross only on the crossing sample', () => {
+      const condition = { type: 'price_cross', outcomeIndex: 0, level: 0.5, direction: 'above' } as const;
+
+      expect(evaluateAlertCondition(condition, market, [sample(1, 0.48), sample(0, 0.52)], now)?.value).toBe(0.52);
+      expect(evaluateAlertCondition(condition, market, [sample(1, 0.51), sample(0, 0.52)], now)).toBeNull();
+      expect(evaluateAlertCondition(condition, market, [sample(0, 0.52)], now)).toBeNull();
+    });
+
+    it('should fire a downward cross', () => {
+      const condition = { type: 'price_cross', outcomeIndex: 1, level: 0.5, direction: 'below' } as const;
+
+      // No falls from 0.55 to 0.45 as Yes rises
+      expect(evaluateAlertCondition(condition, market, [sample(1, 0.45), sample(0, 0.55)], now)).not.toBeNull();
+    });
+
+    it('should measure a percent move from the start of the window', () => {
+      const condition = { type: 'percent_move', outcomeIndex: 0, percent: 10, windowMinutes: 30 } as const;
+      const samples = [sample(60, 0.2), sample(30, 0.4), sample(15, 0.42), sample(0, 0.45)];
+
+      // 0.40 -> 0.45 is +12.5%; the older 0.20 is outside the window
+      expect(evaluateAlertCondition(condition, market, samples, now)?.value).toBeCloseTo(12.5);
+      expect(evaluateAlertCondition({ ...condition, percent: 15 }, market, samples, now)).toBeNull();
+    });
+
+    it('should compare volume in the window with the 24h pace', () => {
+      const condition = { type: 'volume_spike', multiplier: 3, windowMinutes: 60 } as const;
+      // 24h volume of 24,000 paces at 1,000 an hour
+      const quiet = [sample(60, 0.4, { volume24hr: 23000 }), sample(0, 0.4, { volume24hr: 24000 })];
+      const busy = [sample(60, 0.4, { volume24hr: 20000 }), sample(0, 0.4, { volume24hr: 24000 })];
+
+      expect(evaluateAlertCondition(condition, market, quiet, now)).toBeNull();
+      expect(evaluateAlertCondition(condition, market, busy, now)?.value).toBeCloseTo(4);
+    });
+
+    it('should fire when the spread first reaches the limit', () => {
+      const condition = { type: 'spread_widening', maxSpread: 0.05 } as const;
+
+      expect(evaluateAlertCondition(condition, market, [sample(1, 0.4, { spread: 0.02 }), sample(0, 0.4, { spread: 0.06 })], now))
+        .not.toBeNull();
+      expect(evaluateAlertCondition(condition, market, [sample(1, 0.4, { spread: 0.07 }), sample(0, 0.4, { spread: 0.06 })], now))
+        .toBeNull();
+    });
+
+    it('should fire inside the window before the end date of an open market', () => {
+      const condition = { type: 'resolution_approaching', hoursBefore: 24 } as const;
+      const endingSoon = { ...market, endDate: new Date(now + 6 * 60 * MINUTE).toISOString() };
+
+      expect(evaluateAlertCondition(condition, endingSoon, [sample(0, 0.4)], now)?.value).toBeCloseTo(6);
+      expect(evaluateAlertCondition(condition, market, [sample(0, 0.4)], now)).toBeNull();
+      expect(evaluateAlertCondition(condition, { ...endingSoon, closed: true }, [sample(0, 0.4)], now)).toBeNull();
+    });
+  });
+
+  describe('canTrigger', () => {
+    it('should respect the cooldown', () => {
+      expect(canTrigger(rule(), now)).toBe(true);
+      expect(canTrigger(rule({ lastTriggeredAt: now - 30 * MINUTE }), now)).toBe(false);
+      expect(canTrigger(rule({ lastTriggeredAt: now - 60 * MINUTE }), now)).toBe(true);
+      expect(canTrigger(rule({ enabled: false }), now)).toBe(false);
+    });
+
+    it('should fire approaching resolution only once', () => {
+      const once = rule({ condition: { type: 'resolution_approaching', hoursBefore: 24 } });
+
+      expect(canTrigger(once, now)).toBe(true);
+      expect(canTrigger({ ...once, lastTriggeredAt: now - 7 * 24 * 60 * MINUTE }, now)).toBe(false);
+    });
+  });
+
+  it('should describe conditions with outcome names', () => {
+    expect(describeAlertCondition(rule().condition, ['Yes', 'No'])).toBe('Yes crosses above 50.0%');
+    expect(describeAlertCondition(rule().condition)).toBe('Outcome 1 crosses above 50.0%');
+  });
+
+  it('should drop samples older than the retention window', () => {
+    const samples = appendSample([sample(120, 0.4), sample(30, 0.4)], sample(0, 0.4), 60 * MINUTE);
+    expect(samples.map(s => s.timestamp)).toEqual([now - 30 * MINUTE, now]);
+  });
+
+  describe('watched cluster flags', () => {
+    it('should key flags by rule and markets, not by id or order', () => {
+      expect(getFlagKey(flag(50))).toBe(getFlagKey(flag(80, [other, market])));
+      expect(getFlagKey(flag(50))).not.toBe(getFlagKey({ ...flag(50), ruleType: 'arbitrage_bundle' }));
+    });
+
+    it('should announce flags the last scan did not have', () => {
+      const firings = diffClusterFlags([], [flag(30)], 70);
+
+      expect(firings).toHaveLength(1);
+      expect(firings[0]).toMatchObject({ marketId: market.id, value: 30 });
+    });
+
+    it('should announce a known flag only when it rises to the threshold', () => {
+      const previous = [toWatchedFlag(flag(50))];
+
+      expect(diffClusterFlags(previous, [flag(60)], 70)).toEqual([]);
+      expect(diffClusterFlags(previous, [flag(75)], 70)[0].value).toBe(75);
+      expect(diffClusterFlags([toWatchedFlag(flag(75))], [flag(80)], 70)).toEqual([]);
+    });
+  });
+
+  describe('store', () => {
+    beforeEach(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+      process.env.PULSEFORGE_DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+      delete process.env.PULSEFORGE_DATA_DIR;
+    });
+
+    const input = {
+      marketId: market.id,
+      marketQuestion: market.question,
+      condition: { type: 'spread_widening', maxSpread: 0.05 } as const,
+    };
+
+    it('should keep rules per user', async () => {
+      const mine = await createAlertRule('alice', input);
+      await createAlertRule('bob', input);
+
+      expect((await listAlertRules('alice')).map(r => r.id)).toEqual([mine.id]);
+      expect(await updateAlertRule('bob', mine.id, { enabled: false })).toBeNull();
+      expect(await deleteAlertRule('bob', mine.id)).toBe(false);
+    });
+
+    it('should hand the engine only enabled rules', async () => {
+      const paused = await createAlertRule('alice', input);
+      await createAlertRule('alice', input);
+      await updateAlertRule('alice', paused.id, { enabled: false });
+
+      const enabled = await listEnabledAlertRules();
+      expect(enabled).toHaveLength(1);
+      expect(enabled[0].userId).toBe('alice');
+    });
+
+    it('should record firings in the owner history and stamp the rule', async () => {
+      const created = await createAlertRule('alice', input);
+      await recordAlertEvents([{ ruleId: created.id, message: 'Spread widened', value: 0.06, triggeredAt: now }]);
+
+      const [event] = await listAlertEvents('alice');
+      expect(event).toMatchObject({ ruleId: created.id, type: 'spread_widening', triggeredAt: now });
+      expect(event).not.toHaveProperty('userId');
+      expect((await listAlertRules('alice'))[0].lastTriggeredAt).toBe(now);
+      expect(await listAlertEvents('alice', now)).toEqual([]);
+      expect(await listAlertEvents('bob')).toEqual([]);
+    });
+
+    it('should reset the cooldown when the condition changes', async () => {
+      const created = await createAlertRule('alice', input);
+      await recordAlertEvents([{ ruleId: created.id, message: 'Spread widened', value: 0.06, triggeredAt: now }]);
+
+      const updated = await updateAlertRule('alice', created.id, {
+        condition: { type: 'spread_widening', maxSpread: 0.1 },
+      });
+      expect(updated?.lastTriggeredAt).toBeUndefined();
+    });
+
+    it('should record announced flags from a rescan', async () => {
+      const cluster: MarketCluster = {
+        id: 'cluster',
+        name: 'Election',
+        markets: [market, other],
+        clusterType: 'mutual_exclusive',
+        createdAt: now,
+      };
+      const watched = await createWatchedCluster('alice', {
+        cluster,
+        config: DEFAULT_SCANNER_CONFIG,
+        flags: [],
+        scannedAt: now,
+      });
+      expect(watched).toMatchObject({ enabled: true, severityThreshold: 70, lastScannedAt: now });
+
+      const [event] = await recordClusterScan(
+        watched.id,
+        { cluster, flags: [toWatchedFlag(flag(80))], scannedAt: now + MINUTE },
+        [{ marketId: market.id, message: 'New flag', value: 80 }]
+      );
+      expect(event).toMatchObject({ ruleId: watched.id, type: 'scanner_flag', marketQuestion: 'Election' });
+      expect((await listAlertEvents('alice')).map(e => e.id)).toEqual([event.id]);
+
+      const [saved] = await listWatchedClusters('alice');
+      expect(saved.flags).toHaveLength(1);
+      expect(saved.lastScannedAt).toBe(now + MINUTE);
+
+      await updateWatchedCluster('alice', watched.id, { enabled: false });
+      expect(await listEnabledWatchedClusters()).toEqual([]);
+    });
+
+    it('should cap the history per user', async () => {
+      const created = await createAlertRule('alice', input);
+      await recordAlertEvents(
+        Array.from({ length: MAX_ALERT_EVENTS + 5 }, (_, i) => ({
+          ruleId: created.id,
+          message: 'Spread widened',
+          value: 0.06,
+          triggeredAt: now + i,
+        }))
+      );
+
+      expect(await listAlertEvents('alice')).toHaveLength(MAX_ALERT_EVENTS);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  hashPassword,
+  verifyPassword,
+  createUser,
+  findUserByEmail,
+  createSession,
+  getSession,
+  deleteSession,
+} from '@/lib/auth';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-auth-'));
+
+describe('Auth', () => {
+  beforeEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    process.env.PULSEFORGE_DATA_DIR = dataDir;
+  });
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.PULSEFORGE_DATA_DIR;
+  });
+
+  describe('password hashing', () => {
+    it('should verify the original password only', async () => {
+      const hash = await hashPassword('correct horse');
+
+      expect(hash).not.toContain('correct horse');
+      expect(await verifyPassword('correct horse', hash)).toBe(true);
+      expect(await verifyPassword('wrong horse', hash)).toBe(false);
+    });
+
+    it('should salt every hash', async () => {
+      expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+    });
+
+    it('should reject malformed hashes', async () => {
+      expect(await verifyPassword('anything', 'plaintext')).toBe(false);
+    });
+  });
+
+  describe('account store', () => {
+    it('should create accounts with case-insensitive unique emails', async () => {
+      const user = await createUser('Ada', 'Ada@Example.com', 'hash');
+
+      expect(user?.email).toBe('ada@example.com');
+      expect(await createUser('Other', 'ada@example.com', 'hash')).toBeNull();
+      expect((await findUserByEmail('ADA@example.com'))?.id).toBe(user?.id);
+    });
+
+    it('should resolve sessions by token until deleted', async () => {
+      const user = await createUser('Ada', 'ada@example.com', 'hash');
+      const { token, session } = await createSession(user!.id);
+
+      expect(session.id).not.toBe(token);
+      expect((await getSession(token))?.user.id).toBe(user!.id);
+      expect(await getSession('not-a-token')).toBeNull();
+
+      await deleteSession(token);
+      expect(await getSession(token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalCdf,
+  buildCorrelationMatrix,
+  hasCorrelation,
+  choleskyDecompose,
+  getCholeskyFactor,
+  sampleJointOutcomes,
+} from '@/lib/math/copula';
+
+function frequencies(outcomeProbs: number[][], rho: number, samples = 20000) {
+  const matrix = [[1, rho], [rho, 1]];
+  let firstA = 0;
+  let firstB = 0;
+  let both = 0;
+  sampleJointOutcomes(outcomeProbs, matrix, samples, ([a, b]) => {
+    if (a === 0) firstA++;
+    if (b === 0) firstB++;
+    if (a === 0 && b === 0) both++;
+  });
+  return { firstA: firstA / samples, firstB: firstB / samples, both: both / samples };
+}
+
+describe('Gaussian Copula', () => {
+  describe('normalCdf', () => {
+    it('should match known values', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+      expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+      expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+    });
+  });
+
+  describe('buildCorrelationMatrix', () => {
+    it('should build a symmetric matrix and ignore unknown markets', () => {
+      const matrix = buildCorrelationMatrix(['a', 'b', 'c'], [
+        { marketIdA: 'a', marketIdB: 'c', correlation: 0.5 },
+        { marketIdA: 'a', marketIdB: 'z', correlation: 0.9 },
+      ]);
+
+      expect(matrix[0][2]).toBe(0.5);
+      expect(matrix[2][0]).toBe(0.5);
+      expect(matrix[0][1]).toBe(0);
+      expect(matrix[1][1]).toBe(1);
+    });
+
+    it('should only report correlation between the given markets', () => {
+      const correlations = [{ marketIdA: 'a', marketIdB: 'z', correlation: 0.9 }];
+      expect(hasCorrelation(['a', 'b'], correlations)).toBe(false);
+      expect(hasCorrelation(['a', 'z'], correlations)).toBe(true);
+    });
+  });
+
+  describe('choleskyDecompose', () => {
+    it('should factor a valid correlation matrix', () => {
+      const factor = choleskyDecompose([[1, 0.6], [0.6, 1]]);
+      expect(factor?.[1][0]).toBeCloseTo(0.6);
+      expect(factor?.[1][1]).toBeCloseTo(0.8);
+    });
+
+    it('should repair jointly inconsistent correlations', () => {
+      const inconsistent = [[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]];
+      expect(choleskyDecompose(inconsistent)).toBeNull();
+      expect(getCholeskyFactor(inconsistent)).toHaveLength(3);
+    });
+  });
+
+  describe('sampleJointOutcomes', () => {
+    const probs = [[0.3, 0.7], [0.6, 0.4]];
+
+    it('should preserve each market marginal', () => {
+      const { firstA, firstB } = frequencies(probs, 0.8);
+      expect(firstA).toBeCloseTo(0.3, 1);
+      expect(firstB).toBeCloseTo(0.6, 1);
+    });
+
+    it('should make first outcomes co-occur under positive correlation', () => {
+      const independent = frequencies(probs, 0);
+      const correlated = frequencies(probs, 0.8);
+
+      expect(independent.both).toBeCloseTo(0.18, 1);
+      expect(correlated.both).toBeGreaterThan(0.26);
+      expect(frequencies(probs, -0.8).both).toBeLessThan(0.1);
+    });
+
+    it('should be repeatable for the same seed', () => {
+      const run = () => {
+        const draws: number[] = [];
+        sampleJointOutcomes(probs, [[1, 0.5], [0.5, 1]], 50, ([a, b]) => draws.push(a * 2 + b), 42);
+        return draws;
+      };
+      expect(run()).toEqual(run());
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseOrderbookLevels,
+  applyLevelUpdates,
+  applyOrderbookUpdate,
+  summarizeBook,
+  cumulativeLevels,
+  buildDepthCurve,
+} from '@/lib/math/depth';
+import { Orderbook } from '@/types';
+
+const book: Orderbook = {
+  bids: [{ price: 0.48, size: 100 }, { price: 0.47, size: 200 }],
+  asks: [{ price: 0.52, size: 150 }, { price: 0.55, size: 50 }],
+};
+
+describe('Orderbook Depth', () => {
+  describe('parseOrderbookLevels', () => {
+    it('should parse string levels and drop invalid ones', () => {
+      expect(parseOrderbookLevels([
+        { price: '0.5', size: '10' },
+        { price: 'abc', size: '10' },
+        { price: '1.5', size: '10' },
+        { price: '0.4', size: '0' },
+      ])).toEqual([{ price: 0.5, size: 10 }, { price: 0.4, size: 0 }]);
+    });
+  });
+
+  describe('applyLevelUpdates', () => {
+    it('should replace, add and remove levels and keep the side sorted', () => {
+      const bids = applyLevelUpdates(book.bids, [
+        { price: 0.47, size: 0 },
+        { price: 0.49, size: 25 },
+        { price: 0.48, size: 80 },
+      ], 'bids');
+      expect(bids).toEqual([{ price: 0.49, size: 25 }, { price: 0.48, size: 80 }]);
+
+      const asks = applyLevelUpdates(book.asks, [{ price: 0.53, size: 10 }], 'asks');
+      expect(asks.map(l => l.price)).toEqual([0.52, 0.53, 0.55]);
+    });
+
+    it('should ignore removals of levels that are not in the book', () => {
+      expect(applyLevelUpdates(book.asks, [{ price: 0.6, size: 0 }], 'asks')).toEqual(book.asks);
+    });
+
+    it('should update both sides at once', () => {
+      const updated = applyOrderbookUpdate(book, {
+        bids: [{ price: 0.48, size: 0 }],
+        asks: [{ price: 0.5, size: 5 }],
+      });
+      expect(updated.bids[0].price).toBe(0.47);
+      expect(updated.asks[0].price).toBe(0.5);
+    });
+  });
+
+  describe('summarizeBook', () => {
+    it('should report the spread and mid between the best levels', () => {
+      const summary = summarizeBook(book);
+      expect(summary.bestBid).toBe(0.48);
+      expect(summary.bestAsk).toBe(0.52);
+      expect(summary.spread).toBeCloseTo(0.04);
+      expect(summary.mid).toBeCloseTo(0.5);
+    });
+
+    it('should leave spread and mid empty for a one-sided book', () => {
+      expect(summarizeBook({ bids: book.bids, asks: [] })).toEqual({
+        bestBid: 0.48, bestAsk: null, spread: null, mid: null,
+      });
+    });
+  });
+
+  describe('cumulative depth', () => {
+    it('should accumulate size from the best level outward', () => {
+      expect(cumulativeLevels(book.bids).map(l => l.total)).toEqual([100, 300]);
+    });
+
+    it('should order the depth curve by price with one side per point', () => {
+      expect(buildDepthCurve(book)).toEqual([
+        { price: 0.47, bidDepth: 300, askDepth: null },
+        { price: 0.48, bidDepth: 100, askDepth: null },
+        { price: 0.52, bidDepth: null, askDepth: 150 },
+        { price: 0.55, bidDepth: null, askDepth: 200 },
+      ]);
+      expect(buildDepthCurve(book, 1)).toHaveLength(2);
+    });
+  });
+});
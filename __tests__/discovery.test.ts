@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { discoverClusters, discoverFlags } from '@/lib/math/discovery';
+import { Market, DEFAULT_DISCOVERY_CONFIG } from '@/types';
+
+// Helper to create mock markets
+function createMockMarket(
+  id: string,
+  question: string,
+  yesPrice: number,
+  extra: Partial<Market> = {}
+): Market {
+  return {
+    id,
+    question,
+    slug: id,
+    category: 'crypto',
+    endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+    volume: 100000,
+    liquidity: 50000,
+    outcomes: [
+      { id: `${id}-yes`, name: 'Yes', price: yesPrice, priceChange24h: 0 },
+      { id: `${id}-no`, name: 'No', price: 1 - yesPrice, priceChange24h: 0 },
+    ],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    active: true,
+    closed: false,
+    resolved: false,
+    ...extra,
+  };
+}
+
+describe('Cluster Discovery', () => {
+  const electionMarkets = [
+    createMockMarket('e1', 'Will Alice win the election?', 0.5, { eventSlug: 'election' }),
+    createMockMarket('e2', 'Will Bob win the election?', 0.4, { eventSlug: 'election' }),
+    createMockMarket('e3', 'Will Carol win the election?', 0.3, { eventSlug: 'election' }),
+  ];
+
+  const btcMarkets = [
+    createMockMarket('b1', 'Will BTC be above $80k by June?', 0.6),
+    createMockMarket('b2', 'Will BTC be above $100k by June?', 0.7),
+  ];
+
+  describe('discoverClusters', () => {
+    it('should group event siblings into one cluster', () => {
+      const clusters = discoverClusters(electionMarkets);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].source).toBe('event');
+      expect(clusters[0].markets.map(m => m.id)).toEqual(['e1', 'e2', 'e3']);
+    });
+
+    it('should group questions that only differ by threshold', () => {
+      const clusters = discoverClusters(btcMarkets);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].source).toBe('threshold');
+      expect(clusters[0].clusterType).toBe('threshold');
+      expect(clusters[0].thresholdConfig?.thresholds).toHaveLength(2);
+    });
+
+    it('should skip tags that are broader than the max cluster size', () => {
+      const tagged = Array.from({ length: 12 }, (_, i) =>
+        createMockMarket(`t${i}`, `Unrelated question ${String.fromCharCode(65 + i)}?`, 0.5, { tags: ['Politics'] })
+      );
+
+      expect(discoverClusters(tagged)).toHaveLength(0);
+      expect(discoverClusters(tagged.slice(0, 3))).toHaveLength(1);
+    });
+
+    it('should not emit the same market set twice', () => {
+      const tagged = electionMarkets.map(m => ({ ...m, tags: ['Elections'] }));
+      const clusters = discoverClusters(tagged);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].source).toBe('event');
+    });
+
+    it('should ignore closed markets and respect enabled sources', () => {
+      const markets = [...electionMarkets.slice(0, 2), { ...electionMarkets[2], closed: true }];
+
+      expect(discoverClusters(markets)[0].markets).toHaveLength(2);
+      expect(discoverClusters(markets, { ...DEFAULT_DISCOVERY_CONFIG, sources: ['tag'] })).toHaveLength(0);
+    });
+  });
+
+  describe('discoverFlags', () => {
+    it('should rank flags across clusters by severity weighted by confidence', () => {
+      const result = discoverFlags([...electionMarkets, ...btcMarkets]);
+
+      expect(result.clustersScanned).toBe(2);
+      expect(result.marketsScanned).toBe(5);
+      expect(result.flags.length).toBeGreaterThanOrEqual(2);
+
+      const ruleTypes = result.flags.map(f => f.ruleType);
+      expect(ruleTypes).toContain('sum_to_one');
+      expect(ruleTypes).toContain('threshold_consistency');
+
+      for (let i = 1; i < result.flags.length; i++) {
+        expect(result.flags[i - 1].rankScore).toBeGreaterThanOrEqual(result.flags[i].rankScore);
+      }
+      result.flags.forEach(flag => {
+        expect(flag.rankScore).toBeCloseTo(flag.severityScore * flag.confidence / 100);
+      });
+    });
+
+    it('should attribute each flag to the cluster it came from', () => {
+      const result = discoverFlags([...electionMarkets, ...btcMarkets]);
+      const sumFlag = result.flags.find(f => f.ruleType === 'sum_to_one');
+
+      expect(sumFlag?.clusterSource).toBe('event');
+      expect(sumFlag?.clusterId).toBe('discover-event-election');
+    });
+
+    it('should return no flags for a fairly priced universe', () => {
+      const fair = [
+        createMockMarket('f1', 'Will Alice win?', 0.5, { eventSlug: 'fair' }),
+        createMockMarket('f2', 'Will Bob win?', 0.5, { eventSlug: 'fair' }),
+      ];
+
+      expect(discoverFlags(fair).flags).toHaveLength(0);
+    });
+  });
+});
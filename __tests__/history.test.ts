@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  mergePricePoints,
+  compactPricePoints,
+  resamplePricePoints,
+  findPriceGaps,
+  buildCandles,
+  getHistoryWindow,
+  recordPricePoints,
+  recordPriceTick,
+  recordMarketSnapshots,
+  queueMarketSnapshots,
+  getStoredPricePoints,
+  getBackfilledAt,
+  recordBackfill,
+  RECORD_INTERVAL_MS,
+} from '@/lib/history';
+import { Market } from '@/types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const now = Date.UTC(2026, 0, 1, 12);
+
+const market: Market = {
+  id: 'history-market',
+  question: 'Will it happen?',
+  slug: 'will-it-happen',
+  category: 'politics',
+  endDate: new Date(now + 30 * DAY).toISOString(),
+  volume: 100000,
+  liquidity: 50000,
+  outcomes: [
+    { id: 'token-yes', name: 'Yes', price: 0.6, priceChange24h: 0 },
+    { id: 'token-no', name: 'No', price: 0.4, priceChange24h: 0 },
+  ],
+  createdAt: new Date(now - 90 * DAY).toISOString(),
+  updatedAt: new Date(now).toISOString(),
+  active: true,
+  closed: false,
+  resolved: false,
+};
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-history-'));
+
+describe('Price History', () => {
+  describe('series', () => {
+    it('should merge by timestamp with incoming points winning', () => {
+      const merged = mergePricePoints(
+        [{ timestamp: 2, price: 0.5 }, { timestamp: 1, price: 0.4 }],
+        [{ timestamp: 2, price: 0.55 }, { timestamp: 3, price: 0.6 }]
+      );
+      expect(merged).toEqual([
+        { timestamp: 1, price: 0.4 },
+        { timestamp: 2, price: 0.55 },
+        { timestamp: 3, price: 0.6 },
+      ]);
+    });
+
+    it('should thin older points to coarser spacing', () => {
+      const recent = [0, 20, 40].map(s => ({ timestamp: now - HOUR + s * 1000, price: 0.5 }));
+      const old = [0, 1, 2, 3].map(m => ({ timestamp: now - 60 * DAY + m * HOUR, price: 0.5 }));
+
+      const compacted = compactPricePoints([...old, ...recent], now);
+
+      // One per minute within a day, one per day beyond a month
+      expect(compacted.filter(p => p.timestamp >= now - DAY)).toHaveLength(1);
+      expect(compacted.filter(p => p.timestamp < now - 30 * DAY)).toHaveLength(1);
+      expect(compacted.filter(p => p.timestamp >= now - DAY)[0].timestamp).toBe(now - HOUR + 40 * 1000);
+    });
+
+    it('should keep the latest point of each bucket', () => {
+      const points = [
+        { timestamp: 0, price: 0.1 },
+        { timestamp: 30 * 1000, price: 0.2 },
+        { timestamp: MINUTE, price: 0.3 },
+      ];
+      expect(resamplePricePoints(points, MINUTE).map(p => p.price)).toEqual([0.2, 0.3]);
+    });
+
+    it('should report missing spans, including the window edges', () => {
+      const points = [10, 11, 12, 30].map(m => ({ timestamp: m * MINUTE, price: 0.5 }));
+
+      expect(findPriceGaps(points, 0, 31 * MINUTE, MINUTE)).toEqual([
+        { from: 0, to: 10 * MINUTE },
+        { from: 12 * MINUTE, to: 30 * MINUTE },
+      ]);
+      expect(findPriceGaps([], 0, HOUR, MINUTE)).toEqual([{ from: 0, to: HOUR }]);
+      expect(findPriceGaps(points, 9 * MINUTE, 31 * MINUTE, MINUTE)).toHaveLength(1);
+    });
+
+    it('should not reach before a market existed or after it closed', () => {
+      const young = { ...market, createdAt: new Date(now - 2 * DAY).toISOString() };
+      expect(getHistoryWindow(young, '7D', now)).toEqual({ from: now - 2 * DAY, to: now });
+
+      const closed = { ...market, closed: true, endDate: new Date(now - DAY).toISOString() };
+      expect(getHistoryWindow(closed, '24H', now)).toEqual({ from: now - 2 * DAY, to: now - DAY });
+    });
+  });
+
+  describe('candles', () => {
+    const bucket = 15 * MINUTE;
+
+    it('should take OHLC from trades and sum their notional volume', () => {
+      const trades = [
+        { timestamp: 2 * MINUTE, price: 0.5, size: 100 },
+        { timestamp: 5 * MINUTE, price: 0.6, size: 10 },
+        { timestamp: 8 * MINUTE, price: 0.45, size: 20 },
+        { timestamp: 10 * MINUTE, price: 0.55, size: 40 },
+      ];
+
+      const [candle] = buildCandles([], trades, bucket, -Infinity);
+      expect(candle).toEqual({
+        timestamp: 0,
+        open: 0.5,
+        high: 0.6,
+        low: 0.45,
+        close: 0.55,
+        volume: 50 + 6 + 9 + 22,
+        trades: 4,
+      });
+    });
+
+    it('should fall back to recorded prices where a bucket has no trades', () => {
+      const points = [
+        { timestamp: 16 * MINUTE, price: 0.4 },
+        { timestamp: 20 * MINUTE, price: 0.42 },
+      ];
+      const trades = [{ timestamp: MINUTE, price: 0.5, size: 10 }];
+
+      const candles = buildCandles(points, trades, bucket, -Infinity);
+      expect(candles.map(c => c.timestamp)).toEqual([0, bucket]);
+      expect(candles[1]).toMatchObject({ open: 0.4, close: 0.42, volume: 0, trades: 0 });
+    });
+
+    it('should leave volume unknown before the trades are complete', () => {
+      const points = [{ timestamp: MINUTE, price: 0.4 }, { timestamp: 31 * MINUTE, price: 0.41 }];
+      const trades = [{ timestamp: 32 * MINUTE, price: 0.41, size: 10 }];
+
+      const candles = buildCandles(points, trades, bucket, 32 * MINUTE);
+      expect(candles[0].volume).toBeUndefined();
+      expect(candles[1].volume).toBeUndefined(); // Bucket starts before the oldest trade
+      expect(buildCandles(points, [], bucket)[0].volume).toBeUndefined();
+    });
+  });
+
+  describe('store', () => {
+    beforeEach(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+      process.env.PULSEFORGE_DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+      delete process.env.PULSEFORGE_DATA_DIR;
+    });
+
+    it('should store valid points only', async () => {
+      await recordPricePoints('token-a', [
+        { timestamp: now - 2 * MINUTE, price: 0.5 },
+        { timestamp: now - MINUTE, price: 1.5 },
+        { timestamp: now + HOUR, price: 0.5 },
+      ], now);
+
+      expect(await getStoredPricePoints('token-a', 0, now)).toEqual([{ timestamp: now - 2 * MINUTE, price: 0.5 }]);
+    });
+
+    it('should ignore token ids that are not safe file names', async () => {
+      await recordPricePoints('../escape', [{ timestamp: now, price: 0.5 }], now);
+      expect(await getStoredPricePoints('../escape', 0, now)).toEqual([]);
+    });
+
+    it('should throttle ticks per token', async () => {
+      // Ticks are compacted against the clock, so they need to be recent
+      const start = Date.now() - 10 * MINUTE;
+      await recordPriceTick('token-b', 0.5, start);
+      await recordPriceTick('token-b', 0.51, start + RECORD_INTERVAL_MS / 2);
+      await recordPriceTick('token-b', 0.52, start + RECORD_INTERVAL_MS);
+
+      expect((await getStoredPricePoints('token-b', 0, Date.now())).map(p => p.price)).toEqual([0.5, 0.52]);
+    });
+
+    it('should record snapshots of open markets only', async () => {
+      await recordMarketSnapshots([market], now - 5 * MINUTE);
+      await recordMarketSnapshots([{ ...market, id: 'closed', closed: true, outcomes: [{ id: 'token-c', name: 'Yes', price: 1, priceChange24h: 0 }] }], now);
+
+      expect(await getStoredPricePoints('token-yes', 0, now)).toEqual([{ timestamp: now - 5 * MINUTE, price: 0.6 }]);
+      expect(await getStoredPricePoints('token-no', 0, now)).toEqual([{ timestamp: now - 5 * MINUTE, price: 0.4 }]);
+      expect(await getStoredPricePoints('token-c', 0, now)).toEqual([]);
+    });
+
+    it('should skip snapshot runs while one is in flight', async () => {
+      const start = Date.now() - 10 * MINUTE;
+      const snapshot = { ...market, id: 'queued', outcomes: [{ id: 'token-q', name: 'Yes', price: 0.7, priceChange24h: 0 }] };
+      const first = queueMarketSnapshots([snapshot], start);
+      expect(first).not.toBeNull();
+      expect(queueMarketSnapshots([snapshot], start + 2 * MINUTE)).toBeNull();
+      await first;
+
+      await queueMarketSnapshots([snapshot], start + 4 * MINUTE);
+      expect((await getStoredPricePoints('token-q', 0, Date.now())).map(p => p.timestamp)).toEqual([start, start + 4 * MINUTE]);
+    });
+
+    it('should remember backfills per range, even empty ones', async () => {
+      expect(await getBackfilledAt('token-d', '24H')).toBeUndefined();
+
+      await recordBackfill('token-d', '24H', [], now);
+      await recordBackfill('token-d', '7D', [{ timestamp: now - DAY, price: 0.3 }], now);
+
+      expect(await getBackfilledAt('token-d', '24H')).toBe(now);
+      expect(await getBackfilledAt('token-d', '1H')).toBeUndefined();
+      expect(await getStoredPricePoints('token-d', 0, now)).toEqual([{ timestamp: now - DAY, price: 0.3 }]);
+    });
+  });
+});
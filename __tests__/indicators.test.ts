@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  simpleMovingAverage,
+  exponentialMovingAverage,
+  bollingerBands,
+  relativeStrengthIndex,
+  realizedVolatility,
+  splitAtGaps,
+  computeIndicators,
+  findLargeTrades,
+} from '@/lib/math/indicators';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('Indicators', () => {
+  describe('moving averages', () => {
+    it('should average the trailing window and pad the start with null', () => {
+      expect(simpleMovingAverage([1, 2, 3, 4], 2)).toEqual([null, 1.5, 2.5, 3.5]);
+    });
+
+    it('should seed the EMA with the SMA and then smooth', () => {
+      const ema = exponentialMovingAverage([2, 4, 6, 8], 3);
+      expect(ema.slice(0, 2)).toEqual([null, null]);
+      expect(ema[2]).toBeCloseTo(4);
+      expect(ema[3]).toBeCloseTo(0.5 * 8 + 0.5 * 4);
+    });
+  });
+
+  describe('bollingerBands', () => {
+    it('should collapse onto the price when it does not move', () => {
+      const [band] = bollingerBands([0.3, 0.3, 0.3], 3).slice(2);
+      expect(band?.middle).toBeCloseTo(0.3);
+      expect(band?.upper).toBeCloseTo(0.3);
+      expect(band?.lower).toBeCloseTo(0.3);
+    });
+
+    it('should stay inside 0-100% near the edges', () => {
+      const bands = bollingerBands([0.9, 0.99, 0.95, 0.999, 0.97], 5, 3);
+      const last = bands[4]!;
+      expect(last.upper).toBeLessThan(1);
+      expect(last.lower).toBeGreaterThan(0);
+      expect(last.lower).toBeLessThan(last.middle);
+      expect(last.upper).toBeGreaterThan(last.middle);
+    });
+  });
+
+  describe('relativeStrengthIndex', () => {
+    it('should be 100 for a series that only rises and 50 for a flat one', () => {
+      expect(relativeStrengthIndex([0.1, 0.2, 0.3, 0.4], 3)[3]).toBe(100);
+      expect(relativeStrengthIndex([0.5, 0.5, 0.5, 0.5], 3)[3]).toBe(50);
+      expect(relativeStrengthIndex([0.1, 0.2], 3)).toEqual([null, null]);
+    });
+
+    it('should weigh gains against losses', () => {
+      // Gains of 0.02 and 0.04 against a loss of 0.01: RS = 6
+      const rsi = relativeStrengthIndex([0.5, 0.52, 0.51, 0.55], 3);
+      expect(rsi[3]).toBeCloseTo(100 - 100 / 7);
+    });
+  });
+
+  describe('realizedVolatility', () => {
+    it('should express moves per day whatever the spacing', () => {
+      // 1pp moves every 6 hours: 2pp per day
+      const points = [0, 1, 2, 3, 4].map(i => ({ timestamp: i * 6 * HOUR, price: 0.5 + (i % 2) * 0.01 }));
+      expect(realizedVolatility(points, 4)[4]).toBeCloseTo(0.02);
+
+      const daily = [0, 1, 2].map(i => ({ timestamp: i * DAY, price: 0.5 + (i % 2) * 0.02 }));
+      expect(realizedVolatility(daily, 2)[2]).toBeCloseTo(0.02);
+    });
+  });
+
+  describe('gaps', () => {
+    const points = [0, 1, 2, 10, 11].map(h => ({ timestamp: h * HOUR, price: 0.5 }));
+
+    it('should split where a gap lies between points', () => {
+      const segments = splitAtGaps(points, [{ from: 2 * HOUR, to: 10 * HOUR }]);
+      expect(segments.map(s => s.length)).toEqual([3, 2]);
+      expect(splitAtGaps(points, [])).toHaveLength(1);
+    });
+
+    it('should restart windows after a gap', () => {
+      const indicators = computeIndicators(points, [{ from: 2 * HOUR, to: 10 * HOUR }], {
+        sma: 2, ema: 2, bands: 2, rsi: 1, volatility: 1,
+      });
+      expect(indicators.map(i => i.sma)).toEqual([null, 0.5, 0.5, null, 0.5]);
+    });
+  });
+
+  describe('findLargeTrades', () => {
+    it('should keep the biggest trades over the threshold, oldest first', () => {
+      const trades = [
+        { timestamp: 3, price: 0.5, size: 10000 },
+        { timestamp: 1, price: 0.5, size: 4000 },
+        { timestamp: 2, price: 0.5, size: 100 },
+        { timestamp: 4, price: 0.9, size: 5000 },
+      ];
+      expect(findLargeTrades(trades, 1000, 2).map(t => t.timestamp)).toEqual([3, 4]);
+      expect(findLargeTrades(trades, 1000).map(t => t.timestamp)).toEqual([1, 3, 4]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeQuestion,
+  questionSimilarity,
+  sameResolutionSource,
+  matchMarketsAcrossVenues,
+} from '@/lib/math/matching';
+import { compareVenueMatches } from '@/lib/math/scanner';
+import { Market, Venue, DEFAULT_SCANNER_CONFIG } from '@/types';
+
+function createMarket(
+  id: string,
+  venue: Venue,
+  question: string,
+  yesPrice: number,
+  overrides: Partial<Market> = {}
+): Market {
+  return {
+    id,
+    venue,
+    question,
+    slug: id,
+    category: 'crypto',
+    endDate: '2026-12-31T00:00:00Z',
+    volume: 100000,
+    liquidity: 50000,
+    outcomes: [
+      { id: `${id}-yes`, name: 'Yes', price: yesPrice, priceChange24h: 0 },
+      { id: `${id}-no`, name: 'No', price: 1 - yesPrice, priceChange24h: 0 },
+    ],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    active: true,
+    closed: false,
+    resolved: false,
+    ...overrides,
+  };
+}
+
+describe('Cross-Venue Matching', () => {
+  describe('tokenizeQuestion', () => {
+    it('should drop filler words and normalize amounts and aliases', () => {
+      expect(tokenizeQuestion('Will BTC be above $150k by Dec 31?')).toEqual(['bitcoin', 'above', '150000', 'december', '31']);
+      expect(tokenizeQuestion('Will Bitcoin be above $150,000 by December 31?')).toEqual(['bitcoin', 'above', '150000', 'december', '31']);
+    });
+
+    it('should keep decimals and match plurals to their singular', () => {
+      expect(tokenizeQuestion('ETH above 2.5k in 2026?')).toEqual(['ethereum', 'above', '2500', '2026']);
+      expect(tokenizeQuestion('Rate cuts in March')).toEqual(tokenizeQuestion('rate cut in mar'));
+    });
+  });
+
+  describe('questionSimilarity', () => {
+    it('should score reworded questions highly', () => {
+      expect(questionSimilarity('Will BTC hit $150k in 2026?', 'Bitcoin hits $150,000 in 2026')).toBe(1);
+      expect(questionSimilarity('Will the Fed cut rates in December?', 'Fed rate cut in December 2026?')).toBeGreaterThan(0.7);
+    });
+
+    it('should score conflicting numbers as different questions', () => {
+      expect(questionSimilarity('Will BTC hit $150k in 2026?', 'Will BTC hit $200k in 2026?')).toBe(0);
+    });
+
+    it('should score unrelated questions low', () => {
+      expect(questionSimilarity('Will BTC hit $150k?', 'Will Brazil win the World Cup?')).toBeLessThan(0.3);
+      expect(questionSimilarity('', 'Anything')).toBe(0);
+    });
+  });
+
+  describe('sameResolutionSource', () => {
+    it('should compare sources by site', () => {
+      expect(sameResolutionSource('https://www.federalreserve.gov/a', 'https://federalreserve.gov/b')).toBe(true);
+      expect(sameResolutionSource('https://coinbase.com', 'https://binance.com')).toBe(false);
+      expect(sameResolutionSource('Official FOMC statement', 'official fomc statement ')).toBe(true);
+    });
+
+    it('should be unknown when either source is missing', () => {
+      expect(sameResolutionSource('https://coinbase.com', undefined)).toBeNull();
+      expect(sameResolutionSource('  ', 'https://coinbase.com')).toBeNull();
+    });
+  });
+
+  describe('matchMarketsAcrossVenues', () => {
+    it('should link the same question on different venues', () => {
+      const markets = [
+        createMarket('p1', 'polymarket', 'Will BTC hit $150k in 2026?', 0.3),
+        createMarket('p2', 'polymarket', 'Will Brazil win the 2026 World Cup?', 0.2),
+        createMarket('f1', 'fixture', 'Bitcoin hits $150,000 in 2026', 0.35, { endDate: '2027-01-01T00:00:00Z' }),
+      ];
+
+      const matches = matchMarketsAcrossVenues(markets);
+      expect(matches).toHaveLength(1);
+      expect(matches[0].markets.map(m => m.id)).toEqual(['p1', 'f1']);
+      expect(matches[0].endDateDiffDays).toBe(1);
+      expect(matches[0].score).toBeCloseTo(0.7 + 0.2 * (2 / 3) + 0.05);
+    });
+
+    it('should not link markets on one venue, far-apart end dates or closed markets', () => {
+      expect(matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will BTC hit $150k in 2026?', 0.3),
+        createMarket('p2', 'polymarket', 'Will BTC hit $150k in 2026?', 0.35),
+      ])).toEqual([]);
+
+      expect(matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will BTC hit $150k in 2026?', 0.3),
+        createMarket('f1', 'fixture', 'Will BTC hit $150k in 2026?', 0.35, { endDate: '2027-03-01T00:00:00Z' }),
+      ])).toEqual([]);
+
+      expect(matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will BTC hit $150k in 2026?', 0.3),
+        createMarket('f1', 'fixture', 'Will BTC hit $150k in 2026?', 1, { closed: true }),
+      ])).toEqual([]);
+    });
+
+    it('should link each market to its best counterpart only once', () => {
+      const matches = matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will BTC hit $150k in 2026?', 0.3, { resolutionSource: 'https://coinbase.com' }),
+        createMarket('f1', 'fixture', 'Will BTC hit $150k in 2026?', 0.35, { resolutionSource: 'https://binance.com' }),
+        createMarket('f2', 'fixture', 'Will BTC hit $150k in 2026?', 0.32, { resolutionSource: 'https://www.coinbase.com/price' }),
+      ]);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].markets.map(m => m.id)).toEqual(['p1', 'f2']);
+      expect(matches[0].sameResolutionSource).toBe(true);
+    });
+  });
+
+  describe('compareVenueMatches', () => {
+    it('should price gaps and flag arbitrage, largest gap first', () => {
+      const matches = matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will BTC hit $150k in 2026?', 0.3),
+        createMarket('f1', 'fixture', 'Will BTC hit $150k in 2026?', 0.305),
+        createMarket('p2', 'polymarket', 'Will the Fed cut rates in December?', 0.4),
+        createMarket('f2', 'fixture', 'Will the Fed cut rates in December?', 0.6),
+      ]);
+
+      const comparisons = compareVenueMatches(matches);
+      expect(comparisons.map(c => c.id)).toEqual(['polymarket:p2|fixture:f2', 'polymarket:p1|fixture:f1']);
+      expect(comparisons[0].priceGap).toBeCloseTo(-0.2);
+      expect(comparisons[0].flag?.ruleType).toBe('cross_venue_arbitrage');
+      expect(comparisons[1].flag).toBeNull();
+    });
+
+    it('should apply venue fees from the scanner config', () => {
+      const matches = matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will the Fed cut rates in December?', 0.4),
+        createMarket('f1', 'fixture', 'Will the Fed cut rates in December?', 0.45),
+      ]);
+
+      expect(compareVenueMatches(matches)[0].flag).not.toBeNull();
+      expect(compareVenueMatches(matches, { ...DEFAULT_SCANNER_CONFIG, venueFeeBps: { fixture: 1000 } })[0].flag).toBeNull();
+    });
+
+    it('should charge the default venue fees', () => {
+      const matches = matchMarketsAcrossVenues([
+        createMarket('p1', 'polymarket', 'Will the Fed cut rates in December?', 0.4),
+        createMarket('f1', 'fixture', 'Will the Fed cut rates in December?', 0.415),
+      ]);
+
+      // 40¢ + 58.5¢ is under $1 by 1.5%, but not once the fixtures' 1% fee is added
+      expect(compareVenueMatches(matches, { ...DEFAULT_SCANNER_CONFIG, venueFeeBps: {} })[0].flag).not.toBeNull();
+      expect(compareVenueMatches(matches)[0].flag).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFillCost,
+  calculateBundleEdge,
+  getBuyLevels,
+  getSellLevels,
+} from '@/lib/math/orderbook';
+import { Market, OrderbookMap } from '@/types';
+
+const market: Market = {
+  id: 'm1',
+  question: 'Will it happen?',
+  slug: 'm1',
+  category: 'crypto',
+  endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+  volume: 100000,
+  liquidity: 50000,
+  outcomes: [
+    { id: 'yes-token', name: 'Yes', price: 0.5, priceChange24h: 0 },
+    { id: 'no-token', name: 'No', price: 0.5, priceChange24h: 0 },
+  ],
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  active: true,
+  closed: false,
+  resolved: false,
+};
+
+describe('Orderbook Execution', () => {
+  describe('calculateFillCost', () => {
+    it('should walk levels and return the size-weighted price', () => {
+      const levels = [{ price: 0.5, size: 100 }, { price: 0.6, size: 100 }];
+      const fill = calculateFillCost(levels, 150);
+
+      expect(fill.filled).toBe(150);
+      expect(fill.cost).toBeCloseTo(80);
+      expect(fill.avgPrice).toBeCloseTo(80 / 150);
+    });
+
+    it('should report a partial fill when depth runs out', () => {
+      const fill = calculateFillCost([{ price: 0.5, size: 10 }], 50);
+      expect(fill.filled).toBe(10);
+    });
+  });
+
+  describe('getBuyLevels / getSellLevels', () => {
+    it('should prefer the token book and fall back to the complement', () => {
+      const orderbooks: OrderbookMap = {
+        'yes-token': { bids: [{ price: 0.48, size: 10 }], asks: [{ price: 0.52, size: 20 }] },
+      };
+
+      expect(getBuyLevels(orderbooks, market, 'YES')).toEqual([{ price: 0.52, size: 20 }]);
+      const noAsks = getBuyLevels(orderbooks, market, 'NO');
+      expect(noAsks?.[0].price).toBeCloseTo(0.52);
+      expect(noAsks?.[0].size).toBe(10);
+      expect(getSellLevels(orderbooks, market, 'NO')?.[0].price).toBeCloseTo(0.48);
+    });
+
+    it('should return null when neither book is available', () => {
+      expect(getBuyLevels({}, market, 'YES')).toBeNull();
+    });
+  });
+
+  describe('calculateBundleEdge', () => {
+    it('should stop growing once the marginal bundle loses money', () => {
+      const edge = calculateBundleEdge(
+        [
+          [{ price: 0.4, size: 100 }, { price: 0.6, size: 100 }],
+          [{ price: 0.5, size: 200 }],
+        ],
+        'buy',
+        1,
+        1000
+      );
+
+      expect(edge.maxSize).toBe(100);
+      expect(edge.maxProfit).toBeCloseTo(10);
+      // Target exceeds depth: filled what is there, losing on the second level
+      expect(edge.filledSize).toBe(200);
+      expect(edge.filledNotional).toBeCloseTo(200);
+      expect(edge.profit).toBeCloseTo(0);
+    });
+
+    it('should stop at the target notional', () => {
+      const edge = calculateBundleEdge([[{ price: 0.45, size: 1000 }], [{ price: 0.45, size: 1000 }]], 'buy', 1, 90);
+
+      expect(edge.filledSize).toBeCloseTo(100);
+      expect(edge.avgBundlePrice).toBeCloseTo(0.9);
+      expect(edge.profit).toBeCloseTo(10);
+    });
+
+    it('should treat sell bundles as proceeds minus payout', () => {
+      const edge = calculateBundleEdge([[{ price: 0.55, size: 50 }], [{ price: 0.5, size: 50 }]], 'sell', 1, 1000);
+
+      expect(edge.maxSize).toBe(50);
+      expect(edge.maxProfit).toBeCloseTo(2.5);
+    });
+  });
+});
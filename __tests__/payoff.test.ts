@@ -6,8 +6,16 @@ import {
   calculateOpportunityCost,
   generatePayoffCurve,
   generatePayoffSurface,
+  generateOutcomeScenarios,
+  generateOutcomePayoffs,
+  getOutcomeProbabilities,
+  createPosition,
+  analyzeStrategy,
+  MAX_ENUMERATED_SCENARIOS,
 } from '@/lib/math/payoff';
-import { Position, Market } from '@/types';
+import { calculateFill } from '@/lib/math/costs';
+import { convolvePayoffs } from '@/lib/math/risk';
+import { Position, Market, Strategy, OrderbookMap } from '@/types';
 
 // Mock market data
 const mockMarket: Market = {
@@ -29,6 +37,18 @@ const mockMarket: Market = {
   resolved: false,
 };
 
+// Categorical market with three candidates
+const categoricalMarket: Market = {
+  ...mockMarket,
+  id: 'nomination',
+  question: 'Who wins the nomination?',
+  outcomes: [
+    { id: 'alice', name: 'Alice', price: 0.5, priceChange24h: 0 },
+    { id: 'bob', name: 'Bob', price: 0.3, priceChange24h: 0 },
+    { id: 'carol', name: 'Carol', price: 0.2, priceChange24h: 0 },
+  ],
+};
+
 describe('Payoff Calculations', () => {
   describe('calculatePositionPayoff', () => {
     it('should calculate YES position payoff at final probability 1 (YES wins)', () => {
@@ -125,6 +145,24 @@ describe('Payoff Calculations', () => {
       const payoff = calculatePositionResolutionPayoff(position, 'NO');
       expect(payoff).toBeCloseTo(-100, 1);
     });
+
+    it('should settle legacy YES/NO positions on markets saved without outcomes', () => {
+      const position: Position = {
+        id: 'legacy',
+        market: { ...mockMarket, outcomes: [] },
+        side: 'NO',
+        stake: 100,
+        entryPrice: 0.6, // Legacy NO positions store the YES price
+        addedAt: Date.now(),
+      };
+
+      expect(calculatePositionResolutionPayoff(position, 'No')).toBeCloseTo(150, 1);
+      expect(calculatePositionResolutionPayoff(position, 'yes')).toBeCloseTo(-100, 1);
+      expect(generateOutcomePayoffs([position]).map(p => p.payoff)).toEqual([
+        expect.closeTo(-100, 1),
+        expect.closeTo(150, 1),
+      ]);
+    });
   });
 
   describe('applyTimeDiscount', () => {
@@ -222,4 +260,230 @@ describe('Payoff Calculations', () => {
       expect(surfaceLowRate.timeWeightedEV).toBeGreaterThan(surfaceHighRate.timeWeightedEV);
     });
   });
+
+  describe('categorical markets', () => {
+    it('should pay out only when the held outcome wins', () => {
+      const position = createPosition(categoricalMarket, 1, 100); // Bob @ 0.3
+
+      expect(position.outcomeId).toBe('bob');
+      expect(position.entryPrice).toBe(0.3);
+      expect(calculatePositionResolutionPayoff(position, 'bob')).toBeCloseTo(233.33, 1);
+      expect(calculatePositionResolutionPayoff(position, 'Bob')).toBeCloseTo(233.33, 1);
+      expect(calculatePositionResolutionPayoff(position, 'alice')).toBeCloseTo(-100, 1);
+      expect(calculatePositionResolutionPayoff(position, 'carol')).toBeCloseTo(-100, 1);
+    });
+
+    it('should treat a binary NO position created from the NO price correctly', () => {
+      const position = createPosition(mockMarket, 1, 100); // NO @ 0.4
+
+      expect(position.side).toBe('NO');
+      expect(calculatePositionResolutionPayoff(position, 'NO')).toBeCloseTo(150, 1);
+      expect(calculatePositionPayoff(position, 0)).toBeCloseTo(150, 1);
+    });
+
+    it('should be fair at current prices for a non-first outcome', () => {
+      const position = createPosition(categoricalMarket, 2, 100); // Carol @ 0.2
+
+      // With the first outcome at its market price, Carol keeps her market-implied odds
+      expect(calculatePositionPayoff(position, 0.5)).toBeCloseTo(0, 5);
+    });
+
+    it('should normalize categorical outcome probabilities', () => {
+      const probs = getOutcomeProbabilities({
+        ...categoricalMarket,
+        outcomes: categoricalMarket.outcomes.map(o => ({ ...o, price: o.price * 1.1 })),
+      });
+
+      expect(probs).toHaveLength(3);
+      expect(probs.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+      expect(probs[0]).toBeCloseTo(0.5, 10);
+    });
+
+    it('should enumerate real outcome sets instead of 2^n YES/NO', () => {
+      const positions = [
+        createPosition(categoricalMarket, 0, 100),
+        createPosition(mockMarket, 0, 100),
+      ];
+
+      const scenarios = generateOutcomeScenarios(positions);
+
+      expect(scenarios).toHaveLength(6); // 3 candidates x 2 binary outcomes
+      expect(scenarios.reduce((sum, s) => sum + s.probability, 0)).toBeCloseTo(1, 10);
+      expect(new Set(scenarios.map(s => s.outcomes['nomination']))).toEqual(
+        new Set(['Alice', 'Bob', 'Carol'])
+      );
+    });
+
+    it('should report payoffs for every outcome of a held market', () => {
+      const payoffs = generateOutcomePayoffs([createPosition(categoricalMarket, 0, 100)]);
+
+      expect(payoffs.map(p => p.outcomeName)).toEqual(['Alice', 'Bob', 'Carol']);
+      expect(payoffs[0].payoff).toBeCloseTo(100, 1);
+      expect(payoffs[1].payoff).toBeCloseTo(-100, 1);
+    });
+  });
+
+  describe('trading costs', () => {
+    const orderbooks: OrderbookMap = {
+      yes: { bids: [], asks: [{ price: 0.62, size: 100 }, { price: 0.65, size: 1000 }] },
+    };
+
+    function strategyWithCosts(): Strategy {
+      return {
+        id: 'costs',
+        name: 'Costs',
+        positions: [createPosition(mockMarket, 0, 100)],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        discountRate: 0.1,
+        costModel: { takerFeeBps: 100, gasPerTrade: 1, useOrderbookSlippage: true },
+      };
+    }
+
+    it('should walk the asks and charge fees and gas', () => {
+      const fill = calculateFill(100, 0.6, strategyWithCosts().costModel, orderbooks.yes.asks);
+      const shares = 100 + 38 / 0.65;
+
+      expect(fill.shares).toBeCloseTo(shares);
+      expect(fill.fees).toBeCloseTo(1);
+      expect(fill.gas).toBe(1);
+      expect(fill.totalCost).toBeCloseTo(102);
+      expect(fill.slippage).toBeCloseTo(100 - shares * 0.6);
+    });
+
+    it('should fill any remainder beyond the book at the worst level', () => {
+      const fill = calculateFill(100, 0.5, undefined, [{ price: 0.5, size: 100 }, { price: 0.6, size: 50 }]);
+      expect(fill.shares).toBeCloseTo(100 + 50 + 20 / 0.6);
+    });
+
+    it('should reduce max profit and raise break-even in the analysis', () => {
+      const withCosts = analyzeStrategy(strategyWithCosts(), orderbooks);
+      const withoutCosts = analyzeStrategy({ ...strategyWithCosts(), costModel: undefined });
+      const shares = 100 + 38 / 0.65;
+
+      expect(withoutCosts.maxProfit).toBeCloseTo(66.67, 1);
+      expect(withoutCosts.costs.total).toBeCloseTo(0);
+      expect(withCosts.maxProfit).toBeCloseTo(shares - 102);
+      expect(withCosts.maxLoss).toBeCloseTo(-102);
+      expect(withCosts.breakEvenProbability).toBeCloseTo(102 / shares, 3);
+      expect(withCosts.expectedPayoff).toBeLessThan(withoutCosts.expectedPayoff);
+    });
+
+    it('should ignore orderbooks when slippage is disabled', () => {
+      const strategy = strategyWithCosts();
+      strategy.costModel = { takerFeeBps: 0, gasPerTrade: 0, useOrderbookSlippage: false };
+
+      const analysis = analyzeStrategy(strategy, orderbooks);
+      expect(analysis.maxProfit).toBeCloseTo(66.67, 1);
+    });
+  });
+
+  describe('correlated scenarios', () => {
+    const otherMarket: Market = { ...mockMarket, id: 'other-market', question: 'Other Market' };
+
+    function basket(correlation: number): Strategy {
+      return {
+        id: 'basket',
+        name: 'Basket',
+        positions: [createPosition(mockMarket, 0, 100), createPosition(otherMarket, 0, 100)],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        discountRate: 0.1,
+        correlations: [{ marketIdA: mockMarket.id, marketIdB: otherMarket.id, correlation }],
+      };
+    }
+
+    it('should keep exact independent probabilities without correlations', () => {
+      const analysis = analyzeStrategy(basket(0));
+      const bothLose = analysis.scenarios.find(
+        s => s.outcomes[mockMarket.id] === 'No' && s.outcomes[otherMarket.id] === 'No'
+      );
+
+      expect(bothLose?.probability).toBeCloseTo(0.16);
+      expect(analysis.payoffDistribution.method).toBe('exact');
+    });
+
+    it('should fatten the joint loss tail under positive correlation', () => {
+      const independent = analyzeStrategy(basket(0));
+      const correlated = analyzeStrategy(basket(0.9));
+      const bothLose = correlated.scenarios.find(
+        s => s.outcomes[mockMarket.id] === 'No' && s.outcomes[otherMarket.id] === 'No'
+      );
+
+      expect(correlated.payoffDistribution.method).toBe('monte_carlo');
+      expect(bothLose?.probability).toBeGreaterThan(0.3);
+      expect(correlated.payoffDistribution.stdDev)
+        .toBeGreaterThan(independent.payoffDistribution.stdDev);
+      expect(correlated.payoffDistribution.expectedShortfall).toBeCloseTo(200);
+      // Marginals are unchanged, so expected payoff barely moves
+      expect(correlated.expectedPayoff).toBeCloseTo(independent.expectedPayoff, -1);
+    });
+  });
+
+  describe('large books', () => {
+    function book(size: number): Strategy {
+      const positions = Array.from({ length: size }, (_, i) =>
+        createPosition({ ...mockMarket, id: `market-${i}`, question: `Market ${i}` }, i % 2, 100)
+      );
+      return {
+        id: 'book',
+        name: 'Book',
+        positions,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        discountRate: 0.1,
+      };
+    }
+
+    it('should analyze 50 positions without enumerating scenarios', () => {
+      const analysis = analyzeStrategy(book(50));
+      const small = analyzeStrategy(book(2));
+
+      expect(analysis.scenarioCount).toBe(2 ** 50);
+      expect(analysis.scenarios).toHaveLength(0);
+      expect(analysis.payoffDistribution.method).toBe('convolution');
+      // Every pair of markets contributes the same as the two-market book
+      expect(analysis.expectedPayoff).toBeCloseTo(small.expectedPayoff * 25);
+      expect(analysis.maxProfit).toBeCloseTo(small.maxProfit * 25);
+      expect(analysis.maxLoss).toBeCloseTo(-5000);
+    });
+
+    it('should keep the convolved distribution on a bounded grid', () => {
+      const coin = { payoffs: [-100, 100], probabilities: [0.5, 0.5] };
+      // 50 two-outcome markets: one point per number of winners, not 2^50
+      expect(convolvePayoffs(Array(50).fill(coin))).toHaveLength(51);
+      expect(convolvePayoffs(Array(50).fill(coin), 16).length).toBeLessThanOrEqual(16);
+    });
+
+    it('should match the enumerated distribution when convolving', () => {
+      const exact = analyzeStrategy(book(12));
+      const convolved = analyzeStrategy(book(13));
+
+      expect(exact.scenarios.length).toBeLessThanOrEqual(MAX_ENUMERATED_SCENARIOS);
+      expect(convolved.scenarioCount).toBeGreaterThan(MAX_ENUMERATED_SCENARIOS);
+
+      // Same moments as enumerating, up to grid rounding
+      const scenarios = generateOutcomeScenarios(book(13).positions);
+      const mean = scenarios.reduce((sum, s) => sum + s.payoff * s.probability, 0);
+      const variance = scenarios.reduce((sum, s) => sum + s.probability * (s.payoff - mean) ** 2, 0);
+      const lossProbability = scenarios
+        .filter(s => s.payoff < 0)
+        .reduce((sum, s) => sum + s.probability, 0);
+
+      expect(convolved.payoffDistribution.mean).toBeCloseTo(mean, 0);
+      expect(convolved.payoffDistribution.stdDev).toBeCloseTo(Math.sqrt(variance), 0);
+      expect(convolved.payoffDistribution.probabilityOfLoss).toBeCloseTo(lossProbability, 2);
+    });
+
+    it('should sample correlated books too large to enumerate', () => {
+      const strategy = book(20);
+      const analysis = analyzeStrategy({
+        ...strategy,
+        correlations: [{ marketIdA: 'market-0', marketIdB: 'market-1', correlation: 0.5 }],
+      });
+
+      expect(analysis.payoffDistribution.method).toBe('monte_carlo');
+      expect(analysis.payoffDistribution.mean).toBeCloseTo(analysis.expectedPayoff, -1);
+    });
+  });
 });
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  markPosition,
+  markStrategy,
+  createRealizedTrade,
+  appendPnlSnapshot,
+  calculateDrawdown,
+  getHeldTokenId,
+  getSettledOutcome,
+  settleStrategyMarket,
+} from '@/lib/math/pnl';
+import { createPosition } from '@/lib/math/payoff';
+import { Market, Strategy, PnlSnapshot } from '@/types';
+
+const market: Market = {
+  id: 'pnl-market',
+  question: 'Will it happen?',
+  slug: 'will-it-happen',
+  category: 'politics',
+  endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+  volume: 100000,
+  liquidity: 50000,
+  outcomes: [
+    { id: 'yes-token', name: 'Yes', price: 0.4, priceChange24h: 0 },
+    { id: 'no-token', name: 'No', price: 0.6, priceChange24h: 0 },
+  ],
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  active: true,
+  closed: false,
+  resolved: false,
+};
+
+function snapshot(timestamp: number, unrealizedPnl: number, realizedPnl = 0): PnlSnapshot {
+  return { timestamp, marketValue: 0, unrealizedPnl, realizedPnl };
+}
+
+describe('Mark-to-Market P&L', () => {
+  describe('markPosition', () => {
+    it('should revalue the held token at its exit price', () => {
+      const position = createPosition(market, 0, 100); // 250 shares at 0.40
+      const mark = markPosition(position, { 'yes-token': 0.5 });
+
+      expect(mark.isLive).toBe(true);
+      expect(mark.marketValue).toBeCloseTo(125);
+      expect(mark.unrealizedPnl).toBeCloseTo(25);
+      expect(mark.unrealizedPnlPercent).toBeCloseTo(25);
+    });
+
+    it('should price NO positions from the NO token', () => {
+      const position = createPosition(market, 1, 60); // 100 shares at 0.60
+      expect(getHeldTokenId(position)).toBe('no-token');
+      expect(markPosition(position, { 'no-token': 0.5 }).unrealizedPnl).toBeCloseTo(-10);
+    });
+
+    it('should fall back to the stored price without a live quote', () => {
+      const mark = markPosition(createPosition(market, 0, 100), {});
+      expect(mark.isLive).toBe(false);
+      expect(mark.unrealizedPnl).toBeCloseTo(0);
+    });
+
+    it('should include fees in the cost basis', () => {
+      const position = createPosition(market, 0, 100);
+      const mark = markPosition(position, { 'yes-token': 0.4 }, {
+        takerFeeBps: 100,
+        gasPerTrade: 0,
+        useOrderbookSlippage: false,
+      });
+      expect(mark.unrealizedPnl).toBeCloseTo(-1);
+    });
+  });
+
+  describe('markStrategy', () => {
+    it('should split realized and unrealized P&L', () => {
+      const closed = createPosition(market, 1, 60);
+      const trade = createRealizedTrade(closed, 0.7, undefined, 'trade-1', Date.now());
+      const strategy: Strategy = {
+        id: 's',
+        name: 'S',
+        positions: [createPosition(market, 0, 100)],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        discountRate: 0.1,
+        realizedTrades: [trade],
+      };
+
+      const mark = markStrategy(strategy, { 'yes-token': 0.5 });
+
+      expect(trade.pnl).toBeCloseTo(10);
+      expect(mark.unrealizedPnl).toBeCloseTo(25);
+      expect(mark.realizedPnl).toBeCloseTo(10);
+      expect(mark.totalPnl).toBeCloseTo(35);
+    });
+  });
+
+  describe('appendPnlSnapshot', () => {
+    it('should skip snapshots closer than the interval', () => {
+      const history = [snapshot(0, 1)];
+      expect(appendPnlSnapshot(history, snapshot(1000, 2), 5000)).toBe(history);
+      expect(appendPnlSnapshot(history, snapshot(6000, 2), 5000)).toHaveLength(2);
+    });
+
+    it('should trim the oldest snapshots', () => {
+      const history = [snapshot(0, 1), snapshot(10, 2)];
+      const next = appendPnlSnapshot(history, snapshot(20, 3), 5, 2);
+      expect(next.map(s => s.timestamp)).toEqual([10, 20]);
+    });
+  });
+
+  describe('calculateDrawdown', () => {
+    it('should measure the largest fall from a running peak', () => {
+      const drawdown = calculateDrawdown([
+        snapshot(0, 10),
+        snapshot(1, 30),
+        snapshot(2, 5),
+        snapshot(3, 20, 5),
+      ]);
+
+      expect(drawdown.peakPnl).toBe(30);
+      expect(drawdown.maxDrawdown).toBe(25);
+      expect(drawdown.currentDrawdown).toBe(5);
+    });
+
+    it('should be zero without history', () => {
+      expect(calculateDrawdown([])).toEqual({ peakPnl: 0, maxDrawdown: 0, currentDrawdown: 0 });
+    });
+  });
+
+  describe('settlement', () => {
+    const otherMarket: Market = { ...market, id: 'other-market', question: 'Other?' };
+
+    function holdings(): Strategy {
+      return {
+        id: 's',
+        name: 'S',
+        positions: [
+          createPosition(market, 0, 100), // 250 YES shares at 0.40
+          createPosition(market, 1, 60), // 100 NO shares at 0.60
+          createPosition(otherMarket, 0, 40),
+        ],
+        createdAt: 0,
+        updatedAt: 0,
+        discountRate: 0.1,
+      };
+    }
+
+    it('should only report an outcome once a market has closed', () => {
+      expect(getSettledOutcome({ marketId: 'm', closed: false, resolved: false, resolutionOutcome: 'Yes' })).toBeNull();
+      expect(getSettledOutcome({ marketId: 'm', closed: true, resolved: false })).toBeNull();
+      expect(getSettledOutcome({ marketId: 'm', closed: true, resolved: true, resolutionOutcome: 'Yes' })).toBe('Yes');
+    });
+
+    it('should move resolved positions to the realized ledger', () => {
+      const settled = settleStrategyMarket(holdings(), market.id, 'Yes', 1000);
+
+      expect(settled.positions.map(p => p.market.id)).toEqual([otherMarket.id]);
+      expect(settled.realizedTrades).toHaveLength(2);
+
+      const [yes, no] = settled.realizedTrades!;
+      expect(yes.reason).toBe('settled');
+      expect(yes.exitPrice).toBe(1);
+      expect(yes.pnl).toBeCloseTo(150);
+      expect(no.exitPrice).toBe(0);
+      expect(no.pnl).toBeCloseTo(-60);
+      expect(yes.entryProbability).toBeCloseTo(0.4);
+
+      expect(settled.resolutions).toEqual([
+        { marketId: market.id, marketQuestion: market.question, outcome: 'Yes', resolvedAt: 1000 },
+      ]);
+    });
+
+    it('should leave strategies without the market untouched', () => {
+      const strategy = holdings();
+      const settled = settleStrategyMarket(strategy, market.id, 'No', 1000);
+      expect(settleStrategyMarket(settled, market.id, 'No', 2000)).toBe(settled);
+    });
+  });
+});
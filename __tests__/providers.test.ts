@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  parseCsv,
+  loadMarketFixture,
+  searchFixtureMarkets,
+  createFixtureProvider,
+  groupFixtureEvents,
+  formatMarketRef,
+  parseMarketRef,
+  matchesMarketRef,
+  getMarketByRef,
+  getMarketDataProvider,
+  getMarketDataProviders,
+  getProviderForMarket,
+  getOrderbooksForMarkets,
+  getDataMode,
+  polymarketProvider,
+} from '@/lib/providers';
+
+const fixtureDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-fixture-'));
+
+const outcomes = (id: string, yes: number) => [
+  { id: `${id}_yes`, name: 'Yes', price: yes },
+  { id: `${id}_no`, name: 'No', price: 1 - yes },
+];
+
+beforeAll(() => {
+  writeFileSync(path.join(fixtureDir, 'markets.json'), JSON.stringify([
+    { id: 'rates', question: 'Will rates be cut?', endDate: '2027-01-01', volume: 500, category: 'economy', outcomes: outcomes('rates', 0.6) },
+    { id: 'btc', slug: 'btc-200k', question: 'Will BTC hit $200k?', endDate: '2027-01-01', volume: 900, category: 'crypto', outcomes: outcomes('btc', 0.1) },
+    { id: 'old', question: 'Did rates rise?', endDate: '2025-01-01', volume: 5000, closed: true, outcomes: outcomes('old', 1) },
+  ]));
+  writeFileSync(path.join(fixtureDir, 'orderbooks.json'), JSON.stringify({
+    rates_yes: {
+      bids: [{ price: '0.58', size: '10' }, { price: '0.59', size: '5' }, { price: '0.5', size: '0' }],
+      asks: [{ price: 0.62, size: 7 }, { price: 0.61, size: 3 }],
+    },
+  }));
+  writeFileSync(path.join(fixtureDir, 'history.csv'), [
+    'token_id,timestamp,price',
+    'rates_yes,2026-01-02T00:00:00Z,0.55',
+    'rates_yes,1767225600,0.5',
+    'rates_yes,1767398400000,0.6',
+    'rates_yes,2026-01-04T00:00:00Z,1.5',
+  ].join('\n'));
+  writeFileSync(path.join(fixtureDir, 'trades.csv'), [
+    'token_id,id,timestamp,price,size,side',
+    'rates_yes,t1,2026-01-01T00:00:00Z,0.5,100,buy',
+    'rates_yes,t2,2026-01-03T00:00:00Z,0.6,40,SELL',
+    'rates_yes,t3,2026-01-02T00:00:00Z,0.55,10,buy',
+  ].join('\r\n'));
+});
+
+afterAll(() => {
+  rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+describe('Market Data Providers', () => {
+  describe('parseCsv', () => {
+    it('should key rows by the header', () => {
+      expect(parseCsv('a,b\n1,2\n\n3,4\n')).toEqual([{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+    });
+
+    it('should handle quoted fields', () => {
+      expect(parseCsv('name,note\r\n"Smith, J","said ""hi""\nthen left"')).toEqual([
+        { name: 'Smith, J', note: 'said "hi"\nthen left' },
+      ]);
+    });
+
+    it('should fill missing columns with empty strings', () => {
+      expect(parseCsv('a,b,c\n1')).toEqual([{ a: '1', b: '', c: '' }]);
+      expect(parseCsv('')).toEqual([]);
+    });
+  });
+
+  describe('loadMarketFixture', () => {
+    it('should fill defaults and mark markets as fixtures', async () => {
+      const fixture = await loadMarketFixture(fixtureDir, Date.parse('2026-01-05T00:00:00Z'));
+      expect(fixture.markets[0]).toMatchObject({
+        id: 'rates',
+        slug: 'rates',
+        venue: 'fixture',
+        liquidity: 0,
+        active: true,
+        closed: false,
+        createdAt: '2026-01-05T00:00:00.000Z',
+      });
+      expect(fixture.markets[0].outcomes[0]).toEqual({ id: 'rates_yes', name: 'Yes', price: 0.6, priceChange24h: 0 });
+    });
+
+    it('should sort books and series and drop bad rows', async () => {
+      const fixture = await loadMarketFixture(fixtureDir);
+      expect(fixture.orderbooks.rates_yes).toEqual({
+        bids: [{ price: 0.59, size: 5 }, { price: 0.58, size: 10 }],
+        asks: [{ price: 0.61, size: 3 }, { price: 0.62, size: 7 }],
+      });
+      expect(fixture.history.rates_yes.map(p => p.price)).toEqual([0.5, 0.55, 0.6]);
+      expect(fixture.trades.rates_yes.map(t => t.id)).toEqual(['t2', 't3', 't1']);
+      expect(fixture.trades.rates_yes[0].side).toBe('sell');
+    });
+
+    it('should reject a directory without markets or with a malformed market', async () => {
+      const empty = mkdtempSync(path.join(tmpdir(), 'pulseforge-fixture-'));
+      try {
+        await expect(loadMarketFixture(empty)).rejects.toThrow('No markets.json');
+        writeFileSync(path.join(empty, 'markets.json'), JSON.stringify([{ id: 'x', question: 'No outcomes?' }]));
+        await expect(loadMarketFixture(empty)).rejects.toThrow();
+      } finally {
+        rmSync(empty, { recursive: true, force: true });
+      }
+    });
+
+    it('should load the bundled sample', async () => {
+      const fixture = await loadMarketFixture(path.join(process.cwd(), 'fixtures', 'sample'));
+      expect(fixture.markets.length).toBeGreaterThan(0);
+      fixture.markets.forEach(market => {
+        expect(market.venue).toBe('fixture');
+        expect(market.outcomes.length).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe('searchFixtureMarkets', () => {
+    it('should list open markets by volume and page them', async () => {
+      const { markets } = await loadMarketFixture(fixtureDir);
+      const page = searchFixtureMarkets(markets, { limit: 1 });
+      expect(page.markets.map(m => m.id)).toEqual(['btc']);
+      expect(page).toMatchObject({ total: 2, hasMore: true });
+
+      expect(searchFixtureMarkets(markets, { sortOrder: 'asc' }).markets.map(m => m.id)).toEqual(['rates', 'btc']);
+    });
+
+    it('should filter by query and category', async () => {
+      const { markets } = await loadMarketFixture(fixtureDir);
+      expect(searchFixtureMarkets(markets, { query: 'RATES' }).markets.map(m => m.id)).toEqual(['rates']);
+      expect(searchFixtureMarkets(markets, { category: 'crypto' }).markets.map(m => m.id)).toEqual(['btc']);
+      expect(searchFixtureMarkets(markets, { category: 'all' }).total).toBe(2);
+    });
+  });
+
+  describe('createFixtureProvider', () => {
+    const provider = createFixtureProvider(fixtureDir);
+
+    it('should serve markets by id or slug', async () => {
+      expect((await provider.getMarket('btc'))?.question).toBe('Will BTC hit $200k?');
+      expect((await provider.getMarket('btc-200k'))?.id).toBe('btc');
+      expect(await provider.getMarket('missing')).toBeNull();
+
+      const result = await provider.listMarkets({ query: 'btc' });
+      expect(result.markets).toHaveLength(1);
+      expect(result.meta.source).toEqual(['fixture']);
+    });
+
+    it('should serve history within the window, books and trades', async () => {
+      const history = await provider.getPriceHistory(
+        'rates_yes', Date.parse('2026-01-01T12:00:00Z'), Date.parse('2026-01-03T00:00:00Z'), 60
+      );
+      expect(history.map(p => p.price)).toEqual([0.55, 0.6]);
+
+      expect(Object.keys(await provider.getOrderbooks(['rates_yes', 'btc_yes']))).toEqual(['rates_yes']);
+      expect(await provider.getRecentTrades('rates_yes', 2)).toHaveLength(2);
+      expect(await provider.getRecentTrades('btc_yes')).toEqual([]);
+    });
+
+    it('should price tokens from the book, or the listed price without one', async () => {
+      expect(await provider.getCurrentPrices(['rates_yes', 'btc_yes', 'missing'])).toEqual({ rates_yes: 0.61, btc_yes: 0.1 });
+      expect(await provider.getCurrentPrices(['rates_yes'], 'sell')).toEqual({ rates_yes: 0.59 });
+    });
+
+    it('should list each open market as an event, most traded first', async () => {
+      const { events, hasMore } = await provider.listEvents();
+      expect(events.map(e => e.slug)).toEqual(['btc-200k', 'rates']);
+      expect(events[0]).toMatchObject({ title: 'Will BTC hit $200k?', volume: 900, mutuallyExclusive: false });
+      expect(hasMore).toBe(false);
+
+      expect((await provider.listEvents({ query: 'rates', limit: 1 })).events.map(e => e.slug)).toEqual(['rates']);
+      expect((await provider.getEvent('rates'))?.markets.map(m => m.id)).toEqual(['rates']);
+      expect(await provider.getEvent('missing')).toBeNull();
+    });
+
+    it('should group markets sharing an event slug', async () => {
+      const { markets } = await provider.listMarkets();
+      const events = groupFixtureEvents(markets.map(m => ({ ...m, eventSlug: 'rates-and-btc' })));
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ slug: 'rates-and-btc', title: 'Rates And Btc', volume: 1400 });
+    });
+
+    it('should have no live stream', () => {
+      expect(provider.getStream()).toBeNull();
+      expect(provider.getDataMode()).toBe('fixture');
+    });
+  });
+
+  describe('selection', () => {
+    afterEach(() => {
+      delete process.env.MARKET_DATA_PROVIDER;
+      delete process.env.MARKET_DATA_FIXTURES;
+    });
+
+    it('should use Polymarket unless fixtures are configured', () => {
+      expect(getMarketDataProvider()).toBe(polymarketProvider);
+      expect(getDataMode()).toBe('live');
+
+      process.env.MARKET_DATA_PROVIDER = 'fixture';
+      process.env.MARKET_DATA_FIXTURES = fixtureDir;
+      expect(getMarketDataProvider().venue).toBe('fixture');
+      expect(getDataMode()).toBe('fixture');
+    });
+
+    it('should reject an unknown provider', () => {
+      process.env.MARKET_DATA_PROVIDER = 'kalshi';
+      expect(() => getMarketDataProvider()).toThrow('Invalid MARKET_DATA_PROVIDER');
+    });
+
+    it('should pick the provider a market came from', () => {
+      process.env.MARKET_DATA_PROVIDER = 'fixture';
+      expect(getProviderForMarket({})).toBe(polymarketProvider);
+      expect(getProviderForMarket({ venue: 'fixture' }).venue).toBe('fixture');
+    });
+
+    it('should find markets by venue-qualified id', async () => {
+      process.env.MARKET_DATA_FIXTURES = fixtureDir;
+      expect(parseMarketRef('fixture:rates')).toEqual({ venue: 'fixture', id: 'rates' });
+      expect(parseMarketRef('12345')).toEqual({ venue: null, id: '12345' });
+      expect(parseMarketRef('kalshi:rates')).toEqual({ venue: null, id: 'kalshi:rates' });
+      expect(formatMarketRef({ id: 'rates', venue: 'fixture' })).toBe('fixture:rates');
+      expect(formatMarketRef({ id: '12345' })).toBe('polymarket:12345');
+      expect(matchesMarketRef('fixture:rates', { id: 'rates', venue: 'fixture' })).toBe(true);
+      expect(matchesMarketRef('fixture:rates', { id: 'rates' })).toBe(false);
+      expect(matchesMarketRef('rates', { id: 'rates', venue: 'fixture' })).toBe(true);
+
+      expect((await getMarketByRef('fixture:rates'))?.venue).toBe('fixture');
+      process.env.MARKET_DATA_PROVIDER = 'fixture';
+      expect((await getMarketByRef('btc-200k'))?.id).toBe('btc');
+    });
+
+    it('should only offer fixtures when the directory has markets', () => {
+      process.env.MARKET_DATA_FIXTURES = path.join(fixtureDir, 'missing');
+      expect(getMarketDataProviders().map(p => p.venue)).toEqual(['polymarket']);
+
+      process.env.MARKET_DATA_FIXTURES = fixtureDir;
+      expect(getMarketDataProviders().map(p => p.venue)).toEqual(['polymarket', 'fixture']);
+    });
+
+    it('should fetch books from each market\'s venue', async () => {
+      process.env.MARKET_DATA_FIXTURES = fixtureDir;
+      const rates = await getMarketDataProvider('fixture').getMarket('rates');
+      const books = await getOrderbooksForMarkets([rates!]);
+      expect(Object.keys(books)).toEqual(['rates_yes']);
+    });
+  });
+});
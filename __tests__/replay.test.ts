@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  createReplayClock,
+  getRequestKey,
+  findRecordedExchange,
+  createReplayFetch,
+  createReplayWebSocket,
+  createMarketDataRecorder,
+  createRecordingFetch,
+  loadRecording,
+  installDataSource,
+} from '@/lib/replay';
+import { fetchOrderbook, getDataMode, setDataSource } from '@/lib/polymarket/client';
+import {
+  PolymarketWebSocketClient,
+  WebSocketMessage,
+  setWebSocketClientOptions,
+} from '@/lib/polymarket/websocket';
+import { MarketDataRecording } from '@/types';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-replay-'));
+
+const BOOK_URL = 'https://clob.polymarket.com/book?token_id=1';
+
+const recording: MarketDataRecording = {
+  name: 'test',
+  startedAt: 1_000_000,
+  endedAt: 1_010_000,
+  http: [
+    { at: 0, url: BOOK_URL, status: 200, contentType: 'application/json', body: '{"bids":[{"price":"0.4","size":"10"}],"asks":[]}' },
+    { at: 5000, url: BOOK_URL, status: 200, contentType: 'application/json', body: '{"bids":[{"price":"0.45","size":"10"}],"asks":[]}' },
+  ],
+  messages: [
+    { at: 1000, data: '{"type":"price","token_id":"1","price":"0.41"}' },
+    { at: 4000, data: '{"type":"price","token_id":"1","price":"0.42"}' },
+    { at: 10000, data: '{"type":"price","token_id":"1","price":"0.43"}' },
+  ],
+};
+
+describe('Market Data Replay', () => {
+  describe('createReplayClock', () => {
+    it('should move through the recording at the given speed and loop', () => {
+      let now = 0;
+      const clock = createReplayClock(10000, { speed: 10, now: () => now });
+      now = 500;
+      expect(clock.position()).toBe(5000);
+      now = 1000;
+      expect(clock.position()).toBe(10000);
+      // One second of recorded time between loops
+      now = 1150;
+      expect(clock.position()).toBe(500);
+    });
+
+    it('should stop at the end without looping', () => {
+      let now = 0;
+      const clock = createReplayClock(10000, { speed: 2, loop: false, now: () => now });
+      now = 60000;
+      expect(clock.position()).toBe(10000);
+    });
+  });
+
+  describe('matching requests', () => {
+    it('should ignore query order and time bounds', () => {
+      expect(getRequestKey('https://clob.polymarket.com/prices-history?market=1&startTs=5&fidelity=60&endTs=9'))
+        .toBe(getRequestKey('https://clob.polymarket.com/prices-history?fidelity=60&endTs=20&market=1&startTs=10'));
+      expect(getRequestKey(BOOK_URL)).not.toBe(getRequestKey('https://clob.polymarket.com/book?token_id=2'));
+    });
+
+    it('should pick the latest response recorded by the clock position', () => {
+      expect(findRecordedExchange(recording.http, BOOK_URL, 6000)?.at).toBe(5000);
+      expect(findRecordedExchange(recording.http, BOOK_URL, 1000)?.at).toBe(0);
+      expect(findRecordedExchange(recording.http, 'https://clob.polymarket.com/book?token_id=2', 1000)).toBeNull();
+    });
+  });
+
+  describe('createReplayFetch', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setDataSource(null);
+      vi.restoreAllMocks();
+    });
+
+    it('should answer the client from the recording', async () => {
+      const clock = { ...createReplayClock(10000), position: () => 6000 };
+      setDataSource({ mode: 'replay', fetch: createReplayFetch(recording, clock) });
+
+      expect(getDataMode()).toBe('replay');
+      expect(await fetchOrderbook('1')).toEqual({ bids: [{ price: '0.45', size: '10' }], asks: [] });
+    });
+
+    it('should answer requests it never saw with a 404', async () => {
+      const replayFetch = createReplayFetch(recording, createReplayClock(10000));
+      const response = await replayFetch('https://clob.polymarket.com/book?token_id=2', {});
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('createReplayWebSocket', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should play frames from the clock position at the replay speed', async () => {
+      let now = 0;
+      const clock = createReplayClock(10000, { speed: 2, now: () => now });
+      const Replay = createReplayWebSocket(recording, clock);
+
+      now = 1000; // 2s into the recording
+      const socket = new Replay('ws://replay');
+      const frames: unknown[] = [];
+      socket.onmessage = (event) => frames.push(event.data);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(socket.readyState).toBe(1);
+      expect(frames).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(frames).toEqual([recording.messages[1].data]);
+
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(frames).toHaveLength(2);
+
+      // Closes as a server restart when the loop comes round, after the gap
+      const closes: { code: number }[] = [];
+      socket.onclose = (event) => closes.push(event);
+      await vi.advanceTimersByTimeAsync(499);
+      expect(socket.readyState).toBe(1);
+      await vi.advanceTimersByTimeAsync(2);
+      expect(socket.readyState).toBe(3);
+      expect(closes).toMatchObject([{ code: 1012 }]);
+      expect(frames).toHaveLength(2);
+    });
+
+    it('should drive the WebSocket client', async () => {
+      const clock = createReplayClock(10000, { speed: 1 });
+      const client = new PolymarketWebSocketClient({ WebSocketImpl: createReplayWebSocket(recording, clock) });
+      const messages: WebSocketMessage[] = [];
+      client.subscribePrice('1', message => messages.push(message));
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.isConnected()).toBe(true);
+      expect(messages).toMatchObject([{ type: 'price', data: { token_id: '1', price: '0.41' } }]);
+
+      client.disconnect();
+    });
+
+    it('should keep the WebSocket client live across loops', async () => {
+      const stamped: MarketDataRecording = {
+        ...recording,
+        messages: [
+          { at: 1000, data: '{"type":"price","token_id":"1","price":"0.41","seq":1,"timestamp":1001000}' },
+          { at: 4000, data: '{"type":"price","token_id":"1","price":"0.42","seq":2,"timestamp":1004000}' },
+        ],
+      };
+      const clock = createReplayClock(10000, { speed: 1 });
+      const client = new PolymarketWebSocketClient({
+        WebSocketImpl: createReplayWebSocket(stamped, clock),
+        fetchPrice: async () => null,
+      });
+      const prices: unknown[] = [];
+      client.subscribePrice('1', message => {
+        if (message.type === 'price') prices.push(message.data.price);
+      });
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(prices).toEqual(['0.41', '0.42']);
+
+      // Second pass replays the same sequence numbers and timestamps
+      await vi.advanceTimersByTimeAsync(11000);
+      expect(client.isConnected()).toBe(true);
+      expect(client.getStatus()).toMatchObject({ state: 'open', reconnectAttempt: 0 });
+      expect(prices).toEqual(['0.41', '0.42', '0.41', '0.42']);
+
+      client.disconnect();
+    });
+  });
+
+  describe('recording', () => {
+    beforeEach(() => {
+      process.env.PULSEFORGE_DATA_DIR = dataDir;
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setDataSource(null);
+      setWebSocketClientOptions({});
+      delete process.env.PULSEFORGE_DATA_DIR;
+      vi.restoreAllMocks();
+    });
+
+    afterAll(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should save responses and frames with their offsets', async () => {
+      let now = 5000;
+      const recorder = createMarketDataRecorder('session', () => now);
+      const recordingFetch = createRecordingFetch(recorder, async () => new Response('{"ok":true}', {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      }));
+
+      now = 5200;
+      const response = await recordingFetch(BOOK_URL, {});
+      expect(await response.json()).toEqual({ ok: true });
+      now = 5500;
+      recorder.recordMessage('{"type":"price"}');
+      await recorder.stop();
+
+      const saved = await loadRecording('session');
+      expect(saved).toMatchObject({
+        name: 'session',
+        startedAt: 5000,
+        endedAt: 5500,
+        http: [{ at: 200, url: BOOK_URL, status: 200, body: '{"ok":true}' }],
+        messages: [{ at: 500, data: '{"type":"price"}' }],
+      });
+    });
+
+    it('should install a saved recording for replay', async () => {
+      const recorder = createMarketDataRecorder('replayable');
+      recorder.recordHttp(BOOK_URL, 200, 'application/json', '{"bids":[],"asks":[{"price":"0.6","size":"1"}]}');
+      await recorder.stop();
+
+      const mode = await installDataSource({ POLYMARKET_DATA_MODE: 'replay', POLYMARKET_RECORDING: 'replayable' });
+      expect(mode).toBe('replay');
+      expect(await fetchOrderbook('1')).toEqual({ bids: [], asks: [{ price: '0.6', size: '1' }] });
+    });
+
+    it('should refuse a missing recording or an unknown mode', async () => {
+      await expect(installDataSource({ POLYMARKET_DATA_MODE: 'replay', POLYMARKET_RECORDING: 'missing' }))
+        .rejects.toThrow('No recording named "missing"');
+      await expect(installDataSource({ POLYMARKET_DATA_MODE: 'fake' }))
+        .rejects.toThrow('Invalid POLYMARKET_DATA_MODE');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTailRisk,
+  bucketPayoffs,
+  calculatePayoffDistribution,
+  convolvePayoffs,
+} from '@/lib/math/risk';
+
+const outcomes = [
+  { payoff: -100, probability: 0.04 },
+  { payoff: 0, probability: 0.06 },
+  { payoff: 50, probability: 0.9 },
+];
+
+describe('Tail Risk', () => {
+  describe('calculateTailRisk', () => {
+    it('should cut the tail at exactly (1 - confidence) mass', () => {
+      const { valueAtRisk, expectedShortfall } = calculateTailRisk(outcomes, 0.95);
+
+      expect(valueAtRisk).toBeCloseTo(0);
+      // 0.04 of -100 and 0.01 of 0 in a 5% tail
+      expect(expectedShortfall).toBeCloseTo(80);
+    });
+
+    it('should report the loss quantile at higher confidence', () => {
+      const { valueAtRisk, expectedShortfall } = calculateTailRisk(outcomes, 0.99);
+
+      expect(valueAtRisk).toBe(100);
+      expect(expectedShortfall).toBeCloseTo(100);
+    });
+  });
+
+  describe('bucketPayoffs', () => {
+    it('should spread probability across equal-width buckets', () => {
+      const buckets = bucketPayoffs(outcomes, 3);
+
+      expect(buckets).toHaveLength(3);
+      expect(buckets[0].probability).toBeCloseTo(0.04);
+      expect(buckets[1].probability).toBe(0);
+      // A payoff on a boundary falls into the bucket above it
+      expect(buckets[2].probability).toBeCloseTo(0.96);
+      expect(buckets.reduce((sum, b) => sum + b.probability, 0)).toBeCloseTo(1);
+    });
+  });
+
+  describe('calculatePayoffDistribution', () => {
+    it('should compute moments and loss probability', () => {
+      const distribution = calculatePayoffDistribution(outcomes);
+      const mean = -4 + 45;
+
+      expect(distribution.mean).toBeCloseTo(mean);
+      expect(distribution.probabilityOfLoss).toBeCloseTo(0.04);
+      expect(distribution.stdDev).toBeGreaterThan(0);
+      expect(distribution.method).toBe('exact');
+    });
+
+    it('should handle an empty distribution', () => {
+      const distribution = calculatePayoffDistribution([]);
+      expect(distribution.buckets).toHaveLength(0);
+      expect(distribution.valueAtRisk).toBe(0);
+    });
+  });
+
+  describe('convolvePayoffs', () => {
+    it('should sum independent payoffs', () => {
+      const coin = { payoffs: [-1, 1], probabilities: [0.5, 0.5] };
+      const sum = convolvePayoffs([coin, coin], 3);
+
+      expect(sum.map(o => o.payoff)).toEqual([-2, 0, 2]);
+      expect(sum.map(o => o.probability)).toEqual([0.25, 0.5, 0.25]);
+    });
+
+    it('should collapse constant payoffs to one point', () => {
+      const sum = convolvePayoffs([{ payoffs: [5, 5], probabilities: [0.3, 0.7] }]);
+      expect(sum).toEqual([{ payoff: 5, probability: 1 }]);
+    });
+  });
+});
@@ -3,11 +3,12 @@ import {
   checkSumToOne,
   checkThresholdConsistency,
   checkArbitrageBundles,
+  checkCrossVenueArbitrage,
   scanCluster,
   detectClusterType,
   extractThresholds,
 } from '@/lib/math/scanner';
-import { Market, MarketCluster, DEFAULT_SCANNER_CONFIG } from '@/types';
+import { Market, MarketCluster, OrderbookMap, DEFAULT_SCANNER_CONFIG } from '@/types';
 
 // Helper to create mock markets
 function createMockMarket(
@@ -147,6 +148,162 @@ describe('Scanner Logic', () => {
     });
   });
 
+  describe('orderbook execution', () => {
+    function underpricedMarket(): Market {
+      const market = createMockMarket('m1', 'Underpriced', 0.45);
+      market.outcomes[1].price = 0.45; // YES + NO = 0.90 at mid
+      return market;
+    }
+
+    it('should report executable profit and max size from the books', () => {
+      const orderbooks: OrderbookMap = {
+        'm1-yes': { bids: [], asks: [{ price: 0.46, size: 100 }, { price: 0.5, size: 200 }] },
+        'm1-no': { bids: [], asks: [{ price: 0.47, size: 150 }, { price: 0.55, size: 100 }] },
+      };
+
+      const flag = checkArbitrageBundles([underpricedMarket()], 0.01, {
+        orderbooks,
+        targetNotional: 100,
+      });
+
+      expect(flag?.executable?.filledNotional).toBeCloseTo(100);
+      expect(flag?.executable?.maxSize).toBe(150);
+      expect(flag?.executable?.maxProfit).toBeCloseTo(8.5);
+      expect(flag?.potentialProfit).toBeCloseTo(7 + 0.03 * (7 / 0.97));
+    });
+
+    it('should drop arbitrage that disappears once the spread is crossed', () => {
+      const orderbooks: OrderbookMap = {
+        'm1-yes': { bids: [], asks: [{ price: 0.52, size: 100 }] },
+        'm1-no': { bids: [], asks: [{ price: 0.5, size: 100 }] },
+      };
+
+      const flag = checkArbitrageBundles([underpricedMarket()], 0.01, {
+        orderbooks,
+        targetNotional: 100,
+      });
+      expect(flag).toBeNull();
+    });
+
+    it('should fall back to mid prices when books are missing', () => {
+      const flag = checkArbitrageBundles([underpricedMarket()], 0.01, {
+        orderbooks: {},
+        targetNotional: 100,
+      });
+
+      expect(flag).not.toBeNull();
+      expect(flag?.executable).toBeUndefined();
+    });
+
+    it('should price threshold violations as YES lower plus NO higher', () => {
+      const markets = [
+        createMockMarket('m1', 'BTC > 50k', 0.4),
+        createMockMarket('m2', 'BTC > 100k', 0.6),
+      ];
+      const orderbooks: OrderbookMap = {
+        'm1-yes': { bids: [], asks: [{ price: 0.42, size: 50 }] },
+        // NO on the higher threshold is taken from the YES bids
+        'm2-yes': { bids: [{ price: 0.58, size: 80 }], asks: [] },
+      };
+
+      const flag = checkThresholdConsistency(
+        markets,
+        [{ marketId: 'm1', value: 50000 }, { marketId: 'm2', value: 100000 }],
+        0.02,
+        { orderbooks, targetNotional: 1000 }
+      );
+
+      expect(flag?.executable?.maxSize).toBe(50);
+      expect(flag?.executable?.avgBundlePrice).toBeCloseTo(0.84);
+      expect(flag?.potentialProfit).toBeCloseTo(50 * 0.16);
+    });
+
+    it('should use bids when selling an overpriced sum-to-one cluster', () => {
+      const markets = [
+        createMockMarket('m1', 'Outcome A', 0.6),
+        createMockMarket('m2', 'Outcome B', 0.5),
+      ];
+      const orderbooks: OrderbookMap = {
+        'm1-yes': { bids: [{ price: 0.58, size: 100 }], asks: [] },
+        'm2-yes': { bids: [{ price: 0.48, size: 100 }], asks: [] },
+      };
+
+      const flag = checkSumToOne(markets, 0.05, { orderbooks, targetNotional: 1000 });
+
+      expect(flag?.executable?.maxSize).toBe(100);
+      expect(flag?.executable?.maxProfit).toBeCloseTo(6);
+    });
+  });
+
+  describe('checkCrossVenueArbitrage', () => {
+    function venuePair(): Market[] {
+      const polymarket = createMockMarket('m1', 'Will BTC hit 150k?', 0.45);
+      const fixture = { ...createMockMarket('m2', 'Will Bitcoin hit $150,000?', 0.5), venue: 'fixture' as const };
+      return [polymarket, fixture];
+    }
+
+    it('should flag YES on one venue plus NO on the other below $1', () => {
+      const flag = checkCrossVenueArbitrage(venuePair(), 0.01);
+
+      expect(flag?.ruleType).toBe('cross_venue_arbitrage');
+      expect(flag?.suggestedTrades.map(t => [t.marketId, t.side])).toEqual([['m1', 'YES'], ['m2', 'NO']]);
+      expect(flag?.potentialProfit).toBeCloseTo((0.05 / 0.95) * 100);
+    });
+
+    it('should net out venue fees', () => {
+      const flag = checkCrossVenueArbitrage(venuePair(), 0.01, { polymarket: 200, fixture: 400 });
+      const cost = 0.45 * 1.02 + 0.5 * 1.04;
+      expect(flag?.potentialProfit).toBeCloseTo(((1 - cost) / cost) * 100);
+
+      expect(checkCrossVenueArbitrage(venuePair(), 0.01, { fixture: 1000 })).toBeNull();
+    });
+
+    it('should not pair markets on the same venue', () => {
+      const markets = [
+        createMockMarket('m1', 'Will BTC hit 150k?', 0.45),
+        createMockMarket('m2', 'Will Bitcoin hit $150,000?', 0.5),
+      ];
+      expect(checkCrossVenueArbitrage(markets, 0.01)).toBeNull();
+    });
+
+    it('should only pair markets that ask the same question', () => {
+      const [polymarket] = venuePair();
+      const unrelated = { ...createMockMarket('m2', 'Will Brazil win the World Cup?', 0.5), venue: 'fixture' as const };
+      expect(checkCrossVenueArbitrage([polymarket, unrelated], 0.01)).toBeNull();
+
+      const [, fixture] = venuePair();
+      const strict = { minQuestionSimilarity: 0.6, maxEndDateDiffDays: 3, minScore: 0.99 };
+      const resolvesLater = { ...fixture, endDate: new Date(Date.parse(fixture.endDate) + 2 * 24 * 60 * 60 * 1000).toISOString() };
+      expect(checkCrossVenueArbitrage([polymarket, resolvesLater], 0.01)).not.toBeNull();
+      expect(checkCrossVenueArbitrage([polymarket, resolvesLater], 0.01, {}, undefined, strict)).toBeNull();
+    });
+
+    it('should take confidence from the match score', () => {
+      const [polymarket, fixture] = venuePair();
+      expect(checkCrossVenueArbitrage([polymarket, fixture], 0.01)?.confidence).toBe(Math.round(80 * 0.95));
+
+      const sameSource = [
+        { ...polymarket, resolutionSource: 'https://coinbase.com' },
+        { ...fixture, resolutionSource: 'https://www.coinbase.com/price' },
+      ];
+      expect(checkCrossVenueArbitrage(sameSource, 0.01)?.confidence).toBe(80);
+    });
+
+    it('should size the trade from both venues\' books', () => {
+      const orderbooks: OrderbookMap = {
+        'm1-yes': { bids: [], asks: [{ price: 0.46, size: 100 }] },
+        'm2-no': { bids: [], asks: [{ price: 0.5, size: 60 }] },
+      };
+
+      const flag = checkCrossVenueArbitrage(venuePair(), 0.01, {}, { orderbooks, targetNotional: 1000 });
+      expect(flag?.executable?.maxSize).toBe(60);
+      expect(flag?.executable?.maxProfit).toBeCloseTo(60 * 0.04);
+
+      orderbooks['m2-no'] = { bids: [], asks: [{ price: 0.55, size: 60 }] };
+      expect(checkCrossVenueArbitrage(venuePair(), 0.01, {}, { orderbooks, targetNotional: 1000 })).toBeNull();
+    });
+  });
+
   describe('scanCluster', () => {
     it('should run all enabled checks', () => {
       const markets = [
@@ -0,0 +1,85 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFileUserDataStore, createSerialQueue } from '@/lib/storage';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-storage-'));
+
+describe('Storage', () => {
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('createFileUserDataStore', () => {
+    const store = createFileUserDataStore(dataDir);
+
+    it('should return null for a missing document', async () => {
+      expect(await store.get('user1', 'research')).toBeNull();
+    });
+
+    it('should round-trip a document with its update time', async () => {
+      const saved = await store.put('user1', 'drafts', [{ id: 'd1' }]);
+      const loaded = await store.get('user1', 'drafts');
+
+      expect(loaded).toEqual(saved);
+      expect(loaded?.value).toEqual([{ id: 'd1' }]);
+      expect(loaded?.updatedAt).toBeGreaterThan(0);
+      expect(existsSync(path.join(dataDir, 'users', 'user1', 'drafts.json'))).toBe(true);
+    });
+
+    it('should keep users separate', async () => {
+      await store.put('user1', 'settings', { compactView: true });
+      await store.put('user2', 'settings', { compactView: false });
+
+      expect((await store.get('user1', 'settings'))?.value).toEqual({ compactView: true });
+      expect((await store.get('user2', 'settings'))?.value).toEqual({ compactView: false });
+    });
+
+    it('should delete a document', async () => {
+      await store.put('user1', 'strategies', { strategies: [] });
+      await store.delete('user1', 'strategies');
+
+      expect(await store.get('user1', 'strategies')).toBeNull();
+    });
+
+    it('should reject user ids that could escape the data directory', async () => {
+      expect(() => store.get('../etc', 'settings')).toThrow('Invalid owner id');
+      expect(() => store.put('a/b', 'settings', {})).toThrow('Invalid owner id');
+    });
+
+    it('should apply concurrent writes in order', async () => {
+      await Promise.all([1, 2, 3].map(n => store.put('user3', 'research', n)));
+
+      expect((await store.get('user3', 'research'))?.value).toBe(3);
+    });
+  });
+
+  describe('createSerialQueue', () => {
+    it('should run tasks for the same key one at a time', async () => {
+      const enqueue = createSerialQueue();
+      const events: string[] = [];
+      const task = (name: string, delay: number) => () =>
+        new Promise<void>(resolve => {
+          events.push(`${name} start`);
+          setTimeout(() => {
+            events.push(`${name} end`);
+            resolve();
+          }, delay);
+        });
+
+      await Promise.all([enqueue('k', task('a', 20)), enqueue('k', task('b', 0))]);
+
+      expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+    });
+
+    it('should keep running after a task fails', async () => {
+      const enqueue = createSerialQueue();
+      const failed = enqueue('k', () => Promise.reject(new Error('boom')));
+      const next = enqueue('k', () => Promise.resolve('ok'));
+
+      await expect(failed).rejects.toThrow('boom');
+      expect(await next).toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { normalizeStreamMessage, formatSseEvent } from '@/lib/stream/events';
+import { MarketStreamHub, StreamUpstream } from '@/lib/stream/hub';
+import {
+  MarketStreamClient,
+  EventSourceLike,
+  StreamConnectionStatus,
+  StreamUpdateEvent,
+  buildStreamUrl,
+  getStreamConnectionState,
+} from '@/lib/stream/client';
+import type { WebSocketMessage } from '@/lib/polymarket/websocket';
+import { StreamEvent } from '@/types';
+
+type Callback = (message: WebSocketMessage) => void;
+
+// In-memory upstream that records subscriptions and lets tests push messages
+class FakeUpstream implements StreamUpstream {
+  subscriptions = new Map<string, Set<Callback>>();
+  connectionListeners = new Set<(connected: boolean) => void>();
+  connected = false;
+
+  private add(key: string, callback: Callback) {
+    if (!this.subscriptions.has(key)) this.subscriptions.set(key, new Set());
+    this.subscriptions.get(key)!.add(callback);
+    return () => {
+      this.subscriptions.get(key)?.delete(callback);
+      if (this.subscriptions.get(key)?.size === 0) this.subscriptions.delete(key);
+    };
+  }
+
+  subscribePrice(tokenId: string, callback: Callback) {
+    return this.add(`price:${tokenId}`, callback);
+  }
+
+  subscribeOrderbook(tokenId: string, callback: Callback) {
+    return this.add(`orderbook:${tokenId}`, callback);
+  }
+
+  onConnectionChange(listener: (connected: boolean) => void) {
+    this.connectionListeners.add(listener);
+    return () => this.connectionListeners.delete(listener);
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  // Like the real client, trades go to every channel of the token
+  emit(message: WebSocketMessage, tokenId: string) {
+    this.subscriptions.forEach((callbacks, key) => {
+      if (key.endsWith(`:${tokenId}`)) callbacks.forEach(cb => cb(message));
+    });
+  }
+
+  setConnected(connected: boolean) {
+    this.connected = connected;
+    this.connectionListeners.forEach(listener => listener(connected));
+  }
+}
+
+// In-memory EventSource that lets tests open it and push named events
+class FakeEventSource implements EventSourceLike {
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  listeners = new Map<string, ((event: MessageEvent) => void)[]>();
+
+  constructor(public url: string) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.readyState = 2;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({} as Event);
+  }
+
+  send(event: StreamEvent) {
+    this.listeners.get(event.type)?.forEach(l => l({ data: JSON.stringify(event) } as MessageEvent));
+  }
+}
+
+const priceMessage = (tokenId: string, price: string): WebSocketMessage => ({
+  type: 'price',
+  data: { token_id: tokenId, price, timestamp: 1000 },
+});
+
+const tradeMessage = (tokenId: string): WebSocketMessage => ({
+  type: 'trade',
+  data: { token_id: tokenId, price: '0.6', size: '50', side: 'buy', timestamp: 2000 },
+});
+
+describe('Market Stream', () => {
+  describe('normalizeStreamMessage', () => {
+    it('should parse prices and drop invalid ones', () => {
+      expect(normalizeStreamMessage(priceMessage('1', '0.42'))).toEqual({
+        type: 'price', tokenId: '1', price: 0.42, side: undefined, timestamp: 1000,
+      });
+      expect(normalizeStreamMessage(priceMessage('1', '1.5'))).toBeNull();
+    });
+
+    it('should parse orderbook levels and trades', () => {
+      const book = normalizeStreamMessage({
+        type: 'orderbook',
+        data: { token_id: '1', bids: [{ price: '0.4', size: '10' }], asks: [{ price: '0.5', size: '0' }] },
+      }, 5000);
+      expect(book).toEqual({
+        type: 'orderbook', tokenId: '1', bids: [{ price: 0.4, size: 10 }], asks: [{ price: 0.5, size: 0 }], timestamp: 5000,
+      });
+
+      expect(normalizeStreamMessage(tradeMessage('1'))).toMatchObject({ type: 'trade', price: 0.6, size: 50, side: 'buy' });
+    });
+
+    it('should ignore control messages', () => {
+      expect(normalizeStreamMessage({ type: 'error', message: 'oops' })).toBeNull();
+    });
+  });
+
+  it('should encode named SSE frames', () => {
+    expect(formatSseEvent({ type: 'status', connected: true, available: true }))
+      .toBe('event: status\ndata: {"type":"status","connected":true,"available":true}\n\n');
+  });
+
+  describe('MarketStreamHub', () => {
+    it('should share one upstream subscription between clients', () => {
+      const upstream = new FakeUpstream();
+      const hub = new MarketStreamHub(upstream);
+      const a: StreamEvent[] = [];
+      const b: StreamEvent[] = [];
+
+      const stopA = hub.subscribe(['1'], ['price'], e => a.push(e));
+      const stopB = hub.subscribe(['1', '2'], ['price'], e => b.push(e));
+      expect(upstream.subscriptions.get('price:1')?.size).toBe(1);
+      expect(hub.getStats()).toEqual({ clients: 2, upstreamSubscriptions: 2 });
+
+      upstream.emit(priceMessage('1', '0.5'), '1');
+      upstream.emit(priceMessage('2', '0.7'), '2');
+      expect(a).toHaveLength(1);
+      expect(b).toHaveLength(2);
+
+      stopA();
+      expect(upstream.subscriptions.has('price:1')).toBe(true);
+      stopB();
+      expect(upstream.subscriptions.size).toBe(0);
+      expect(hub.getStats()).toEqual({ clients: 0, upstreamSubscriptions: 0 });
+    });
+
+    it('should deliver each trade once, only to trade subscribers', () => {
+      const upstream = new FakeUpstream();
+      const hub = new MarketStreamHub(upstream);
+      const trades: StreamEvent[] = [];
+      const books: StreamEvent[] = [];
+
+      hub.subscribe(['1'], ['trades', 'orderbook'], e => trades.push(e));
+      hub.subscribe(['1'], ['orderbook'], e => books.push(e));
+      upstream.emit(tradeMessage('1'), '1');
+
+      expect(trades.filter(e => e.type === 'trade')).toHaveLength(1);
+      expect(books).toHaveLength(0);
+    });
+
+    it('should keep the price upstream while trades are still wanted', () => {
+      const upstream = new FakeUpstream();
+      const hub = new MarketStreamHub(upstream);
+      const stopPrice = hub.subscribe(['1'], ['price'], () => {});
+      hub.subscribe(['1'], ['trades'], () => {});
+
+      stopPrice();
+      expect(upstream.subscriptions.has('price:1')).toBe(true);
+    });
+
+    it('should tell every client when the upstream connection changes', () => {
+      const upstream = new FakeUpstream();
+      const hub = new MarketStreamHub(upstream);
+      const events: StreamEvent[] = [];
+      hub.subscribe(['1'], ['price'], e => events.push(e));
+
+      upstream.setConnected(true);
+      expect(events).toEqual([{ type: 'status', connected: true, available: true }]);
+    });
+
+    it('should report unavailable without an upstream', () => {
+      const hub = new MarketStreamHub(null);
+      hub.subscribe(['1'], ['price'], () => {});
+      expect(hub.getStatus()).toEqual({ type: 'status', connected: false, available: false });
+    });
+  });
+  describe('MarketStreamClient', () => {
+    let sources: FakeEventSource[];
+    let client: MarketStreamClient;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      sources = [];
+      client = new MarketStreamClient(url => {
+        const source = new FakeEventSource(url);
+        sources.push(source);
+        return source;
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const price = (tokenId: string, value: number): StreamUpdateEvent => ({
+      type: 'price', tokenId, price: value, timestamp: 1000,
+    });
+
+    it('should open one stream for the union of subscriptions', () => {
+      client.subscribe({ tokenIds: ['2', '1'], channels: ['price'] });
+      client.subscribe({ tokenIds: ['1'], channels: ['orderbook'] });
+      client.subscribe({ tokenIds: [], channels: [] });
+      vi.runAllTimers();
+
+      expect(sources.map(s => s.url)).toEqual(['/api/stream?tokens=1,2&channels=orderbook,price']);
+    });
+
+    it('should leave out tokens the stream cannot carry', () => {
+      expect(buildStreamUrl([{ tokenIds: ['fx_yes', '7'], channels: ['price'] }])).toBe('/api/stream?tokens=7&channels=price');
+      expect(buildStreamUrl([{ tokenIds: [], channels: [] }])).toBe('/api/stream?channels=price');
+    });
+
+    it('should deliver events only to matching subscriptions', () => {
+      const prices: StreamUpdateEvent[] = [];
+      const books: StreamUpdateEvent[] = [];
+      client.subscribe({ tokenIds: ['1'], channels: ['price'], onEvent: e => prices.push(e) });
+      client.subscribe({ tokenIds: ['2'], channels: ['orderbook'], onEvent: e => books.push(e) });
+      vi.runAllTimers();
+      sources[0].open();
+
+      sources[0].send(price('1', 0.4));
+      sources[0].send(price('2', 0.6));
+      expect(prices).toEqual([price('1', 0.4)]);
+      expect(books).toEqual([]);
+    });
+
+    it('should keep the old stream until its replacement opens', () => {
+      const prices: number[] = [];
+      client.subscribe({ tokenIds: ['1'], channels: ['price'], onEvent: e => e.type === 'price' && prices.push(e.price) });
+      vi.runAllTimers();
+      sources[0].open();
+
+      const unsubscribe = client.subscribe({ tokenIds: ['2'], channels: ['price'] });
+      vi.runAllTimers();
+      expect(sources).toHaveLength(2);
+
+      sources[0].send(price('1', 0.4));
+      sources[1].open();
+      expect(sources[0].readyState).toBe(2);
+      sources[0].send(price('1', 0.5));
+      sources[1].send(price('1', 0.6));
+      expect(prices).toEqual([0.4, 0.6]);
+
+      unsubscribe();
+      vi.runAllTimers();
+      expect(sources[2].url).toBe('/api/stream?tokens=1&channels=price');
+    });
+
+    it('should report the connection from the stream and its upstream', () => {
+      const statuses: StreamConnectionStatus[] = [];
+      const unsubscribe = client.subscribe({ tokenIds: [], channels: [], onStatus: s => statuses.push(s) });
+      vi.runAllTimers();
+      expect(client.getStatus().state).toBe('connecting');
+
+      sources[0].open();
+      sources[0].send({ type: 'status', connected: true, available: true });
+      expect(statuses[statuses.length - 1].state).toBe('open');
+      expect(statuses[statuses.length - 1].lastOpenedAt).not.toBeNull();
+
+      unsubscribe();
+      vi.runAllTimers();
+      expect(sources[0].readyState).toBe(2);
+      expect(client.getStatus().state).toBe('closed');
+    });
+
+    it('should map stream and upstream states', () => {
+      const up = { type: 'status' as const, connected: false, available: true };
+      expect(getStreamConnectionState(0, null, false)).toBe('connecting');
+      expect(getStreamConnectionState(0, null, true)).toBe('reconnecting');
+      expect(getStreamConnectionState(1, up, true)).toBe('reconnecting');
+      expect(getStreamConnectionState(1, { ...up, available: false }, true)).toBe('unavailable');
+      expect(getStreamConnectionState(2, up, true)).toBe('closed');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getColumnValue,
+  formatColumnValue,
+  sortWatchlistRows,
+  filterWatchlistRows,
+  WatchlistRow,
+} from '@/lib/watchlists';
+import { Market } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2026, 0, 1);
+
+function market(id: string, overrides: Partial<Market> = {}, yes = 0.5): Market {
+  return {
+    id,
+    question: `Market ${id}?`,
+    slug: id,
+    category: 'politics',
+    endDate: new Date(now + 10 * DAY).toISOString(),
+    volume: 100000,
+    liquidity: 50000,
+    outcomes: [
+      { id: `${id}-yes`, name: 'Yes', price: yes, priceChange24h: 0 },
+      { id: `${id}-no`, name: 'No', price: 1 - yes, priceChange24h: 0 },
+    ],
+    createdAt: new Date(now).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+    active: true,
+    closed: false,
+    resolved: false,
+    ...overrides,
+  };
+}
+
+describe('Watchlist columns', () => {
+  describe('getColumnValue', () => {
+    it('should prefer the live price over the fetched one', () => {
+      const row: WatchlistRow = { market: market('a', {}, 0.4) };
+
+      expect(getColumnValue(row, 'price', now)).toBe(0.4);
+      expect(getColumnValue({ ...row, livePrice: 0.45 }, 'price', now)).toBe(0.45);
+    });
+
+    it('should derive spread and days left', () => {
+      const row: WatchlistRow = { market: market('a', { bestBid: 0.48, bestAsk: 0.52 }) };
+
+      expect(getColumnValue(row, 'spread', now)).toBeCloseTo(0.04);
+      expect(getColumnValue(row, 'daysLeft', now)).toBeCloseTo(10);
+      expect(getColumnValue({ market: market('b') }, 'spread', now)).toBeNull();
+    });
+
+    it('should read the change columns', () => {
+      const row: WatchlistRow = { market: market('a', { priceChange1h: 0.01, priceChange7d: -0.05 }) };
+
+      expect(getColumnValue(row, 'change1h', now)).toBe(0.01);
+      expect(getColumnValue(row, 'change7d', now)).toBe(-0.05);
+      expect(formatColumnValue('change7d', -0.05)).toBe('-5.0%');
+      expect(formatColumnValue('change1h', null)).toBe('—');
+    });
+  });
+
+  describe('sortWatchlistRows', () => {
+    const rows: WatchlistRow[] = [
+      { market: market('a', { liquidity: 200 }) },
+      { market: market('b', { liquidity: 900, bestBid: 0.4, bestAsk: 0.5 }) },
+      { market: market('c', { liquidity: 500, bestBid: 0.45, bestAsk: 0.47 }) },
+    ];
+
+    it('should sort by a column in either direction', () => {
+      const desc = sortWatchlistRows(rows, { column: 'liquidity', direction: 'desc' }, now);
+      const asc = sortWatchlistRows(rows, { column: 'liquidity', direction: 'asc' }, now);
+
+      expect(desc.map(r => r.market.id)).toEqual(['b', 'c', 'a']);
+      expect(asc.map(r => r.market.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should keep rows without a value last', () => {
+      for (const direction of ['asc', 'desc'] as const) {
+        const sorted = sortWatchlistRows(rows, { column: 'spread', direction }, now);
+        expect(sorted[2].market.id).toBe('a');
+      }
+    });
+
+    it('should leave rows in order without a sort', () => {
+      expect(sortWatchlistRows(rows, undefined, now)).toBe(rows);
+    });
+  });
+
+  describe('filterWatchlistRows', () => {
+    const rows: WatchlistRow[] = [
+      { market: market('a', {}, 0.2) },
+      { market: market('b', {}, 0.5) },
+      { market: market('c', { endDate: new Date(now + 2 * DAY).toISOString() }, 0.8) },
+    ];
+
+    it('should keep rows within every filter', () => {
+      const filtered = filterWatchlistRows(rows, [{ column: 'price', min: 0.3 }, { column: 'daysLeft', max: 5 }], now);
+      expect(filtered.map(r => r.market.id)).toEqual(['c']);
+    });
+
+    it('should drop rows without a value for a filtered column', () => {
+      expect(filterWatchlistRows(rows, [{ column: 'spread', max: 1 }], now)).toEqual([]);
+    });
+
+    it('should ignore filters without bounds', () => {
+      expect(filterWatchlistRows(rows, [{ column: 'price' }], now)).toBe(rows);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import {
+  PolymarketWebSocketClient,
+  WebSocketConstructor,
+  WebSocketMessage,
+  ConnectionState,
+  getReconnectDelay,
+  checkSequence,
+} from '@/lib/polymarket/websocket';
+
+// Local stand-in for the Polymarket socket that records what clients send
+interface MockServer {
+  wss: WebSocketServer;
+  port: number;
+  received: { type: string; channel?: string; token_id?: string }[];
+  broadcast: (message: object) => void;
+  dropClients: () => void;
+  close: () => Promise<void>;
+}
+
+function startServer(port = 0): Promise<MockServer> {
+  return new Promise((resolve) => {
+    const wss = new WebSocketServer({ host: '127.0.0.1', port });
+    const received: MockServer['received'] = [];
+
+    wss.on('connection', (socket) => {
+      socket.on('message', (data) => received.push(JSON.parse(String(data))));
+    });
+
+    wss.on('listening', () => {
+      resolve({
+        wss,
+        port: (wss.address() as AddressInfo).port,
+        received,
+        broadcast: (message) => wss.clients.forEach(socket => socket.send(JSON.stringify(message))),
+        dropClients: () => wss.clients.forEach(socket => socket.terminate()),
+        close: () => new Promise((done) => {
+          wss.clients.forEach(socket => socket.terminate());
+          wss.close(() => done());
+        }),
+      });
+    });
+  });
+}
+
+async function waitFor(condition: () => boolean, timeout = 3000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+const subscribes = (server: MockServer) => server.received.filter(m => m.type === 'subscribe');
+
+describe('PolymarketWebSocketClient', () => {
+  describe('getReconnectDelay', () => {
+    it('should back off exponentially up to the cap', () => {
+      const top = () => 1;
+      expect(getReconnectDelay(1, 1000, 30000, top)).toBe(1000);
+      expect(getReconnectDelay(3, 1000, 30000, top)).toBe(4000);
+      expect(getReconnectDelay(50, 1000, 30000, top)).toBe(30000);
+    });
+
+    it('should jitter within the upper half of the window', () => {
+      expect(getReconnectDelay(3, 1000, 30000, () => 0)).toBe(2000);
+      const delay = getReconnectDelay(3, 1000, 30000);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    });
+  });
+
+  describe('checkSequence', () => {
+    it('should tell the next message from a skipped or repeated one', () => {
+      expect(checkSequence(undefined, 7)).toBe('ok');
+      expect(checkSequence(7, 8)).toBe('ok');
+      expect(checkSequence(7, 10)).toBe('gap');
+      expect(checkSequence(7, 7)).toBe('stale');
+      expect(checkSequence(7, 3)).toBe('stale');
+    });
+  });
+
+  describe('against a mock server', () => {
+    let server: MockServer;
+    let client: PolymarketWebSocketClient;
+    let fetchOrderbook: ReturnType<typeof vi.fn>;
+    let fetchPrice: ReturnType<typeof vi.fn>;
+
+    const createClient = (port: number) => new PolymarketWebSocketClient({
+      url: `ws://127.0.0.1:${port}`,
+      WebSocketImpl: WebSocket as unknown as WebSocketConstructor,
+      baseReconnectDelay: 10,
+      maxReconnectDelay: 40,
+      fetchOrderbook,
+      fetchPrice,
+    });
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      fetchOrderbook = vi.fn(async () => ({ bids: [{ price: '0.4', size: '5' }], asks: [] }));
+      fetchPrice = vi.fn(async () => 0.55);
+      server = await startServer();
+      client = createClient(server.port);
+    });
+
+    afterEach(async () => {
+      client.disconnect();
+      await server.close();
+      vi.restoreAllMocks();
+    });
+
+    it('should resubscribe and resync every subscription after the connection drops', async () => {
+      const books: WebSocketMessage[] = [];
+      const prices: WebSocketMessage[] = [];
+      const states: ConnectionState[] = [];
+      client.onStatusChange(status => states.push(status.state));
+      client.subscribeOrderbook('1', message => books.push(message));
+      client.subscribePrice('2', message => prices.push(message));
+
+      await waitFor(() => subscribes(server).length === 2);
+      expect(fetchOrderbook).not.toHaveBeenCalled();
+
+      server.dropClients();
+      await waitFor(() => subscribes(server).length === 4 && books.length > 0 && prices.length > 0);
+
+      expect(subscribes(server).slice(2).map(m => `${m.channel}:${m.token_id}`).sort())
+        .toEqual(['orderbook:1', 'price:2']);
+      expect(fetchOrderbook).toHaveBeenCalledWith('1');
+      expect(fetchPrice).toHaveBeenCalledWith('2');
+      expect(books[0]).toEqual({
+        type: 'orderbook',
+        data: { token_id: '1', bids: [{ price: '0.4', size: '5' }], asks: [], snapshot: true },
+      });
+      expect(prices[0]).toMatchObject({ type: 'price', data: { token_id: '2', price: '0.55' } });
+      expect(states).toEqual(['idle', 'connecting', 'open', 'reconnecting', 'reconnecting', 'open']);
+    });
+
+    it('should keep retrying while the server is down', async () => {
+      const connections: boolean[] = [];
+      client.onConnectionChange(connected => connections.push(connected));
+      client.subscribePrice('2', () => {});
+      await waitFor(() => client.isConnected());
+
+      const port = server.port;
+      await server.close();
+      await waitFor(() => client.getStatus().reconnectAttempt > 6);
+      expect(client.isConnected()).toBe(false);
+
+      server = await startServer(port);
+      await waitFor(() => subscribes(server).length === 1);
+      expect(client.getStatus().reconnectAttempt).toBe(0);
+      expect(connections).toEqual([true, false, true]);
+    });
+
+    it('should resync on a sequence gap and drop stale messages', async () => {
+      const books: WebSocketMessage[] = [];
+      client.subscribeOrderbook('1', message => books.push(message));
+      await waitFor(() => subscribes(server).length === 1);
+
+      const update = (seq: number) => ({ type: 'orderbook', token_id: '1', bids: [], asks: [], seq });
+      server.broadcast(update(1));
+      server.broadcast(update(3));
+      await waitFor(() => books.length === 3);
+      server.broadcast(update(2));
+      server.broadcast(update(4));
+      await waitFor(() => books.length === 4);
+
+      expect(fetchOrderbook).toHaveBeenCalledTimes(1);
+      expect(books.filter(m => m.type === 'orderbook' && m.data.snapshot)).toHaveLength(1);
+    });
+
+    it('should drop price updates older than the last one', async () => {
+      const prices: string[] = [];
+      client.subscribePrice('2', message => {
+        if (message.type === 'price') prices.push(message.data.price);
+      });
+      await waitFor(() => subscribes(server).length === 1);
+
+      server.broadcast({ type: 'price', token_id: '2', price: '0.5', timestamp: 2000 });
+      server.broadcast({ type: 'price', token_id: '2', price: '0.4', timestamp: 1000 });
+      server.broadcast({ type: 'price', token_id: '2', price: '0.6', timestamp: 3000 });
+      await waitFor(() => prices.includes('0.6'));
+
+      expect(prices).toEqual(['0.5', '0.6']);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  createWorkspace,
+  getWorkspace,
+  listWorkspacesForUser,
+  setMemberRole,
+  removeMember,
+  createInvite,
+  getInvite,
+  acceptInvite,
+  revokeInvite,
+  getMemberRole,
+  canEditWorkspace,
+  canManageWorkspace,
+  isLastOwner,
+} from '@/lib/workspaces';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pulseforge-workspaces-'));
+
+describe('Workspaces', () => {
+  beforeEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    process.env.PULSEFORGE_DATA_DIR = dataDir;
+  });
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.PULSEFORGE_DATA_DIR;
+  });
+
+  describe('roles', () => {
+    it('should let owners and editors edit but only owners manage', () => {
+      expect(canEditWorkspace('owner')).toBe(true);
+      expect(canEditWorkspace('editor')).toBe(true);
+      expect(canEditWorkspace('viewer')).toBe(false);
+      expect(canEditWorkspace(null)).toBe(false);
+
+      expect(canManageWorkspace('owner')).toBe(true);
+      expect(canManageWorkspace('editor')).toBe(false);
+    });
+  });
+
+  describe('store', () => {
+    it('should make the creator the owner', async () => {
+      const workspace = await createWorkspace('  Macro desk ', 'alice');
+
+      expect(workspace.name).toBe('Macro desk');
+      expect(getMemberRole(workspace, 'alice')).toBe('owner');
+      expect(await getWorkspace(workspace.id)).toEqual(workspace);
+    });
+
+    it('should list only workspaces the user belongs to', async () => {
+      const mine = await createWorkspace('Mine', 'alice');
+      await createWorkspace('Theirs', 'bob');
+
+      expect((await listWorkspacesForUser('alice')).map(w => w.id)).toEqual([mine.id]);
+    });
+
+    it('should never leave a workspace without an owner', async () => {
+      const workspace = await createWorkspace('Desk', 'alice');
+
+      expect(isLastOwner(workspace, 'alice')).toBe(true);
+      expect(await setMemberRole(workspace.id, 'alice', 'viewer')).toBeNull();
+      expect(await removeMember(workspace.id, 'alice')).toBeNull();
+    });
+
+    it('should allow demoting an owner once another owner exists', async () => {
+      const workspace = await createWorkspace('Desk', 'alice');
+      const { token } = await createInvite(workspace.id, 'editor', 'alice');
+      await acceptInvite(token, 'bob');
+      await setMemberRole(workspace.id, 'bob', 'owner');
+
+      const updated = await setMemberRole(workspace.id, 'alice', 'viewer');
+      expect(updated && getMemberRole(updated, 'alice')).toBe('viewer');
+    });
+  });
+
+  describe('invites', () => {
+    it('should add the invitee with the invite role', async () => {
+      const workspace = await createWorkspace('Desk', 'alice');
+      const { token, invite } = await createInvite(workspace.id, 'viewer', 'alice');
+
+      expect(invite.id).not.toBe(token);
+      expect((await getInvite(token))?.workspace.id).toBe(workspace.id);
+
+      const joined = await acceptInvite(token, 'bob');
+      expect(joined && getMemberRole(joined, 'bob')).toBe('viewer');
+    });
+
+    it('should keep the role of an existing member', async () => {
+      const workspace = await createWorkspace('Desk', 'alice');
+      const { token } = await createInvite(workspace.id, 'viewer', 'alice');
+
+      const joined = await acceptInvite(token, 'alice');
+      expect(joined && getMemberRole(joined, 'alice')).toBe('owner');
+    });
+
+    it('should reject unknown and revoked links', async () => {
+      const workspace = await createWorkspace('Desk', 'alice');
+      const { token, invite } = await createInvite(workspace.id, 'editor', 'alice');
+
+      expect(await acceptInvite('not-a-token', 'bob')).toBeNull();
+
+      expect(await revokeInvite(workspace.id, invite.id)).toBe(true);
+      expect(await getInvite(token)).toBeNull();
+      expect(await acceptInvite(token, 'bob')).toBeNull();
+    });
+  });
+});
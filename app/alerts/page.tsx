@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { Bell, BellOff, History, Radar, Trash2 } from 'lucide-react';
+import { AlertRuleList, AlertEventList, WatchedClusterList } from '@/components/alerts';
+import { Button, Card, useToast } from '@/components/ui';
+import { useAuth } from '@/context';
+import { useAlerts, useAlertEvents, useWatchedClusters } from '@/hooks';
+
+export default function AlertsPage() {
+  const { isAuthenticated } = useAuth();
+  const { rules, loading, error, updateRule, deleteRule } = useAlerts();
+  const { events, clearHistory } = useAlertEvents();
+  const watched = useWatchedClusters();
+  const { showToast } = useToast();
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('unsupported');
+
+  useEffect(() => {
+    if ('Notification' in window) setPermission(Notification.permission);
+  }, []);
+
+  // Run an alert action, reporting failures as a toast
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const enableNotifications = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="max-w-md mx-auto px-4 sm:px-6 py-16">
+        <Card padding="lg" className="text-center">
+          <BellOff size={40} className="mx-auto text-text-secondary mb-4" />
+          <h1 className="text-xl font-semibold text-text-primary mb-2">Sign in for alerts</h1>
+          <p className="text-text-secondary">
+            Alerts are checked on the server, so they need an account to keep running while you&apos;re away.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8">
+      {/* Header */}
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+        <div className="flex items-center gap-3 mb-2">
+          <Bell size={28} className="text-bullish" />
+          <h1 className="text-3xl font-bold text-text-primary">Alerts</h1>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-text-secondary">
+            Rules are checked every minute and watched clusters rescanned on their schedule, even while PulseForge is closed.
+          </p>
+          {permission === 'default' && (
+            <Button variant="secondary" size="sm" onClick={enableNotifications}>
+              <Bell size={14} className="mr-1" />
+              Enable browser notifications
+            </Button>
+          )}
+        </div>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Rules */}
+        <div>
+          <h2 className="text-sm font-medium text-text-secondary uppercase mb-3">Rules ({rules.length})</h2>
+          {error && <p className="text-sm text-bearish mb-3">{error}</p>}
+          {rules.length > 0 ? (
+            <AlertRuleList
+              rules={rules}
+              onToggle={(rule) => run(() => updateRule(rule.id, { enabled: !rule.enabled }))}
+              onDelete={(rule) => run(() => deleteRule(rule.id))}
+            />
+          ) : (
+            <Card padding="lg" className="text-center">
+              <p className="text-text-secondary text-sm">
+                {loading ? 'Loading alerts…' : 'No alerts yet. Open a market and use Set Alert.'}
+              </p>
+              {!loading && (
+                <Link href="/">
+                  <Button variant="secondary" size="sm" className="mt-4">Browse markets</Button>
+                </Link>
+              )}
+            </Card>
+          )}
+
+          {/* Watched clusters */}
+          <h2 className="text-sm font-medium text-text-secondary uppercase mt-8 mb-3 flex items-center gap-2">
+            <Radar size={14} />
+            Watched Clusters ({watched.clusters.length})
+          </h2>
+          {watched.error && <p className="text-sm text-bearish mb-3">{watched.error}</p>}
+          {watched.clusters.length > 0 ? (
+            <WatchedClusterList
+              clusters={watched.clusters}
+              onUpdate={(cluster, updates) => run(() => watched.updateCluster(cluster.id, updates))}
+              onDelete={(cluster) => run(() => watched.unwatchCluster(cluster.id))}
+            />
+          ) : (
+            <Card padding="lg" className="text-center">
+              <p className="text-text-secondary text-sm">
+                {watched.loading
+                  ? 'Loading watched clusters…'
+                  : 'Scan a cluster and choose Watch to be told when its flags change.'}
+              </p>
+            </Card>
+          )}
+        </div>
+
+        {/* History */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-medium text-text-secondary uppercase flex items-center gap-2">
+              <History size={14} />
+              History
+            </h2>
+            {events.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-bearish hover:bg-bearish/10"
+                onClick={() => run(clearHistory)}
+              >
+                <Trash2 size={14} className="mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+          <Card padding="md">
+            {events.length > 0 ? (
+              <AlertEventList events={events} />
+            ) : (
+              <p className="text-text-secondary text-sm text-center py-4">No alerts have fired yet.</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession } from '@/lib/auth';
+import { alertConditionSchema, cooldownSchema, updateAlertRule, deleteAlertRule } from '@/lib/alerts';
+
+const updateSchema = z.object({
+  enabled: z.boolean().optional(),
+  cooldownMinutes: cooldownSchema.optional(),
+  condition: alertConditionSchema.optional(),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * Enable, disable or change an alert rule
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const updates = updateSchema.parse(await request.json());
+    const rule = await updateAlertRule(current.user.id, params.id, updates);
+    if (!rule) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid alert', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Alerts API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to update alert', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  if (!(await deleteAlertRule(current.user.id, params.id))) {
+    return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession } from '@/lib/auth';
+import { watchedClusterUpdateSchema, updateWatchedCluster, deleteWatchedCluster } from '@/lib/alerts';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * Pause, resume or retune a watched cluster
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const updates = watchedClusterUpdateSchema.parse(await request.json());
+    const cluster = await updateWatchedCluster(current.user.id, params.id, updates);
+    if (!cluster) {
+      return NextResponse.json({ error: 'Watched cluster not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ cluster });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid update', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Watched clusters API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to update watched cluster', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  if (!(await deleteWatchedCluster(current.user.id, params.id))) {
+    return NextResponse.json({ error: 'Watched cluster not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession } from '@/lib/auth';
+import {
+  watchedClusterSchema,
+  listWatchedClusters,
+  createWatchedCluster,
+  scanClusterLive,
+  toWatchedFlag,
+  ensureAlertEngine,
+} from '@/lib/alerts';
+import { generateId } from '@/lib/utils';
+import { getProviderForMarket } from '@/lib/providers';
+import { Market, MarketCluster, ScannerConfig, DEFAULT_SCANNER_CONFIG } from '@/types';
+
+// Clusters one user can watch
+const MAX_WATCHED_CLUSTERS = 20;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * The current user's watched clusters
+ */
+export async function GET(request: NextRequest) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  ensureAlertEngine();
+  return NextResponse.json({ clusters: await listWatchedClusters(current.user.id) });
+}
+
+/**
+ * Watch a cluster: scan it now for a baseline, then rescan on a schedule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const input = watchedClusterSchema.parse(await request.json());
+    if ((await listWatchedClusters(current.user.id)).length >= MAX_WATCHED_CLUSTERS) {
+      return NextResponse.json(
+        { error: `You can watch up to ${MAX_WATCHED_CLUSTERS} clusters. Remove some to add more.` },
+        { status: 409 }
+      );
+    }
+
+    const markets = await Promise.all(input.cluster.markets.map(m => getProviderForMarket(m).getMarket(m.id)));
+    const missing = input.cluster.markets.filter((_, i) => !markets[i]);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Market not found: ${missing.map(m => m.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const cluster: MarketCluster = {
+      ...input.cluster,
+      id: generateId(),
+      markets: markets.filter((m): m is Market => m !== null),
+      createdAt: Date.now(),
+    };
+    const config: ScannerConfig = { ...DEFAULT_SCANNER_CONFIG, ...input.config };
+    const result = await scanClusterLive(cluster, config);
+
+    const watched = await createWatchedCluster(current.user.id, {
+      cluster: result.cluster,
+      config,
+      flags: result.flags.map(toWatchedFlag),
+      scannedAt: result.scannedAt,
+      severityThreshold: input.severityThreshold,
+      intervalMinutes: input.intervalMinutes,
+    });
+    ensureAlertEngine();
+
+    return NextResponse.json({ cluster: watched }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid cluster', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Watched clusters API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to watch cluster', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
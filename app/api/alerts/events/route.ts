@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth';
+import { listAlertEvents, clearAlertEvents, ensureAlertEngine } from '@/lib/alerts';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Alert history, newest first: GET ?since=<ms> for only newer events
+ */
+export async function GET(request: NextRequest) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  // Clients poll this route, which keeps the engine running after restarts
+  ensureAlertEngine();
+
+  const sinceParam = request.nextUrl.searchParams.get('since');
+  const since = sinceParam ? Number(sinceParam) : undefined;
+  if (since !== undefined && !Number.isFinite(since)) {
+    return NextResponse.json({ error: 'Invalid since' }, { status: 400 });
+  }
+
+  return NextResponse.json({ events: await listAlertEvents(current.user.id, since) });
+}
+
+/**
+ * Clear the alert history
+ */
+export async function DELETE(request: NextRequest) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  await clearAlertEvents(current.user.id);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession } from '@/lib/auth';
+import {
+  alertConditionSchema,
+  cooldownSchema,
+  listAlertRules,
+  createAlertRule,
+  ensureAlertEngine,
+} from '@/lib/alerts';
+
+const createSchema = z.object({
+  marketId: z.string().min(1),
+  marketQuestion: z.string().min(1).max(500),
+  outcomeNames: z.array(z.string().max(200)).max(50).optional(),
+  condition: alertConditionSchema,
+  cooldownMinutes: cooldownSchema.optional(),
+});
+
+// Rules one user can keep
+const MAX_RULES_PER_USER = 100;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * The current user's alert rules
+ */
+export async function GET(request: NextRequest) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  ensureAlertEngine();
+  return NextResponse.json({ rules: await listAlertRules(current.user.id) });
+}
+
+/**
+ * Create an alert rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const input = createSchema.parse(await request.json());
+    if ((await listAlertRules(current.user.id)).length >= MAX_RULES_PER_USER) {
+      return NextResponse.json(
+        { error: `You can keep up to ${MAX_RULES_PER_USER} alerts. Delete some to add more.` },
+        { status: 409 }
+      );
+    }
+
+    const rule = await createAlertRule(current.user.id, input);
+    ensureAlertEngine();
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid alert', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Alerts API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to create alert', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
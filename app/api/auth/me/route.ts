@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession, updateUser, toPublicUser } from '@/lib/auth';
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  interests: z.array(z.string().max(50)).max(50).optional(),
+  profileCompleted: z.boolean().optional(),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Current user for the session cookie
+ */
+export async function GET(request: NextRequest) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in', user: null }, { status: 401 });
+  }
+
+  return NextResponse.json({ user: toPublicUser(current.user, current.session.createdAt) });
+}
+
+/**
+ * Update the current user's profile
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const updates = profileSchema.parse(await request.json());
+    const user = await updateUser(current.user.id, updates);
+    if (!user) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ user: toPublicUser(user, current.session.createdAt) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid profile', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Profile API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to update profile', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  verifyPassword,
+  findUserByEmail,
+  createSession,
+  setSessionCookie,
+  toPublicUser,
+} from '@/lib/auth';
+
+const bodySchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1).max(200),
+});
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = bodySchema.parse(await request.json());
+
+    // Same response for unknown email and wrong password
+    const user = await findUserByEmail(email);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Incorrect email or password' },
+        { status: 401 }
+      );
+    }
+
+    const { token, session } = await createSession(user.id);
+    const response = NextResponse.json({ user: toPublicUser(user, session.createdAt) });
+    setSessionCookie(response, token);
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid sign-in details', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Sign-in API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to sign in', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSession, clearSessionCookie, SESSION_COOKIE } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) await deleteSession(token);
+  } catch (error) {
+    // The cookie is cleared regardless, so the user is signed out either way
+    console.error('Sign-out API error:', error);
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  hashPassword,
+  createUser,
+  createSession,
+  setSessionCookie,
+  toPublicUser,
+  MIN_PASSWORD_LENGTH,
+} from '@/lib/auth';
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  email: z.string().trim().email(),
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200),
+});
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, email, password } = bodySchema.parse(await request.json());
+
+    const user = await createUser(name, email, await hashPassword(password));
+    if (!user) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const { token, session } = await createSession(user.id);
+    const response = NextResponse.json({ user: toPublicUser(user, session.createdAt) }, { status: 201 });
+    setSessionCookie(response, token);
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid sign-up details', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Sign-up API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to create account', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
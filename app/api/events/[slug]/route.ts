@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '@/lib/providers';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { slug } = params;
+
+    if (!slug) {
+      return NextResponse.json(
+        { error: 'Event slug is required' },
+        { status: 400 }
+      );
+    }
+
+    const event = await getMarketDataProvider().getEvent(decodeURIComponent(slug));
+
+    if (!event) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(event, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30',
+      },
+    });
+  } catch (error) {
+    console.error('Event detail API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch event from Polymarket',
+        message: errorMessage,
+        source: 'Polymarket Gamma API',
+        docs: 'https://docs.polymarket.com/quickstart/fetching-data',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMarketDataProvider } from '@/lib/providers';
+
+const searchParamsSchema = z.object({
+  query: z.string().optional(),
+  tag: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+  offset: z.coerce.number().min(0).optional(),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = searchParamsSchema.parse({
+      query: searchParams.get('query') || undefined,
+      tag: searchParams.get('tag') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+    });
+
+    const result = await getMarketDataProvider().listEvents({
+      query: params.query,
+      tag: params.tag,
+      limit: params.limit || 20,
+      offset: params.offset || 0,
+    });
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30',
+      },
+    });
+  } catch (error) {
+    console.error('Events API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch events from Polymarket',
+        message: errorMessage,
+        source: 'Polymarket Gamma API',
+        docs: 'https://docs.polymarket.com/quickstart/fetching-data',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth';
+import { getInvite, acceptInvite, getMemberRole } from '@/lib/workspaces';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { token: string } };
+
+/**
+ * What an invite link grants, so it can be shown before joining
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const found = await getInvite(params.token);
+  if (!found) {
+    return NextResponse.json({ error: 'This invite link is invalid or has expired' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    workspace: { id: found.workspace.id, name: found.workspace.name, memberCount: found.workspace.members.length },
+    role: found.invite.role,
+    expiresAt: found.invite.expiresAt,
+    memberRole: getMemberRole(found.workspace, current.user.id),
+  });
+}
+
+/**
+ * Join the workspace behind an invite link
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const workspace = await acceptInvite(params.token, current.user.id);
+    if (!workspace) {
+      return NextResponse.json({ error: 'This invite link is invalid or has expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      workspace: {
+        id: workspace.id,
+        name: workspace.name,
+        role: getMemberRole(workspace, current.user.id),
+        memberCount: workspace.members.length,
+      },
+    });
+  } catch (error) {
+    console.error('Invite API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to accept invite', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMarketByRef } from '@/lib/providers';
+import { getMarketCandles } from '@/lib/history';
+import { TimeRange } from '@/types';
+
+const querySchema = z.object({
+  range: z.enum(['1H', '24H', '7D', '30D', 'ALL']).default('24H'),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * OHLCV candles of a market's first outcome at the range's granularity
+ * Returns `{ candles, gaps, from, to, bucketMinutes }`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Market ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = querySchema.parse({
+      range: searchParams.get('range') || '24H',
+    });
+
+    const market = await getMarketByRef(decodeURIComponent(id));
+    if (!market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    const candles = await getMarketCandles(market, query.range as TimeRange);
+
+    return NextResponse.json(
+      candles,
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Market candles API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to load candles', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
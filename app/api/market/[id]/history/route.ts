@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { fetchMarketHistory } from '@/lib/polymarket/client';
+import { getMarketByRef } from '@/lib/providers';
+import { getMarketHistory } from '@/lib/history';
 import { TimeRange } from '@/types';
 
 const querySchema = z.object({
@@ -10,6 +11,11 @@ const querySchema = z.object({
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
+/**
+ * Recorded price history of a market's first outcome
+ * Returns `{ history, gaps, from, to }`; `gaps` are spans of the window with
+ * no recorded prices, which the chart shows as missing rather than inferred.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -29,13 +35,18 @@ export async function GET(
       range: searchParams.get('range') || '24H',
     });
 
-    const history = await fetchMarketHistory(
-      decodeURIComponent(id),
-      query.range as TimeRange
-    );
+    const market = await getMarketByRef(decodeURIComponent(id));
+    if (!market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getMarketHistory(market, query.range as TimeRange);
 
     return NextResponse.json(
-      { history },
+      history,
       {
         headers: {
           'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
@@ -56,13 +67,11 @@ export async function GET(
 
     return NextResponse.json(
       { 
-        error: 'Failed to fetch price history from Polymarket',
+        error: 'Failed to load price history',
         message: errorMessage,
-        history: [], // Return empty array so UI can handle gracefully
-        source: 'Polymarket Gamma API',
         docs: 'https://docs.polymarket.com/developers/CLOB/timeseries'
       },
-      { status: 200 } // Return 200 with empty data so UI doesn't break
+      { status: 502 }
     );
   }
 }
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchMarketDetail } from '@/lib/polymarket/client';
+import { getMarketByRef } from '@/lib/providers';
 import { searchNews } from '@/lib/news/client';
 
 export const dynamic = 'force-dynamic';
@@ -13,7 +13,7 @@ export async function GET(
     const marketId = decodeURIComponent(params.id);
 
     // Fetch market detail first
-    const market = await fetchMarketDetail(marketId);
+    const market = await getMarketByRef(marketId);
 
     if (!market) {
       return NextResponse.json(
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchOrderbook, fetchMarketDetail } from '@/lib/polymarket/client';
+import { getMarketByRef, getProviderForMarket } from '@/lib/providers';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -19,7 +19,7 @@ export async function GET(
     }
 
     // First get the market to get token IDs
-    const market = await fetchMarketDetail(decodeURIComponent(id));
+    const market = await getMarketByRef(decodeURIComponent(id));
     
     if (!market) {
       return NextResponse.json(
@@ -38,11 +38,14 @@ export async function GET(
       );
     }
 
-    const orderbook = await fetchOrderbook(tokenId);
+    // Parsed books for every outcome token, with the YES book on its own
+    const books = await getProviderForMarket(market).getOrderbooks(market.outcomes.map(o => o.id));
+    const orderbook = books[tokenId] ?? null;
 
     return NextResponse.json(
       { 
         orderbook,
+        books,
         market: {
           id: market.id,
           question: market.question,
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchMarketDetail } from '@/lib/polymarket/client';
+import { getMarketByRef } from '@/lib/providers';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -18,7 +18,7 @@ export async function GET(
       );
     }
 
-    const market = await fetchMarketDetail(decodeURIComponent(id));
+    const market = await getMarketByRef(decodeURIComponent(id));
 
     if (!market) {
       return NextResponse.json(
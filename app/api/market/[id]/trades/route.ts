@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMarketByRef, getProviderForMarket } from '@/lib/providers';
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Recent trades of a market's first outcome, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Market ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = querySchema.parse({
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const market = await getMarketByRef(decodeURIComponent(id));
+    if (!market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    const tokenId = market.outcomes[0]?.id;
+    const trades = tokenId ? await getProviderForMarket(market).getRecentTrades(tokenId, query.limit) : [];
+    if (!trades) {
+      return NextResponse.json(
+        { error: `Failed to load trades from ${getProviderForMarket(market).label}` },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { trades, fetchedAt: Date.now() },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Market trades API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to load trades', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
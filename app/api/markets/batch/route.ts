@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMarketByRef } from '@/lib/providers';
+import { queueMarketSnapshots } from '@/lib/history';
+import { Market } from '@/types';
+
+const searchParamsSchema = z.object({
+  ids: z.string().min(1),
+});
+
+// Upper bound on markets loaded per request
+const MAX_MARKETS = 50;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Markets for a comma-separated list of ids (bare or venue-qualified), in the
+ * order asked
+ * Markets that fail to load are left out rather than failing the batch
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = searchParamsSchema.parse({
+      ids: searchParams.get('ids') || undefined,
+    });
+
+    const ids = Array.from(new Set(params.ids.split(',').filter(Boolean))).slice(0, MAX_MARKETS);
+    const markets = await Promise.all(
+      ids.map(id => getMarketByRef(id).catch(() => null))
+    );
+
+    const loaded = markets.filter((m): m is Market => m !== null);
+    const fetchedAt = Date.now();
+    queueMarketSnapshots(loaded, fetchedAt);
+
+    return NextResponse.json({ markets: loaded, fetchedAt });
+  } catch (error) {
+    console.error('Market batch API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to load markets', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiCache, cacheKey, staleWhileRevalidate, CACHE_TTL } from '@/lib/polymarket/cache';
+import { matchMarketsAcrossVenues } from '@/lib/math/matching';
+import { compareVenueMatches } from '@/lib/math/scanner';
+import { getMarketDataProviders } from '@/lib/providers';
+import { CrossVenueResult, Market, Venue, VENUES, DEFAULT_SCANNER_CONFIG, DEFAULT_VENUE_FEE_BPS } from '@/types';
+
+// Venue fees as "venue:bps" pairs, e.g. "polymarket:0,fixture:150"
+const feesSchema = z
+  .string()
+  .regex(/^[a-z]+:\d+(\.\d+)?(,[a-z]+:\d+(\.\d+)?)*$/, 'Expected venue:bps pairs')
+  .transform(value => Object.fromEntries(value.split(',').map(pair => {
+    const [venue, bps] = pair.split(':');
+    return [venue, Number(bps)];
+  })))
+  .pipe(z.record(z.enum(VENUES), z.number().max(10000)));
+
+const searchParamsSchema = z.object({
+  limit: z.coerce.number().min(1).max(100).optional(),
+  minGap: z.coerce.number().min(0).max(1).optional(),
+  fees: feesSchema.optional(),
+  refresh: z.enum(['true', 'false']).optional(),
+});
+
+// Markets listed per venue; matching is pairwise so this stays modest
+const MARKETS_PER_VENUE = 100;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Match the top markets of every venue with data and price their gaps
+ * A venue that fails to list is reported rather than failing the comparison
+ */
+async function compareVenues(venueFeeBps: Partial<Record<Venue, number>>): Promise<CrossVenueResult> {
+  const startTime = Date.now();
+  const providers = getMarketDataProviders();
+  const settled = await Promise.allSettled(providers.map(p => p.listMarkets({ limit: MARKETS_PER_VENUE })));
+
+  const failedVenues: Venue[] = [];
+  const listed: { venue: Venue; markets: Market[] }[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      listed.push({ venue: providers[i].venue, markets: result.value.markets });
+    } else {
+      console.warn(`Venue comparison: ${providers[i].venue} failed to list markets:`, result.reason);
+      failedVenues.push(providers[i].venue);
+    }
+  });
+
+  // Nothing to compare when every venue failed
+  if (listed.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const markets = listed.flatMap(l => l.markets);
+
+  const comparisons = compareVenueMatches(matchMarketsAcrossVenues(markets), {
+    ...DEFAULT_SCANNER_CONFIG,
+    venueFeeBps,
+  });
+
+  return {
+    venues: listed.filter(l => l.markets.length > 0).map(l => l.venue),
+    failedVenues,
+    venueFeeBps,
+    comparisons,
+    marketsCompared: markets.length,
+    comparedAt: Date.now(),
+    scanDuration: Date.now() - startTime,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = searchParamsSchema.parse({
+      limit: searchParams.get('limit') || undefined,
+      minGap: searchParams.get('minGap') || undefined,
+      fees: searchParams.get('fees') || undefined,
+      refresh: searchParams.get('refresh') || undefined,
+    });
+
+    // Venues left out keep their default fee
+    const fees = { ...DEFAULT_VENUE_FEE_BPS, ...params.fees };
+    const key = cacheKey('venue-compare', JSON.stringify(fees));
+    if (params.refresh === 'true') {
+      apiCache.delete(key);
+    }
+
+    const { data, status } = await staleWhileRevalidate<CrossVenueResult>(
+      key,
+      () => compareVenues(fees),
+      CACHE_TTL.VENUE_COMPARISON
+    );
+
+    const minGap = params.minGap ?? 0;
+    const comparisons = data.comparisons
+      .filter(c => Math.abs(c.priceGap) >= minGap)
+      .slice(0, params.limit || 25);
+
+    return NextResponse.json({ ...data, comparisons }, {
+      headers: {
+        'X-Cache-Status': status,
+      },
+    });
+  } catch (error) {
+    console.error('Venue comparison API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to compare venues', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
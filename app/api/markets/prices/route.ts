@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMarketDataProvider } from '@/lib/providers';
+import { VENUES } from '@/types';
+
+const searchParamsSchema = z.object({
+  tokens: z.string().min(1),
+  side: z.enum(['buy', 'sell']).optional(),
+  venue: z.enum(VENUES).optional(),
+});
+
+// Upper bound on tokens priced per request
+const MAX_TOKENS = 100;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Current prices for a comma-separated list of token ids, from `venue`'s
+ * provider (default the configured one); side=sell gives the price an exit
+ * would receive
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = searchParamsSchema.parse({
+      tokens: searchParams.get('tokens') || undefined,
+      side: searchParams.get('side') || undefined,
+      venue: searchParams.get('venue') || undefined,
+    });
+
+    const tokenIds = params.tokens.split(',').filter(Boolean).slice(0, MAX_TOKENS);
+    const prices = await getMarketDataProvider(params.venue).getCurrentPrices(tokenIds, params.side || 'buy');
+
+    return NextResponse.json({ prices, side: params.side || 'buy', fetchedAt: Date.now() });
+  } catch (error) {
+    console.error('Prices API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to fetch prices', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMarketByRef } from '@/lib/providers';
+import { MarketResolutionStatus } from '@/types';
+
+// Upper bound on markets checked per request
+const MAX_MARKETS = 50;
+
+const searchParamsSchema = z.object({
+  ids: z
+    .string()
+    .min(1)
+    .transform(ids => Array.from(new Set(ids.split(',').filter(Boolean))))
+    .refine(ids => ids.length <= MAX_MARKETS, {
+      message: `At most ${MAX_MARKETS} markets per request`,
+    }),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Resolution status for a comma-separated list of market ids, bare or
+ * venue-qualified, keyed as asked
+ * Markets that fail to load are left out rather than failing the batch; more
+ * than MAX_MARKETS ids is rejected so callers split them into batches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = searchParamsSchema.parse({
+      ids: searchParams.get('ids') || undefined,
+    });
+
+    const ids = params.ids;
+    const markets = await Promise.all(
+      ids.map(id => getMarketByRef(id).catch(() => null))
+    );
+
+    const statuses: Record<string, MarketResolutionStatus> = {};
+    markets.forEach((market, i) => {
+      if (!market) return;
+      statuses[ids[i]] = {
+        marketId: ids[i],
+        closed: market.closed,
+        resolved: market.resolved,
+        resolutionOutcome: market.resolutionOutcome,
+      };
+    });
+
+    return NextResponse.json({ statuses, checkedAt: Date.now() });
+  } catch (error) {
+    console.error('Resolutions API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to check market resolutions', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { fetchMarkets, clearCache } from '@/lib/polymarket/client';
+import { clearCache } from '@/lib/polymarket/client';
 import { apiCache, cacheKey } from '@/lib/polymarket/cache';
+import { queueMarketSnapshots } from '@/lib/history';
+import { getMarketDataProvider } from '@/lib/providers';
 
 const searchParamsSchema = z.object({
   query: z.string().optional(),
@@ -46,7 +48,8 @@ export async function GET(request: NextRequest) {
       console.log('[API] Cache cleared for refresh - will fetch fresh data from Polymarket');
     }
 
-    const result = await fetchMarkets({
+    const provider = getMarketDataProvider();
+    const result = await provider.listMarkets({
       query: params.query,
       category: params.category,
       sortBy: params.sortBy,
@@ -56,6 +59,9 @@ export async function GET(request: NextRequest) {
       all: params.all || false,
     });
 
+    // Feed the price history store without holding up the response
+    queueMarketSnapshots(result.markets, result.meta.fetchedAt);
+
     const totalDuration = Date.now() - requestStart;
     
     console.log(
@@ -70,6 +76,7 @@ export async function GET(request: NextRequest) {
         'X-Cache-Status': result.meta.cache,
         'X-Response-Time': `${totalDuration}ms`,
         'X-Data-Source': result.meta.source.join(','),
+        'X-Data-Mode': provider.getDataMode(),
         'X-Fetched-At': new Date(result.meta.fetchedAt).toISOString(),
       },
     });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { fetchMarketDetail, fetchMarketHistory, getPolymarketUrl } from '@/lib/polymarket/client';
+import { getPolymarketUrl } from '@/lib/polymarket/client';
+import { getMarketDataProvider } from '@/lib/providers';
+import { getMarketHistory } from '@/lib/history';
 import { searchNews, formatNewsForPrompt, NewsArticle, NewsSearchResult } from '@/lib/news';
 import { Market, PricePoint } from '@/types';
 
@@ -290,7 +292,7 @@ export async function POST(request: NextRequest) {
     if (!market) {
       // Try to fetch from API
       try {
-        market = await fetchMarketDetail(marketId);
+        market = await getMarketDataProvider().getMarket(marketId);
       } catch (error) {
         console.error('[Research] Failed to fetch market detail:', error);
         // Continue with error - we'll handle it below
@@ -324,7 +326,7 @@ export async function POST(request: NextRequest) {
     // Step 2: Fetch price history (continue even if it fails)
     let priceHistory: PricePoint[] = [];
     try {
-      priceHistory = await fetchMarketHistory(marketId, '7D');
+      priceHistory = (await getMarketHistory(market, '7D')).history;
       console.log(`[Research] Fetched ${priceHistory.length} price history points`);
     } catch (error) {
       console.error('[Research] Failed to fetch price history:', error);
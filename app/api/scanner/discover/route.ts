@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiCache, cacheKey, staleWhileRevalidate, CACHE_TTL } from '@/lib/polymarket/cache';
+import { discoverFlags } from '@/lib/math/discovery';
+import { getMarketDataProvider } from '@/lib/providers';
+import { Market, DiscoveryResult } from '@/types';
+
+const searchParamsSchema = z.object({
+  limit: z.coerce.number().min(1).max(100).optional(),
+  minSeverity: z.coerce.number().min(0).max(100).optional(),
+  refresh: z.enum(['true', 'false']).optional(),
+});
+
+// Events are fetched in pages; three pages covers the most active events
+const EVENT_PAGE_SIZE = 50;
+const EVENT_PAGES = 3;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Build the market universe from the configured provider's top events plus
+ * its top markets by volume
+ */
+async function fetchUniverse(): Promise<Market[]> {
+  const provider = getMarketDataProvider();
+  const [eventPages, marketsResult] = await Promise.all([
+    Promise.all(
+      Array.from({ length: EVENT_PAGES }, (_, page) =>
+        provider.listEvents({ limit: EVENT_PAGE_SIZE, offset: page * EVENT_PAGE_SIZE })
+      )
+    ),
+    provider.listMarkets({ limit: 100 }),
+  ]);
+
+  const byId = new Map<string, Market>();
+  eventPages.forEach(({ events }) => {
+    events.forEach(event => event.markets.forEach(m => byId.set(m.id, m)));
+  });
+  marketsResult.markets.forEach(m => {
+    if (!byId.has(m.id)) byId.set(m.id, m);
+  });
+
+  return Array.from(byId.values());
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = searchParamsSchema.parse({
+      limit: searchParams.get('limit') || undefined,
+      minSeverity: searchParams.get('minSeverity') || undefined,
+      refresh: searchParams.get('refresh') || undefined,
+    });
+
+    const key = cacheKey('scanner-discover');
+    if (params.refresh === 'true') {
+      apiCache.delete(key);
+    }
+
+    const { data, status } = await staleWhileRevalidate<DiscoveryResult>(
+      key,
+      async () => discoverFlags(await fetchUniverse()),
+      CACHE_TTL.SCANNER_DISCOVERY
+    );
+
+    const minSeverity = params.minSeverity ?? 0;
+    const flags = data.flags
+      .filter(f => f.severityScore >= minSeverity)
+      .slice(0, params.limit || 25);
+
+    return NextResponse.json({ ...data, flags }, {
+      headers: {
+        'X-Cache-Status': status,
+      },
+    });
+  } catch (error) {
+    console.error('Scanner discovery API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to run scanner discovery', message: errorMessage },
+      { status: 502 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { scanCluster } from '@/lib/math/scanner';
-import { MarketCluster, ScannerConfig, DEFAULT_SCANNER_CONFIG } from '@/types';
+import { getOrderbooksForMarkets } from '@/lib/providers';
+import { MarketCluster, ScannerConfig, DEFAULT_SCANNER_CONFIG, VENUES } from '@/types';
 
 const marketSchema = z.object({
   id: z.string(),
@@ -17,6 +18,7 @@ const marketSchema = z.object({
     priceChange24h: z.number(),
   })),
   slug: z.string().optional(),
+  venue: z.enum(VENUES).optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
   active: z.boolean().optional(),
@@ -44,7 +46,10 @@ const requestSchema = z.object({
     sumToOneThreshold: z.number().optional(),
     thresholdMargin: z.number().optional(),
     minArbitrageProfit: z.number().optional(),
-    enabledRules: z.array(z.enum(['sum_to_one', 'threshold_consistency', 'arbitrage_bundle'])).optional(),
+    enabledRules: z.array(z.enum(['sum_to_one', 'threshold_consistency', 'arbitrage_bundle', 'cross_venue_arbitrage'])).optional(),
+    venueFeeBps: z.record(z.enum(VENUES), z.number().min(0).max(10000)).optional(),
+    useOrderbooks: z.boolean().optional(),
+    targetNotional: z.number().positive().optional(),
   }).optional(),
 });
 
@@ -58,7 +63,14 @@ export async function POST(request: NextRequest) {
       ...parsed.config,
     };
 
-    const result = scanCluster(parsed.cluster as MarketCluster, config);
+    const cluster = parsed.cluster as MarketCluster;
+    let result = scanCluster(cluster, config);
+
+    // Re-price flags against live depth, fetching only the books of flagged markets
+    if (config.useOrderbooks && result.flags.length > 0) {
+      const orderbooks = await getOrderbooksForMarkets(result.flags.flatMap(f => f.affectedMarkets));
+      result = scanCluster(cluster, config, orderbooks);
+    }
 
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getStreamHub, formatSseEvent, STREAM_TOKEN_ID_PATTERN, MAX_STREAM_TOKENS } from '@/lib/stream';
+import { StreamEvent } from '@/types';
+
+// Comment frames keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+const commaList = z.string().transform(value => Array.from(new Set(value.split(',').filter(Boolean))));
+
+const querySchema = z.object({
+  // No tokens gives a stream of status events only
+  tokens: commaList.pipe(z.array(z.string().regex(STREAM_TOKEN_ID_PATTERN)).max(MAX_STREAM_TOKENS)).default(''),
+  channels: commaList.pipe(z.array(z.enum(['price', 'orderbook', 'trades'])).min(1)).default('price'),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Live prices, orderbook updates and trades for the given tokens as
+ * Server-Sent Events: GET ?tokens=<id>,<id>&channels=price,orderbook,trades
+ * Without tokens only status events are sent.
+ *
+ * Every event is named after its type and carries a JSON StreamEvent. A
+ * status event is sent first and whenever the upstream connection opens or
+ * closes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = querySchema.parse({
+      tokens: searchParams.get('tokens') || undefined,
+      channels: searchParams.get('channels') || undefined,
+    });
+
+    const hub = getStreamHub();
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: StreamEvent) => {
+          controller.enqueue(encoder.encode(formatSseEvent(event)));
+        };
+
+        send(hub.getStatus());
+        const unsubscribe = hub.subscribe(query.tokens, query.channels, send);
+        const heartbeat = setInterval(() => {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        }, HEARTBEAT_INTERVAL);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          cleanup = () => {};
+        };
+
+        request.signal.addEventListener('abort', () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+        });
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Stream API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to open stream', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession } from '@/lib/auth';
+import { getUserDataStore } from '@/lib/storage';
+import { USER_RESOURCES, UserResource, WATCHLIST_COLUMNS } from '@/types';
+
+// Shape checks per resource; items are stored as the client sends them
+const resourceSchemas: Record<UserResource, z.ZodTypeAny> = {
+  strategies: z.object({
+    strategies: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()),
+    activeStrategyId: z.string().nullable(),
+  }),
+  research: z.array(z.object({ id: z.string(), marketId: z.string() }).passthrough()),
+  drafts: z.array(z.object({ id: z.string() }).passthrough()),
+  settings: z.record(z.unknown()),
+  watchlists: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    marketIds: z.array(z.string()),
+    columns: z.array(z.enum(WATCHLIST_COLUMNS)),
+  }).passthrough()),
+};
+
+const resourceSchema = z.enum(USER_RESOURCES);
+
+// Largest document accepted, in bytes of JSON
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { resource: string } };
+
+/**
+ * Resolve the session and resource, or the error response to send instead
+ */
+async function authorize(request: NextRequest, { params }: RouteContext) {
+  const resource = resourceSchema.safeParse(params.resource);
+  if (!resource.success) {
+    return { error: NextResponse.json({ error: `Unknown resource: ${params.resource}` }, { status: 404 }) };
+  }
+
+  const current = await getRequestSession(request);
+  if (!current) {
+    return { error: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) };
+  }
+
+  return { userId: current.user.id, resource: resource.data };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const auth = await authorize(request, context);
+    if ('error' in auth) return auth.error;
+
+    const document = await getUserDataStore().get(auth.userId, auth.resource);
+    return NextResponse.json({
+      resource: auth.resource,
+      value: document?.value ?? null,
+      updatedAt: document?.updatedAt ?? null,
+    });
+  } catch (error) {
+    console.error('User data API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to load data', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const auth = await authorize(request, context);
+    if ('error' in auth) return auth.error;
+
+    const raw = await request.text();
+    if (raw.length > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json({ error: 'Document too large' }, { status: 413 });
+    }
+
+    const { value } = z.object({ value: resourceSchemas[auth.resource] }).parse(JSON.parse(raw));
+    const document = await getUserDataStore().put(auth.userId, auth.resource, value);
+
+    return NextResponse.json({ resource: auth.resource, updatedAt: document.updatedAt });
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid document',
+          details: error instanceof z.ZodError ? error.errors : error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('User data API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to save data', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const auth = await authorize(request, context);
+    if ('error' in auth) return auth.error;
+
+    await getUserDataStore().delete(auth.userId, auth.resource);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('User data API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to delete data', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
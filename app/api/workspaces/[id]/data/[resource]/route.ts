@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorizeWorkspace, getWorkspaceDataStore } from '@/lib/workspaces';
+import { WORKSPACE_RESOURCES, WorkspaceResource } from '@/types';
+
+// Shape checks per resource; items are stored as the client sends them
+const resourceSchemas: Record<WorkspaceResource, z.ZodTypeAny> = {
+  strategies: z.object({
+    strategies: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()),
+    activeStrategyId: z.string().nullable(),
+  }),
+  clusters: z.array(z.object({ id: z.string(), question: z.string() }).passthrough()).max(10),
+  research: z.array(z.object({ id: z.string(), marketId: z.string() }).passthrough()),
+};
+
+const resourceSchema = z.enum(WORKSPACE_RESOURCES);
+
+// Largest document accepted, in bytes of JSON
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024;
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { id: string; resource: string } };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const resource = resourceSchema.safeParse(params.resource);
+    if (!resource.success) {
+      return NextResponse.json({ error: `Unknown resource: ${params.resource}` }, { status: 404 });
+    }
+
+    const auth = await authorizeWorkspace(request, params.id, 'view');
+    if ('error' in auth) return auth.error;
+
+    const document = await getWorkspaceDataStore().get(params.id, resource.data);
+    return NextResponse.json({
+      resource: resource.data,
+      value: document?.value ?? null,
+      updatedAt: document?.updatedAt ?? null,
+      role: auth.role,
+    });
+  } catch (error) {
+    console.error('Workspace data API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to load data', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace a shared document (owners and editors)
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const resource = resourceSchema.safeParse(params.resource);
+    if (!resource.success) {
+      return NextResponse.json({ error: `Unknown resource: ${params.resource}` }, { status: 404 });
+    }
+
+    const auth = await authorizeWorkspace(request, params.id, 'edit');
+    if ('error' in auth) return auth.error;
+
+    const raw = await request.text();
+    if (raw.length > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json({ error: 'Document too large' }, { status: 413 });
+    }
+
+    const { value } = z.object({ value: resourceSchemas[resource.data] }).parse(JSON.parse(raw));
+    const document = await getWorkspaceDataStore().put(params.id, resource.data, value);
+
+    return NextResponse.json({ resource: resource.data, updatedAt: document.updatedAt });
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid document',
+          details: error instanceof z.ZodError ? error.errors : error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workspace data API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to save data', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorizeWorkspace, createInvite, listInvites, revokeInvite } from '@/lib/workspaces';
+
+const inviteSchema = z.object({
+  role: z.enum(['editor', 'viewer']).default('editor'),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * Open invite links (owners only); tokens can't be listed, only revoked
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeWorkspace(request, params.id, 'manage');
+  if ('error' in auth) return auth.error;
+
+  return NextResponse.json({ invites: await listInvites(params.id) });
+}
+
+/**
+ * Create an invite link (owners only)
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeWorkspace(request, params.id, 'manage');
+    if ('error' in auth) return auth.error;
+
+    const { role } = inviteSchema.parse(await request.json().catch(() => ({})));
+    const { token, invite } = await createInvite(params.id, role, auth.user.id);
+
+    return NextResponse.json(
+      { invite, token, url: `${request.nextUrl.origin}/invite/${token}` },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid invite', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workspace invites API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to create invite', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revoke an invite link by id: DELETE ?invite=<id> (owners only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeWorkspace(request, params.id, 'manage');
+  if ('error' in auth) return auth.error;
+
+  const inviteId = request.nextUrl.searchParams.get('invite');
+  if (!inviteId || !(await revokeInvite(params.id, inviteId))) {
+    return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
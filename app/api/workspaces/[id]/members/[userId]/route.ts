@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorizeWorkspace, canManageWorkspace, isLastOwner, setMemberRole, removeMember } from '@/lib/workspaces';
+import { WORKSPACE_ROLES } from '@/types';
+
+const roleSchema = z.object({
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { id: string; userId: string } };
+
+const lastOwnerResponse = () =>
+  NextResponse.json(
+    { error: 'A workspace needs an owner. Make someone else an owner first.' },
+    { status: 409 }
+  );
+
+/**
+ * Change a member's role (owners only)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeWorkspace(request, params.id, 'manage');
+    if ('error' in auth) return auth.error;
+
+    const { role } = roleSchema.parse(await request.json());
+    if (role !== 'owner' && isLastOwner(auth.workspace, params.userId)) return lastOwnerResponse();
+
+    const workspace = await setMemberRole(params.id, params.userId, role);
+    if (!workspace) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid role', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workspace members API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to change role', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a member (owners), or leave the workspace (anyone, for themselves)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeWorkspace(request, params.id, 'view');
+    if ('error' in auth) return auth.error;
+
+    if (auth.user.id !== params.userId && !canManageWorkspace(auth.role)) {
+      return NextResponse.json({ error: 'Only owners can remove members' }, { status: 403 });
+    }
+    if (isLastOwner(auth.workspace, params.userId)) return lastOwnerResponse();
+
+    const workspace = await removeMember(params.id, params.userId);
+    if (!workspace) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Workspace members API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to remove member', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  authorizeWorkspace,
+  withMemberProfiles,
+  renameWorkspace,
+  deleteWorkspace,
+  getWorkspaceDataStore,
+} from '@/lib/workspaces';
+import { WORKSPACE_RESOURCES } from '@/types';
+
+const renameSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * Workspace with its members and the caller's role
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeWorkspace(request, params.id, 'view');
+  if ('error' in auth) return auth.error;
+
+  return NextResponse.json({
+    workspace: { ...auth.workspace, members: await withMemberProfiles(auth.workspace) },
+    role: auth.role,
+  });
+}
+
+/**
+ * Rename (owners only)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeWorkspace(request, params.id, 'manage');
+    if ('error' in auth) return auth.error;
+
+    const { name } = renameSchema.parse(await request.json());
+    const workspace = await renameWorkspace(params.id, name);
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ workspace: { id: workspace.id, name: workspace.name } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid workspace', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workspace API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to rename workspace', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete the workspace and everything it owns (owners only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeWorkspace(request, params.id, 'manage');
+    if ('error' in auth) return auth.error;
+
+    await deleteWorkspace(params.id);
+    const store = getWorkspaceDataStore();
+    await Promise.all(WORKSPACE_RESOURCES.map(resource => store.delete(params.id, resource)));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Workspace API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to delete workspace', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestSession } from '@/lib/auth';
+import { createWorkspace, listWorkspacesForUser, getMemberRole } from '@/lib/workspaces';
+import { WorkspaceSummary } from '@/types';
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Workspaces the current user belongs to
+ */
+export async function GET(request: NextRequest) {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const workspaces = await listWorkspacesForUser(current.user.id);
+  const summaries: WorkspaceSummary[] = workspaces.map(w => ({
+    id: w.id,
+    name: w.name,
+    role: getMemberRole(w, current.user.id)!,
+    memberCount: w.members.length,
+  }));
+
+  return NextResponse.json({ workspaces: summaries });
+}
+
+/**
+ * Create a workspace owned by the current user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const current = await getRequestSession(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { name } = createSchema.parse(await request.json());
+    const workspace = await createWorkspace(name, current.user.id);
+
+    const summary: WorkspaceSummary = { id: workspace.id, name: workspace.name, role: 'owner', memberCount: 1 };
+    return NextResponse.json({ workspace: summary }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid workspace', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workspaces API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to create workspace', message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Clock, DollarSign, Activity, CheckCircle, Layers } from 'lucide-react';
+import Link from 'next/link';
+import { MarketGrid } from '@/components/markets';
+import { ScannerFlag } from '@/components/scanner';
+import { Button, Card, Badge, Skeleton } from '@/components/ui';
+import { useEvent } from '@/hooks';
+import { useStrategy } from '@/context';
+import { checkSumToOne } from '@/lib/math/scanner';
+import { formatCompactNumber, formatRelativeDate } from '@/lib/formatters';
+import { DEFAULT_SCANNER_CONFIG } from '@/types';
+
+export default function EventDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const eventSlug = typeof params.slug === 'string' ? decodeURIComponent(params.slug) : null;
+
+  const { event, loading, error } = useEvent(eventSlug);
+
+  const {
+    state: { clusterMarkets },
+    addToCluster,
+    removeFromCluster,
+  } = useStrategy();
+
+  // Only open markets take part in the sum-to-one constraint
+  const openMarkets = useMemo(
+    () => (event?.markets || []).filter((m) => m.active && !m.closed),
+    [event]
+  );
+
+  const yesSum = useMemo(
+    () => openMarkets.reduce((sum, m) => sum + (m.outcomes[0]?.price || 0), 0),
+    [openMarkets]
+  );
+
+  const sumToOneFlag = useMemo(
+    () => checkSumToOne(openMarkets, DEFAULT_SCANNER_CONFIG.sumToOneThreshold),
+    [openMarkets]
+  );
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+        <Skeleton className="h-8 w-48 mb-4" />
+        <Skeleton className="h-6 w-full max-w-2xl mb-8" />
+        <Skeleton className="h-80 w-full" />
+      </div>
+    );
+  }
+
+  // Error state
+  if (error || !event) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+        <Card padding="lg" className="text-center">
+          <h2 className="text-xl font-semibold text-text-primary mb-2">Event Not Found</h2>
+          <p className="text-text-secondary mb-4">{error || 'Unable to load event data'}</p>
+          <Button variant="secondary" onClick={() => router.push('/')}>
+            <ArrowLeft size={16} className="mr-2" />
+            Back to Markets
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const clusterIds = new Set(clusterMarkets.map((m) => m.id));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      {/* Back button */}
+      <Link href="/" className="inline-flex items-center text-text-secondary hover:text-text-primary mb-4">
+        <ArrowLeft size={16} className="mr-1" />
+        Back to Markets
+      </Link>
+
+      {/* Header */}
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} className="mb-6">
+        <div className="flex items-center gap-2 mb-2 flex-wrap">
+          <Badge variant="default">
+            <Layers size={12} className="mr-1" />
+            Event
+          </Badge>
+          {event.tags.slice(0, 4).map((tag) => (
+            <Badge key={tag} variant="default">{tag}</Badge>
+          ))}
+          {event.active && !event.closed && <Badge variant="live">LIVE</Badge>}
+        </div>
+        <h1 className="text-2xl font-bold text-text-primary mb-2">{event.title}</h1>
+        <div className="flex items-center gap-4 text-sm text-text-secondary flex-wrap">
+          {event.endDate && (
+            <span className="flex items-center gap-1">
+              <Clock size={14} />
+              Ends {formatRelativeDate(event.endDate)}
+            </span>
+          )}
+          <span className="flex items-center gap-1">
+            <DollarSign size={14} />
+            ${formatCompactNumber(event.volume)} total volume
+          </span>
+          <span className="flex items-center gap-1">
+            <Activity size={14} />
+            ${formatCompactNumber(event.liquidity)} liquidity
+          </span>
+          <span>{event.markets.length} markets</span>
+        </div>
+        {event.description && (
+          <p className="text-sm text-text-secondary mt-3 max-w-3xl line-clamp-3">{event.description}</p>
+        )}
+      </motion.div>
+
+      {/* Sum-to-one check */}
+      {openMarkets.length >= 2 && (
+        <div className="mb-6 space-y-3">
+          <Card padding="md">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="text-sm font-medium text-text-primary">Sum-to-One Check</h3>
+                <p className="text-xs text-text-secondary mt-1">
+                  {event.mutuallyExclusive
+                    ? 'Exactly one of these markets resolves YES, so their YES prices should add up to 100%.'
+                    : 'Polymarket does not mark these markets as mutually exclusive; treat this check as a guide only.'}
+                </p>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <p className={`text-2xl font-bold ${sumToOneFlag ? 'text-warning' : 'text-success'}`}>
+                  {(yesSum * 100).toFixed(1)}%
+                </p>
+                {!sumToOneFlag && (
+                  <p className="text-xs text-success flex items-center gap-1 justify-end">
+                    <CheckCircle size={12} />
+                    Consistent
+                  </p>
+                )}
+              </div>
+            </div>
+          </Card>
+          {sumToOneFlag && <ScannerFlag flag={sumToOneFlag} />}
+        </div>
+      )}
+
+      {/* Sibling markets */}
+      <MarketGrid
+        markets={event.markets}
+        onAddToCluster={(market) => {
+          if (clusterIds.has(market.id)) {
+            removeFromCluster(market.id);
+          } else {
+            addToCluster(market);
+          }
+        }}
+        showAddButtons
+        selectedMarketIds={clusterIds}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Users, LogIn } from 'lucide-react';
+import { WorkspaceRole } from '@/types';
+import { Button, Card, Badge } from '@/components/ui';
+import { AuthModal } from '@/components/auth';
+import { useAuth, useWorkspace } from '@/context';
+import { workspaceRequest } from '@/context/WorkspaceContext';
+
+interface InvitePreview {
+  workspace: { id: string; name: string; memberCount: number };
+  role: WorkspaceRole;
+  expiresAt: number;
+  memberRole: WorkspaceRole | null;
+}
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { acceptInvite, switchWorkspace } = useWorkspace();
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [authOpen, setAuthOpen] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    workspaceRequest<InvitePreview>(`/api/invites/${token}`)
+      .then(setPreview)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load invite'));
+  }, [token, isAuthenticated]);
+
+  const handleJoin = async () => {
+    try {
+      setJoining(true);
+      const workspace = await acceptInvite(token);
+      switchWorkspace(workspace.id);
+      router.push('/research');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join workspace');
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto px-4 sm:px-6 py-16">
+      <Card padding="lg" className="text-center">
+        <Users size={40} className="mx-auto text-bullish mb-4" />
+
+        {isLoading ? (
+          <p className="text-text-secondary">Loading…</p>
+        ) : !isAuthenticated ? (
+          <>
+            <h1 className="text-xl font-semibold text-text-primary mb-2">You&apos;ve been invited</h1>
+            <p className="text-text-secondary mb-6">Sign in or create an account to join this workspace.</p>
+            <Button variant="primary" onClick={() => setAuthOpen(true)}>
+              <LogIn size={14} className="mr-2" />
+              Sign In
+            </Button>
+            <AuthModal isOpen={authOpen} onClose={() => setAuthOpen(false)} />
+          </>
+        ) : error ? (
+          <>
+            <h1 className="text-xl font-semibold text-text-primary mb-2">Invite unavailable</h1>
+            <p className="text-text-secondary">{error}</p>
+          </>
+        ) : !preview ? (
+          <p className="text-text-secondary">Loading invite…</p>
+        ) : (
+          <>
+            <h1 className="text-xl font-semibold text-text-primary mb-2">Join {preview.workspace.name}</h1>
+            <p className="text-text-secondary mb-4">
+              Members share strategies, a cluster and saved research here
+              ({preview.workspace.memberCount} so far).
+            </p>
+            <div className="flex justify-center mb-6">
+              <Badge variant="bullish" size="md">
+                {preview.memberRole ? `You're already a member (${preview.memberRole})` : `Joining as ${preview.role}`}
+              </Badge>
+            </div>
+            <Button variant="primary" onClick={handleJoin} disabled={joining}>
+              {preview.memberRole ? 'Open workspace' : joining ? 'Joining…' : 'Join workspace'}
+            </Button>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -3,8 +3,9 @@ import { Inter } from 'next/font/google';
 import './globals.css';
 import { Header, Footer, SplashScreen } from '@/components/layout';
 import { ToastProvider } from '@/components/ui';
-import { StrategyProvider, ThemeProvider, AuthProvider } from '@/context';
+import { StrategyProvider, ThemeProvider, AuthProvider, WorkspaceProvider } from '@/context';
 import { AuthGuard } from '@/components/auth/AuthGuard';
+import { AlertNotifier } from '@/components/alerts';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -41,15 +42,18 @@ export default function RootLayout({
         <ThemeProvider>
           <AuthProvider>
             <ToastProvider>
-              <StrategyProvider>
-                <AuthGuard>
-                  <div className="flex flex-col min-h-screen">
-                    <Header />
-                    <main className="flex-1 pt-16">{children}</main>
-                    <Footer />
-                  </div>
-                </AuthGuard>
-              </StrategyProvider>
+              <AlertNotifier />
+              <WorkspaceProvider>
+                <StrategyProvider>
+                  <AuthGuard>
+                    <div className="flex flex-col min-h-screen">
+                      <Header />
+                      <main className="flex-1 pt-16">{children}</main>
+                      <Footer />
+                    </div>
+                  </AuthGuard>
+                </StrategyProvider>
+              </WorkspaceProvider>
             </ToastProvider>
           </AuthProvider>
         </ThemeProvider>
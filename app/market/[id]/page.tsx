@@ -1,15 +1,18 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, DollarSign, Activity, ExternalLink, Share2, Sparkles, BookmarkCheck } from 'lucide-react';
+import { ArrowLeft, Clock, DollarSign, Activity, ExternalLink, Share2, Sparkles, BookmarkCheck, Layers, Bell, ListChecks } from 'lucide-react';
 import Link from 'next/link';
-import { PriceChart } from '@/components/charts';
+import { PriceChart, PriceChartMode, PriceChartOverlay, PriceChartAnnotation } from '@/components/charts';
+import { OrderbookPanel } from '@/components/orderbook';
 import { StrategyBuilder } from '@/components/strategy';
 import { PortfolioSimulator } from '@/components/simulator';
 import { ScannerPanel, ClusterBuilder } from '@/components/scanner';
 import { GeminiBrief, ResearchModal } from '@/components/research';
+import { AlertRuleModal } from '@/components/alerts';
+import { WatchlistPickerModal } from '@/components/watchlists';
 import {
   CrowdWisdom,
   CounterArguments,
@@ -21,11 +24,12 @@ import {
   MarketNews,
 } from '@/components/insights';
 import { Button, Card, Badge, Tabs, TabsList, TabsTrigger, TabsContent, Skeleton } from '@/components/ui';
-import { useMarketDetail, useSavedResearch } from '@/hooks';
+import { useMarketDetail, useMarketCandles, useMarketTrades, useSavedResearch } from '@/hooks';
 import { useMarketNews } from '@/hooks/useMarketNews';
-import { useStrategy } from '@/context';
+import { useStrategy, useAuth } from '@/context';
 import { formatPrice, formatCompactNumber, formatRelativeDate, formatPriceChange } from '@/lib/formatters';
 import { getPolymarketUrl } from '@/lib/polymarket';
+import { findLargeTrades } from '@/lib/math/indicators';
 import {
   GeminiBrief as GeminiBriefType,
   GeminiError,
@@ -34,18 +38,48 @@ import {
   StrategyAnalysis,
 } from '@/types';
 
+// Trades worth at least this much (USDC) are marked on the chart
+const LARGE_TRADE_NOTIONAL = 1000;
+
 export default function MarketDetailPage() {
   const params = useParams();
   const router = useRouter();
   const marketId = typeof params.id === 'string' ? decodeURIComponent(params.id) : null;
 
   // Fetch market data
-  const { market, priceHistory, loading, historyLoading, error, timeRange, setTimeRange } =
+  const { market, priceHistory, historyGaps, loading, historyLoading, error, timeRange, setTimeRange } =
     useMarketDetail(marketId);
 
+  // Candles are only fetched while the chart shows them
+  const [chartMode, setChartMode] = useState<PriceChartMode>('line');
+  const { candles, gaps: candleGaps, loading: candlesLoading } =
+    useMarketCandles(marketId, timeRange, chartMode === 'candles');
+
   // Fetch news for confidence meter
   const { articles: newsArticles } = useMarketNews(marketId);
 
+  // Chart indicators and event annotations; trades are only fetched while shown
+  const [chartOverlays, setChartOverlays] = useState<PriceChartOverlay[]>([]);
+  const { trades } = useMarketTrades(marketId, chartOverlays.includes('trades'));
+
+  const chartAnnotations = useMemo((): PriceChartAnnotation[] => [
+    ...newsArticles
+      .map(article => ({
+        timestamp: Date.parse(article.publishedAt),
+        kind: 'news' as const,
+        label: `${article.title} (${article.source})`,
+        url: article.url,
+      }))
+      .filter(annotation => !isNaN(annotation.timestamp)),
+    ...findLargeTrades(trades, LARGE_TRADE_NOTIONAL).map(trade => ({
+      timestamp: trade.timestamp,
+      kind: 'trade' as const,
+      label: `${trade.side === 'buy' ? 'Buy' : 'Sell'} ${Math.round(trade.size).toLocaleString()} shares at ${formatPrice(trade.price)} ($${formatCompactNumber(trade.price * trade.size)})`,
+      price: trade.price,
+      side: trade.side,
+    })),
+  ], [newsArticles, trades]);
+
   // AI brief state
   const [brief, setBrief] = useState<GeminiBriefType | null>(null);
   const [briefError, setBriefError] = useState<GeminiError | null>(null);
@@ -53,14 +87,22 @@ export default function MarketDetailPage() {
 
   // Scanner state
   const [scannerLoading, setScannerLoading] = useState(false);
+  const [scanConfig, setScanConfig] = useState<ScannerConfig>();
 
 
   // Research modal state
   const [showResearchModal, setShowResearchModal] = useState(false);
 
+  // Alerts (server-side, so signed-in users only)
+  const { isAuthenticated } = useAuth();
+  const [showAlertModal, setShowAlertModal] = useState(false);
+
+  // Watchlists
+  const [showWatchlistModal, setShowWatchlistModal] = useState(false);
+
   // Saved research
   const { isMarketSaved } = useSavedResearch();
-  const isSaved = marketId ? isMarketSaved(marketId) : false;
+  const isSaved = market ? isMarketSaved(market.id) : false;
 
   // Context
   const {
@@ -112,6 +154,7 @@ export default function MarketDetailPage() {
     async (cluster: MarketCluster, config: ScannerConfig) => {
       try {
         setScannerLoading(true);
+        setScanConfig(config);
 
         const response = await fetch('/api/scanner', {
           method: 'POST',
@@ -186,6 +229,14 @@ export default function MarketDetailPage() {
             <div className="flex items-center gap-2 mb-2">
               <Badge variant="default">{market.category}</Badge>
               {market.active && !market.closed && <Badge variant="live">LIVE</Badge>}
+              {market.eventSlug && (
+                <Link href={`/event/${encodeURIComponent(market.eventSlug)}`}>
+                  <Badge variant="default" className="hover:text-text-primary">
+                    <Layers size={12} className="mr-1" />
+                    View Event
+                  </Badge>
+                </Link>
+              )}
               {isSaved && (
                 <Badge variant="warning" className="bg-warning/20 text-warning">
                   <BookmarkCheck size={12} className="mr-1" />
@@ -239,26 +290,38 @@ export default function MarketDetailPage() {
             >
               {clusterMarkets.some((m) => m.id === market.id) ? 'Remove from Cluster' : 'Add to Cluster'}
             </Button>
-            <a
-              href={getPolymarketUrl(market)}
-              target="_blank"
-              rel="noopener noreferrer"
-              onClick={(e) => {
-                // Debug: log market data for URL generation
-                console.log('[Polymarket Link] Market data:', {
-                  id: market?.id,
-                  slug: market?.slug,
-                  conditionId: market?.conditionId,
-                  eventSlug: market?.eventSlug,
-                  generatedUrl: getPolymarketUrl(market),
-                });
-              }}
-            >
-              <Button variant="secondary" size="sm">
-                <ExternalLink size={14} className="mr-1" />
-                Polymarket
+            <Button variant="ghost" size="sm" onClick={() => setShowWatchlistModal(true)}>
+              <ListChecks size={14} className="mr-1" />
+              Watchlist
+            </Button>
+            {isAuthenticated && (
+              <Button variant="ghost" size="sm" onClick={() => setShowAlertModal(true)}>
+                <Bell size={14} className="mr-1" />
+                Set Alert
               </Button>
-            </a>
+            )}
+            {(market.venue ?? 'polymarket') === 'polymarket' && (
+              <a
+                href={getPolymarketUrl(market)}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => {
+                  // Debug: log market data for URL generation
+                  console.log('[Polymarket Link] Market data:', {
+                    id: market?.id,
+                    slug: market?.slug,
+                    conditionId: market?.conditionId,
+                    eventSlug: market?.eventSlug,
+                    generatedUrl: getPolymarketUrl(market),
+                  });
+                }}
+              >
+                <Button variant="secondary" size="sm">
+                  <ExternalLink size={14} className="mr-1" />
+                  Polymarket
+                </Button>
+              </a>
+            )}
           </div>
         </div>
 
@@ -295,10 +358,23 @@ export default function MarketDetailPage() {
         <div className="lg:col-span-2">
           <PriceChart
             data={priceHistory}
+            gaps={chartMode === 'candles' ? candleGaps : historyGaps}
             range={timeRange}
             onRangeChange={setTimeRange}
-            loading={historyLoading}
+            loading={chartMode === 'candles' ? candlesLoading : historyLoading}
+            mode={chartMode}
+            onModeChange={setChartMode}
+            candles={candles}
+            overlays={chartOverlays}
+            onOverlaysChange={setChartOverlays}
+            annotations={chartAnnotations}
           />
+
+          {!market.closed && (
+            <div className="mt-6">
+              <OrderbookPanel market={market} />
+            </div>
+          )}
         </div>
 
         {/* Right: Tabs (1/3 width on desktop) */}
@@ -329,7 +405,7 @@ export default function MarketDetailPage() {
                   onClear={clearCluster}
                 />
                 {(scannerResult || scannerLoading) && (
-                  <ScannerPanel result={scannerResult} loading={scannerLoading} />
+                  <ScannerPanel result={scannerResult} loading={scannerLoading} config={scanConfig} />
                 )}
               </div>
             </TabsContent>
@@ -404,6 +480,20 @@ export default function MarketDetailPage() {
         onClose={() => setShowResearchModal(false)}
         market={market}
       />
+
+      <WatchlistPickerModal
+        isOpen={showWatchlistModal}
+        onClose={() => setShowWatchlistModal(false)}
+        market={market}
+      />
+
+      {isAuthenticated && (
+        <AlertRuleModal
+          isOpen={showAlertModal}
+          onClose={() => setShowAlertModal(false)}
+          market={market}
+        />
+      )}
     </div>
   );
 }
@@ -2,15 +2,15 @@
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Zap, X, Scan, RefreshCw, AlertCircle, Radio, Sparkles } from 'lucide-react';
+import { Zap, X, Scan, RefreshCw, AlertCircle, Radio, Sparkles, Radar, ArrowLeftRight } from 'lucide-react';
 import { MarketGrid, MarketSearch, CategoryPills } from '@/components/markets';
-import { ClusterBuilder, ScannerPanel } from '@/components/scanner';
+import { ClusterBuilder, ScannerPanel, DiscoveryFeed, CrossVenueFeed } from '@/components/scanner';
 import { ResearchModal } from '@/components/research';
 import { NaturalLanguageInterface } from '@/components/chat';
 import { Button, Card, Badge, Modal } from '@/components/ui';
-import { useMarkets } from '@/hooks';
+import { useMarkets, useScannerDiscovery, useCrossVenueComparison } from '@/hooks';
 import { useStrategy, useAuth } from '@/context';
-import { Market, MarketCluster, ScannerConfig } from '@/types';
+import { Market, MarketCluster, ScannerConfig, Venue } from '@/types';
 import { detectClusterType, extractThresholds } from '@/lib/math/scanner';
 import { generateId } from '@/lib/utils';
 
@@ -52,6 +52,15 @@ export default function MarketsPage() {
   const [showScannerModal, setShowScannerModal] = useState(false);
   const [scannerLoading, setScannerLoading] = useState(false);
 
+  // Discovery feed state (only fetched once the modal is opened)
+  const [showDiscoveryModal, setShowDiscoveryModal] = useState(false);
+  const discovery = useScannerDiscovery({ enabled: showDiscoveryModal });
+
+  // Cross-venue comparison state (only fetched once the modal is opened)
+  const [showCompareModal, setShowCompareModal] = useState(false);
+  const [venueFees, setVenueFees] = useState<Partial<Record<Venue, number>>>({});
+  const comparison = useCrossVenueComparison({ enabled: showCompareModal, fees: venueFees });
+
   // Research modal state
   const [showResearchModal, setShowResearchModal] = useState(false);
   const [researchMarket, setResearchMarket] = useState<Market | null>(null);
@@ -225,16 +234,35 @@ export default function MarketsPage() {
         <div className="flex items-center justify-between gap-4">
           <CategoryPills selected={category === 'trending' || sortBy === 'trending' ? 'trending' : category} onSelect={handleCategorySelect} />
           
-          {/* Cluster mode toggle */}
-          <Button
-            variant={clusterMode ? 'primary' : 'secondary'}
-            size="sm"
-            onClick={() => setClusterMode(!clusterMode)}
-            className="flex-shrink-0"
-          >
-            <Zap size={14} className="mr-1" />
-            {clusterMode ? 'Exit Cluster Mode' : 'Build Cluster'}
-          </Button>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowDiscoveryModal(true)}
+            >
+              <Radar size={14} className="mr-1" />
+              Discover
+            </Button>
+
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowCompareModal(true)}
+            >
+              <ArrowLeftRight size={14} className="mr-1" />
+              Compare Venues
+            </Button>
+
+            {/* Cluster mode toggle */}
+            <Button
+              variant={clusterMode ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setClusterMode(!clusterMode)}
+            >
+              <Zap size={14} className="mr-1" />
+              {clusterMode ? 'Exit Cluster Mode' : 'Build Cluster'}
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -376,6 +404,37 @@ export default function MarketsPage() {
         />
       </Modal>
 
+      {/* Discovery feed modal */}
+      <Modal
+        isOpen={showDiscoveryModal}
+        onClose={() => setShowDiscoveryModal(false)}
+        title="Discovered Inefficiencies"
+        size="lg"
+      >
+        <DiscoveryFeed
+          result={discovery.result}
+          loading={discovery.loading}
+          error={discovery.error}
+          onRefresh={() => discovery.refetch(true)}
+        />
+      </Modal>
+
+      {/* Cross-venue comparison modal */}
+      <Modal
+        isOpen={showCompareModal}
+        onClose={() => setShowCompareModal(false)}
+        title="Cross-Venue Price Gaps"
+        size="lg"
+      >
+        <CrossVenueFeed
+          result={comparison.result}
+          loading={comparison.loading}
+          error={comparison.error}
+          onRefresh={() => comparison.refetch(true)}
+          onFeeChange={(venue, bps) => setVenueFees(fees => ({ ...fees, [venue]: bps }))}
+        />
+      </Modal>
+
       {/* Research modal */}
       <ResearchModal
         isOpen={showResearchModal}
@@ -20,7 +20,8 @@ import {
 } from 'lucide-react';
 import { BriefCard } from '@/components/research';
 import { Button, Card, Input, Modal, Badge, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui';
-import { useStrategy } from '@/context';
+import { WorkspaceSwitcher } from '@/components/workspace';
+import { useStrategy, useAuth, useWorkspace } from '@/context';
 import { useSavedResearch, SavedResearch } from '@/hooks';
 import { formatRelativeDate, formatPrice } from '@/lib/formatters';
 
@@ -31,10 +32,12 @@ function SavedResearchCard({
   research,
   onDelete,
   onAddNote,
+  readOnly,
 }: {
   research: SavedResearch;
   onDelete: () => void;
   onAddNote: () => void;
+  readOnly?: boolean;
 }) {
   const riskColors = {
     low: 'text-bullish bg-bullish/10',
@@ -134,31 +137,36 @@ function SavedResearchCard({
         <div className="flex items-center gap-1 text-xs text-text-secondary">
           <Calendar size={12} />
           Saved {formatRelativeDate(new Date(research.savedAt))}
+          {research.savedBy && ` by ${research.savedBy}`}
         </div>
         <div className="flex gap-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onAddNote}
-            className="opacity-0 group-hover:opacity-100 transition-opacity"
-          >
-            <StickyNote size={12} className="mr-1" />
-            Note
-          </Button>
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onAddNote}
+              className="opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <StickyNote size={12} className="mr-1" />
+              Note
+            </Button>
+          )}
           <Link href={`/market/${encodeURIComponent(research.marketId)}`}>
             <Button variant="secondary" size="sm">
               <ArrowUpRight size={12} className="mr-1" />
               View
             </Button>
           </Link>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onDelete}
-            className="text-bearish hover:bg-bearish/10 opacity-0 group-hover:opacity-100 transition-opacity"
-          >
-            <Trash2 size={12} />
-          </Button>
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="text-bearish hover:bg-bearish/10 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <Trash2 size={12} />
+            </Button>
+          )}
         </div>
       </div>
     </Card>
@@ -167,7 +175,9 @@ function SavedResearchCard({
 
 export default function ResearchPage() {
   const { drafts, deleteDraft } = useStrategy();
-  const { savedResearch, removeResearch, updateNotes, clearAll, isLoaded } = useSavedResearch();
+  const { savedResearch, removeResearch, updateNotes, clearAll, isLoaded, canEdit } = useSavedResearch();
+  const { isAuthenticated } = useAuth();
+  const { activeWorkspace } = useWorkspace();
   const [searchQuery, setSearchQuery] = useState('');
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [deleteType, setDeleteType] = useState<'draft' | 'saved'>('draft');
@@ -216,9 +226,14 @@ export default function ResearchPage() {
           <BookOpen size={28} className="text-bullish" />
           <h1 className="text-3xl font-bold text-text-primary">Research Hub</h1>
         </div>
-        <p className="text-text-secondary">
-          Your saved market research and drafts. Stay informed and make better decisions.
-        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-text-secondary">
+            {activeWorkspace
+              ? `Research shared with ${activeWorkspace.name}, and your own drafts.`
+              : 'Your saved market research and drafts. Stay informed and make better decisions.'}
+          </p>
+          {isAuthenticated && <WorkspaceSwitcher />}
+        </div>
       </motion.div>
 
       {/* Tabs */}
@@ -259,7 +274,7 @@ export default function ResearchPage() {
             leftIcon={<Search size={18} />}
           />
         </div>
-        {activeTab === 'saved' && savedResearch.length > 0 && (
+        {activeTab === 'saved' && savedResearch.length > 0 && canEdit && (
           <Button
             variant="ghost"
             onClick={() => setClearConfirm(true)}
@@ -295,6 +310,7 @@ export default function ResearchPage() {
                   >
                     <SavedResearchCard
                       research={research}
+                      readOnly={!canEdit}
                       onDelete={() => {
                         setDeleteType('saved');
                         setDeleteConfirmId(research.id);
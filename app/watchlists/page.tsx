@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { ListChecks, Plus, Trash2, Search, RefreshCw } from 'lucide-react';
+import { WatchlistTable, WatchlistControls } from '@/components/watchlists';
+import { Button, Card, Input } from '@/components/ui';
+import { useWatchlists, useWatchlistMarkets, useLivePrices } from '@/hooks';
+import { WatchlistRow, sortWatchlistRows, filterWatchlistRows } from '@/lib/watchlists/columns';
+import { matchesMarketRef } from '@/lib/providers/marketRef';
+
+export default function WatchlistsPage() {
+  const {
+    watchlists,
+    isLoaded,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    removeMarket,
+    setColumns,
+    setSort,
+    setFilters,
+  } = useWatchlists();
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [rename, setRename] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Fall back to the first list when none is chosen or the chosen one is gone
+  const active = watchlists.find(list => list.id === activeId) ?? watchlists[0] ?? null;
+
+  useEffect(() => {
+    setRename(null);
+  }, [active?.id]);
+
+  const { markets, loading, error, refetch } = useWatchlistMarkets(active?.marketIds ?? []);
+  const { livePrices } = useLivePrices(markets);
+
+  // Rows in the order markets were added, until a sort is chosen
+  const rows = useMemo(() => {
+    const all: WatchlistRow[] = (active?.marketIds ?? [])
+      .flatMap(ref => markets.find(market => matchesMarketRef(ref, market)) ?? [])
+      .filter(market => market.question.toLowerCase().includes(searchQuery.toLowerCase()))
+      .map(market => ({ market, livePrice: livePrices[market.id] }));
+    return sortWatchlistRows(filterWatchlistRows(all, active?.filters), active?.sort);
+  }, [markets, livePrices, searchQuery, active?.marketIds, active?.filters, active?.sort]);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    setActiveId(createWatchlist(newName));
+    setNewName('');
+  };
+
+  const handleRename = () => {
+    if (active && rename?.trim()) renameWatchlist(active.id, rename);
+    setRename(null);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8">
+      {/* Header */}
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+        <div className="flex items-center gap-3 mb-2">
+          <ListChecks size={28} className="text-bullish" />
+          <h1 className="text-3xl font-bold text-text-primary">Watchlists</h1>
+        </div>
+        <p className="text-text-secondary">
+          Follow sets of markets with the columns you care about. Prices update live.
+        </p>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Lists */}
+        <div className="space-y-3">
+          <div className="space-y-1">
+            {watchlists.map(list => (
+              <button
+                key={list.id}
+                onClick={() => setActiveId(list.id)}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${
+                  active?.id === list.id
+                    ? 'bg-bullish/10 text-bullish'
+                    : 'text-text-secondary hover:text-text-primary hover:bg-surface'
+                }`}
+              >
+                <span className="truncate">{list.name}</span>
+                <span className="text-xs">{list.marketIds.length}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="New watchlist"
+                className="text-sm"
+              />
+            </div>
+            <Button variant="secondary" size="sm" className="h-auto" onClick={handleCreate} disabled={!newName.trim()}>
+              <Plus size={14} />
+            </Button>
+          </div>
+        </div>
+
+        {/* Active list */}
+        <div className="lg:col-span-3">
+          {!isLoaded ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-bullish" />
+            </div>
+          ) : !active ? (
+            <Card padding="lg" className="text-center">
+              <ListChecks size={48} className="mx-auto text-text-secondary mb-4" />
+              <h3 className="text-lg font-semibold text-text-primary mb-2">No watchlists yet</h3>
+              <p className="text-text-secondary mb-4">
+                Create one here, or use Watchlist on any market page to add it.
+              </p>
+              <Link href="/">
+                <Button variant="secondary">Browse markets</Button>
+              </Link>
+            </Card>
+          ) : (
+            <Card padding="md" className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                {rename !== null ? (
+                  <div className="flex-1">
+                    <Input
+                      value={rename}
+                      onChange={(e) => setRename(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setRename(null);
+                      }}
+                      onBlur={handleRename}
+                      autoFocus
+                      className="text-sm"
+                    />
+                  </div>
+                ) : (
+                  <h2
+                    className="text-lg font-semibold text-text-primary truncate cursor-text"
+                    onClick={() => setRename(active.name)}
+                    title="Rename"
+                  >
+                    {active.name}
+                  </h2>
+                )}
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => refetch()} title="Refresh">
+                    <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-bearish hover:bg-bearish/10"
+                    onClick={() => {
+                      if (confirm(`Delete the watchlist "${active.name}"?`)) deleteWatchlist(active.id);
+                    }}
+                  >
+                    <Trash2 size={14} className="mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search this watchlist..."
+                leftIcon={<Search size={16} />}
+                className="text-sm"
+              />
+
+              <WatchlistControls
+                columns={active.columns}
+                filters={active.filters ?? []}
+                onColumnsChange={(columns) => setColumns(active.id, columns)}
+                onFiltersChange={(filters) => setFilters(active.id, filters)}
+              />
+
+              {error && <p className="text-sm text-bearish">{error}</p>}
+
+              {active.marketIds.length === 0 ? (
+                <p className="text-sm text-text-secondary text-center py-8">
+                  This watchlist is empty. Add markets from their pages.
+                </p>
+              ) : rows.length > 0 ? (
+                <WatchlistTable
+                  rows={rows}
+                  columns={active.columns}
+                  sort={active.sort}
+                  onSort={(sort) => setSort(active.id, sort)}
+                  onRemove={(market) => active.marketIds
+                    .filter(ref => matchesMarketRef(ref, market))
+                    .forEach(ref => removeMarket(active.id, ref))}
+                />
+              ) : (
+                <p className="text-sm text-text-secondary text-center py-8">
+                  {loading ? 'Loading markets…' : 'No markets match the search and filters.'}
+                </p>
+              )}
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
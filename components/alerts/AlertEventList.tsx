@@ -0,0 +1,34 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertEvent } from '@/types';
+
+interface AlertEventListProps {
+  events: AlertEvent[];
+}
+
+/**
+ * Fired alerts, newest first
+ */
+export function AlertEventList({ events }: AlertEventListProps) {
+  return (
+    <div className="divide-y divide-border">
+      {events.map(event => (
+        <div key={event.id} className="py-3 first:pt-0 last:pb-0">
+          <div className="flex items-start justify-between gap-3">
+            <Link
+              href={`/market/${encodeURIComponent(event.marketId)}`}
+              className="text-sm font-medium text-text-primary hover:text-bullish transition-colors line-clamp-1"
+            >
+              {event.marketQuestion}
+            </Link>
+            <span className="text-xs text-text-secondary shrink-0">
+              {new Date(event.triggeredAt).toLocaleString()}
+            </span>
+          </div>
+          <p className="text-xs text-text-secondary mt-0.5">{event.message}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useCallback } from 'react';
+import { AlertEvent, UserSettings } from '@/types';
+import { useToast } from '@/components/ui';
+import { useAlertEvents, useSyncedStorage } from '@/hooks';
+
+/**
+ * Announces alerts the server fired: a toast in the app, plus a browser
+ * notification when Settings allow it and permission was granted. Renders
+ * nothing; mounted once in the layout.
+ */
+export function AlertNotifier() {
+  const { showToast } = useToast();
+  const [settings] = useSyncedStorage<UserSettings>('pulseforge_settings', 'settings', {});
+  const { priceAlerts = true, notifications = true } = settings;
+
+  const handleNewEvents = useCallback((events: AlertEvent[]) => {
+    if (!priceAlerts) return;
+
+    events.forEach(event => {
+      showToast('info', `${event.marketQuestion}: ${event.message}`);
+
+      if (notifications && 'Notification' in window && Notification.permission === 'granted') {
+        const notification = new Notification(event.marketQuestion, {
+          body: event.message,
+          icon: '/favicon.svg',
+          tag: event.id,
+        });
+        notification.onclick = () => {
+          window.focus();
+          window.location.href = `/market/${encodeURIComponent(event.marketId)}`;
+        };
+      }
+    });
+  }, [priceAlerts, notifications, showToast]);
+
+  useAlertEvents({ onNewEvents: handleNewEvents });
+
+  return null;
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import Link from 'next/link';
+import { Trash2 } from 'lucide-react';
+import { AlertRule } from '@/types';
+import { Badge } from '@/components/ui';
+import { describeAlertCondition } from '@/lib/alerts/evaluate';
+
+interface AlertRuleListProps {
+  rules: AlertRule[];
+  onToggle: (rule: AlertRule) => void;
+  onDelete: (rule: AlertRule) => void;
+}
+
+export function AlertRuleList({ rules, onToggle, onDelete }: AlertRuleListProps) {
+  return (
+    <div className="space-y-2">
+      {rules.map(rule => (
+        <div
+          key={rule.id}
+          className="flex items-center justify-between gap-3 bg-surface border border-border rounded-lg px-4 py-3"
+        >
+          <div className="min-w-0">
+            <Link
+              href={`/market/${encodeURIComponent(rule.marketId)}`}
+              className="text-sm font-medium text-text-primary hover:text-bullish transition-colors line-clamp-1"
+            >
+              {rule.marketQuestion}
+            </Link>
+            <p className="text-xs text-text-secondary mt-0.5">
+              {describeAlertCondition(rule.condition, rule.outcomeNames)}
+              {rule.lastTriggeredAt && ` · last fired ${new Date(rule.lastTriggeredAt).toLocaleString()}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {!rule.enabled && <Badge size="sm">Paused</Badge>}
+            <button
+              onClick={() => onToggle(rule)}
+              className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                rule.enabled ? 'bg-bullish' : 'bg-border'
+              }`}
+              title={rule.enabled ? 'Pause alert' : 'Resume alert'}
+            >
+              <span
+                className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                  rule.enabled ? 'translate-x-5' : 'translate-x-1'
+                }`}
+              />
+            </button>
+            <button
+              onClick={() => onDelete(rule)}
+              className="text-text-secondary hover:text-bearish transition-colors p-1"
+              title="Delete alert"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+import { Bell, Trash2 } from 'lucide-react';
+import { Market, AlertCondition, AlertType, UserSettings } from '@/types';
+import { Modal, Button, Input, useToast } from '@/components/ui';
+import { useAlerts, useSyncedStorage } from '@/hooks';
+import { describeAlertCondition } from '@/lib/alerts/evaluate';
+import { formatMarketRef } from '@/lib/providers/marketRef';
+
+interface AlertRuleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  market: Market;
+}
+
+const TYPE_LABELS: Record<AlertType, string> = {
+  price_cross: 'Price crosses a level',
+  percent_move: 'Price moves by %',
+  volume_spike: 'Volume spike',
+  spread_widening: 'Spread widens',
+  resolution_approaching: 'Resolution approaching',
+};
+
+const COOLDOWN_OPTIONS = [
+  { value: 15, label: '15 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 240, label: '4 hours' },
+  { value: 1440, label: '1 day' },
+];
+
+const selectClass = 'w-full bg-surface border border-border rounded-lg px-3 py-2.5 text-sm text-text-primary';
+
+/**
+ * Create alert rules on a market and remove its existing ones
+ */
+export function AlertRuleModal({ isOpen, onClose, market }: AlertRuleModalProps) {
+  const { rules, createRule, deleteRule } = useAlerts(market);
+  const { showToast } = useToast();
+  const [settings] = useSyncedStorage<UserSettings>('pulseforge_settings', 'settings', {});
+
+  const [type, setType] = useState<AlertType>('price_cross');
+  const [outcomeIndex, setOutcomeIndex] = useState(0);
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [level, setLevel] = useState('');
+  const [percent, setPercent] = useState('');
+  const [multiplier, setMultiplier] = useState('3');
+  const [windowMinutes, setWindowMinutes] = useState('60');
+  const [maxSpread, setMaxSpread] = useState('5');
+  const [hoursBefore, setHoursBefore] = useState('24');
+  const [cooldownMinutes, setCooldownMinutes] = useState(60);
+  const [saving, setSaving] = useState(false);
+
+  const outcomeNames = market.outcomes.map(o => o.name);
+
+  // Condition from the form, or null while a field is missing or out of range
+  const buildCondition = (): AlertCondition | null => {
+    const minutes = Number(windowMinutes);
+    switch (type) {
+      case 'price_cross': {
+        const value = Number(level) / 100;
+        return level && value > 0 && value < 1
+          ? { type, outcomeIndex, level: value, direction }
+          : null;
+      }
+      case 'percent_move': {
+        // Defaults to the threshold from Settings
+        const value = Number(percent || settings.priceAlertThreshold || 5);
+        return value > 0 && minutes > 0 ? { type, outcomeIndex, percent: value, windowMinutes: minutes } : null;
+      }
+      case 'volume_spike': {
+        const value = Number(multiplier);
+        return value >= 1 && minutes > 0 ? { type, multiplier: value, windowMinutes: minutes } : null;
+      }
+      case 'spread_widening': {
+        const value = Number(maxSpread) / 100;
+        return value > 0 && value < 1 ? { type, maxSpread: value } : null;
+      }
+      case 'resolution_approaching': {
+        const value = Number(hoursBefore);
+        return value > 0 ? { type, hoursBefore: value } : null;
+      }
+    }
+  };
+
+  const condition = buildCondition();
+
+  const handleCreate = async () => {
+    if (!condition) return;
+    try {
+      setSaving(true);
+      await createRule({
+        marketId: formatMarketRef(market),
+        marketQuestion: market.question,
+        outcomeNames,
+        condition,
+        cooldownMinutes,
+      });
+      showToast('success', 'Alert created');
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to create alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const outcomeSelect = (
+    <select
+      value={outcomeIndex}
+      onChange={(e) => setOutcomeIndex(Number(e.target.value))}
+      className={selectClass}
+    >
+      {outcomeNames.map((name, index) => (
+        <option key={index} value={index}>{name}</option>
+      ))}
+    </select>
+  );
+
+  const windowInput = (
+    <div>
+      <label className="text-xs text-text-secondary mb-1 block">Within (minutes)</label>
+      <Input type="number" min={1} value={windowMinutes} onChange={(e) => setWindowMinutes(e.target.value)} />
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Price Alerts" size="md">
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <div>
+            <label className="text-xs text-text-secondary mb-1 block">Alert when</label>
+            <select value={type} onChange={(e) => setType(e.target.value as AlertType)} className={selectClass}>
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {type === 'price_cross' && (
+            <div className="grid grid-cols-3 gap-2">
+              {outcomeSelect}
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as 'above' | 'below')}
+                className={selectClass}
+              >
+                <option value="above">rises above</option>
+                <option value="below">falls below</option>
+              </select>
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                value={level}
+                onChange={(e) => setLevel(e.target.value)}
+                placeholder="Level %"
+              />
+            </div>
+          )}
+
+          {type === 'percent_move' && (
+            <div className="grid grid-cols-3 gap-2 items-end">
+              <div>
+                <label className="text-xs text-text-secondary mb-1 block">Outcome</label>
+                {outcomeSelect}
+              </div>
+              <div>
+                <label className="text-xs text-text-secondary mb-1 block">Moves by (%)</label>
+                <Input
+                  type="number"
+                  min={0.1}
+                  value={percent}
+                  onChange={(e) => setPercent(e.target.value)}
+                  placeholder={String(settings.priceAlertThreshold || 5)}
+                />
+              </div>
+              {windowInput}
+            </div>
+          )}
+
+          {type === 'volume_spike' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-text-secondary mb-1 block">Times the 24h pace</label>
+                <Input type="number" min={1} step={0.5} value={multiplier} onChange={(e) => setMultiplier(e.target.value)} />
+              </div>
+              {windowInput}
+            </div>
+          )}
+
+          {type === 'spread_widening' && (
+            <div>
+              <label className="text-xs text-text-secondary mb-1 block">Spread reaches (¢)</label>
+              <Input type="number" min={0.1} max={99} value={maxSpread} onChange={(e) => setMaxSpread(e.target.value)} />
+            </div>
+          )}
+
+          {type === 'resolution_approaching' && (
+            <div>
+              <label className="text-xs text-text-secondary mb-1 block">Hours before the end date</label>
+              <Input type="number" min={1} value={hoursBefore} onChange={(e) => setHoursBefore(e.target.value)} />
+            </div>
+          )}
+
+          {type !== 'resolution_approaching' && (
+            <div>
+              <label className="text-xs text-text-secondary mb-1 block">Don&apos;t repeat for</label>
+              <select
+                value={cooldownMinutes}
+                onChange={(e) => setCooldownMinutes(Number(e.target.value))}
+                className={selectClass}
+              >
+                {COOLDOWN_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <Button variant="primary" className="w-full" onClick={handleCreate} disabled={!condition || saving}>
+            <Bell size={14} className="mr-2" />
+            {saving ? 'Creating…' : 'Create Alert'}
+          </Button>
+        </div>
+
+        {rules.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-text-secondary uppercase mb-2">Alerts on this market</p>
+            <div className="space-y-1">
+              {rules.map(rule => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between gap-2 bg-background rounded-lg px-3 py-2"
+                >
+                  <span className={`text-sm ${rule.enabled ? 'text-text-primary' : 'text-text-secondary line-through'}`}>
+                    {describeAlertCondition(rule.condition, rule.outcomeNames)}
+                  </span>
+                  <button
+                    onClick={() => deleteRule(rule.id).catch(() => showToast('error', 'Failed to delete alert'))}
+                    className="text-text-secondary hover:text-bearish transition-colors p-1"
+                    title="Delete alert"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
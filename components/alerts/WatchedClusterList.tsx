@@ -0,0 +1,117 @@
+'use client';
+
+import { Trash2 } from 'lucide-react';
+import { WatchedCluster } from '@/types';
+import { Badge } from '@/components/ui';
+
+interface WatchedClusterListProps {
+  clusters: WatchedCluster[];
+  onUpdate: (cluster: WatchedCluster, updates: Partial<Pick<WatchedCluster, 'enabled' | 'severityThreshold' | 'intervalMinutes'>>) => void;
+  onDelete: (cluster: WatchedCluster) => void;
+}
+
+const THRESHOLD_OPTIONS = [
+  { value: 40, label: 'Medium (40+)' },
+  { value: 70, label: 'High (70+)' },
+  { value: 90, label: 'Severe (90+)' },
+];
+
+const INTERVAL_OPTIONS = [
+  { value: 5, label: 'Every 5 min' },
+  { value: 15, label: 'Every 15 min' },
+  { value: 60, label: 'Hourly' },
+  { value: 240, label: 'Every 4 hours' },
+];
+
+const selectClass = 'bg-background border border-border rounded-lg px-2 py-1 text-xs text-text-primary';
+
+/**
+ * Watched clusters with their latest flags and rescan settings
+ */
+export function WatchedClusterList({ clusters, onUpdate, onDelete }: WatchedClusterListProps) {
+  return (
+    <div className="space-y-2">
+      {clusters.map(watched => (
+        <div key={watched.id} className="bg-surface border border-border rounded-lg px-4 py-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-text-primary truncate">{watched.cluster.name}</p>
+              <p className="text-xs text-text-secondary mt-0.5">
+                {watched.cluster.markets.length} markets
+                {watched.lastScannedAt && ` · scanned ${new Date(watched.lastScannedAt).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {watched.flags.length > 0 ? (
+                <Badge variant="warning" size="sm">
+                  {watched.flags.length} flag{watched.flags.length !== 1 ? 's' : ''}
+                </Badge>
+              ) : (
+                <Badge variant="success" size="sm">Clean</Badge>
+              )}
+              <button
+                onClick={() => onUpdate(watched, { enabled: !watched.enabled })}
+                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                  watched.enabled ? 'bg-bullish' : 'bg-border'
+                }`}
+                title={watched.enabled ? 'Pause rescans' : 'Resume rescans'}
+              >
+                <span
+                  className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                    watched.enabled ? 'translate-x-5' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+              <button
+                onClick={() => onDelete(watched)}
+                className="text-text-secondary hover:text-bearish transition-colors p-1"
+                title="Stop watching"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+
+          {watched.flags.length > 0 && (
+            <ul className="mt-2 space-y-0.5">
+              {watched.flags.map(flag => (
+                <li key={flag.key} className="text-xs text-text-secondary flex justify-between gap-2">
+                  <span className="truncate">{flag.title}</span>
+                  <span className="shrink-0">{flag.severityScore}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-2 mt-3 text-xs text-text-secondary">
+            <span>Notify on new flags and at</span>
+            <select
+              value={watched.severityThreshold}
+              onChange={(e) => onUpdate(watched, { severityThreshold: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {THRESHOLD_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+              {!THRESHOLD_OPTIONS.some(o => o.value === watched.severityThreshold) && (
+                <option value={watched.severityThreshold}>{watched.severityThreshold}+</option>
+              )}
+            </select>
+            <select
+              value={watched.intervalMinutes}
+              onChange={(e) => onUpdate(watched, { intervalMinutes: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {INTERVAL_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+              {!INTERVAL_OPTIONS.some(o => o.value === watched.intervalMinutes) && (
+                <option value={watched.intervalMinutes}>Every {watched.intervalMinutes} min</option>
+              )}
+            </select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+export { AlertRuleModal } from './AlertRuleModal';
+export { AlertRuleList } from './AlertRuleList';
+export { AlertEventList } from './AlertEventList';
+export { AlertNotifier } from './AlertNotifier';
+export { WatchedClusterList } from './WatchedClusterList';
@@ -36,7 +36,7 @@ export function AuthModal({ isOpen, onClose, initialTab = 'signin', onSignUpSucc
         setError('Please enter email and password');
       }
     } catch (err) {
-      setError('Sign in failed. Please try again.');
+      setError(err instanceof Error ? err.message : 'Sign in failed. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -68,35 +68,16 @@ export function AuthModal({ isOpen, onClose, initialTab = 'signin', onSignUpSucc
         setError('Please fill in all fields');
       }
     } catch (err) {
-      setError('Sign up failed. Please try again.');
+      setError(err instanceof Error ? err.message : 'Sign up failed. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSocialSignIn = async (provider: 'github') => {
-    setError('');
-    setLoading(true);
-
-    try {
-      const name = provider === 'github' ? 'GitHub User' : 'User';
-      const email = `${provider}@example.com`;
-      
-      await signUp(name, email, 'social-auth-token');
-      
-      onClose();
-      
-      // Trigger profile setup for social sign up too
-      if (onSignUpSuccess) {
-        onSignUpSuccess();
-      } else {
-        window.location.reload();
-      }
-    } catch (err) {
-      setError(`${provider} sign in failed. Please try again.`);
-    } finally {
-      setLoading(false);
-    }
+  // OAuth providers aren't wired to the account store yet
+  const handleSocialSignIn = (provider: 'github') => {
+    const label = provider === 'github' ? 'GitHub' : provider;
+    setError(`${label} sign in isn't available yet. Please use email and password.`);
   };
 
   return (
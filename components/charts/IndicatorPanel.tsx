@@ -0,0 +1,97 @@
+'use client';
+
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { TimeRange } from '@/types';
+import { formatChartTime } from '@/lib/formatters';
+
+interface IndicatorPanelProps {
+  title: string;
+  data: object[];
+  dataKey: 'rsi' | 'volatility';
+  color: string;
+  range: TimeRange;
+  // Numeric time domain for the line chart; omitted for the evenly spaced candle axis
+  timeDomain?: [number, number];
+  yDomain?: [number, number];
+  referenceLines?: number[];
+  formatValue: (value: number) => string;
+  syncId: string;
+}
+
+/**
+ * Small chart under the price chart for an oscillator or volatility series,
+ * sharing its time axis and tooltip cursor
+ */
+export function IndicatorPanel({
+  title,
+  data,
+  dataKey,
+  color,
+  range,
+  timeDomain,
+  yDomain,
+  referenceLines = [],
+  formatValue,
+  syncId,
+}: IndicatorPanelProps) {
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-text-secondary mb-1">{title}</p>
+      <div className="h-20">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} syncId={syncId} margin={{ top: 4, right: 10, left: 0, bottom: 0 }}>
+            <XAxis
+              dataKey="timestamp"
+              type={timeDomain ? 'number' : 'category'}
+              scale={timeDomain ? 'time' : 'auto'}
+              domain={timeDomain}
+              hide
+            />
+            <YAxis
+              domain={yDomain ?? ['auto', 'auto']}
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#a1a1aa', fontSize: 10 }}
+              tickFormatter={formatValue}
+              width={45}
+              tickCount={3}
+            />
+            <Tooltip
+              content={({ active, payload }) => {
+                if (!active || !payload?.[0]) return null;
+                const point = payload[0].payload as { timestamp: number } & Record<string, number | null>;
+                const value = point[dataKey];
+                if (value === null || value === undefined) return null;
+                return (
+                  <div className="bg-surface border border-border rounded-lg px-2 py-1 shadow-xl text-xs">
+                    <span className="text-text-secondary">{formatChartTime(point.timestamp, range)} · </span>
+                    <span className="text-text-primary">{formatValue(value)}</span>
+                  </div>
+                );
+              }}
+            />
+            {referenceLines.map((y) => (
+              <ReferenceLine key={y} y={y} stroke="#27272a" strokeDasharray="3 3" />
+            ))}
+            <Line
+              type="monotone"
+              dataKey={dataKey}
+              stroke={color}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
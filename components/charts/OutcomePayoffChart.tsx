@@ -0,0 +1,97 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Cell,
+} from 'recharts';
+import { OutcomePayoff } from '@/types';
+import { formatUSD, truncate } from '@/lib/formatters';
+
+interface OutcomePayoffChartProps {
+  data: OutcomePayoff[];
+}
+
+export function OutcomePayoffChart({ data }: OutcomePayoffChartProps) {
+  // Group outcomes by market so each market gets its own bar group
+  const groups = useMemo(() => {
+    const byMarket = new Map<string, { question: string; outcomes: OutcomePayoff[] }>();
+    data.forEach((item) => {
+      const group = byMarket.get(item.marketId) || { question: item.marketQuestion, outcomes: [] };
+      group.outcomes.push(item);
+      byMarket.set(item.marketId, group);
+    });
+    return Array.from(byMarket.entries()).map(([marketId, group]) => ({ marketId, ...group }));
+  }, [data]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="bg-surface border border-border rounded-xl p-4">
+      <h3 className="text-sm font-medium text-text-primary mb-4">Payoff by Outcome</h3>
+
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.marketId}>
+            <p className="text-xs text-text-secondary mb-2">{truncate(group.question, 60)}</p>
+            <div style={{ height: Math.max(80, group.outcomes.length * 28) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={group.outcomes}
+                  layout="vertical"
+                  margin={{ top: 0, right: 10, left: 0, bottom: 0 }}
+                >
+                  <XAxis
+                    type="number"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: '#a1a1aa', fontSize: 10 }}
+                    tickFormatter={(v) => formatUSD(v)}
+                  />
+                  <YAxis
+                    type="category"
+                    dataKey="outcomeName"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: '#a1a1aa', fontSize: 10 }}
+                    width={90}
+                  />
+                  <Tooltip
+                    cursor={{ fill: 'rgba(255,255,255,0.04)' }}
+                    content={({ active, payload }) => {
+                      if (!active || !payload?.[0]) return null;
+                      const item = payload[0].payload as OutcomePayoff;
+                      const isProfit = item.payoff >= 0;
+                      return (
+                        <div className="bg-surface border border-border rounded-lg px-3 py-2 shadow-xl">
+                          <p className="text-xs text-text-secondary">
+                            If {item.outcomeName} wins ({(item.probability * 100).toFixed(1)}%)
+                          </p>
+                          <p className={`text-sm font-medium ${isProfit ? 'text-success' : 'text-bearish'}`}>
+                            {isProfit ? '+' : ''}{formatUSD(item.payoff)}
+                          </p>
+                        </div>
+                      );
+                    }}
+                  />
+                  <ReferenceLine x={0} stroke="#27272a" />
+                  <Bar dataKey="payoff" radius={[0, 4, 4, 0]}>
+                    {group.outcomes.map((item) => (
+                      <Cell key={item.outcomeId} fill={item.payoff >= 0 ? '#22c55e' : '#ea580c'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import { PayoffDistribution } from '@/types';
+import { formatUSD } from '@/lib/formatters';
+
+interface PayoffDistributionChartProps {
+  distribution: PayoffDistribution;
+}
+
+export function PayoffDistributionChart({ distribution }: PayoffDistributionChartProps) {
+  const chartData = useMemo(
+    () =>
+      distribution.buckets.map((bucket) => ({
+        ...bucket,
+        midpoint: (bucket.payoffFrom + bucket.payoffTo) / 2,
+        probabilityPercent: bucket.probability * 100,
+      })),
+    [distribution.buckets]
+  );
+
+  if (chartData.length === 0) return null;
+
+  const confidencePercent = Math.round(distribution.confidenceLevel * 100);
+
+  return (
+    <div className="bg-surface border border-border rounded-xl p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-text-primary">Payoff Distribution</h3>
+        <span className="text-xs text-text-secondary">
+          {distribution.method === 'monte_carlo'
+            ? `Correlated, ${distribution.samples.toLocaleString()} samples`
+            : distribution.method === 'convolution'
+              ? 'Independent markets, convolved'
+              : 'Independent markets, exact'}
+        </span>
+      </div>
+
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+            <XAxis
+              dataKey="midpoint"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#a1a1aa', fontSize: 10 }}
+              tickFormatter={(v) => formatUSD(v)}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#a1a1aa', fontSize: 10 }}
+              tickFormatter={(v) => `${Math.round(v)}%`}
+              width={36}
+            />
+            <Tooltip
+              cursor={{ fill: 'rgba(255,255,255,0.04)' }}
+              content={({ active, payload }) => {
+                if (!active || !payload?.[0]) return null;
+                const item = payload[0].payload as (typeof chartData)[number];
+                return (
+                  <div className="bg-surface border border-border rounded-lg px-3 py-2 shadow-xl">
+                    <p className="text-xs text-text-secondary">
+                      {formatUSD(item.payoffFrom)} to {formatUSD(item.payoffTo)}
+                    </p>
+                    <p className="text-sm font-medium text-text-primary">
+                      {item.probabilityPercent.toFixed(1)}%
+                    </p>
+                  </div>
+                );
+              }}
+            />
+            <Bar dataKey="probabilityPercent" radius={[4, 4, 0, 0]}>
+              {chartData.map((item, i) => (
+                <Cell key={i} fill={item.midpoint >= 0 ? '#22c55e' : '#ea580c'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Tail risk */}
+      <div className="grid grid-cols-3 gap-3 mt-4 pt-3 border-t border-border text-center">
+        <div>
+          <p className="text-xs text-text-secondary">Chance of Loss</p>
+          <p className="text-sm font-medium text-text-primary">
+            {(distribution.probabilityOfLoss * 100).toFixed(1)}%
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">VaR ({confidencePercent}%)</p>
+          <p className="text-sm font-medium text-bearish">{formatUSD(distribution.valueAtRisk)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">Expected Shortfall</p>
+          <p className="text-sm font-medium text-bearish">{formatUSD(distribution.expectedShortfall)}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
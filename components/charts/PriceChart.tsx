@@ -2,42 +2,216 @@
 
 import { useMemo } from 'react';
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Bar,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
+  ReferenceDot,
 } from 'recharts';
-import { PricePoint, TimeRange } from '@/types';
-import { formatChartTime, formatPrice } from '@/lib/formatters';
+import { LineChart, CandlestickChart, Newspaper, ArrowRightLeft } from 'lucide-react';
+import { Candle, IndicatorPoint, PricePoint, PriceHistoryGap, TimeRange } from '@/types';
+import { formatChartTime, formatPrice, formatCompactNumber } from '@/lib/formatters';
+import { HISTORY_RANGES } from '@/lib/history/series';
+import { computeIndicators, DEFAULT_INDICATOR_PERIODS } from '@/lib/math/indicators';
 import { Button } from '@/components/ui';
+import { IndicatorPanel } from './IndicatorPanel';
 
 const TIME_RANGES: TimeRange[] = ['1H', '24H', '7D', '30D', 'ALL'];
 
+const UP_COLOR = '#22c55e';
+const DOWN_COLOR = '#ea580c';
+const SMA_COLOR = '#60a5fa';
+const EMA_COLOR = '#a78bfa';
+const BAND_COLOR = '#a1a1aa';
+const NEWS_COLOR = '#eab308';
+
+const SYNC_ID = 'price-chart';
+
+// Events listed under the chart
+const MAX_LISTED_ANNOTATIONS = 8;
+
+export type PriceChartMode = 'line' | 'candles';
+
+export type PriceChartOverlay = 'sma' | 'ema' | 'bands' | 'rsi' | 'volatility' | 'news' | 'trades';
+
+const OVERLAY_LABELS: Record<PriceChartOverlay, string> = {
+  sma: `SMA ${DEFAULT_INDICATOR_PERIODS.sma}`,
+  ema: `EMA ${DEFAULT_INDICATOR_PERIODS.ema}`,
+  bands: 'Bands',
+  rsi: 'RSI',
+  volatility: 'Volatility',
+  news: 'News',
+  trades: 'Large trades',
+};
+
+// Event marked on the chart: a news article, or a trade drawn at its price
+export interface PriceChartAnnotation {
+  timestamp: number;
+  kind: 'news' | 'trade';
+  label: string;
+  price?: number;
+  side?: 'buy' | 'sell';
+  url?: string;
+}
+
 interface PriceChartProps {
   data: PricePoint[];
+  gaps?: PriceHistoryGap[]; // Spans with no recorded prices, shaded and left unconnected
   range: TimeRange;
   onRangeChange: (range: TimeRange) => void;
   loading?: boolean;
+  // Candle mode; the toggle only shows when onModeChange is given
+  mode?: PriceChartMode;
+  onModeChange?: (mode: PriceChartMode) => void;
+  candles?: Candle[];
+  // Indicators and annotations; the toggles only show when onOverlaysChange is given
+  overlays?: PriceChartOverlay[];
+  onOverlaysChange?: (overlays: PriceChartOverlay[]) => void;
+  annotations?: PriceChartAnnotation[];
+}
+
+interface CandleDatum extends Partial<Omit<IndicatorPoint, 'timestamp'>> {
+  timestamp: number;
+  range: [number, number] | null; // Low to high
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  volume?: number;
+  trades?: number;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleDatum;
+}
+
+/**
+ * Wick from low to high with an open-to-close body, drawn in the box the
+ * bar gives the low-high range
+ */
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload || payload.open === undefined || payload.close === undefined
+    || payload.high === undefined || payload.low === undefined) {
+    return null;
+  }
+
+  const { open, close, high, low } = payload;
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const scale = high === low ? 0 : span / (high - low);
+  const bodyTop = top + (high - Math.max(open, close)) * scale;
+  const bodyHeight = Math.max(1, Math.abs(close - open) * scale);
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
 }
 
-export function PriceChart({ data, range, onRangeChange, loading }: PriceChartProps) {
+export function PriceChart({
+  data,
+  gaps = [],
+  range,
+  onRangeChange,
+  loading,
+  mode = 'line',
+  onModeChange,
+  candles = [],
+  overlays = [],
+  onOverlaysChange,
+  annotations = [],
+}: PriceChartProps) {
+  const showCandles = mode === 'candles';
+  const isOn = (overlay: PriceChartOverlay) => overlays.includes(overlay);
+  const bucketMs = HISTORY_RANGES[range].fidelityMinutes * 60 * 1000;
+  const bucketOf = (t: number) => Math.floor(t / bucketMs) * bucketMs;
+
+  // Indicators run on the series being shown: prices, or candle closes
+  const indicators = useMemo(() => {
+    const series = showCandles ? candles.map((c) => ({ timestamp: c.timestamp, price: c.close })) : data;
+    return new Map(computeIndicators(series, gaps).map((point) => [point.timestamp, point]));
+  }, [showCandles, candles, data, gaps]);
+
   const chartData = useMemo(() => {
-    return data.map((point) => ({
-      ...point,
-      displayTime: formatChartTime(point.timestamp, range),
-    }));
-  }, [data, range]);
-
-  const { minPrice, maxPrice, isUp, change } = useMemo(() => {
-    if (data.length === 0) {
-      return { minPrice: 0, maxPrice: 1, isUp: true, change: 0 };
+    // A null point inside each gap breaks the line instead of drawing across it
+    const breaks = gaps.map((gap) => ({ timestamp: (gap.from + gap.to) / 2, price: null }));
+    return [...data, ...breaks]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((point) => ({
+        ...indicators.get(point.timestamp),
+        ...point,
+        displayTime: formatChartTime(point.timestamp, range),
+      }));
+  }, [data, gaps, range, indicators]);
+
+  const domain = useMemo((): [number, number] => {
+    const times = [...data.map((d) => d.timestamp), ...gaps.flatMap((g) => [g.from, g.to])];
+    return [Math.min(...times), Math.max(...times)];
+  }, [data, gaps]);
+
+  // Candles sit on an evenly spaced bucket axis, with empty slots where a
+  // bucket has no data so gaps keep their width
+  const { candleData, candleGaps } = useMemo(() => {
+    const bucket = HISTORY_RANGES[range].fidelityMinutes * 60 * 1000;
+    const toBucket = (t: number) => Math.floor(t / bucket) * bucket;
+    if (candles.length === 0) return { candleData: [] as CandleDatum[], candleGaps: [] as PriceHistoryGap[] };
+
+    const byBucket = new Map(candles.map((c) => [c.timestamp, c]));
+    const first = toBucket(Math.min(candles[0].timestamp, ...gaps.map((g) => g.from)));
+    const last = toBucket(Math.max(candles[candles.length - 1].timestamp, ...gaps.map((g) => g.to)));
+
+    const slots: CandleDatum[] = [];
+    for (let t = first; t <= last; t += bucket) {
+      const candle = byBucket.get(t);
+      slots.push(candle
+        ? { ...indicators.get(t), ...candle, range: [candle.low, candle.high] }
+        : { timestamp: t, range: null });
     }
-    const prices = data.map((d) => d.price);
-    const min = Math.min(...prices);
-    const max = Math.max(...prices);
+
+    return {
+      candleData: slots,
+      candleGaps: gaps.map((g) => ({ from: toBucket(g.from), to: toBucket(g.to) })),
+    };
+  }, [candles, gaps, range, indicators]);
+
+  // Annotations inside the window shown, on the x positions the axis uses
+  const visibleAnnotations = useMemo(() => {
+    const [start, end] = showCandles
+      ? [candleData[0]?.timestamp ?? 0, (candleData[candleData.length - 1]?.timestamp ?? 0) + bucketMs]
+      : domain;
+    return annotations
+      .filter((a) => overlays.includes(a.kind === 'news' ? 'news' : 'trades'))
+      .filter((a) => a.timestamp >= start && a.timestamp <= end)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }, [annotations, overlays, showCandles, candleData, domain, bucketMs]);
+
+  const hasData = showCandles ? candles.length > 0 : data.length > 0;
+
+  const { minPrice, maxPrice, isUp, change, lastPrice } = useMemo(() => {
+    // In candle mode the change runs from the first open to the last close
+    const prices = showCandles
+      ? (candles.length > 0 ? [candles[0].open, ...candles.map((c) => c.close)] : [])
+      : data.map((d) => d.price);
+    if (prices.length === 0) {
+      return { minPrice: 0, maxPrice: 1, isUp: true, change: 0, lastPrice: undefined };
+    }
+    const extremes = showCandles ? candles.flatMap((c) => [c.low, c.high]) : prices;
+    const min = Math.min(...extremes);
+    const max = Math.max(...extremes);
     const first = prices[0];
     const last = prices[prices.length - 1];
     const change = last - first;
@@ -46,12 +220,82 @@ export function PriceChart({ data, range, onRangeChange, loading }: PriceChartPr
       maxPrice: Math.min(1, max + 0.05),
       isUp: change >= 0,
       change,
+      lastPrice: last,
     };
-  }, [data]);
+  }, [data, candles, showCandles]);
 
-  const color = isUp ? '#22c55e' : '#ea580c';
+  const color = isUp ? UP_COLOR : DOWN_COLOR;
   const gradientId = `priceGradient-${isUp}`;
 
+  const toggleOverlay = (overlay: PriceChartOverlay) => {
+    if (!onOverlaysChange) return;
+    onOverlaysChange(isOn(overlay) ? overlays.filter((o) => o !== overlay) : [...overlays, overlay]);
+  };
+
+  const controls = (
+    <div className="flex items-center gap-2">
+      {onModeChange && (
+        <div className="flex gap-1 bg-background rounded-lg p-1">
+          <Button
+            variant={mode === 'line' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => onModeChange('line')}
+            className="px-2 py-1.5"
+            aria-label="Line chart"
+            title="Line chart"
+          >
+            <LineChart className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={mode === 'candles' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => onModeChange('candles')}
+            className="px-2 py-1.5"
+            aria-label="Candles and volume"
+            title="Candles and volume"
+          >
+            <CandlestickChart className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Time range buttons */}
+      <div className="flex gap-1 bg-background rounded-lg p-1">
+        {TIME_RANGES.map((r) => (
+          <Button
+            key={r}
+            variant={range === r ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => onRangeChange(r)}
+            className="px-3 py-1.5 text-xs"
+          >
+            {r}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const overlayToggles = onOverlaysChange && (
+    <div className="flex flex-wrap gap-1 mb-3">
+      {(Object.keys(OVERLAY_LABELS) as PriceChartOverlay[]).map((overlay) => (
+        <button
+          key={overlay}
+          type="button"
+          onClick={() => toggleOverlay(overlay)}
+          aria-pressed={isOn(overlay)}
+          className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+            isOn(overlay)
+              ? 'border-bullish text-bullish bg-bullish/10'
+              : 'border-border text-text-secondary hover:text-text-primary'
+          }`}
+        >
+          {OVERLAY_LABELS[overlay]}
+        </button>
+      ))}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="bg-surface border border-border rounded-xl p-4">
@@ -69,44 +313,76 @@ export function PriceChart({ data, range, onRangeChange, loading }: PriceChartPr
   }
 
   // Handle empty data state
-  if (data.length === 0) {
+  if (!hasData) {
     return (
       <div className="bg-surface border border-border rounded-xl p-4">
         <div className="flex items-center justify-between mb-4">
           <div>
             <span className="text-2xl font-bold text-text-primary">—</span>
           </div>
-          <div className="flex gap-1 bg-background rounded-lg p-1">
-            {TIME_RANGES.map((r) => (
-              <Button
-                key={r}
-                variant={range === r ? 'secondary' : 'ghost'}
-                size="sm"
-                onClick={() => onRangeChange(r)}
-                className="px-3 py-1.5 text-xs"
-              >
-                {r}
-              </Button>
-            ))}
-          </div>
+          {controls}
         </div>
         <div className="h-64 flex items-center justify-center text-text-secondary">
           <div className="text-center">
-            <p className="mb-2">No price history available for this time range</p>
-            <p className="text-xs">Try a different time range or check back later</p>
+            <p className="mb-2">No recorded price history for this time range</p>
+            <p className="text-xs">Prices are recorded as they are observed; try a different time range or check back later</p>
           </div>
         </div>
       </div>
     );
   }
 
+  // Shared by both modes; candles place everything on bucket starts
+  const xOf = (t: number) => (showCandles ? bucketOf(t) : t);
+  const yAxisId = showCandles ? 'price' : undefined;
+
+  const priceOverlays = (
+    <>
+      {isOn('bands') && (
+        <Line yAxisId={yAxisId} type="monotone" dataKey="upperBand" stroke={BAND_COLOR} strokeDasharray="4 3" strokeWidth={1} dot={false} isAnimationActive={false} />
+      )}
+      {isOn('bands') && (
+        <Line yAxisId={yAxisId} type="monotone" dataKey="lowerBand" stroke={BAND_COLOR} strokeDasharray="4 3" strokeWidth={1} dot={false} isAnimationActive={false} />
+      )}
+      {isOn('sma') && (
+        <Line yAxisId={yAxisId} type="monotone" dataKey="sma" stroke={SMA_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      )}
+      {isOn('ema') && (
+        <Line yAxisId={yAxisId} type="monotone" dataKey="ema" stroke={EMA_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      )}
+
+      {visibleAnnotations.map((annotation, i) => annotation.kind === 'news' ? (
+        <ReferenceLine
+          key={`news-${i}`}
+          yAxisId={yAxisId}
+          x={xOf(annotation.timestamp)}
+          stroke={NEWS_COLOR}
+          strokeDasharray="2 2"
+        />
+      ) : annotation.price !== undefined ? (
+        <ReferenceDot
+          key={`trade-${i}`}
+          yAxisId={yAxisId}
+          x={xOf(annotation.timestamp)}
+          y={annotation.price}
+          r={4}
+          fill={annotation.side === 'sell' ? DOWN_COLOR : UP_COLOR}
+          stroke="#09090b"
+        />
+      ) : null)}
+    </>
+  );
+
+  const panelData: object[] = showCandles ? candleData : chartData;
+  const panelDomain = showCandles ? undefined : domain;
+
   return (
     <div className="bg-surface border border-border rounded-xl p-4">
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <div>
           <span className="text-2xl font-bold text-text-primary">
-            {data.length > 0 ? formatPrice(data[data.length - 1].price) : '—'}
+            {lastPrice !== undefined ? formatPrice(lastPrice) : '—'}
           </span>
           <span
             className={`ml-2 text-sm font-medium ${
@@ -118,79 +394,218 @@ export function PriceChart({ data, range, onRangeChange, loading }: PriceChartPr
           </span>
         </div>
 
-        {/* Time range buttons */}
-        <div className="flex gap-1 bg-background rounded-lg p-1">
-          {TIME_RANGES.map((r) => (
-            <Button
-              key={r}
-              variant={range === r ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => onRangeChange(r)}
-              className="px-3 py-1.5 text-xs"
-            >
-              {r}
-            </Button>
-          ))}
-        </div>
+        {controls}
       </div>
 
+      {overlayToggles}
+
       {/* Chart */}
       <div className="h-64">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-            <defs>
-              <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
-                <stop offset="0%" stopColor={color} stopOpacity={0.3} />
-                <stop offset="100%" stopColor={color} stopOpacity={0} />
-              </linearGradient>
-            </defs>
-            
-            <XAxis
-              dataKey="displayTime"
-              axisLine={false}
-              tickLine={false}
-              tick={{ fill: '#a1a1aa', fontSize: 11 }}
-              interval="preserveStartEnd"
-              minTickGap={50}
-            />
-            
-            <YAxis
-              domain={[minPrice, maxPrice]}
-              axisLine={false}
-              tickLine={false}
-              tick={{ fill: '#a1a1aa', fontSize: 11 }}
-              tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
-              width={45}
-            />
-            
-            <Tooltip
-              content={({ active, payload }) => {
-                if (!active || !payload?.[0]) return null;
-                const data = payload[0].payload;
-                return (
-                  <div className="bg-surface border border-border rounded-lg px-3 py-2 shadow-xl">
-                    <p className="text-xs text-text-secondary">{data.displayTime}</p>
-                    <p className="text-sm font-medium text-text-primary">
-                      {formatPrice(data.price)}
-                    </p>
-                  </div>
-                );
-              }}
-            />
-            
-            <ReferenceLine y={0.5} stroke="#27272a" strokeDasharray="3 3" />
-            
-            <Area
-              type="monotone"
-              dataKey="price"
-              stroke={color}
-              strokeWidth={2}
-              fill={`url(#${gradientId})`}
-              animationDuration={500}
-            />
-          </AreaChart>
+          {showCandles ? (
+            <ComposedChart data={candleData} syncId={SYNC_ID} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <XAxis
+                dataKey="timestamp"
+                tickFormatter={(t) => formatChartTime(t, range)}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#a1a1aa', fontSize: 11 }}
+                interval="preserveStartEnd"
+                minTickGap={50}
+              />
+
+              <YAxis
+                yAxisId="price"
+                domain={[minPrice, maxPrice]}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#a1a1aa', fontSize: 11 }}
+                tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                width={45}
+              />
+
+              {/* Volume bars fill the bottom quarter */}
+              <YAxis yAxisId="volume" hide domain={[0, (max: number) => max * 4]} />
+
+              <Tooltip
+                cursor={{ fill: '#27272a', fillOpacity: 0.4 }}
+                content={({ active, payload }) => {
+                  if (!active || !payload?.[0]) return null;
+                  const candle = payload[0].payload as CandleDatum;
+                  if (!candle.range) return null;
+                  return (
+                    <div className="bg-surface border border-border rounded-lg px-3 py-2 shadow-xl text-xs">
+                      <p className="text-text-secondary mb-1">{formatChartTime(candle.timestamp, range)}</p>
+                      <p className="text-text-primary">
+                        O {formatPrice(candle.open ?? 0)} · H {formatPrice(candle.high ?? 0)}
+                      </p>
+                      <p className="text-text-primary">
+                        L {formatPrice(candle.low ?? 0)} · C {formatPrice(candle.close ?? 0)}
+                      </p>
+                      <p className="text-text-secondary mt-1">
+                        Volume {candle.volume !== undefined ? `$${formatCompactNumber(candle.volume)}` : 'unknown'}
+                        {candle.trades ? ` · ${candle.trades} trades` : ''}
+                      </p>
+                    </div>
+                  );
+                }}
+              />
+
+              {candleGaps.map((gap) => (
+                <ReferenceArea
+                  key={gap.from}
+                  yAxisId="price"
+                  x1={gap.from}
+                  x2={gap.to}
+                  fill="#71717a"
+                  fillOpacity={0.12}
+                  ifOverflow="hidden"
+                />
+              ))}
+
+              <Bar yAxisId="volume" dataKey="volume" fill="#71717a" fillOpacity={0.35} isAnimationActive={false} />
+              <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+
+              {priceOverlays}
+            </ComposedChart>
+          ) : (
+            <ComposedChart data={chartData} syncId={SYNC_ID} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor={color} stopOpacity={0.3} />
+                  <stop offset="100%" stopColor={color} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={domain}
+                tickFormatter={(t) => formatChartTime(t, range)}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#a1a1aa', fontSize: 11 }}
+                interval="preserveStartEnd"
+                minTickGap={50}
+              />
+
+              <YAxis
+                domain={[minPrice, maxPrice]}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#a1a1aa', fontSize: 11 }}
+                tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                width={45}
+              />
+
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (!active || !payload?.[0]) return null;
+                  const data = payload[0].payload;
+                  if (data.price === null) return null;
+                  return (
+                    <div className="bg-surface border border-border rounded-lg px-3 py-2 shadow-xl">
+                      <p className="text-xs text-text-secondary">{data.displayTime}</p>
+                      <p className="text-sm font-medium text-text-primary">
+                        {formatPrice(data.price)}
+                      </p>
+                    </div>
+                  );
+                }}
+              />
+
+              <ReferenceLine y={0.5} stroke="#27272a" strokeDasharray="3 3" />
+
+              {gaps.map((gap) => (
+                <ReferenceArea
+                  key={gap.from}
+                  x1={gap.from}
+                  x2={gap.to}
+                  fill="#71717a"
+                  fillOpacity={0.12}
+                  ifOverflow="hidden"
+                />
+              ))}
+
+              <Area
+                type="monotone"
+                dataKey="price"
+                stroke={color}
+                strokeWidth={2}
+                fill={`url(#${gradientId})`}
+                animationDuration={500}
+              />
+
+              {priceOverlays}
+            </ComposedChart>
+          )}
         </ResponsiveContainer>
       </div>
+
+      {isOn('rsi') && (
+        <IndicatorPanel
+          title={`RSI ${DEFAULT_INDICATOR_PERIODS.rsi}`}
+          data={panelData}
+          dataKey="rsi"
+          color={SMA_COLOR}
+          range={range}
+          timeDomain={panelDomain}
+          yDomain={[0, 100]}
+          referenceLines={[30, 70]}
+          formatValue={(v) => v.toFixed(0)}
+          syncId={SYNC_ID}
+        />
+      )}
+
+      {isOn('volatility') && (
+        <IndicatorPanel
+          title="Realized volatility (per day)"
+          data={panelData}
+          dataKey="volatility"
+          color={EMA_COLOR}
+          range={range}
+          timeDomain={panelDomain}
+          formatValue={(v) => `${(v * 100).toFixed(1)}pp`}
+          syncId={SYNC_ID}
+        />
+      )}
+
+      {gaps.length > 0 && (
+        <p className="mt-2 text-xs text-text-secondary">
+          Shaded spans have no recorded prices and are not filled in.
+        </p>
+      )}
+
+      {visibleAnnotations.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs">
+          {visibleAnnotations.slice(-MAX_LISTED_ANNOTATIONS).reverse().map((annotation, i) => (
+            <li key={i} className="flex items-start gap-2 text-text-secondary">
+              {annotation.kind === 'news' ? (
+                <Newspaper className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" style={{ color: NEWS_COLOR }} />
+              ) : (
+                <ArrowRightLeft
+                  className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"
+                  style={{ color: annotation.side === 'sell' ? DOWN_COLOR : UP_COLOR }}
+                />
+              )}
+              <span className="flex-shrink-0">{new Date(annotation.timestamp).toLocaleString()}</span>
+              {annotation.url ? (
+                <a
+                  href={annotation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-text-primary hover:underline truncate"
+                >
+                  {annotation.label}
+                </a>
+              ) : (
+                <span className="text-text-primary truncate">{annotation.label}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -1,4 +1,8 @@
 export { PriceChart } from './PriceChart';
+export type { PriceChartMode, PriceChartOverlay, PriceChartAnnotation } from './PriceChart';
+export { IndicatorPanel } from './IndicatorPanel';
 export { PayoffCurve } from './PayoffCurve';
 export { PayoffHeatmap } from './PayoffHeatmap';
-export { ComparisonBarChart } from './ComparisonBarChart';
\ No newline at end of file
+export { ComparisonBarChart } from './ComparisonBarChart';
+export { OutcomePayoffChart } from './OutcomePayoffChart';
+export { PayoffDistributionChart } from './PayoffDistributionChart';
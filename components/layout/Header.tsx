@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Activity, BarChart3, FileText, Menu, Settings, X, Bookmark, LogIn, User, LogOut, UserPlus } from 'lucide-react';
+import { Activity, BarChart3, Bell, FileText, ListChecks, Menu, Settings, X, Bookmark, LogIn, User, LogOut, UserPlus } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Badge, SettingsModal, Button } from '@/components/ui';
@@ -10,6 +10,7 @@ import { useSavedResearch } from '@/hooks';
 import { useAuth } from '@/context';
 import { AuthModal } from '@/components/auth/AuthModal';
 import { ProfileSetupModal } from '@/components/auth/ProfileSetupModal';
+import { WorkspaceSwitcher } from '@/components/workspace';
 
 export function Header() {
   const pathname = usePathname();
@@ -46,6 +47,8 @@ export function Header() {
   const navItems = [
     { href: '/', label: 'Markets', icon: Activity },
     { href: '/research', label: 'Research', icon: FileText, badge: savedCount > 0 ? savedCount : null },
+    { href: '/watchlists', label: 'Watchlists', icon: ListChecks, badge: null },
+    ...(isAuthenticated ? [{ href: '/alerts', label: 'Alerts', icon: Bell, badge: null }] : []),
   ];
 
   return (
@@ -101,6 +104,7 @@ export function Header() {
 
           {/* Right side */}
           <div className="flex items-center gap-2">
+            {isAuthenticated && <WorkspaceSwitcher className="hidden lg:flex" />}
             {showAuthButtons ? (
               // Show Sign Up/Sign In only when not authenticated and not guest
               <div className="flex items-center gap-2">
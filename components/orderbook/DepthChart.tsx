@@ -0,0 +1,103 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  ComposedChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { Orderbook } from '@/types';
+import { buildDepthCurve, DepthPoint } from '@/lib/math/depth';
+import { formatCents, formatCompactNumber } from '@/lib/formatters';
+
+const BID_COLOR = '#22c55e';
+const ASK_COLOR = '#ea580c';
+
+interface DepthChartProps {
+  book: Orderbook;
+  mid: number | null;
+  maxLevels?: number;
+}
+
+/**
+ * Cumulative size on each side of the book by price
+ *
+ * Bids step down to the left of the best bid and asks step up to the right
+ * of the best ask, so the gap between the areas is the spread.
+ */
+export function DepthChart({ book, mid, maxLevels = 50 }: DepthChartProps) {
+  const data = useMemo(() => buildDepthCurve(book, maxLevels), [book, maxLevels]);
+
+  if (data.length === 0) {
+    return (
+      <div className="h-48 flex items-center justify-center text-sm text-text-secondary">
+        No resting orders
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <XAxis
+            dataKey="price"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(v) => formatCents(v)}
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: '#a1a1aa', fontSize: 11 }}
+            minTickGap={40}
+          />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: '#a1a1aa', fontSize: 11 }}
+            tickFormatter={(v) => formatCompactNumber(v)}
+            width={45}
+          />
+          <Tooltip
+            content={({ active, payload }) => {
+              if (!active || !payload?.[0]) return null;
+              const point = payload[0].payload as DepthPoint;
+              const isBid = point.bidDepth !== null;
+              const depth = point.bidDepth ?? point.askDepth ?? 0;
+              return (
+                <div className="bg-surface border border-border rounded-lg px-3 py-2 shadow-xl text-xs">
+                  <p className={isBid ? 'text-success' : 'text-bearish'}>
+                    {isBid ? 'Bids' : 'Asks'} {isBid ? 'at or above' : 'at or below'} {formatCents(point.price)}
+                  </p>
+                  <p className="text-text-primary">{Math.round(depth).toLocaleString()} shares</p>
+                </div>
+              );
+            }}
+          />
+          {mid !== null && <ReferenceLine x={mid} stroke="#71717a" strokeDasharray="3 3" />}
+          <Area
+            type="stepBefore"
+            dataKey="bidDepth"
+            stroke={BID_COLOR}
+            fill={BID_COLOR}
+            fillOpacity={0.2}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+          />
+          <Area
+            type="stepAfter"
+            dataKey="askDepth"
+            stroke={ASK_COLOR}
+            fill={ASK_COLOR}
+            fillOpacity={0.2}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Orderbook } from '@/types';
+import { cumulativeLevels, CumulativeLevel, BookSummary } from '@/lib/math/depth';
+import { formatCents, formatCompactNumber } from '@/lib/formatters';
+
+interface OrderbookLadderProps {
+  book: Orderbook;
+  summary: BookSummary;
+  levels?: number;
+}
+
+function LadderRow({ level, maxTotal, side }: { level: CumulativeLevel; maxTotal: number; side: 'bid' | 'ask' }) {
+  const width = maxTotal > 0 ? (level.total / maxTotal) * 100 : 0;
+  return (
+    <div className="relative grid grid-cols-3 px-2 py-0.5 text-xs tabular-nums">
+      <div
+        className={`absolute inset-y-0 right-0 ${side === 'bid' ? 'bg-success/10' : 'bg-bearish/10'}`}
+        style={{ width: `${width}%` }}
+      />
+      <span className={`relative ${side === 'bid' ? 'text-success' : 'text-bearish'}`}>{formatCents(level.price)}</span>
+      <span className="relative text-right text-text-primary">{formatCompactNumber(level.size)}</span>
+      <span className="relative text-right text-text-secondary">{formatCompactNumber(level.total)}</span>
+    </div>
+  );
+}
+
+/**
+ * Best levels of each side around the spread, asks above and bids below,
+ * with size and cumulative size from the top of the book
+ */
+export function OrderbookLadder({ book, summary, levels = 10 }: OrderbookLadderProps) {
+  const { bids, asks, maxTotal } = useMemo(() => {
+    const bids = cumulativeLevels(book.bids.slice(0, levels));
+    const asks = cumulativeLevels(book.asks.slice(0, levels));
+    const maxTotal = Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0);
+    return { bids, asks, maxTotal };
+  }, [book, levels]);
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 px-2 pb-1 text-xs text-text-secondary uppercase">
+        <span>Price</span>
+        <span className="text-right">Shares</span>
+        <span className="text-right">Total</span>
+      </div>
+
+      {asks.length === 0 && <p className="px-2 py-1 text-xs text-text-secondary">No asks</p>}
+      {[...asks].reverse().map((level) => (
+        <LadderRow key={level.price} level={level} maxTotal={maxTotal} side="ask" />
+      ))}
+
+      <div className="flex justify-between px-2 py-1 my-1 border-y border-border text-xs text-text-secondary">
+        <span>Mid {summary.mid !== null ? formatCents(summary.mid) : '—'}</span>
+        <span>Spread {summary.spread !== null ? formatCents(summary.spread) : '—'}</span>
+      </div>
+
+      {bids.map((level) => (
+        <LadderRow key={level.price} level={level} maxTotal={maxTotal} side="bid" />
+      ))}
+      {bids.length === 0 && <p className="px-2 py-1 text-xs text-text-secondary">No bids</p>}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Radio, WifiOff, RefreshCw } from 'lucide-react';
+import { Market } from '@/types';
+import { useOrderbookDepth } from '@/hooks/useOrderbookDepth';
+import { summarizeBook } from '@/lib/math/depth';
+import { formatCents } from '@/lib/formatters';
+import { Button, Skeleton } from '@/components/ui';
+import { DepthChart } from './DepthChart';
+import { OrderbookLadder } from './OrderbookLadder';
+
+interface OrderbookPanelProps {
+  market: Market;
+}
+
+/**
+ * Live depth chart and price ladder for each outcome token of a market
+ */
+export function OrderbookPanel({ market }: OrderbookPanelProps) {
+  const tokenIds = useMemo(() => market.outcomes.map(o => o.id).filter(Boolean), [market.outcomes]);
+  const { books, loading, error, isConnected, refetch } = useOrderbookDepth(market.id, tokenIds);
+  const [outcomeIndex, setOutcomeIndex] = useState(0);
+
+  const outcome = market.outcomes[outcomeIndex] ?? market.outcomes[0];
+  const book = outcome ? books[outcome.id] : undefined;
+  const summary = useMemo(
+    () => summarizeBook(book ?? { bids: [], asks: [] }),
+    [book]
+  );
+
+  return (
+    <div className="bg-surface border border-border rounded-xl p-4">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <h3 className="text-sm font-medium text-text-primary">Orderbook</h3>
+          {isConnected ? (
+            <span className="flex items-center gap-1 text-xs text-success">
+              <Radio size={12} fill="currentColor" />
+              Live
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-text-secondary">
+              <WifiOff size={12} />
+              Snapshot
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1 bg-background rounded-lg p-1">
+            {market.outcomes.map((o, i) => (
+              <Button
+                key={o.id}
+                variant={outcomeIndex === i ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setOutcomeIndex(i)}
+                className="px-3 py-1.5 text-xs"
+              >
+                {o.name}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refetch}
+            className="px-2 py-1.5"
+            aria-label="Reload orderbook"
+            title="Reload orderbook"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Top of book */}
+      <div className="grid grid-cols-4 gap-2 mb-4 text-xs">
+        {[
+          { label: 'Best Bid', value: summary.bestBid, className: 'text-success' },
+          { label: 'Best Ask', value: summary.bestAsk, className: 'text-bearish' },
+          { label: 'Mid', value: summary.mid, className: 'text-text-primary' },
+          { label: 'Spread', value: summary.spread, className: 'text-text-primary' },
+        ].map(({ label, value, className }) => (
+          <div key={label}>
+            <p className="text-text-secondary uppercase mb-0.5">{label}</p>
+            <p className={`text-base font-semibold tabular-nums ${className}`}>
+              {value !== null ? formatCents(value) : '—'}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {error && !book && (
+        <p className="text-sm text-bearish mb-2">{error}</p>
+      )}
+
+      {!book ? (
+        loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          !error && <p className="text-sm text-text-secondary">No orderbook for this outcome</p>
+        )
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <DepthChart book={book} mid={summary.mid} />
+          <OrderbookLadder book={book} summary={summary} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { OrderbookPanel } from './OrderbookPanel';
+export { DepthChart } from './DepthChart';
+export { OrderbookLadder } from './OrderbookLadder';
@@ -194,7 +194,7 @@ export function ClusterBuilder({
               Enabled Checks
             </label>
             <div className="space-y-2">
-              {['sum_to_one', 'threshold_consistency', 'arbitrage_bundle'].map((rule) => (
+              {['sum_to_one', 'threshold_consistency', 'arbitrage_bundle', 'cross_venue_arbitrage'].map((rule) => (
                 <label key={rule} className="flex items-center gap-2 cursor-pointer">
                   <input
                     type="checkbox"
@@ -222,6 +222,31 @@ export function ClusterBuilder({
             </div>
           </div>
 
+          <div>
+            <label className="flex items-center gap-2 cursor-pointer mb-2">
+              <input
+                type="checkbox"
+                checked={config.useOrderbooks}
+                onChange={(e) => setConfig({ ...config, useOrderbooks: e.target.checked })}
+                className="rounded border-border bg-background text-bullish focus:ring-bullish"
+              />
+              <span className="text-sm text-text-primary">Price Against Orderbook Depth</span>
+            </label>
+            <Input
+              type="number"
+              value={config.targetNotional}
+              onChange={(e) =>
+                setConfig({ ...config, targetNotional: parseFloat(e.target.value) || DEFAULT_SCANNER_CONFIG.targetNotional })
+              }
+              step={50}
+              min={10}
+              disabled={!config.useOrderbooks}
+            />
+            <p className="text-xs text-text-secondary mt-1">
+              Target size in $ for executable profit after crossing the spread
+            </p>
+          </div>
+
           <Button variant="primary" onClick={() => setShowConfig(false)} className="w-full">
             Save Configuration
           </Button>
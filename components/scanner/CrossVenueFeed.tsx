@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeftRight, CheckCircle, Clock, RefreshCw, AlertCircle, Layers } from 'lucide-react';
+import { CrossVenueResult, VenueComparison, Market, Venue, VENUE_LABELS } from '@/types';
+import { Button, Card, Badge, Input } from '@/components/ui';
+import { formatCents, formatShortDate } from '@/lib/formatters';
+import { formatMarketRef } from '@/lib/providers/marketRef';
+import { ScannerFlag } from './ScannerFlag';
+import { motion } from 'framer-motion';
+
+interface CrossVenueFeedProps {
+  result: CrossVenueResult | null;
+  loading?: boolean;
+  error?: string | null;
+  onRefresh?: () => void;
+  onFeeChange?: (venue: Venue, bps: number) => void;
+}
+
+function VenueFeeInput({ venue, bps, onChange }: { venue: Venue; bps: number; onChange: (bps: number) => void }) {
+  const [value, setValue] = useState(String(bps));
+
+  useEffect(() => {
+    setValue(String(bps));
+  }, [bps]);
+
+  // Applied on blur or Enter, so typing doesn't rerun the comparison
+  const commit = () => {
+    const next = parseFloat(value);
+    if (Number.isFinite(next) && next >= 0 && next <= 10000) {
+      if (next !== bps) onChange(next);
+    } else {
+      setValue(String(bps));
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-text-secondary">
+      {VENUE_LABELS[venue]} fee
+      <div className="w-24">
+        <Input
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === 'Enter' && commit()}
+          min={0}
+          max={10000}
+          step={10}
+          className="text-xs"
+        />
+      </div>
+      bps
+    </label>
+  );
+}
+
+function MarketSide({ market }: { market: Market }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center gap-2 mb-1">
+        <Badge variant="secondary" size="sm">
+          {VENUE_LABELS[market.venue ?? 'polymarket']}
+        </Badge>
+        <span className="text-xs text-text-secondary">{formatShortDate(market.endDate)}</span>
+      </div>
+      <Link
+        href={`/market/${encodeURIComponent(formatMarketRef(market))}`}
+        className="text-sm text-text-primary line-clamp-2 hover:text-bullish transition-colors"
+      >
+        {market.question}
+      </Link>
+      <p className="text-lg font-mono text-text-primary mt-1">{formatCents(market.outcomes[0].price)}</p>
+    </div>
+  );
+}
+
+function ComparisonRow({ comparison }: { comparison: VenueComparison }) {
+  const [a, b] = comparison.markets;
+  const gapCents = comparison.priceGap * 100;
+
+  return (
+    <Card padding="md" className="space-y-3">
+      <div className="flex items-start gap-4">
+        <MarketSide market={a} />
+        <div className="flex flex-col items-center pt-6 flex-shrink-0">
+          <ArrowLeftRight size={16} className="text-text-secondary" />
+          <span className={`text-sm font-mono mt-1 ${gapCents > 0 ? 'text-bullish' : gapCents < 0 ? 'text-bearish' : 'text-text-secondary'}`}>
+            {gapCents > 0 ? '+' : ''}{gapCents.toFixed(1)}¢
+          </span>
+        </div>
+        <MarketSide market={b} />
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-text-secondary">
+        <span>Match {(comparison.score * 100).toFixed(0)}%</span>
+        {comparison.endDateDiffDays >= 1 && (
+          <span>· ends {comparison.endDateDiffDays.toFixed(0)}d apart</span>
+        )}
+        {comparison.sameResolutionSource === false && (
+          <Badge variant="warning" size="sm">Different resolution source</Badge>
+        )}
+      </div>
+
+      {comparison.flag && <ScannerFlag flag={comparison.flag} />}
+    </Card>
+  );
+}
+
+export function CrossVenueFeed({ result, loading, error, onRefresh, onFeeChange }: CrossVenueFeedProps) {
+  if (loading && !result) {
+    return (
+      <Card padding="lg" className="text-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+          className="inline-block"
+        >
+          <ArrowLeftRight size={32} className="text-bullish" />
+        </motion.div>
+        <p className="text-text-secondary mt-3">Matching markets across venues...</p>
+      </Card>
+    );
+  }
+
+  if (error && !result) {
+    return (
+      <Card padding="lg" className="text-center">
+        <AlertCircle size={32} className="mx-auto text-bearish mb-3" />
+        <h3 className="text-text-primary font-medium mb-2">Comparison Failed</h3>
+        <p className="text-sm text-text-secondary mb-4">{error}</p>
+        {onRefresh && (
+          <Button variant="secondary" size="sm" onClick={onRefresh}>
+            <RefreshCw size={14} className="mr-1" />
+            Retry
+          </Button>
+        )}
+      </Card>
+    );
+  }
+
+  if (!result) return null;
+
+  const { venues, failedVenues, venueFeeBps, comparisons, marketsCompared, scanDuration } = result;
+  const failedLabel = failedVenues.map(v => VENUE_LABELS[v]).join(', ');
+
+  if (venues.length < 2) {
+    return (
+      <Card padding="lg" className="text-center">
+        <Layers size={32} className="mx-auto text-text-secondary mb-3" />
+        <h4 className="text-text-primary font-medium mb-2">One Venue Available</h4>
+        <p className="text-sm text-text-secondary">
+          Comparing prices needs markets from at least two venues.
+          {failedVenues.length > 0 && ` ${failedLabel} could not be reached.`}
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="default" size="sm">
+            {venues.map(v => VENUE_LABELS[v]).join(' · ')}
+          </Badge>
+          <Badge variant="default" size="sm">
+            {marketsCompared} markets
+          </Badge>
+          {failedVenues.length > 0 && (
+            <Badge variant="warning" size="sm">
+              {failedLabel} unavailable
+            </Badge>
+          )}
+          <span className="text-xs text-text-secondary flex items-center gap-1">
+            <Clock size={10} />
+            {scanDuration}ms
+          </span>
+        </div>
+        {onRefresh && (
+          <Button variant="ghost" size="sm" onClick={onRefresh} disabled={loading}>
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </Button>
+        )}
+      </div>
+
+      {/* Taker fees the arbitrage flags are priced with */}
+      {onFeeChange && (
+        <div className="flex flex-wrap items-center gap-4">
+          {venues.map(venue => (
+            <VenueFeeInput
+              key={venue}
+              venue={venue}
+              bps={venueFeeBps[venue] ?? 0}
+              onChange={(bps) => onFeeChange(venue, bps)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Matched markets, largest gap first */}
+      {comparisons.length > 0 ? (
+        <div className="space-y-3">
+          {comparisons.map(comparison => (
+            <ComparisonRow key={comparison.id} comparison={comparison} />
+          ))}
+        </div>
+      ) : (
+        <Card padding="lg" className="text-center bg-success/5 border-success/20">
+          <CheckCircle size={32} className="mx-auto text-success mb-3" />
+          <h4 className="text-text-primary font-medium mb-2">No Matches Found</h4>
+          <p className="text-sm text-text-secondary">
+            No market is listed on more than one venue right now.
+          </p>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { Radar, CheckCircle, Clock, RefreshCw, AlertCircle } from 'lucide-react';
+import { DiscoveryResult, ClusterSource } from '@/types';
+import { Button, Card, Badge } from '@/components/ui';
+import { ScannerFlag } from './ScannerFlag';
+import { motion } from 'framer-motion';
+
+interface DiscoveryFeedProps {
+  result: DiscoveryResult | null;
+  loading?: boolean;
+  error?: string | null;
+  onRefresh?: () => void;
+}
+
+const sourceLabels: Record<ClusterSource, string> = {
+  event: 'Event',
+  tag: 'Tag',
+  threshold: 'Thresholds',
+};
+
+export function DiscoveryFeed({ result, loading, error, onRefresh }: DiscoveryFeedProps) {
+  if (loading && !result) {
+    return (
+      <Card padding="lg" className="text-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+          className="inline-block"
+        >
+          <Radar size={32} className="text-bullish" />
+        </motion.div>
+        <p className="text-text-secondary mt-3">Discovering clusters across all markets...</p>
+      </Card>
+    );
+  }
+
+  if (error && !result) {
+    return (
+      <Card padding="lg" className="text-center">
+        <AlertCircle size={32} className="mx-auto text-bearish mb-3" />
+        <h3 className="text-text-primary font-medium mb-2">Discovery Failed</h3>
+        <p className="text-sm text-text-secondary mb-4">{error}</p>
+        {onRefresh && (
+          <Button variant="secondary" size="sm" onClick={onRefresh}>
+            <RefreshCw size={14} className="mr-1" />
+            Retry
+          </Button>
+        )}
+      </Card>
+    );
+  }
+
+  if (!result) return null;
+
+  const { flags, clustersScanned, marketsScanned, scanDuration } = result;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="default" size="sm">
+            {clustersScanned} clusters
+          </Badge>
+          <Badge variant="default" size="sm">
+            {marketsScanned} markets
+          </Badge>
+          <span className="text-xs text-text-secondary flex items-center gap-1">
+            <Clock size={10} />
+            {scanDuration}ms
+          </span>
+        </div>
+        {onRefresh && (
+          <Button variant="ghost" size="sm" onClick={onRefresh} disabled={loading}>
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </Button>
+        )}
+      </div>
+
+      {/* Ranked flags */}
+      {flags.length > 0 ? (
+        <div className="space-y-3">
+          {flags.map((flag, index) => (
+            <div key={flag.id}>
+              <div className="flex items-center gap-2 mb-1 text-xs text-text-secondary">
+                <span className="font-mono">#{index + 1}</span>
+                <Badge variant="secondary" size="sm">
+                  {sourceLabels[flag.clusterSource]}
+                </Badge>
+                <span className="truncate">{flag.clusterName}</span>
+              </div>
+              <ScannerFlag flag={flag} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Card padding="lg" className="text-center bg-success/5 border-success/20">
+          <CheckCircle size={32} className="mx-auto text-success mb-3" />
+          <h4 className="text-text-primary font-medium mb-2">No Issues Found</h4>
+          <p className="text-sm text-text-secondary">
+            None of the discovered clusters show detectable inefficiencies right now.
+          </p>
+        </Card>
+      )}
+    </div>
+  );
+}
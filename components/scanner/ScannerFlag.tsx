@@ -125,6 +125,16 @@ export function ScannerFlag({ flag, onAddToStrategy }: ScannerFlagProps) {
             </div>
           )}
 
+          {/* Executable size (when priced against orderbooks) */}
+          {flag.executable && (
+            <div className="flex items-center justify-between py-2 border-t border-border/50">
+              <span className="text-xs text-text-secondary">Max Size Before Edge Closes</span>
+              <span className="text-sm font-medium text-text-primary">
+                {flag.executable.maxSize.toFixed(0)} shares ({formatUSD(flag.executable.maxNotional)})
+              </span>
+            </div>
+          )}
+
           {/* Add to strategy button */}
           {onAddToStrategy && (
             <Button
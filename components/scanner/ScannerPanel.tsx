@@ -2,18 +2,20 @@
 
 import { useState } from 'react';
 import { Scan, CheckCircle, Clock } from 'lucide-react';
-import { ScannerResult, ScannerFlag as ScannerFlagType, Market } from '@/types';
+import { ScannerResult, ScannerFlag as ScannerFlagType, ScannerConfig, Market } from '@/types';
 import { Card, Badge } from '@/components/ui';
 import { ScannerFlag } from './ScannerFlag';
+import { WatchClusterButton } from './WatchClusterButton';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface ScannerPanelProps {
   result: ScannerResult | null;
   loading?: boolean;
   onAddFlagToStrategy?: (flag: ScannerFlagType) => void;
+  config?: Partial<ScannerConfig>; // Config of the scan, kept when the cluster is watched
 }
 
-export function ScannerPanel({ result, loading, onAddFlagToStrategy }: ScannerPanelProps) {
+export function ScannerPanel({ result, loading, onAddFlagToStrategy, config }: ScannerPanelProps) {
   if (loading) {
     return (
       <Card padding="lg" className="text-center">
@@ -65,16 +67,19 @@ export function ScannerPanel({ result, loading, onAddFlagToStrategy }: ScannerPa
             </span>
           </div>
         </div>
-        {hasFlags ? (
-          <Badge variant={flags[0].severity === 'high' ? 'error' : 'warning'}>
-            {flags.length} flag{flags.length !== 1 ? 's' : ''}
-          </Badge>
-        ) : (
-          <Badge variant="success">
-            <CheckCircle size={12} className="mr-1" />
-            Clean
-          </Badge>
-        )}
+        <div className="flex items-center gap-2">
+          <WatchClusterButton cluster={cluster} config={config} />
+          {hasFlags ? (
+            <Badge variant={flags[0].severity === 'high' ? 'error' : 'warning'}>
+              {flags.length} flag{flags.length !== 1 ? 's' : ''}
+            </Badge>
+          ) : (
+            <Badge variant="success">
+              <CheckCircle size={12} className="mr-1" />
+              Clean
+            </Badge>
+          )}
+        </div>
       </div>
 
       {/* Flags list */}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { Eye, Check } from 'lucide-react';
+import { MarketCluster, ScannerConfig } from '@/types';
+import { Button, useToast } from '@/components/ui';
+import { useAuth } from '@/context';
+import { useWatchedClusters } from '@/hooks';
+
+interface WatchClusterButtonProps {
+  cluster: MarketCluster;
+  config?: Partial<ScannerConfig>;
+}
+
+/**
+ * Save a scanned cluster so the server rescans it and announces new flags
+ * Hidden for guests, since watching runs against an account.
+ */
+export function WatchClusterButton({ cluster, config }: WatchClusterButtonProps) {
+  const { isAuthenticated } = useAuth();
+  const { watchCluster } = useWatchedClusters();
+  const { showToast } = useToast();
+  // Id of the cluster last saved from here, so a new scan can be watched again
+  const [watchedId, setWatchedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!isAuthenticated) return null;
+  const watched = watchedId === cluster.id;
+
+  const handleWatch = async () => {
+    try {
+      setSaving(true);
+      await watchCluster(cluster, config);
+      setWatchedId(cluster.id);
+      showToast('success', `Watching "${cluster.name}". New flags will show up in your alerts.`);
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to watch cluster');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleWatch} disabled={watched || saving}>
+      {watched ? <Check size={14} className="mr-1" /> : <Eye size={14} className="mr-1" />}
+      {watched ? 'Watching' : saving ? 'Saving…' : 'Watch'}
+    </Button>
+  );
+}
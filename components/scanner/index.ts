@@ -1,3 +1,6 @@
 export { ScannerFlag } from './ScannerFlag';
 export { ScannerPanel } from './ScannerPanel';
 export { ClusterBuilder } from './ClusterBuilder';
+export { DiscoveryFeed } from './DiscoveryFeed';
+export { WatchClusterButton } from './WatchClusterButton';
+export { CrossVenueFeed } from './CrossVenueFeed';
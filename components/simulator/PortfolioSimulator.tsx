@@ -15,7 +15,10 @@ import {
 } from 'lucide-react';
 import { Card, Button, Badge, Slider } from '@/components/ui';
 import { formatPrice } from '@/lib/formatters';
-import { Market } from '@/types';
+import { calculateFill } from '@/lib/math/costs';
+import { createPosition, getPositionFill } from '@/lib/math/payoff';
+import { useOrderbooks } from '@/hooks';
+import { Market, CostModel, DEFAULT_COST_MODEL } from '@/types';
 
 interface PortfolioSimulatorProps {
   market: Market;
@@ -24,7 +27,7 @@ interface PortfolioSimulatorProps {
 
 interface SimulationResult {
   betAmount: number;
-  position: 'yes' | 'no';
+  outcomeName: string;
   currentPrice: number;
   potentialProfit: number;
   potentialLoss: number;
@@ -34,37 +37,59 @@ interface SimulationResult {
   impliedProbability: number;
   sharesReceived: number;
   maxPayout: number;
+  fillPrice: number;
+  feesAndGas: number;
+  slippage: number;
+  costBasis: number;
 }
 
 export function PortfolioSimulator({ market, className = '' }: PortfolioSimulatorProps) {
   const [betAmount, setBetAmount] = useState(100);
-  const [position, setPosition] = useState<'yes' | 'no'>('yes');
+  const [outcomeIndex, setOutcomeIndex] = useState(0);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [costModel, setCostModel] = useState<CostModel>(DEFAULT_COST_MODEL);
+  const marketList = useMemo(() => [market], [market]);
+  const { orderbooks } = useOrderbooks(marketList);
 
-  const yesPrice = market.outcomes[0]?.price || 0.5;
-  const noPrice = market.outcomes[1]?.price || 0.5;
+  const outcomes = market.outcomes.length >= 2
+    ? market.outcomes
+    : [
+        { id: 'yes', name: 'Yes', price: 0.5, priceChange24h: 0 },
+        { id: 'no', name: 'No', price: 0.5, priceChange24h: 0 },
+      ];
+  const isCategorical = outcomes.length > 2;
+  const selectedOutcome = outcomes[outcomeIndex] || outcomes[0];
+  // Bullish styling for the first outcome of a binary market and any categorical pick
+  const isBullishPick = isCategorical || outcomeIndex === 0;
 
   const simulation = useMemo((): SimulationResult => {
     // Ensure betAmount is a valid number
     const numericBetAmount = Math.max(1, Math.min(10000, Number(betAmount) || 100));
-    const currentPrice = position === 'yes' ? yesPrice : noPrice;
-    const oppositePrice = position === 'yes' ? noPrice : yesPrice;
+    const currentPrice = selectedOutcome.price;
 
     // Ensure prices are valid numbers
     const validCurrentPrice = Math.max(0.01, Math.min(0.99, Number(currentPrice) || 0.5));
-    const validOppositePrice = Math.max(0.01, Math.min(0.99, Number(oppositePrice) || 0.5));
 
-    // Shares received = bet amount / current price
-    const sharesReceived = numericBetAmount / validCurrentPrice;
+    // Fill the bet against the orderbook (when loaded) and apply fees and gas
+    const fill = market.outcomes.length >= 2
+      ? getPositionFill(
+          { ...createPosition(market, outcomeIndex, numericBetAmount), entryPrice: validCurrentPrice },
+          costModel,
+          orderbooks
+        )
+      : calculateFill(numericBetAmount, validCurrentPrice, costModel);
+
+    // Shares received for the bet at the actual fill price
+    const sharesReceived = fill.shares;
 
     // Max payout if market resolves in your favor = shares * $1
     const maxPayout = sharesReceived;
 
-    // Potential profit = max payout - bet amount
-    const potentialProfit = maxPayout - numericBetAmount;
+    // Potential profit = max payout - everything paid
+    const potentialProfit = maxPayout - fill.totalCost;
 
-    // Potential loss = entire bet amount
-    const potentialLoss = numericBetAmount;
+    // Potential loss = bet plus fees and gas
+    const potentialLoss = fill.totalCost;
 
     // Validate all calculations are finite numbers
     const safeProfit = isFinite(potentialProfit) ? potentialProfit : 0;
@@ -72,8 +97,8 @@ export function PortfolioSimulator({ market, className = '' }: PortfolioSimulato
     const safeShares = isFinite(sharesReceived) ? sharesReceived : 0;
     const safePayout = isFinite(maxPayout) ? maxPayout : 0;
 
-    // Break even price = what you paid per share
-    const breakEvenPrice = validCurrentPrice;
+    // Break even price = all-in cost per share
+    const breakEvenPrice = safeShares > 0 ? fill.totalCost / safeShares : validCurrentPrice;
 
     // Implied probability = current price (in prediction markets)
     const impliedProbability = validCurrentPrice * 100;
@@ -83,13 +108,13 @@ export function PortfolioSimulator({ market, className = '' }: PortfolioSimulato
     const safeExpectedValue = isFinite(expectedValue) ? expectedValue : 0;
 
     // ROI if you win
-    const roi = numericBetAmount > 0 ? (safeProfit / numericBetAmount) * 100 : 0;
+    const roi = fill.totalCost > 0 ? (safeProfit / fill.totalCost) * 100 : 0;
     const safeRoi = isFinite(roi) ? roi : 0;
     const safeImplied = isFinite(impliedProbability) ? impliedProbability : 0;
 
     return {
       betAmount: numericBetAmount,
-      position,
+      outcomeName: selectedOutcome.name,
       currentPrice: validCurrentPrice,
       potentialProfit: Number(safeProfit.toFixed(2)),
       potentialLoss: Number(safeLoss.toFixed(2)),
@@ -99,8 +124,12 @@ export function PortfolioSimulator({ market, className = '' }: PortfolioSimulato
       impliedProbability: Number(safeImplied.toFixed(1)),
       sharesReceived: Number(safeShares.toFixed(4)),
       maxPayout: Number(safePayout.toFixed(2)),
+      fillPrice: Number(fill.fillPrice.toFixed(4)),
+      feesAndGas: Number((fill.fees + fill.gas).toFixed(2)),
+      slippage: Number(fill.slippage.toFixed(2)),
+      costBasis: Number(fill.totalCost.toFixed(2)),
     };
-  }, [betAmount, position, yesPrice, noPrice]);
+  }, [betAmount, selectedOutcome, market, outcomeIndex, costModel, orderbooks]);
 
   const presetAmounts = [10, 50, 100, 250, 500, 1000];
 
@@ -117,35 +146,53 @@ export function PortfolioSimulator({ market, className = '' }: PortfolioSimulato
         </div>
       </div>
 
-      {/* Position Toggle */}
-      <div className="flex gap-2 mb-4">
-        <button
-          onClick={() => setPosition('yes')}
-          className={`flex-1 py-3 px-4 rounded-lg font-medium transition-all ${
-            position === 'yes'
-              ? 'bg-bullish text-white shadow-lg shadow-bullish/30'
-              : 'bg-surface-elevated text-text-secondary hover:text-text-primary'
-          }`}
-        >
-          <div className="flex items-center justify-center gap-2">
-            <TrendingUp size={16} />
-            <span>YES @ {formatPrice(yesPrice)}</span>
-          </div>
-        </button>
-        <button
-          onClick={() => setPosition('no')}
-          className={`flex-1 py-3 px-4 rounded-lg font-medium transition-all ${
-            position === 'no'
-              ? 'bg-bearish text-white shadow-lg shadow-bearish/30'
-              : 'bg-surface-elevated text-text-secondary hover:text-text-primary'
-          }`}
-        >
-          <div className="flex items-center justify-center gap-2">
-            <TrendingDown size={16} />
-            <span>NO @ {formatPrice(noPrice)}</span>
-          </div>
-        </button>
-      </div>
+      {/* Outcome Toggle */}
+      {isCategorical ? (
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {outcomes.map((outcome, i) => (
+            <button
+              key={outcome.id}
+              onClick={() => setOutcomeIndex(i)}
+              className={`py-2 px-3 rounded-lg text-sm font-medium transition-all truncate ${
+                outcomeIndex === i
+                  ? 'bg-bullish text-white shadow-lg shadow-bullish/30'
+                  : 'bg-surface-elevated text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {outcome.name} @ {formatPrice(outcome.price)}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setOutcomeIndex(0)}
+            className={`flex-1 py-3 px-4 rounded-lg font-medium transition-all ${
+              outcomeIndex === 0
+                ? 'bg-bullish text-white shadow-lg shadow-bullish/30'
+                : 'bg-surface-elevated text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            <div className="flex items-center justify-center gap-2">
+              <TrendingUp size={16} />
+              <span>YES @ {formatPrice(outcomes[0].price)}</span>
+            </div>
+          </button>
+          <button
+            onClick={() => setOutcomeIndex(1)}
+            className={`flex-1 py-3 px-4 rounded-lg font-medium transition-all ${
+              outcomeIndex === 1
+                ? 'bg-bearish text-white shadow-lg shadow-bearish/30'
+                : 'bg-surface-elevated text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            <div className="flex items-center justify-center gap-2">
+              <TrendingDown size={16} />
+              <span>NO @ {formatPrice(outcomes[1].price)}</span>
+            </div>
+          </button>
+        </div>
+      )}
 
       {/* Bet Amount Input */}
       <div className="mb-4">
@@ -277,11 +324,11 @@ export function PortfolioSimulator({ market, className = '' }: PortfolioSimulato
               initial={{ width: 0 }}
               animate={{ width: `${typeof simulation.impliedProbability === 'number' && isFinite(simulation.impliedProbability) ? simulation.impliedProbability : 0}%` }}
               transition={{ duration: 0.5 }}
-              className={`h-full ${position === 'yes' ? 'bg-bullish' : 'bg-bearish'}`}
+              className={`h-full ${isBullishPick ? 'bg-bullish' : 'bg-bearish'}`}
             />
           </div>
           <p className="text-xs text-text-secondary mt-2">
-            The market thinks there&apos;s a {typeof simulation.impliedProbability === 'number' && isFinite(simulation.impliedProbability) ? simulation.impliedProbability.toFixed(0) : '0'}% chance of {position.toUpperCase()}.
+            The market thinks there&apos;s a {typeof simulation.impliedProbability === 'number' && isFinite(simulation.impliedProbability) ? simulation.impliedProbability.toFixed(0) : '0'}% chance of {isCategorical ? simulation.outcomeName : simulation.outcomeName.toUpperCase()}.
           </p>
         </div>
 
@@ -324,11 +371,52 @@ export function PortfolioSimulator({ market, className = '' }: PortfolioSimulato
                 <div className="bg-surface-elevated rounded-lg p-3">
                   <p className="text-xs text-text-secondary">Cost Basis</p>
                   <p className="text-sm font-bold text-text-primary">
-                    ${typeof simulation.betAmount === 'number' && isFinite(simulation.betAmount) ? simulation.betAmount.toFixed(2) : '0.00'}
+                    ${simulation.costBasis.toFixed(2)}
+                  </p>
+                </div>
+                <div className="bg-surface-elevated rounded-lg p-3">
+                  <p className="text-xs text-text-secondary">Avg Fill Price</p>
+                  <p className="text-sm font-bold text-text-primary">
+                    {formatPrice(simulation.fillPrice)}
+                  </p>
+                </div>
+                <div className="bg-surface-elevated rounded-lg p-3">
+                  <p className="text-xs text-text-secondary">Fees + Gas / Slippage</p>
+                  <p className="text-sm font-bold text-text-primary">
+                    ${simulation.feesAndGas.toFixed(2)} / ${simulation.slippage.toFixed(2)}
                   </p>
                 </div>
               </div>
 
+              {/* Cost model */}
+              <div className="grid grid-cols-2 gap-2">
+                <label className="bg-surface-elevated rounded-lg p-3 block">
+                  <span className="text-xs text-text-secondary">Taker Fee (bps)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={costModel.takerFeeBps}
+                    onChange={(e) =>
+                      setCostModel({ ...costModel, takerFeeBps: Math.max(0, Number(e.target.value) || 0) })
+                    }
+                    className="w-full mt-1 bg-background border border-border rounded px-2 py-1 text-sm text-text-primary"
+                  />
+                </label>
+                <label className="bg-surface-elevated rounded-lg p-3 block">
+                  <span className="text-xs text-text-secondary">Gas per Trade ($)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={costModel.gasPerTrade}
+                    onChange={(e) =>
+                      setCostModel({ ...costModel, gasPerTrade: Math.max(0, Number(e.target.value) || 0) })
+                    }
+                    className="w-full mt-1 bg-background border border-border rounded px-2 py-1 text-sm text-text-primary"
+                  />
+                </label>
+              </div>
+
               {/* How it works */}
               <div className="bg-surface-elevated rounded-lg p-3 mt-3">
                 <p className="text-xs font-semibold text-text-primary mb-2">💡 How Prediction Markets Work</p>
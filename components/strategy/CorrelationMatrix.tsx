@@ -0,0 +1,88 @@
+'use client';
+
+import { Market, MarketCorrelation } from '@/types';
+import { Card } from '@/components/ui';
+import { truncate } from '@/lib/formatters';
+import { Link2 } from 'lucide-react';
+
+interface CorrelationMatrixProps {
+  markets: Market[];
+  correlations: MarketCorrelation[];
+  onChange: (correlations: MarketCorrelation[]) => void;
+}
+
+function getCorrelation(correlations: MarketCorrelation[], a: string, b: string): number {
+  const entry = correlations.find(
+    (c) => (c.marketIdA === a && c.marketIdB === b) || (c.marketIdA === b && c.marketIdB === a)
+  );
+  return entry?.correlation ?? 0;
+}
+
+export function CorrelationMatrix({ markets, correlations, onChange }: CorrelationMatrixProps) {
+  if (markets.length < 2) return null;
+
+  const setCorrelation = (a: string, b: string, value: number) => {
+    const rest = correlations.filter(
+      (c) => !((c.marketIdA === a && c.marketIdB === b) || (c.marketIdA === b && c.marketIdB === a))
+    );
+    const correlation = Math.max(-1, Math.min(1, value));
+    onChange(correlation === 0 ? rest : [...rest, { marketIdA: a, marketIdB: b, correlation }]);
+  };
+
+  return (
+    <Card padding="sm">
+      <div className="flex items-center gap-2 mb-1">
+        <Link2 size={16} className="text-text-secondary" />
+        <span className="text-sm font-medium text-text-primary">Market Correlations</span>
+      </div>
+      <p className="text-xs text-text-secondary mb-3">
+        Positive values make the first outcomes (e.g. YES) win together. Leave at 0 for independent markets.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs w-full">
+          <thead>
+            <tr>
+              <th />
+              {markets.map((m, j) => (
+                <th key={m.id} className="px-1 pb-2 text-text-secondary font-normal" title={m.question}>
+                  M{j + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {markets.map((row, i) => (
+              <tr key={row.id}>
+                <td className="pr-2 py-1 text-text-secondary whitespace-nowrap" title={row.question}>
+                  M{i + 1} {truncate(row.question, 28)}
+                </td>
+                {markets.map((col, j) => (
+                  <td key={col.id} className="px-1 py-1">
+                    {i === j ? (
+                      <span className="block text-center text-text-secondary">1</span>
+                    ) : j > i ? (
+                      <input
+                        type="number"
+                        min={-1}
+                        max={1}
+                        step={0.1}
+                        value={getCorrelation(correlations, row.id, col.id)}
+                        onChange={(e) => setCorrelation(row.id, col.id, parseFloat(e.target.value) || 0)}
+                        className="w-14 bg-background border border-border rounded px-1 py-0.5 text-text-primary text-center"
+                      />
+                    ) : (
+                      <span className="block text-center text-text-secondary">
+                        {getCorrelation(correlations, row.id, col.id).toFixed(1)}
+                      </span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
@@ -1,16 +1,24 @@
 'use client';
 
-import { StrategyAnalysis } from '@/types';
+import { StrategyAnalysis, CostModel, Market, MarketCorrelation } from '@/types';
 import { PayoffCurve } from '@/components/charts/PayoffCurve';
 import { PayoffHeatmap } from '@/components/charts/PayoffHeatmap';
-import { Slider, Card } from '@/components/ui';
+import { OutcomePayoffChart } from '@/components/charts/OutcomePayoffChart';
+import { PayoffDistributionChart } from '@/components/charts/PayoffDistributionChart';
+import { CorrelationMatrix } from './CorrelationMatrix';
+import { Slider, Card, Input } from '@/components/ui';
 import { formatUSD } from '@/lib/formatters';
-import { TrendingUp, TrendingDown, Target, Clock, DollarSign } from 'lucide-react';
+import { TrendingUp, TrendingDown, Target, Clock, DollarSign, Receipt } from 'lucide-react';
 
 interface PayoffSurfaceProps {
   analysis: StrategyAnalysis;
   discountRate: number;
   onDiscountRateChange: (rate: number) => void;
+  costModel?: CostModel;
+  onCostModelChange?: (costModel: CostModel) => void;
+  markets?: Market[];
+  correlations?: MarketCorrelation[];
+  onCorrelationsChange?: (correlations: MarketCorrelation[]) => void;
   currentProbability?: number;
 }
 
@@ -18,6 +26,11 @@ export function PayoffSurface({
   analysis,
   discountRate,
   onDiscountRateChange,
+  costModel,
+  onCostModelChange,
+  markets = [],
+  correlations = [],
+  onCorrelationsChange,
   currentProbability,
 }: PayoffSurfaceProps) {
   const {
@@ -27,6 +40,9 @@ export function PayoffSurface({
     maxProfit,
     maxLoss,
     breakEvenProbability,
+    costs,
+    payoffDistribution,
+    outcomePayoffs,
     payoffCurve,
     payoffSurface,
   } = analysis;
@@ -81,6 +97,65 @@ export function PayoffSurface({
         </p>
       </Card>
 
+      {/* Trading costs */}
+      {costModel && onCostModelChange && (
+        <Card padding="sm">
+          <div className="flex items-center gap-2 mb-3">
+            <Receipt size={16} className="text-text-secondary" />
+            <span className="text-sm font-medium text-text-primary">Trading Costs</span>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-text-secondary block mb-1">Taker Fee (bps)</label>
+              <Input
+                type="number"
+                value={costModel.takerFeeBps}
+                onChange={(e) =>
+                  onCostModelChange({ ...costModel, takerFeeBps: Math.max(0, parseFloat(e.target.value) || 0) })
+                }
+                step={1}
+                min={0}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-text-secondary block mb-1">Gas per Trade ($)</label>
+              <Input
+                type="number"
+                value={costModel.gasPerTrade}
+                onChange={(e) =>
+                  onCostModelChange({ ...costModel, gasPerTrade: Math.max(0, parseFloat(e.target.value) || 0) })
+                }
+                step={0.01}
+                min={0}
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={costModel.useOrderbookSlippage}
+              onChange={(e) => onCostModelChange({ ...costModel, useOrderbookSlippage: e.target.checked })}
+              className="rounded border-border bg-background text-bullish focus:ring-bullish"
+            />
+            <span className="text-xs text-text-primary">Fill against live orderbook depth</span>
+          </label>
+          <div className="grid grid-cols-3 gap-3 mt-3 pt-3 border-t border-border text-center">
+            <div>
+              <p className="text-xs text-text-secondary">Fees + Gas</p>
+              <p className="text-sm font-medium text-text-primary">{formatUSD(costs.fees + costs.gas)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-text-secondary">Slippage</p>
+              <p className="text-sm font-medium text-text-primary">{formatUSD(costs.slippage)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-text-secondary">Total Cost</p>
+              <p className="text-sm font-medium text-bearish">{formatUSD(costs.total)}</p>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Time-weighted EV */}
       <Card padding="sm">
         <div className="flex items-center justify-between">
@@ -108,6 +183,21 @@ export function PayoffSurface({
         currentProbability={currentProbability}
       />
 
+      {/* Correlations between markets */}
+      {onCorrelationsChange && (
+        <CorrelationMatrix
+          markets={markets}
+          correlations={correlations}
+          onChange={onCorrelationsChange}
+        />
+      )}
+
+      {/* Joint payoff distribution with VaR / expected shortfall */}
+      <PayoffDistributionChart distribution={payoffDistribution} />
+
+      {/* Per-outcome payoffs (covers categorical markets) */}
+      <OutcomePayoffChart data={outcomePayoffs} />
+
       {/* Payoff heatmap (WOW feature!) */}
       <PayoffHeatmap
         data={payoffSurface.points}
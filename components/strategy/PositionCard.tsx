@@ -4,22 +4,25 @@ import { X, TrendingUp, TrendingDown } from 'lucide-react';
 import { Position } from '@/types';
 import { Button, Input } from '@/components/ui';
 import { formatPrice } from '@/lib/formatters';
+import { getPositionOutcomeIndex } from '@/lib/math/payoff';
 
 interface PositionCardProps {
   position: Position;
   onRemove: () => void;
   onUpdateStake: (stake: number) => void;
-  onToggleSide: () => void;
+  onSelectOutcome: (outcomeIndex: number) => void;
 }
 
 export function PositionCard({
   position,
   onRemove,
   onUpdateStake,
-  onToggleSide,
+  onSelectOutcome,
 }: PositionCardProps) {
-  const { market, side, stake, entryPrice } = position;
-  const isYes = side === 'YES';
+  const { market, stake, entryPrice } = position;
+  const selectedIndex = getPositionOutcomeIndex(position);
+  const isYes = selectedIndex === 0;
+  const isCategorical = market.outcomes.length > 2;
 
   return (
     <div className="bg-background border border-border rounded-lg p-3">
@@ -36,27 +39,43 @@ export function PositionCard({
         </button>
       </div>
 
-      {/* Side toggle and price */}
-      <div className="flex items-center gap-2 mb-3">
-        <Button
-          variant={isYes ? 'bullish' : 'secondary'}
-          size="sm"
-          onClick={onToggleSide}
-          className="flex-1"
-        >
-          <TrendingUp size={14} className="mr-1" />
-          YES @ {formatPrice(market.outcomes[0]?.price || 0.5)}
-        </Button>
-        <Button
-          variant={!isYes ? 'bearish' : 'secondary'}
-          size="sm"
-          onClick={onToggleSide}
-          className="flex-1"
-        >
-          <TrendingDown size={14} className="mr-1" />
-          NO @ {formatPrice(market.outcomes[1]?.price || 0.5)}
-        </Button>
-      </div>
+      {/* Outcome selector and price */}
+      {isCategorical ? (
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          {market.outcomes.map((outcome, i) => (
+            <Button
+              key={outcome.id}
+              variant={selectedIndex === i ? 'bullish' : 'secondary'}
+              size="sm"
+              onClick={() => onSelectOutcome(i)}
+              className="truncate"
+            >
+              {outcome.name} @ {formatPrice(outcome.price)}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 mb-3">
+          <Button
+            variant={isYes ? 'bullish' : 'secondary'}
+            size="sm"
+            onClick={() => onSelectOutcome(0)}
+            className="flex-1"
+          >
+            <TrendingUp size={14} className="mr-1" />
+            YES @ {formatPrice(market.outcomes[0]?.price || 0.5)}
+          </Button>
+          <Button
+            variant={!isYes ? 'bearish' : 'secondary'}
+            size="sm"
+            onClick={() => onSelectOutcome(1)}
+            className="flex-1"
+          >
+            <TrendingDown size={14} className="mr-1" />
+            NO @ {formatPrice(market.outcomes[1]?.price || 0.5)}
+          </Button>
+        </div>
+      )}
 
       {/* Stake input */}
       <div>
@@ -73,8 +92,10 @@ export function PositionCard({
 
       {/* Position summary */}
       <div className="mt-2 pt-2 border-t border-border flex justify-between text-xs">
-        <span className="text-text-secondary">Entry Price</span>
-        <span className={`font-medium ${isYes ? 'text-bullish' : 'text-bearish'}`}>
+        <span className="text-text-secondary">
+          Entry Price{isCategorical ? ` (${market.outcomes[selectedIndex]?.name})` : ''}
+        </span>
+        <span className={`font-medium ${isYes || isCategorical ? 'text-bullish' : 'text-bearish'}`}>
           {formatPrice(entryPrice)}
         </span>
       </div>
@@ -2,12 +2,21 @@
 
 import { useState, useMemo, useCallback } from 'react';
 import { Plus, Trash2, Calculator, Save } from 'lucide-react';
-import { Market, Position, Strategy, StrategyAnalysis } from '@/types';
+import {
+  Market,
+  StrategyAnalysis,
+  CostModel,
+  DEFAULT_COST_MODEL,
+  MarketCorrelation,
+} from '@/types';
 import { Button, Card, Modal } from '@/components/ui';
 import { PositionCard } from './PositionCard';
 import { PayoffSurface } from './PayoffSurface';
-import { analyzeStrategy } from '@/lib/math/payoff';
-import { generateId } from '@/lib/utils';
+import { StrategySwitcher } from './StrategySwitcher';
+import { StrategyDashboard } from './StrategyDashboard';
+import { analyzeStrategy, createPosition, getPositionOutcomeIndex, getOutcomeNames } from '@/lib/math/payoff';
+import { useOrderbooks } from '@/hooks';
+import { useStrategy, useWorkspace } from '@/context';
 
 interface StrategyBuilderProps {
   market: Market;
@@ -15,69 +24,90 @@ interface StrategyBuilderProps {
 }
 
 export function StrategyBuilder({ market, onAddToResearch }: StrategyBuilderProps) {
-  const [positions, setPositions] = useState<Position[]>([]);
-  const [discountRate, setDiscountRate] = useState(0.10);
+  const {
+    strategies,
+    activeStrategy,
+    createStrategy,
+    renameStrategy,
+    duplicateStrategy,
+    archiveStrategy,
+    restoreStrategy,
+    switchStrategy,
+    updateStrategySettings,
+    addPosition: addStrategyPosition,
+    removePosition,
+    updatePosition,
+    clearPositions,
+    setDiscountRate,
+  } = useStrategy();
+  const { activeWorkspace, canEdit } = useWorkspace();
   const [showAnalysis, setShowAnalysis] = useState(false);
 
-  // Add current market as a position
+  const positions = useMemo(() => activeStrategy?.positions ?? [], [activeStrategy]);
+  const discountRate = activeStrategy?.discountRate ?? 0.10;
+  const costModel = activeStrategy?.costModel ?? DEFAULT_COST_MODEL;
+  const correlations = useMemo(() => activeStrategy?.correlations ?? [], [activeStrategy]);
+
+  // Outcomes of the current market not yet held, so categorical markets can hold several
+  const unheldOutcomeIndexes = useMemo(() => {
+    const held = new Set(
+      positions.filter(p => p.market.id === market.id).map(getPositionOutcomeIndex)
+    );
+    const count = Math.max(market.outcomes.length, 2);
+    return Array.from({ length: count }, (_, i) => i).filter(i => !held.has(i));
+  }, [positions, market]);
+
+  // Add the current market's next unheld outcome to the active strategy, starting one if none is open
   const addPosition = useCallback(() => {
-    if (positions.length >= 5) return;
-    if (positions.some(p => p.market.id === market.id)) return;
-
-    const yesPrice = market.outcomes[0]?.price || 0.5;
-    
-    setPositions(prev => [
-      ...prev,
-      {
-        id: generateId(),
-        market,
-        side: 'YES',
-        stake: 100,
-        entryPrice: yesPrice,
-        addedAt: Date.now(),
-      },
-    ]);
-  }, [market, positions]);
-
-  const removePosition = useCallback((id: string) => {
-    setPositions(prev => prev.filter(p => p.id !== id));
-  }, []);
+    if (!activeStrategy) {
+      createStrategy(undefined, [createPosition(market, 0, 100)]);
+      return;
+    }
+    if (unheldOutcomeIndexes.length === 0) return;
+    addStrategyPosition(market, unheldOutcomeIndexes[0], 100);
+  }, [market, activeStrategy, unheldOutcomeIndexes, createStrategy, addStrategyPosition]);
 
   const updatePositionStake = useCallback((id: string, stake: number) => {
-    setPositions(prev =>
-      prev.map(p => (p.id === id ? { ...p, stake } : p))
-    );
-  }, []);
-
-  const togglePositionSide = useCallback((id: string) => {
-    setPositions(prev =>
-      prev.map(p => {
-        if (p.id !== id) return p;
-        const newSide = p.side === 'YES' ? 'NO' : 'YES';
-        const newPrice = newSide === 'YES'
-          ? p.market.outcomes[0]?.price || 0.5
-          : p.market.outcomes[1]?.price || 0.5;
-        return { ...p, side: newSide, entryPrice: newPrice };
-      })
-    );
-  }, []);
+    updatePosition(id, { stake });
+  }, [updatePosition]);
 
-  const clearAll = useCallback(() => {
-    setPositions([]);
-    setShowAnalysis(false);
-  }, []);
+  const selectPositionOutcome = useCallback((id: string, outcomeIndex: number) => {
+    const position = positions.find(p => p.id === id);
+    if (!position) return;
+    const { side, outcomeId, entryPrice } = createPosition(position.market, outcomeIndex, position.stake);
+    updatePosition(id, { side, outcomeId, entryPrice });
+  }, [positions, updatePosition]);
 
-  // Compute strategy analysis
-  const strategy: Strategy = useMemo(() => ({
-    id: 'current',
-    name: 'Current Strategy',
-    positions,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-    discountRate,
-  }), [positions, discountRate]);
+  const setCostModel = useCallback((model: CostModel) => {
+    updateStrategySettings({ costModel: model });
+  }, [updateStrategySettings]);
 
-  const analysis = useMemo(() => analyzeStrategy(strategy), [strategy]);
+  const setCorrelations = useCallback((next: MarketCorrelation[]) => {
+    updateStrategySettings({ correlations: next });
+  }, [updateStrategySettings]);
+
+  const clearAll = useCallback(() => {
+    clearPositions();
+    setShowAnalysis(false);
+  }, [clearPositions]);
+
+  // Orderbooks for slippage, fetched once per distinct market
+  const positionMarkets = useMemo(() => positions.map(p => p.market), [positions]);
+  const { orderbooks } = useOrderbooks(positionMarkets);
+
+  const analysis = useMemo(
+    () => analyzeStrategy({
+      id: activeStrategy?.id ?? 'current',
+      name: activeStrategy?.name ?? 'Current Strategy',
+      positions,
+      createdAt: activeStrategy?.createdAt ?? Date.now(),
+      updatedAt: activeStrategy?.updatedAt ?? Date.now(),
+      discountRate,
+      costModel,
+      correlations,
+    }, orderbooks),
+    [activeStrategy, positions, discountRate, costModel, correlations, orderbooks]
+  );
 
   const currentProbability = market.outcomes[0]?.price || 0.5;
   const hasCurrentMarket = positions.some(p => p.market.id === market.id);
@@ -87,7 +117,7 @@ export function StrategyBuilder({ market, onAddToResearch }: StrategyBuilderProp
       {/* Header */}
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-text-primary">Strategy Builder</h3>
-        {positions.length > 0 && (
+        {positions.length > 0 && canEdit && (
           <Button variant="ghost" size="sm" onClick={clearAll}>
             <Trash2 size={14} className="mr-1" />
             Clear All
@@ -95,15 +125,39 @@ export function StrategyBuilder({ market, onAddToResearch }: StrategyBuilderProp
         )}
       </div>
 
+      {activeWorkspace && (
+        <p className="text-xs text-text-secondary">
+          Shared with {activeWorkspace.name}
+          {!canEdit && ' · View only: ask an owner for editor access to make changes'}
+        </p>
+      )}
+
+      {/* Saved strategies */}
+      <StrategySwitcher
+        strategies={strategies}
+        activeStrategy={activeStrategy}
+        onCreate={() => createStrategy()}
+        onRename={renameStrategy}
+        onDuplicate={duplicateStrategy}
+        onArchive={archiveStrategy}
+        onRestore={restoreStrategy}
+        onSwitch={switchStrategy}
+      />
+
+      {/* Live P&L of the active strategy */}
+      {activeStrategy && <StrategyDashboard strategy={activeStrategy} />}
+
       {/* Add position button */}
-      {!hasCurrentMarket && positions.length < 5 && (
+      {unheldOutcomeIndexes.length > 0 && canEdit && (
         <Button
           variant="secondary"
           onClick={addPosition}
           className="w-full"
         >
           <Plus size={16} className="mr-2" />
-          Add {market.question.slice(0, 40)}...
+          {hasCurrentMarket
+            ? `Add ${getOutcomeNames(market)[unheldOutcomeIndexes[0]]}`
+            : `Add ${market.question.slice(0, 40)}...`}
         </Button>
       )}
 
@@ -116,7 +170,7 @@ export function StrategyBuilder({ market, onAddToResearch }: StrategyBuilderProp
               position={position}
               onRemove={() => removePosition(position.id)}
               onUpdateStake={(stake) => updatePositionStake(position.id, stake)}
-              onToggleSide={() => togglePositionSide(position.id)}
+              onSelectOutcome={(index) => selectPositionOutcome(position.id, index)}
             />
           ))}
 
@@ -150,6 +204,11 @@ export function StrategyBuilder({ market, onAddToResearch }: StrategyBuilderProp
           analysis={analysis}
           discountRate={discountRate}
           onDiscountRateChange={setDiscountRate}
+          costModel={costModel}
+          onCostModelChange={setCostModel}
+          markets={Array.from(new Map(positionMarkets.map(m => [m.id, m])).values())}
+          correlations={correlations}
+          onCorrelationsChange={setCorrelations}
           currentProbability={currentProbability}
         />
 
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Activity } from 'lucide-react';
+import { Strategy } from '@/types';
+import { Card, Badge } from '@/components/ui';
+import { useExitPrices } from '@/hooks';
+import { useStrategy } from '@/context';
+import { markStrategy, calculateDrawdown, createPnlSnapshot } from '@/lib/math/pnl';
+import { formatUSD, formatPrice, truncate } from '@/lib/formatters';
+
+interface StrategyDashboardProps {
+  strategy: Strategy;
+}
+
+function pnlClass(value: number): string {
+  if (value > 0) return 'text-bullish';
+  if (value < 0) return 'text-bearish';
+  return 'text-text-primary';
+}
+
+export function StrategyDashboard({ strategy }: StrategyDashboardProps) {
+  const { closePosition, recordPnlSnapshot } = useStrategy();
+  const { prices, updatedAt } = useExitPrices(strategy.positions);
+
+  const mark = useMemo(() => markStrategy(strategy, prices), [strategy, prices]);
+  const history = useMemo(() => strategy.pnlHistory || [], [strategy.pnlHistory]);
+  const drawdown = useMemo(() => calculateDrawdown(history), [history]);
+  const isLive = mark.positions.some(p => p.isLive);
+
+  // Persist a snapshot whenever fresh exit prices arrive, not on every edit
+  const markRef = useRef(mark);
+  markRef.current = mark;
+  useEffect(() => {
+    if (!updatedAt || !markRef.current.positions.some(p => p.isLive)) return;
+    recordPnlSnapshot(strategy.id, createPnlSnapshot(markRef.current, updatedAt));
+  }, [updatedAt, strategy.id, recordPnlSnapshot]);
+
+  const chartData = useMemo(
+    () => history.map(s => ({ timestamp: s.timestamp, pnl: s.unrealizedPnl + s.realizedPnl })),
+    [history]
+  );
+
+  const trades = strategy.realizedTrades || [];
+  if (strategy.positions.length === 0 && trades.length === 0) return null;
+
+  return (
+    <Card padding="md" className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Activity size={16} className="text-bullish" />
+          <h4 className="text-sm font-medium text-text-primary">Mark-to-Market</h4>
+        </div>
+        <Badge variant={isLive ? 'bullish' : 'default'} size="sm">
+          {isLive ? 'Live bids' : 'Stored prices'}
+        </Badge>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs text-text-secondary">Current Value</p>
+          <p className="text-sm font-medium text-text-primary">{formatUSD(mark.marketValue)}</p>
+          <p className="text-xs text-text-secondary">Cost {formatUSD(mark.costBasis)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">Total P&L</p>
+          <p className={`text-sm font-medium ${pnlClass(mark.totalPnl)}`}>{formatUSD(mark.totalPnl)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">Unrealized</p>
+          <p className={`text-sm font-medium ${pnlClass(mark.unrealizedPnl)}`}>{formatUSD(mark.unrealizedPnl)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">Realized</p>
+          <p className={`text-sm font-medium ${pnlClass(mark.realizedPnl)}`}>{formatUSD(mark.realizedPnl)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">Max Drawdown</p>
+          <p className="text-sm font-medium text-bearish">{formatUSD(drawdown.maxDrawdown)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-text-secondary">Current Drawdown</p>
+          <p className="text-sm font-medium text-text-primary">{formatUSD(drawdown.currentDrawdown)}</p>
+        </div>
+      </div>
+
+      {/* P&L over time */}
+      {chartData.length >= 2 && (
+        <div className="h-28">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 4, right: 4, left: 0, bottom: 0 }}>
+              <XAxis dataKey="timestamp" hide />
+              <YAxis
+                axisLine={false}
+                tickLine={false}
+                width={48}
+                tick={{ fill: '#a1a1aa', fontSize: 10 }}
+                tickFormatter={(v) => formatUSD(v)}
+              />
+              <Tooltip
+                contentStyle={{ background: '#18181b', border: '1px solid #27272a', borderRadius: 8 }}
+                labelFormatter={(v) => new Date(v as number).toLocaleString()}
+                formatter={(v: number) => [formatUSD(v), 'P&L']}
+              />
+              <ReferenceLine y={0} stroke="#3f3f46" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="pnl" stroke="#22c55e" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Open positions */}
+      {mark.positions.length > 0 && (
+        <div className="space-y-1">
+          {mark.positions.map(positionMark => {
+            const position = strategy.positions.find(p => p.id === positionMark.positionId);
+            if (!position) return null;
+            return (
+              <div
+                key={positionMark.positionId}
+                className="flex items-center justify-between gap-2 bg-background rounded-lg px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs text-text-primary truncate">{truncate(position.market.question, 40)}</p>
+                  <p className="text-xs text-text-secondary">
+                    Bid {formatPrice(positionMark.exitPrice)} · {positionMark.shares.toFixed(1)} shares
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs font-mono ${pnlClass(positionMark.unrealizedPnl)}`}>
+                    {formatUSD(positionMark.unrealizedPnl)}
+                  </span>
+                  <button
+                    onClick={() => closePosition(position.id, positionMark.exitPrice)}
+                    className="text-xs text-text-secondary hover:text-text-primary transition-colors"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Realized trades */}
+      {trades.length > 0 && (
+        <div>
+          <h5 className="text-xs font-medium text-text-secondary uppercase mb-2">Realized</h5>
+          <div className="space-y-1">
+            {trades.slice(-5).reverse().map(trade => (
+              <div key={trade.id} className="flex items-center justify-between text-xs">
+                <span className="text-text-secondary truncate pr-2">
+                  {trade.reason === 'settled' ? `Settled ${trade.resolutionOutcome}` : 'Closed'}
+                  {' · '}{trade.outcomeName} · {truncate(trade.marketQuestion, 28)}
+                </span>
+                <span className={`font-mono ${pnlClass(trade.pnl)}`}>{formatUSD(trade.pnl)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Copy, Archive, Pencil, Check, RotateCcw } from 'lucide-react';
+import { Strategy } from '@/types';
+import { Button, Input } from '@/components/ui';
+
+interface StrategySwitcherProps {
+  strategies: Strategy[];
+  activeStrategy: Strategy | null;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string) => void;
+  onRestore: (id: string) => void;
+  onSwitch: (id: string) => void;
+}
+
+export function StrategySwitcher({
+  strategies,
+  activeStrategy,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onRestore,
+  onSwitch,
+}: StrategySwitcherProps) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  const open = strategies.filter(s => !s.archivedAt);
+  const archived = strategies.filter(s => s.archivedAt);
+
+  const startRename = () => {
+    if (!activeStrategy) return;
+    setName(activeStrategy.name);
+    setEditing(true);
+  };
+
+  const commitRename = () => {
+    if (activeStrategy && name.trim()) onRename(activeStrategy.id, name.trim());
+    setEditing(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {editing ? (
+          <div className="flex-1">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditing(false);
+              }}
+              autoFocus
+              className="text-sm"
+            />
+          </div>
+        ) : (
+          <select
+            value={activeStrategy?.id ?? ''}
+            onChange={(e) => onSwitch(e.target.value)}
+            className="flex-1 min-w-0 bg-surface border border-border rounded-lg px-3 py-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-bullish/50"
+          >
+            {!activeStrategy && <option value="">No strategy selected</option>}
+            {open.map(s => (
+              <option key={s.id} value={s.id}>
+                {s.name} ({s.positions.length})
+              </option>
+            ))}
+          </select>
+        )}
+
+        {editing ? (
+          <Button variant="ghost" size="sm" onClick={commitRename} title="Save name">
+            <Check size={14} />
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" onClick={startRename} disabled={!activeStrategy} title="Rename">
+            <Pencil size={14} />
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={onCreate} title="New strategy">
+          <Plus size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => activeStrategy && onDuplicate(activeStrategy.id)}
+          disabled={!activeStrategy}
+          title="Duplicate"
+        >
+          <Copy size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => activeStrategy && onArchive(activeStrategy.id)}
+          disabled={!activeStrategy}
+          title="Archive"
+        >
+          <Archive size={14} />
+        </Button>
+      </div>
+
+      {/* Archived strategies */}
+      {archived.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-xs text-text-secondary hover:text-text-primary transition-colors"
+          >
+            {showArchived ? 'Hide' : 'Show'} archived ({archived.length})
+          </button>
+          {showArchived && (
+            <div className="mt-2 space-y-1">
+              {archived.map(s => (
+                <div
+                  key={s.id}
+                  className="flex items-center justify-between bg-background rounded-lg px-3 py-2"
+                >
+                  <span className="text-xs text-text-secondary truncate">{s.name}</span>
+                  <button
+                    onClick={() => onRestore(s.id)}
+                    className="text-text-secondary hover:text-bullish transition-colors p-1"
+                    title="Restore"
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
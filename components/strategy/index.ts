@@ -1,3 +1,6 @@
 export { StrategyBuilder } from './StrategyBuilder';
 export { PositionCard } from './PositionCard';
 export { PayoffSurface } from './PayoffSurface';
+export { CorrelationMatrix } from './CorrelationMatrix';
+export { StrategySwitcher } from './StrategySwitcher';
+export { StrategyDashboard } from './StrategyDashboard';
@@ -8,6 +8,8 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from './Tabs';
 import { Slider } from './Slider';
 import { clearCache } from '@/lib/polymarket';
 import { useTheme } from '@/context';
+import { useSyncedStorage } from '@/hooks/useSyncedStorage';
+import { UserSettings } from '@/types';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -29,41 +31,37 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [pushNotificationStatus, setPushNotificationStatus] = useState<string>('checking');
   const [isCheckingPush, setIsCheckingPush] = useState(false);
 
-  // Load saved settings from localStorage
+  const [savedSettings, setSavedSettings, { isLoaded }] = useSyncedStorage<UserSettings>(
+    'pulseforge_settings',
+    'settings',
+    {}
+  );
+
+  // Apply saved settings once loaded (locally, then from the account)
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('pulseforge_settings');
-      if (saved) {
-        try {
-          const settings = JSON.parse(saved);
-          if (settings.autoRefresh !== undefined) setAutoRefresh(settings.autoRefresh);
-          if (settings.refreshInterval) setRefreshInterval(settings.refreshInterval);
-          if (settings.defaultLimit) setDefaultLimit(settings.defaultLimit);
-          if (settings.defaultSort) setDefaultSort(settings.defaultSort);
-          if (settings.compactView !== undefined) setCompactView(settings.compactView);
-        } catch {
-          // Ignore parse errors
-        }
-      }
-    }
-  }, []);
+    if (!isLoaded) return;
+    const settings = savedSettings;
+    if (settings.autoRefresh !== undefined) setAutoRefresh(settings.autoRefresh);
+    if (settings.refreshInterval) setRefreshInterval(settings.refreshInterval);
+    if (settings.defaultLimit) setDefaultLimit(settings.defaultLimit);
+    if (settings.defaultSort) setDefaultSort(settings.defaultSort);
+    if (settings.compactView !== undefined) setCompactView(settings.compactView);
+    if (settings.notifications !== undefined) setNotifications(settings.notifications);
+    if (settings.priceAlerts !== undefined) setPriceAlerts(settings.priceAlerts);
+    if (settings.priceAlertThreshold) setPriceAlertThreshold(settings.priceAlertThreshold);
+  }, [savedSettings, isLoaded]);
 
   const handleSave = () => {
-    if (typeof window !== 'undefined') {
-      const settings = {
-        autoRefresh,
-        refreshInterval,
-        defaultLimit,
-        defaultSort,
-        compactView,
-        notifications,
-        priceAlerts,
-        priceAlertThreshold,
-      };
-      localStorage.setItem('pulseforge_settings', JSON.stringify(settings));
-      // Simple notification
-      console.log('Settings saved successfully');
-    }
+    setSavedSettings({
+      autoRefresh,
+      refreshInterval,
+      defaultLimit,
+      defaultSort,
+      compactView,
+      notifications,
+      priceAlerts,
+      priceAlertThreshold,
+    });
     onClose();
   };
 
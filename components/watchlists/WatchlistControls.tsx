@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { Columns, Filter, X } from 'lucide-react';
+import { WatchlistColumn, WatchlistFilter, WATCHLIST_COLUMNS } from '@/types';
+import { Button, Input } from '@/components/ui';
+import { WATCHLIST_COLUMN_LABELS, WATCHLIST_COLUMN_UNITS } from '@/lib/watchlists/columns';
+
+interface WatchlistControlsProps {
+  columns: WatchlistColumn[];
+  filters: WatchlistFilter[];
+  onColumnsChange: (columns: WatchlistColumn[]) => void;
+  onFiltersChange: (filters: WatchlistFilter[]) => void;
+}
+
+const selectClass = 'bg-surface border border-border rounded-lg px-2 py-1.5 text-sm text-text-primary';
+
+// Filter bounds are entered in display units (see WATCHLIST_COLUMN_UNITS)
+function toDisplay(column: WatchlistColumn, value: number | undefined): string {
+  return value === undefined ? '' : String(+(value * WATCHLIST_COLUMN_UNITS[column].scale).toFixed(4));
+}
+
+function fromDisplay(column: WatchlistColumn, text: string): number | undefined {
+  return text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text) / WATCHLIST_COLUMN_UNITS[column].scale;
+}
+
+function describeFilter(filter: WatchlistFilter): string {
+  const unit = WATCHLIST_COLUMN_UNITS[filter.column].label;
+  const label = WATCHLIST_COLUMN_LABELS[filter.column];
+  const min = toDisplay(filter.column, filter.min);
+  const max = toDisplay(filter.column, filter.max);
+  if (min && max) return `${label} ${min}–${max}${unit}`;
+  return min ? `${label} ≥ ${min}${unit}` : `${label} ≤ ${max}${unit}`;
+}
+
+/**
+ * Column picker and per-column range filters for a watchlist
+ */
+export function WatchlistControls({ columns, filters, onColumnsChange, onFiltersChange }: WatchlistControlsProps) {
+  const [showColumns, setShowColumns] = useState(false);
+  const [filterColumn, setFilterColumn] = useState<WatchlistColumn>('price');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+
+  // Keep the canonical column order when toggling
+  const toggleColumn = (column: WatchlistColumn) => {
+    const next = columns.includes(column) ? columns.filter(c => c !== column) : [...columns, column];
+    onColumnsChange(WATCHLIST_COLUMNS.filter(c => next.includes(c)));
+  };
+
+  const addFilter = () => {
+    const filter: WatchlistFilter = {
+      column: filterColumn,
+      min: fromDisplay(filterColumn, min),
+      max: fromDisplay(filterColumn, max),
+    };
+    if (filter.min === undefined && filter.max === undefined) return;
+    onFiltersChange([...filters.filter(f => f.column !== filterColumn), filter]);
+    setMin('');
+    setMax('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="secondary" size="sm" onClick={() => setShowColumns(!showColumns)}>
+          <Columns size={14} className="mr-1" />
+          Columns
+        </Button>
+
+        <div className="flex items-center gap-1">
+          <Filter size={14} className="text-text-secondary" />
+          <select
+            value={filterColumn}
+            onChange={(e) => setFilterColumn(e.target.value as WatchlistColumn)}
+            className={selectClass}
+          >
+            {WATCHLIST_COLUMNS.map(column => (
+              <option key={column} value={column}>{WATCHLIST_COLUMN_LABELS[column]}</option>
+            ))}
+          </select>
+          <div className="w-20">
+            <Input
+              type="number"
+              value={min}
+              onChange={(e) => setMin(e.target.value)}
+              placeholder="min"
+              className="text-sm"
+            />
+          </div>
+          <div className="w-20">
+            <Input
+              type="number"
+              value={max}
+              onChange={(e) => setMax(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addFilter()}
+              placeholder="max"
+              className="text-sm"
+            />
+          </div>
+          <span className="text-xs text-text-secondary">{WATCHLIST_COLUMN_UNITS[filterColumn].label}</span>
+          <Button variant="ghost" size="sm" onClick={addFilter} disabled={!min && !max}>
+            Add filter
+          </Button>
+        </div>
+      </div>
+
+      {showColumns && (
+        <div className="flex flex-wrap gap-3 bg-background rounded-lg px-3 py-2">
+          {WATCHLIST_COLUMNS.map(column => (
+            <label key={column} className="flex items-center gap-1.5 cursor-pointer text-sm text-text-primary">
+              <input
+                type="checkbox"
+                checked={columns.includes(column)}
+                onChange={() => toggleColumn(column)}
+                className="rounded border-border bg-background text-bullish focus:ring-bullish"
+              />
+              {WATCHLIST_COLUMN_LABELS[column]}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {filters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {filters.map(filter => (
+            <span
+              key={filter.column}
+              className="inline-flex items-center gap-1 bg-bullish/10 text-bullish text-xs rounded-full px-2.5 py-1"
+            >
+              {describeFilter(filter)}
+              <button
+                onClick={() => onFiltersChange(filters.filter(f => f.column !== filter.column))}
+                className="hover:text-bearish"
+                title="Remove filter"
+              >
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          <button onClick={() => onFiltersChange([])} className="text-xs text-text-secondary hover:text-text-primary">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Plus } from 'lucide-react';
+import { Market } from '@/types';
+import { Modal, Button, Input } from '@/components/ui';
+import { useWatchlists, MAX_WATCHLIST_MARKETS } from '@/hooks/useWatchlists';
+import { formatMarketRef, matchesMarketRef } from '@/lib/providers/marketRef';
+
+interface WatchlistPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  market: Market;
+}
+
+/**
+ * Add a market to watchlists or take it off them
+ */
+export function WatchlistPickerModal({ isOpen, onClose, market }: WatchlistPickerModalProps) {
+  const { watchlists, createWatchlist, addMarket, removeMarket } = useWatchlists();
+  const [newName, setNewName] = useState('');
+  // Stored venue-qualified, so markets from any venue load back
+  const ref = formatMarketRef(market);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    createWatchlist(newName, [ref]);
+    setNewName('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Watchlists" size="sm">
+      <div className="space-y-4">
+        {watchlists.length > 0 ? (
+          <div className="space-y-1">
+            {watchlists.map(list => {
+              const stored = list.marketIds.find(id => matchesMarketRef(id, market));
+              const included = stored !== undefined;
+              const full = !included && list.marketIds.length >= MAX_WATCHLIST_MARKETS;
+              return (
+                <label
+                  key={list.id}
+                  className={`flex items-center justify-between gap-2 bg-background rounded-lg px-3 py-2 ${
+                    full ? 'opacity-50' : 'cursor-pointer'
+                  }`}
+                >
+                  <span className="flex items-center gap-2 text-sm text-text-primary">
+                    <input
+                      type="checkbox"
+                      checked={included}
+                      disabled={full}
+                      onChange={() => (stored !== undefined ? removeMarket(list.id, stored) : addMarket(list.id, ref))}
+                      className="rounded border-border bg-background text-bullish focus:ring-bullish"
+                    />
+                    {list.name}
+                  </span>
+                  <span className="text-xs text-text-secondary">
+                    {full ? 'Full' : `${list.marketIds.length} markets`}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-text-secondary">No watchlists yet. Name one to start it with this market.</p>
+        )}
+
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New watchlist"
+              className="text-sm"
+            />
+          </div>
+          <Button variant="primary" size="sm" onClick={handleCreate} disabled={!newName.trim()}>
+            <Plus size={14} className="mr-1" />
+            Create
+          </Button>
+        </div>
+
+        <Link href="/watchlists" className="block text-center text-xs text-bullish hover:underline">
+          Open watchlists
+        </Link>
+      </div>
+    </Modal>
+  );
+}
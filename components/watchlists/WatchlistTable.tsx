@@ -0,0 +1,104 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowUp, ArrowDown, X } from 'lucide-react';
+import { Market, WatchlistColumn, WatchlistSort } from '@/types';
+import {
+  WatchlistRow,
+  WATCHLIST_COLUMN_LABELS,
+  getColumnValue,
+  formatColumnValue,
+} from '@/lib/watchlists/columns';
+import { formatMarketRef } from '@/lib/providers/marketRef';
+
+interface WatchlistTableProps {
+  rows: WatchlistRow[];
+  columns: WatchlistColumn[];
+  sort?: WatchlistSort;
+  onSort: (sort: WatchlistSort | undefined) => void;
+  onRemove: (market: Market) => void;
+}
+
+const CHANGE_COLUMNS: WatchlistColumn[] = ['change1h', 'change24h', 'change7d'];
+
+/**
+ * Watchlist rows with one cell per chosen column
+ * Clicking a header sorts by it, descending first; a third click clears the sort.
+ */
+export function WatchlistTable({ rows, columns, sort, onSort, onRemove }: WatchlistTableProps) {
+  const now = Date.now();
+
+  const handleSort = (column: WatchlistSort['column']) => {
+    if (sort?.column !== column) {
+      onSort({ column, direction: column === 'question' ? 'asc' : 'desc' });
+    } else if (sort.direction === (column === 'question' ? 'asc' : 'desc')) {
+      onSort({ column, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSort(undefined);
+    }
+  };
+
+  const header = (column: WatchlistSort['column'], label: string, align: 'left' | 'right') => (
+    <th
+      key={column}
+      onClick={() => handleSort(column)}
+      className={`px-3 py-2 text-xs font-medium text-text-secondary uppercase cursor-pointer select-none hover:text-text-primary text-${align}`}
+    >
+      <span className={`inline-flex items-center gap-1 ${align === 'right' ? 'flex-row-reverse' : ''}`}>
+        {label}
+        {sort?.column === column && (sort.direction === 'asc' ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="border-b border-border">
+          <tr>
+            {header('question', 'Market', 'left')}
+            {columns.map(column => header(column, WATCHLIST_COLUMN_LABELS[column], 'right'))}
+            <th className="w-8" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {rows.map(row => (
+            <tr key={row.market.id} className="hover:bg-surface/50 transition-colors">
+              <td className="px-3 py-2.5 max-w-xs">
+                <Link
+                  href={`/market/${encodeURIComponent(formatMarketRef(row.market))}`}
+                  className="text-sm text-text-primary hover:text-bullish transition-colors line-clamp-1"
+                >
+                  {row.market.question}
+                </Link>
+              </td>
+              {columns.map(column => {
+                const value = getColumnValue(row, column, now);
+                const color = CHANGE_COLUMNS.includes(column) && value !== null && Math.abs(value) >= 0.001
+                  ? value > 0 ? 'text-success' : 'text-bearish'
+                  : 'text-text-primary';
+                return (
+                  <td key={column} className={`px-3 py-2.5 text-right text-sm font-mono whitespace-nowrap ${color}`}>
+                    {column === 'price' && row.livePrice !== undefined && (
+                      <span className="inline-block w-1.5 h-1.5 rounded-full bg-bullish mr-1.5 align-middle" title="Live" />
+                    )}
+                    {formatColumnValue(column, value)}
+                  </td>
+                );
+              })}
+              <td className="px-2 py-2.5">
+                <button
+                  onClick={() => onRemove(row.market)}
+                  className="text-text-secondary hover:text-bearish transition-colors p-1"
+                  title="Remove from watchlist"
+                >
+                  <X size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
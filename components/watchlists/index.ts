@@ -0,0 +1,3 @@
+export { WatchlistTable } from './WatchlistTable';
+export { WatchlistControls } from './WatchlistControls';
+export { WatchlistPickerModal } from './WatchlistPickerModal';
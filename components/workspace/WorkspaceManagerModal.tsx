@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Link2, Copy, Trash2, LogOut, X } from 'lucide-react';
+import { WorkspaceInvite, WorkspaceRole, WORKSPACE_ROLES } from '@/types';
+import { Modal, Button, Input, Badge, useToast } from '@/components/ui';
+import { useWorkspace, useAuth } from '@/context';
+import { useWorkspaceMembers } from '@/hooks';
+import { canManageWorkspace } from '@/lib/workspaces/roles';
+
+interface WorkspaceManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Create team workspaces and manage the active one's members and invite links
+ */
+export function WorkspaceManagerModal({ isOpen, onClose }: WorkspaceManagerModalProps) {
+  const { user } = useAuth();
+  const {
+    activeWorkspace,
+    createWorkspace,
+    switchWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    leaveWorkspace,
+    refresh,
+  } = useWorkspace();
+  const members = useWorkspaceMembers(isOpen ? activeWorkspace?.id ?? null : null);
+  const { showToast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [rename, setRename] = useState<string | null>(null);
+  const [inviteRole, setInviteRole] = useState<WorkspaceInvite['role']>('editor');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const isOwner = canManageWorkspace(members.role);
+
+  // Run a workspace action, reporting failures as a toast
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    if (!newName.trim()) return;
+    const workspace = await createWorkspace(newName.trim());
+    switchWorkspace(workspace.id);
+    setNewName('');
+    setInviteUrl(null);
+  });
+
+  const handleInvite = () => run(async () => {
+    const url = await members.createInvite(inviteRole);
+    setInviteUrl(url);
+    await navigator.clipboard?.writeText(url).catch(() => undefined);
+    showToast('success', 'Invite link copied');
+  });
+
+  const handleRename = () => run(async () => {
+    if (!activeWorkspace || !rename?.trim()) return;
+    await renameWorkspace(activeWorkspace.id, rename.trim());
+    setRename(null);
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Workspaces" size="md">
+      <div className="space-y-6">
+        {/* Create */}
+        <div>
+          <p className="text-xs font-medium text-text-secondary uppercase mb-2">New team workspace</p>
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="Workspace name"
+                className="text-sm"
+              />
+            </div>
+            <Button variant="primary" size="sm" onClick={handleCreate} disabled={!newName.trim()}>
+              <Plus size={14} className="mr-1" />
+              Create
+            </Button>
+          </div>
+        </div>
+
+        {!activeWorkspace ? (
+          <p className="text-sm text-text-secondary">
+            You&apos;re in your personal space. Create a workspace or open an invite link to work with a team;
+            its strategies, cluster and saved research are shared with every member.
+          </p>
+        ) : (
+          <>
+            {/* Active workspace */}
+            <div>
+              <p className="text-xs font-medium text-text-secondary uppercase mb-2">Current workspace</p>
+              {rename !== null ? (
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <Input
+                      value={rename}
+                      onChange={(e) => setRename(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setRename(null);
+                      }}
+                      autoFocus
+                      className="text-sm"
+                    />
+                  </div>
+                  <Button variant="secondary" size="sm" onClick={handleRename}>Save</Button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-medium text-text-primary truncate">{activeWorkspace.name}</span>
+                    <Badge size="sm">{activeWorkspace.role}</Badge>
+                  </div>
+                  <div className="flex gap-1">
+                    {isOwner && (
+                      <Button variant="ghost" size="sm" onClick={() => setRename(activeWorkspace.name)}>
+                        Rename
+                      </Button>
+                    )}
+                    {isOwner ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-bearish hover:bg-bearish/10"
+                        onClick={() => {
+                          if (confirm(`Delete "${activeWorkspace.name}" and everything in it for all members?`)) {
+                            run(() => deleteWorkspace(activeWorkspace.id));
+                          }
+                        }}
+                      >
+                        <Trash2 size={14} className="mr-1" />
+                        Delete
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-bearish hover:bg-bearish/10"
+                        onClick={() => run(() => leaveWorkspace(activeWorkspace.id))}
+                      >
+                        <LogOut size={14} className="mr-1" />
+                        Leave
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Members */}
+            <div>
+              <p className="text-xs font-medium text-text-secondary uppercase mb-2">
+                Members {members.workspace && `(${members.workspace.members.length})`}
+              </p>
+              {members.error && <p className="text-xs text-bearish mb-2">{members.error}</p>}
+              <div className="space-y-1">
+                {members.workspace?.members.map(member => (
+                  <div
+                    key={member.userId}
+                    className="flex items-center justify-between gap-2 bg-background rounded-lg px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-text-primary truncate">
+                        {member.name || 'Unknown member'}
+                        {member.userId === user?.id && <span className="text-text-secondary"> (you)</span>}
+                      </p>
+                      {member.email && <p className="text-xs text-text-secondary truncate">{member.email}</p>}
+                    </div>
+                    {isOwner ? (
+                      <div className="flex items-center gap-1">
+                        <select
+                          value={member.role}
+                          onChange={(e) => run(async () => {
+                            await members.setMemberRole(member.userId, e.target.value as WorkspaceRole);
+                            if (member.userId === user?.id) await refresh(); // Own role changed
+                          })}
+                          className="bg-surface border border-border rounded-lg px-2 py-1 text-xs text-text-primary"
+                        >
+                          {WORKSPACE_ROLES.map(role => (
+                            <option key={role} value={role}>{role}</option>
+                          ))}
+                        </select>
+                        {member.userId !== user?.id && (
+                          <button
+                            onClick={() => run(() => members.removeMember(member.userId))}
+                            className="text-text-secondary hover:text-bearish transition-colors p-1"
+                            title="Remove member"
+                          >
+                            <X size={14} />
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <Badge size="sm">{member.role}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Invites */}
+            {isOwner && (
+              <div>
+                <p className="text-xs font-medium text-text-secondary uppercase mb-2">Invite links</p>
+                <div className="flex gap-2">
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WorkspaceInvite['role'])}
+                    className="bg-surface border border-border rounded-lg px-2 py-1.5 text-sm text-text-primary"
+                  >
+                    <option value="editor">Editor</option>
+                    <option value="viewer">Viewer</option>
+                  </select>
+                  <Button variant="secondary" size="sm" onClick={handleInvite}>
+                    <Link2 size={14} className="mr-1" />
+                    Create link
+                  </Button>
+                </div>
+                {inviteUrl && (
+                  <div className="flex items-center gap-2 mt-2 bg-background rounded-lg px-3 py-2">
+                    <span className="flex-1 text-xs font-mono text-text-primary truncate">{inviteUrl}</span>
+                    <button
+                      onClick={() => navigator.clipboard?.writeText(inviteUrl)}
+                      className="text-text-secondary hover:text-text-primary transition-colors p-1"
+                      title="Copy link"
+                    >
+                      <Copy size={12} />
+                    </button>
+                  </div>
+                )}
+                {members.invites.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {members.invites.map(invite => (
+                      <div key={invite.id} className="flex items-center justify-between text-xs text-text-secondary">
+                        <span>
+                          {invite.role} link · expires {new Date(invite.expiresAt).toLocaleDateString()}
+                        </span>
+                        <button
+                          onClick={() => run(() => members.revokeInvite(invite.id))}
+                          className="hover:text-bearish transition-colors"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
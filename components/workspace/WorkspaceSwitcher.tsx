@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { Users, Settings2 } from 'lucide-react';
+import { Badge, Button } from '@/components/ui';
+import { useWorkspace } from '@/context';
+import { WorkspaceManagerModal } from './WorkspaceManagerModal';
+
+interface WorkspaceSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Choose between the personal space and the user's team workspaces
+ */
+export function WorkspaceSwitcher({ className = '' }: WorkspaceSwitcherProps) {
+  const { workspaces, activeWorkspace, activeWorkspaceId, switchWorkspace } = useWorkspace();
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Users size={14} className="text-text-secondary shrink-0" />
+      <select
+        value={activeWorkspaceId ?? ''}
+        onChange={(e) => switchWorkspace(e.target.value || null)}
+        className="min-w-0 bg-surface border border-border rounded-lg px-2 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-bullish/50"
+        title="Workspace"
+      >
+        <option value="">Personal</option>
+        {workspaces.map(w => (
+          <option key={w.id} value={w.id}>
+            {w.name}
+          </option>
+        ))}
+      </select>
+      {activeWorkspace && (
+        <Badge variant={activeWorkspace.role === 'viewer' ? 'default' : 'bullish'} size="sm">
+          {activeWorkspace.role}
+        </Badge>
+      )}
+      <Button variant="ghost" size="sm" onClick={() => setManagerOpen(true)} title="Manage workspaces">
+        <Settings2 size={14} />
+      </Button>
+
+      <WorkspaceManagerModal isOpen={managerOpen} onClose={() => setManagerOpen(false)} />
+    </div>
+  );
+}
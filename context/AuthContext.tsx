@@ -1,15 +1,9 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-export interface User {
-  email: string;
-  name: string;
-  provider?: string;
-  signedInAt: number;
-  interests?: string[]; // Market category IDs the user is interested in
-  profileCompleted?: boolean; // Whether user has completed profile setup
-}
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { User } from '@/types';
+
+export type { User } from '@/types';
 
 interface AuthContextType {
   user: User | null;
@@ -24,86 +18,78 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+/**
+ * POST/PATCH JSON to an auth route, throwing the server's error message on failure
+ */
+async function authRequest(url: string, method: 'POST' | 'PATCH', body?: unknown): Promise<{ user?: User }> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data;
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load user from localStorage on mount
+  // Restore the session from the cookie on mount
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = localStorage.getItem('pulseforge_user');
-        if (stored) {
-          const userData = JSON.parse(stored);
-          setUser(userData);
-        }
-      } catch (error) {
-        console.error('Error loading user:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    }
+    // Accounts used to be simulated in localStorage; that copy is no longer used
+    localStorage.removeItem('pulseforge_user');
+
+    fetch('/api/auth/me')
+      .then(response => (response.ok ? response.json() : { user: null }))
+      .then(data => setUser(data.user || null))
+      .catch(error => console.error('Error loading session:', error))
+      .finally(() => setIsLoading(false));
   }, []);
 
   const signIn = async (email: string, password: string) => {
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const userData: User = {
-      email,
-      name: email.split('@')[0],
-      signedInAt: Date.now(),
-    };
-    
-    setUser(userData);
-    localStorage.setItem('pulseforge_user', JSON.stringify(userData));
+    const data = await authRequest('/api/auth/sign-in', 'POST', { email, password });
+    setUser(data.user || null);
   };
 
   const signUp = async (name: string, email: string, password: string) => {
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const userData: User = {
-      email,
-      name,
-      signedInAt: Date.now(),
-      interests: [],
-      profileCompleted: false,
-    };
-    
-    setUser(userData);
-    localStorage.setItem('pulseforge_user', JSON.stringify(userData));
+    const data = await authRequest('/api/auth/sign-up', 'POST', { name, email, password });
+    setUser(data.user || null);
   };
 
+  // Apply locally right away, then persist; the server copy wins once it answers
+  const saveProfile = useCallback((updates: Pick<Partial<User>, 'name' | 'interests' | 'profileCompleted'>) => {
+    setUser(prev => (prev ? { ...prev, ...updates } : prev));
+    authRequest('/api/auth/me', 'PATCH', updates)
+      .then(data => data.user && setUser(data.user))
+      .catch(error => console.error('Error saving profile:', error));
+  }, []);
+
   const updateUserInterests = (interests: string[]) => {
     if (!user) return;
-    
-    const updatedUser: User = {
-      ...user,
-      interests,
-      profileCompleted: true,
-    };
-    
-    setUser(updatedUser);
-    localStorage.setItem('pulseforge_user', JSON.stringify(updatedUser));
+    saveProfile({ interests, profileCompleted: true });
   };
 
   const updateProfile = (updates: Partial<User>) => {
     if (!user) return;
-    
-    const updatedUser: User = {
-      ...user,
-      ...updates,
-    };
-    
-    setUser(updatedUser);
-    localStorage.setItem('pulseforge_user', JSON.stringify(updatedUser));
+    const { name, interests, profileCompleted } = updates;
+    saveProfile({
+      ...(name !== undefined && { name }),
+      ...(interests !== undefined && { interests }),
+      ...(profileCompleted !== undefined && { profileCompleted }),
+    });
   };
 
   const signOut = () => {
     setUser(null);
-    localStorage.removeItem('pulseforge_user');
     localStorage.removeItem('pulseforge_guest'); // Also clear guest mode
+    authRequest('/api/auth/sign-out', 'POST').catch(error =>
+      console.error('Error signing out:', error)
+    );
   };
 
   return (
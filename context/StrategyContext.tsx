@@ -1,22 +1,48 @@
 'use client';
 
-import { createContext, useContext, useReducer, ReactNode, useCallback } from 'react';
-import { Position, Market, MarketCluster, ScannerResult, ResearchDraft } from '@/types';
-import { generateId } from '@/lib/utils';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { createContext, useContext, useReducer, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Position, Market, MarketCluster, ScannerResult, ResearchDraft, Strategy, PnlSnapshot, UserDocument } from '@/types';
+import { generateId, safeJsonParse } from '@/lib/utils';
+import { useSyncedStorage, loadUserData, saveUserData } from '@/hooks/useSyncedStorage';
+import {
+  useWorkspaceDocument,
+  loadWorkspaceData,
+  saveWorkspaceData,
+  WORKSPACE_POLL_INTERVAL,
+} from '@/hooks/useWorkspaceDocument';
+import { useResolutionWatcher } from '@/hooks/useResolutionWatcher';
+import { formatMarketRef, matchesMarketRef } from '@/lib/providers/marketRef';
+import { useToast } from '@/components/ui/Toast';
+import { createPosition, getPositionOutcomeIndex } from '@/lib/math/payoff';
+import { createRealizedTrade, appendPnlSnapshot, settleStrategyMarket } from '@/lib/math/pnl';
+import { useAuth } from './AuthContext';
+import { useWorkspace } from './WorkspaceContext';
 
 interface StrategyState {
-  positions: Position[];
+  strategies: Strategy[];
+  activeStrategyId: string | null;
   clusterMarkets: Market[];
   scannerResult: ScannerResult | null;
-  discountRate: number;
 }
 
+// Strategy settings the builder edits alongside positions
+type StrategySettings = Partial<Pick<Strategy, 'discountRate' | 'costModel' | 'correlations'>>;
+
 type StrategyAction =
+  | { type: 'LOAD_STRATEGIES'; payload: StrategiesDocument }
+  | { type: 'CREATE_STRATEGY'; payload: Strategy }
+  | { type: 'RENAME_STRATEGY'; payload: { id: string; name: string } }
+  | { type: 'DUPLICATE_STRATEGY'; payload: { sourceId: string; id: string } }
+  | { type: 'ARCHIVE_STRATEGY'; payload: { id: string; archivedAt?: number } }
+  | { type: 'SWITCH_STRATEGY'; payload: string }
+  | { type: 'UPDATE_STRATEGY_SETTINGS'; payload: StrategySettings }
   | { type: 'ADD_POSITION'; payload: Position }
   | { type: 'REMOVE_POSITION'; payload: string }
   | { type: 'UPDATE_POSITION'; payload: { id: string; updates: Partial<Position> } }
   | { type: 'CLEAR_POSITIONS' }
+  | { type: 'CLOSE_POSITION'; payload: { id: string; exitPrice: number; tradeId: string; closedAt: number } }
+  | { type: 'RECORD_PNL_SNAPSHOT'; payload: { strategyId: string; snapshot: PnlSnapshot } }
+  | { type: 'SETTLE_MARKET'; payload: { marketId: string; outcome: string; settledAt: number } }
   | { type: 'ADD_TO_CLUSTER'; payload: Market }
   | { type: 'REMOVE_FROM_CLUSTER'; payload: string }
   | { type: 'CLEAR_CLUSTER' }
@@ -24,40 +50,196 @@ type StrategyAction =
   | { type: 'SET_DISCOUNT_RATE'; payload: number };
 
 const initialState: StrategyState = {
-  positions: [],
+  strategies: [],
+  activeStrategyId: null,
   clusterMarkets: [],
   scannerResult: null,
-  discountRate: 0.10,
 };
 
+const DEFAULT_DISCOUNT_RATE = 0.10;
+
+const MAX_CLUSTER_MARKETS = 10;
+
+// Strategy changes are pushed to the server after this much quiet time
+const STRATEGIES_SYNC_DEBOUNCE = 2000;
+
+// Saved strategies as stored locally and on the server
+interface StrategiesDocument {
+  strategies: Strategy[];
+  activeStrategyId: string | null;
+}
+
+function newStrategy(name: string, positions: Position[] = []): Strategy {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    name,
+    positions,
+    createdAt: now,
+    updatedAt: now,
+    discountRate: DEFAULT_DISCOUNT_RATE,
+  };
+}
+
+// Apply an update to the active strategy, bumping its updatedAt
+function updateActive(state: StrategyState, update: (strategy: Strategy) => Strategy): StrategyState {
+  if (!state.activeStrategyId) return state;
+  return {
+    ...state,
+    strategies: state.strategies.map(s =>
+      s.id === state.activeStrategyId ? { ...update(s), updatedAt: Date.now() } : s
+    ),
+  };
+}
+
+// Cluster edits, shared by local state and a team workspace's cluster
+function clusterReducer(markets: Market[], action: StrategyAction): Market[] {
+  switch (action.type) {
+    case 'ADD_TO_CLUSTER':
+      if (markets.length >= MAX_CLUSTER_MARKETS) return markets;
+      if (markets.some(m => m.id === action.payload.id)) return markets;
+      return [...markets, action.payload];
+
+    case 'REMOVE_FROM_CLUSTER':
+      return markets.filter(m => m.id !== action.payload);
+
+    case 'CLEAR_CLUSTER':
+      return [];
+
+    default:
+      return markets;
+  }
+}
+
 function strategyReducer(state: StrategyState, action: StrategyAction): StrategyState {
   switch (action.type) {
+    case 'LOAD_STRATEGIES':
+      return { ...state, ...action.payload };
+
+    case 'CREATE_STRATEGY':
+      return {
+        ...state,
+        strategies: [...state.strategies, action.payload],
+        activeStrategyId: action.payload.id,
+      };
+
+    case 'RENAME_STRATEGY':
+      return {
+        ...state,
+        strategies: state.strategies.map(s =>
+          s.id === action.payload.id ? { ...s, name: action.payload.name, updatedAt: Date.now() } : s
+        ),
+      };
+
+    case 'DUPLICATE_STRATEGY': {
+      const source = state.strategies.find(s => s.id === action.payload.sourceId);
+      if (!source) return state;
+      const now = Date.now();
+      const copy: Strategy = {
+        ...source,
+        id: action.payload.id,
+        name: `${source.name} (copy)`,
+        positions: source.positions.map(p => ({ ...p, id: `${action.payload.id}-${p.id}` })),
+        createdAt: now,
+        updatedAt: now,
+        archivedAt: undefined,
+      };
+      return { ...state, strategies: [...state.strategies, copy], activeStrategyId: copy.id };
+    }
+
+    case 'ARCHIVE_STRATEGY': {
+      const { id, archivedAt } = action.payload;
+      const strategies = state.strategies.map(s => (s.id === id ? { ...s, archivedAt } : s));
+      // Archiving the active strategy falls back to the most recently edited open one
+      const activeStrategyId = archivedAt && state.activeStrategyId === id
+        ? strategies
+            .filter(s => !s.archivedAt)
+            .sort((a, b) => b.updatedAt - a.updatedAt)[0]?.id ?? null
+        : state.activeStrategyId;
+      return { ...state, strategies, activeStrategyId };
+    }
+
+    case 'SWITCH_STRATEGY':
+      if (!state.strategies.some(s => s.id === action.payload)) return state;
+      return { ...state, activeStrategyId: action.payload };
+
+    case 'UPDATE_STRATEGY_SETTINGS':
+      return updateActive(state, s => ({ ...s, ...action.payload }));
+
     case 'ADD_POSITION':
-      if (state.positions.length >= 5) return state;
-      if (state.positions.some(p => p.market.id === action.payload.market.id)) return state;
-      return { ...state, positions: [...state.positions, action.payload] };
+      // One position per outcome; other outcomes of the same market can be added
+      return updateActive(state, s =>
+        s.positions.some(p =>
+          p.market.id === action.payload.market.id &&
+          getPositionOutcomeIndex(p) === getPositionOutcomeIndex(action.payload)
+        )
+          ? s
+          : { ...s, positions: [...s.positions, action.payload] }
+      );
     
     case 'REMOVE_POSITION':
-      return { ...state, positions: state.positions.filter(p => p.id !== action.payload) };
+      return updateActive(state, s => ({
+        ...s,
+        positions: s.positions.filter(p => p.id !== action.payload),
+      }));
     
     case 'UPDATE_POSITION':
-      return {
-        ...state,
-        positions: state.positions.map(p =>
+      return updateActive(state, s => ({
+        ...s,
+        positions: s.positions.map(p =>
           p.id === action.payload.id ? { ...p, ...action.payload.updates } : p
         ),
-      };
+      }));
     
     case 'CLEAR_POSITIONS':
-      return { ...state, positions: [] };
+      return updateActive(state, s => ({ ...s, positions: [] }));
     
-    case 'ADD_TO_CLUSTER':
-      if (state.clusterMarkets.length >= 10) return state;
-      if (state.clusterMarkets.some(m => m.id === action.payload.id)) return state;
-      return { ...state, clusterMarkets: [...state.clusterMarkets, action.payload] };
+    case 'CLOSE_POSITION':
+      return updateActive(state, s => {
+        const position = s.positions.find(p => p.id === action.payload.id);
+        if (!position) return s;
+        const { exitPrice, tradeId, closedAt } = action.payload;
+        return {
+          ...s,
+          positions: s.positions.filter(p => p.id !== position.id),
+          realizedTrades: [
+            ...(s.realizedTrades || []),
+            createRealizedTrade(position, exitPrice, s.costModel, tradeId, closedAt),
+          ],
+        };
+      });
+
+    // Snapshots aren't edits, so updatedAt is left alone
+    case 'RECORD_PNL_SNAPSHOT': {
+      const { strategyId, snapshot } = action.payload;
+      const target = state.strategies.find(s => s.id === strategyId);
+      if (!target) return state;
+      const history = target.pnlHistory || [];
+      const pnlHistory = appendPnlSnapshot(history, snapshot);
+      if (pnlHistory === history) return state;
+      return {
+        ...state,
+        strategies: state.strategies.map(s => (s.id === strategyId ? { ...s, pnlHistory } : s)),
+      };
+    }
     
-    case 'REMOVE_FROM_CLUSTER':
-      return { ...state, clusterMarkets: state.clusterMarkets.filter(m => m.id !== action.payload) };
+    // Settles every saved strategy, archived ones included
+    case 'SETTLE_MARKET': {
+      const { marketId, outcome, settledAt } = action.payload;
+      let changed = false;
+      const strategies = state.strategies.map(s => {
+        const settled = settleStrategyMarket(s, marketId, outcome, settledAt);
+        if (settled !== s) changed = true;
+        return settled;
+      });
+      return changed ? { ...state, strategies } : state;
+    }
+    
+    case 'ADD_TO_CLUSTER':
+    case 'REMOVE_FROM_CLUSTER': {
+      const clusterMarkets = clusterReducer(state.clusterMarkets, action);
+      return clusterMarkets === state.clusterMarkets ? state : { ...state, clusterMarkets };
+    }
     
     case 'CLEAR_CLUSTER':
       return { ...state, clusterMarkets: [], scannerResult: null };
@@ -66,7 +248,7 @@ function strategyReducer(state: StrategyState, action: StrategyAction): Strategy
       return { ...state, scannerResult: action.payload };
     
     case 'SET_DISCOUNT_RATE':
-      return { ...state, discountRate: action.payload };
+      return updateActive(state, s => ({ ...s, discountRate: action.payload }));
     
     default:
       return state;
@@ -75,10 +257,23 @@ function strategyReducer(state: StrategyState, action: StrategyAction): Strategy
 
 interface StrategyContextType {
   state: StrategyState;
-  addPosition: (market: Market, side: 'YES' | 'NO', stake: number) => void;
+  // Strategy workspace, persisted per user or shared by a team workspace
+  strategies: Strategy[];
+  activeStrategy: Strategy | null;
+  createStrategy: (name?: string, positions?: Position[]) => void;
+  renameStrategy: (id: string, name: string) => void;
+  duplicateStrategy: (id: string) => void;
+  archiveStrategy: (id: string) => void;
+  restoreStrategy: (id: string) => void;
+  switchStrategy: (id: string) => void;
+  updateStrategySettings: (settings: StrategySettings) => void;
+  // Positions of the active strategy
+  addPosition: (market: Market, outcomeIndex: number, stake: number) => void;
   removePosition: (id: string) => void;
   updatePosition: (id: string, updates: Partial<Position>) => void;
   clearPositions: () => void;
+  closePosition: (id: string, exitPrice: number) => void;
+  recordPnlSnapshot: (strategyId: string, snapshot: PnlSnapshot) => void;
   addToCluster: (market: Market) => void;
   removeFromCluster: (marketId: string) => void;
   clearCluster: () => void;
@@ -94,57 +289,242 @@ const StrategyContext = createContext<StrategyContextType | null>(null);
 
 export function StrategyProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(strategyReducer, initialState);
-  const [drafts, setDrafts] = useLocalStorage<ResearchDraft[]>('pulseforge-drafts', []);
+  const [drafts, setDrafts] = useSyncedStorage<ResearchDraft[]>('pulseforge-drafts', 'drafts', []);
+  const { user } = useAuth();
 
-  const addPosition = useCallback((market: Market, side: 'YES' | 'NO', stake: number) => {
-    const entryPrice = side === 'YES'
-      ? market.outcomes[0]?.price || 0.5
-      : market.outcomes[1]?.price || 0.5;
-    
-    dispatch({
-      type: 'ADD_POSITION',
-      payload: {
-        id: generateId(),
-        market,
-        side,
-        stake,
-        entryPrice,
-        addedAt: Date.now(),
-      },
+  // Each user (or the guest session) keeps separate strategies, and each
+  // team workspace shares one set between its members
+  const { activeWorkspaceId, canEdit } = useWorkspace();
+  const userId = user?.id;
+  const scope = activeWorkspaceId ? `workspace-${activeWorkspaceId}` : user?.email ?? 'guest';
+  const storageKey = `pulseforge-strategies-${scope}`;
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const syncedRef = useRef<string | null>(null); // Last strategies JSON the server has
+  const pendingRef = useRef(false); // A local change is waiting to be pushed
+  const canEditRef = useRef(canEdit);
+  canEditRef.current = canEdit;
+  const activeStrategyIdRef = useRef(state.activeStrategyId);
+  activeStrategyIdRef.current = state.activeStrategyId;
+
+  const loadRemote = useCallback((): Promise<UserDocument<StrategiesDocument> | null> => {
+    if (activeWorkspaceId) return loadWorkspaceData<StrategiesDocument>(activeWorkspaceId, 'strategies');
+    return userId ? loadUserData<StrategiesDocument>('strategies') : Promise.resolve(null);
+  }, [activeWorkspaceId, userId]);
+
+  const saveRemote = useCallback((value: StrategiesDocument) => {
+    if (activeWorkspaceId) return saveWorkspaceData(activeWorkspaceId, 'strategies', value);
+    return saveUserData('strategies', value);
+  }, [activeWorkspaceId]);
+
+  const hasRemote = !!activeWorkspaceId || !!userId;
+
+  // Load strategies whenever the signed-in user or team workspace changes
+  useEffect(() => {
+    const stored = safeJsonParse<StrategiesDocument>(
+      localStorage.getItem(storageKey) || '',
+      { strategies: [], activeStrategyId: null }
+    );
+
+    if (!Array.isArray(stored.strategies) || stored.strategies.length === 0) {
+      const first = newStrategy(activeWorkspaceId ? 'Team Strategy' : 'My Strategy');
+      stored.strategies = [first];
+      stored.activeStrategyId = first.id;
+    }
+
+    pendingRef.current = false;
+    dispatch({ type: 'LOAD_STRATEGIES', payload: stored });
+    setLoadedKey(storageKey);
+
+    // The server copy wins; if it has nothing yet, the local one is uploaded
+    let cancelled = false;
+    if (hasRemote) {
+      syncedRef.current = JSON.stringify(stored); // Don't push the local copy before the server answers
+      loadRemote().then(document => {
+        if (cancelled) return;
+        if (document && document.value.strategies.length > 0) {
+          syncedRef.current = JSON.stringify(document.value);
+          dispatch({ type: 'LOAD_STRATEGIES', payload: document.value });
+        } else if (canEditRef.current) {
+          saveRemote(stored);
+        }
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, activeWorkspaceId, hasRemote, loadRemote, saveRemote]);
+
+  // Pick up teammates' edits, keeping this member's own active strategy
+  useEffect(() => {
+    if (!activeWorkspaceId) return;
+    const interval = setInterval(async () => {
+      if (pendingRef.current) return;
+      const document = await loadWorkspaceData<StrategiesDocument>(activeWorkspaceId, 'strategies');
+      const json = document && JSON.stringify(document.value);
+      if (!document || pendingRef.current || json === syncedRef.current) return;
+
+      syncedRef.current = json;
+      const { strategies } = document.value;
+      const current = activeStrategyIdRef.current;
+      dispatch({
+        type: 'LOAD_STRATEGIES',
+        payload: {
+          strategies,
+          activeStrategyId: strategies.some(s => s.id === current) ? current : document.value.activeStrategyId,
+        },
+      });
+    }, WORKSPACE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [activeWorkspaceId]);
+
+  // Persist after load, never writing one scope's strategies under another's key
+  useEffect(() => {
+    if (loadedKey !== storageKey) return;
+    const document: StrategiesDocument = {
+      strategies: state.strategies,
+      activeStrategyId: state.activeStrategyId,
+    };
+    const json = JSON.stringify(document);
+
+    try {
+      localStorage.setItem(storageKey, json);
+    } catch (error) {
+      console.error('[Strategies] Failed to save:', error);
+    }
+
+    if (!hasRemote || !canEdit || json === syncedRef.current) {
+      pendingRef.current = false;
+      return;
+    }
+    pendingRef.current = true;
+    const timeout = setTimeout(async () => {
+      syncedRef.current = json;
+      await saveRemote(document);
+      if (syncedRef.current === json) pendingRef.current = false;
+    }, STRATEGIES_SYNC_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [state.strategies, state.activeStrategyId, loadedKey, storageKey, hasRemote, canEdit, saveRemote]);
+
+  // A team workspace shares one cluster; the personal one lives only in this session
+  const [sharedCluster, setSharedCluster] = useWorkspaceDocument<Market[]>(activeWorkspaceId, 'clusters', []);
+  const clusterMarkets = activeWorkspaceId ? sharedCluster : state.clusterMarkets;
+
+  // Viewers can look but not change strategies or clusters
+  const editDispatch = useCallback((action: StrategyAction) => {
+    if (canEdit) dispatch(action);
+  }, [canEdit]);
+
+  const clusterDispatch = useCallback((action: StrategyAction) => {
+    if (!activeWorkspaceId) {
+      dispatch(action);
+    } else if (canEdit) {
+      setSharedCluster(prev => clusterReducer(Array.isArray(prev) ? prev : [], action));
+      if (action.type === 'CLEAR_CLUSTER') dispatch(action);
+    }
+  }, [activeWorkspaceId, canEdit, setSharedCluster]);
+
+  // Settle positions as soon as their markets resolve
+  const { showToast } = useToast();
+  const heldMarketIds = useMemo(
+    () => state.strategies.flatMap(s => s.positions.map(p => formatMarketRef(p.market))),
+    [state.strategies]
+  );
+  const strategiesRef = useRef(state.strategies);
+  strategiesRef.current = state.strategies;
+
+  useResolutionWatcher(heldMarketIds, (marketRef, outcome) => {
+    const held = strategiesRef.current
+      .flatMap(s => s.positions)
+      .find(p => matchesMarketRef(marketRef, p.market));
+    if (!held || !canEditRef.current) return;
+
+    dispatch({ type: 'SETTLE_MARKET', payload: { marketId: held.market.id, outcome, settledAt: Date.now() } });
+    showToast('info', `"${held.market.question}" resolved ${outcome}. Positions settled.`);
+  });
+
+  const activeStrategy = state.strategies.find(s => s.id === state.activeStrategyId) || null;
+
+  const createStrategy = useCallback((name?: string, positions: Position[] = []) => {
+    editDispatch({
+      type: 'CREATE_STRATEGY',
+      payload: newStrategy(name || `Strategy ${state.strategies.length + 1}`, positions),
     });
+  }, [state.strategies.length, editDispatch]);
+
+  const renameStrategy = useCallback((id: string, name: string) => {
+    editDispatch({ type: 'RENAME_STRATEGY', payload: { id, name } });
+  }, [editDispatch]);
+
+  const duplicateStrategy = useCallback((id: string) => {
+    editDispatch({ type: 'DUPLICATE_STRATEGY', payload: { sourceId: id, id: generateId() } });
+  }, [editDispatch]);
+
+  const archiveStrategy = useCallback((id: string) => {
+    editDispatch({ type: 'ARCHIVE_STRATEGY', payload: { id, archivedAt: Date.now() } });
+  }, [editDispatch]);
+
+  const restoreStrategy = useCallback((id: string) => {
+    editDispatch({ type: 'ARCHIVE_STRATEGY', payload: { id } });
+  }, [editDispatch]);
+
+  const switchStrategy = useCallback((id: string) => {
+    dispatch({ type: 'SWITCH_STRATEGY', payload: id });
   }, []);
 
+  const updateStrategySettings = useCallback((settings: StrategySettings) => {
+    editDispatch({ type: 'UPDATE_STRATEGY_SETTINGS', payload: settings });
+  }, [editDispatch]);
+
+  const addPosition = useCallback((market: Market, outcomeIndex: number, stake: number) => {
+    editDispatch({
+      type: 'ADD_POSITION',
+      payload: createPosition(market, outcomeIndex, stake),
+    });
+  }, [editDispatch]);
+
   const removePosition = useCallback((id: string) => {
-    dispatch({ type: 'REMOVE_POSITION', payload: id });
-  }, []);
+    editDispatch({ type: 'REMOVE_POSITION', payload: id });
+  }, [editDispatch]);
 
   const updatePosition = useCallback((id: string, updates: Partial<Position>) => {
-    dispatch({ type: 'UPDATE_POSITION', payload: { id, updates } });
-  }, []);
+    editDispatch({ type: 'UPDATE_POSITION', payload: { id, updates } });
+  }, [editDispatch]);
 
   const clearPositions = useCallback(() => {
-    dispatch({ type: 'CLEAR_POSITIONS' });
-  }, []);
+    editDispatch({ type: 'CLEAR_POSITIONS' });
+  }, [editDispatch]);
+
+  const closePosition = useCallback((id: string, exitPrice: number) => {
+    editDispatch({
+      type: 'CLOSE_POSITION',
+      payload: { id, exitPrice, tradeId: generateId(), closedAt: Date.now() },
+    });
+  }, [editDispatch]);
+
+  const recordPnlSnapshot = useCallback((strategyId: string, snapshot: PnlSnapshot) => {
+    editDispatch({ type: 'RECORD_PNL_SNAPSHOT', payload: { strategyId, snapshot } });
+  }, [editDispatch]);
 
   const addToCluster = useCallback((market: Market) => {
-    dispatch({ type: 'ADD_TO_CLUSTER', payload: market });
-  }, []);
+    clusterDispatch({ type: 'ADD_TO_CLUSTER', payload: market });
+  }, [clusterDispatch]);
 
   const removeFromCluster = useCallback((marketId: string) => {
-    dispatch({ type: 'REMOVE_FROM_CLUSTER', payload: marketId });
-  }, []);
+    clusterDispatch({ type: 'REMOVE_FROM_CLUSTER', payload: marketId });
+  }, [clusterDispatch]);
 
   const clearCluster = useCallback(() => {
-    dispatch({ type: 'CLEAR_CLUSTER' });
-  }, []);
+    clusterDispatch({ type: 'CLEAR_CLUSTER' });
+  }, [clusterDispatch]);
 
   const setScannerResult = useCallback((result: ScannerResult | null) => {
     dispatch({ type: 'SET_SCANNER_RESULT', payload: result });
   }, []);
 
   const setDiscountRate = useCallback((rate: number) => {
-    dispatch({ type: 'SET_DISCOUNT_RATE', payload: rate });
-  }, []);
+    editDispatch({ type: 'SET_DISCOUNT_RATE', payload: rate });
+  }, [editDispatch]);
 
   const saveDraft = useCallback((draft: Omit<ResearchDraft, 'id' | 'createdAt' | 'updatedAt'>) => {
     const now = Date.now();
@@ -164,11 +544,22 @@ export function StrategyProvider({ children }: { children: ReactNode }) {
   return (
     <StrategyContext.Provider
       value={{
-        state,
+        state: { ...state, clusterMarkets },
+        strategies: state.strategies,
+        activeStrategy,
+        createStrategy,
+        renameStrategy,
+        duplicateStrategy,
+        archiveStrategy,
+        restoreStrategy,
+        switchStrategy,
+        updateStrategySettings,
         addPosition,
         removePosition,
         updatePosition,
         clearPositions,
+        closePosition,
+        recordPnlSnapshot,
         addToCluster,
         removeFromCluster,
         clearCluster,
@@ -0,0 +1,155 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { WorkspaceSummary } from '@/types';
+import { canEditWorkspace } from '@/lib/workspaces/roles';
+import { useAuth } from './AuthContext';
+
+interface WorkspaceContextType {
+  workspaces: WorkspaceSummary[];
+  // null while working in the personal space
+  activeWorkspace: WorkspaceSummary | null;
+  activeWorkspaceId: string | null;
+  // Whether shared data may be changed; always true in the personal space
+  canEdit: boolean;
+  isLoading: boolean;
+  switchWorkspace: (id: string | null) => void;
+  createWorkspace: (name: string) => Promise<WorkspaceSummary>;
+  renameWorkspace: (id: string, name: string) => Promise<void>;
+  deleteWorkspace: (id: string) => Promise<void>;
+  leaveWorkspace: (id: string) => Promise<void>;
+  acceptInvite: (token: string) => Promise<WorkspaceSummary>;
+  refresh: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+/**
+ * Call a workspace route, throwing the server's error message on failure
+ */
+export async function workspaceRequest<T = Record<string, unknown>>(
+  url: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE' = 'GET',
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const storageKey = `pulseforge-workspace-${user?.email ?? 'guest'}`;
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const data = await workspaceRequest<{ workspaces: WorkspaceSummary[] }>('/api/workspaces');
+      setWorkspaces(data.workspaces);
+      // Fall back to the personal space after leaving or losing access
+      setActiveWorkspaceId(prev => (prev && data.workspaces.some(w => w.id === prev) ? prev : null));
+    } catch (error) {
+      console.error('Error loading workspaces:', error);
+    }
+  }, [userId]);
+
+  // Restore the last workspace right away so shared data starts loading,
+  // then confirm it against the server's list
+  useEffect(() => {
+    setWorkspaces([]);
+    if (!userId) {
+      setActiveWorkspaceId(null);
+      return;
+    }
+
+    setActiveWorkspaceId(localStorage.getItem(storageKey));
+    setIsLoading(true);
+    refresh().finally(() => setIsLoading(false));
+  }, [userId, storageKey, refresh]);
+
+  const switchWorkspace = useCallback((id: string | null) => {
+    setActiveWorkspaceId(id);
+    if (id) {
+      localStorage.setItem(storageKey, id);
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  }, [storageKey]);
+
+  const createWorkspace = useCallback(async (name: string) => {
+    const data = await workspaceRequest<{ workspace: WorkspaceSummary }>('/api/workspaces', 'POST', { name });
+    setWorkspaces(prev => [...prev, data.workspace]);
+    return data.workspace;
+  }, []);
+
+  const renameWorkspace = useCallback(async (id: string, name: string) => {
+    await workspaceRequest(`/api/workspaces/${id}`, 'PATCH', { name });
+    setWorkspaces(prev => prev.map(w => (w.id === id ? { ...w, name } : w)));
+  }, []);
+
+  const removeLocally = useCallback((id: string) => {
+    setWorkspaces(prev => prev.filter(w => w.id !== id));
+    if (activeWorkspaceId === id) switchWorkspace(null);
+  }, [activeWorkspaceId, switchWorkspace]);
+
+  const deleteWorkspace = useCallback(async (id: string) => {
+    await workspaceRequest(`/api/workspaces/${id}`, 'DELETE');
+    removeLocally(id);
+  }, [removeLocally]);
+
+  const leaveWorkspace = useCallback(async (id: string) => {
+    if (!userId) return;
+    await workspaceRequest(`/api/workspaces/${id}/members/${userId}`, 'DELETE');
+    removeLocally(id);
+  }, [userId, removeLocally]);
+
+  const acceptInvite = useCallback(async (token: string) => {
+    const data = await workspaceRequest<{ workspace: WorkspaceSummary }>(`/api/invites/${token}`, 'POST');
+    setWorkspaces(prev => [...prev.filter(w => w.id !== data.workspace.id), data.workspace]);
+    return data.workspace;
+  }, []);
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) || null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        activeWorkspace,
+        activeWorkspaceId,
+        // Read-only until the role is known
+        canEdit: !activeWorkspaceId || canEditWorkspace(activeWorkspace?.role ?? null),
+        isLoading,
+        switchWorkspace,
+        createWorkspace,
+        renameWorkspace,
+        deleteWorkspace,
+        leaveWorkspace,
+        acceptInvite,
+        refresh,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+}
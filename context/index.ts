@@ -1,3 +1,4 @@
 export { StrategyProvider, useStrategy } from './StrategyContext';
 export { ThemeProvider, useTheme } from './ThemeContext';
-export { AuthProvider, useAuth } from './AuthContext';
\ No newline at end of file
+export { AuthProvider, useAuth } from './AuthContext';
+export { WorkspaceProvider, useWorkspace } from './WorkspaceContext';
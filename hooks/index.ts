@@ -1,8 +1,26 @@
 export { useMarkets } from './useMarkets';
 export { useMarketDetail } from './useMarketDetail';
+export { useMarketCandles } from './useMarketCandles';
+export { useMarketTrades } from './useMarketTrades';
+export { useEvent } from './useEvent';
+export { useScannerDiscovery } from './useScannerDiscovery';
+export { useCrossVenueComparison } from './useCrossVenueComparison';
+export { useOrderbooks } from './useOrderbooks';
+export { useOrderbookDepth } from './useOrderbookDepth';
+export { useExitPrices } from './useExitPrices';
+export { useResolutionWatcher } from './useResolutionWatcher';
 export { useLocalStorage } from './useLocalStorage';
+export { useSyncedStorage, loadUserData, saveUserData, getUserStorageKey } from './useSyncedStorage';
+export { useWorkspaceDocument, loadWorkspaceData, saveWorkspaceData } from './useWorkspaceDocument';
+export { useWorkspaceMembers } from './useWorkspaceMembers';
 export { useSavedResearch } from './useSavedResearch';
+export { useAlerts } from './useAlerts';
+export { useAlertEvents } from './useAlertEvents';
+export { useWatchedClusters } from './useWatchedClusters';
+export { useWatchlists } from './useWatchlists';
+export { useWatchlistMarkets } from './useWatchlistMarkets';
 export { useLivePrice, useLiveOrderbook, useWebSocketStatus } from './useWebSocket';
 export { useLivePrices, useMarketLivePrice } from './useLivePrices';
 export { useMarketNews } from './useMarketNews';
-export type { SavedResearch } from './useSavedResearch';
\ No newline at end of file
+export type { SavedResearch } from './useSavedResearch';
+export type { NewAlertRule } from './useAlerts';
\ No newline at end of file
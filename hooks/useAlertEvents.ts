@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AlertEvent } from '@/types';
+import { workspaceRequest } from '@/context/WorkspaceContext';
+import { useAuth } from '@/context';
+
+// How often the history is polled for newly fired alerts
+export const ALERT_POLL_INTERVAL = 30 * 1000;
+
+interface UseAlertEventsOptions {
+  // Called with alerts fired since the last poll, oldest first
+  onNewEvents?: (events: AlertEvent[]) => void;
+}
+
+interface UseAlertEventsReturn {
+  events: AlertEvent[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  clearHistory: () => Promise<void>;
+}
+
+/**
+ * The signed-in user's alert history, polled for new firings
+ * The last alert seen is remembered per account so alerts that fired while
+ * the app was closed are reported once on the next visit.
+ */
+export function useAlertEvents({ onNewEvents }: UseAlertEventsOptions = {}): UseAlertEventsReturn {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const seenKey = `pulseforge-alerts-seen-${userId ?? 'guest'}`;
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onNewEventsRef = useRef(onNewEvents);
+  onNewEventsRef.current = onNewEvents;
+
+  const fetchEvents = useCallback(async () => {
+    if (!userId) {
+      setEvents([]);
+      return;
+    }
+
+    try {
+      setError(null);
+      const data = await workspaceRequest<{ events: AlertEvent[] }>('/api/alerts/events');
+      setEvents(data.events);
+
+      // Only the subscriber tracks what was seen, so a plain history view
+      // doesn't swallow alerts before they are announced
+      if (!onNewEventsRef.current) return;
+      const stored = localStorage.getItem(seenKey);
+      // A browser that never saw alerts starts here rather than replaying history
+      if (stored === null) {
+        localStorage.setItem(seenKey, String(data.events[0]?.triggeredAt ?? 0));
+        return;
+      }
+
+      const fresh = data.events.filter(e => e.triggeredAt > Number(stored));
+      if (fresh.length > 0) {
+        localStorage.setItem(seenKey, String(fresh[0].triggeredAt));
+        onNewEventsRef.current([...fresh].reverse());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alert history');
+    }
+  }, [userId, seenKey]);
+
+  useEffect(() => {
+    if (!userId) {
+      setEvents([]);
+      return;
+    }
+
+    setLoading(true);
+    fetchEvents().finally(() => setLoading(false));
+    const interval = setInterval(fetchEvents, ALERT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [userId, fetchEvents]);
+
+  const clearHistory = useCallback(async () => {
+    await workspaceRequest('/api/alerts/events', 'DELETE');
+    setEvents([]);
+  }, []);
+
+  return {
+    events,
+    loading,
+    error,
+    refetch: fetchEvents,
+    clearHistory,
+  };
+}
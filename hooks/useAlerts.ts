@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AlertRule, AlertCondition, Market } from '@/types';
+import { workspaceRequest } from '@/context/WorkspaceContext';
+import { useAuth } from '@/context';
+import { matchesMarketRef } from '@/lib/providers/marketRef';
+
+export interface NewAlertRule {
+  marketId: string;
+  marketQuestion: string;
+  outcomeNames?: string[];
+  condition: AlertCondition;
+  cooldownMinutes?: number;
+}
+
+interface UseAlertsReturn {
+  rules: AlertRule[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  createRule: (input: NewAlertRule) => Promise<AlertRule>;
+  updateRule: (id: string, updates: Partial<Pick<AlertRule, 'enabled' | 'cooldownMinutes' | 'condition'>>) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+}
+
+/**
+ * The signed-in user's alert rules, optionally only those on one market
+ */
+export function useAlerts(market?: Pick<Market, 'id' | 'venue'>): UseAlertsReturn {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    if (!userId) {
+      setRules([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await workspaceRequest<{ rules: AlertRule[] }>('/api/alerts');
+      setRules(data.rules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const createRule = useCallback(async (input: NewAlertRule) => {
+    const data = await workspaceRequest<{ rule: AlertRule }>('/api/alerts', 'POST', input);
+    setRules(prev => [...prev, data.rule]);
+    return data.rule;
+  }, []);
+
+  const updateRule = useCallback(async (
+    id: string,
+    updates: Partial<Pick<AlertRule, 'enabled' | 'cooldownMinutes' | 'condition'>>
+  ) => {
+    const data = await workspaceRequest<{ rule: AlertRule }>(`/api/alerts/${id}`, 'PATCH', updates);
+    setRules(prev => prev.map(r => (r.id === id ? data.rule : r)));
+  }, []);
+
+  const deleteRule = useCallback(async (id: string) => {
+    await workspaceRequest(`/api/alerts/${id}`, 'DELETE');
+    setRules(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  return {
+    rules: market ? rules.filter(r => matchesMarketRef(r.marketId, market)) : rules,
+    loading,
+    error,
+    refetch: fetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CrossVenueResult, Venue } from '@/types';
+
+interface UseCrossVenueComparisonOptions {
+  enabled?: boolean;
+  limit?: number;
+  minGap?: number;
+  fees?: Partial<Record<Venue, number>>; // Fee overrides in bps; the server's defaults otherwise
+}
+
+interface UseCrossVenueComparisonReturn {
+  result: CrossVenueResult | null;
+  loading: boolean;
+  error: string | null;
+  refetch: (forceRefresh?: boolean) => void;
+}
+
+export function useCrossVenueComparison(
+  options: UseCrossVenueComparisonOptions = {}
+): UseCrossVenueComparisonReturn {
+  const { enabled = true, limit = 25, minGap = 0, fees } = options;
+  // As a string, so a new object holding the same fees doesn't refetch
+  const feesParam = Object.entries(fees ?? {})
+    .filter(([, bps]) => bps !== undefined)
+    .map(([venue, bps]) => `${venue}:${bps}`)
+    .join(',');
+  const [result, setResult] = useState<CrossVenueResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchComparison = useCallback(async (forceRefresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        limit: String(limit),
+        minGap: String(minGap),
+      });
+      if (feesParam) params.set('fees', feesParam);
+      if (forceRefresh) params.set('refresh', 'true');
+
+      const response = await fetch(`/api/markets/compare?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to compare venues');
+      }
+
+      const data: CrossVenueResult = await response.json();
+      setResult(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[useCrossVenueComparison] Error:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [limit, minGap, feesParam]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchComparison();
+    }
+  }, [enabled, fetchComparison]);
+
+  return {
+    result,
+    loading,
+    error,
+    refetch: fetchComparison,
+  };
+}
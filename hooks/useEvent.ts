@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { MarketEvent } from '@/types';
+
+interface UseEventReturn {
+  event: MarketEvent | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+export function useEvent(eventSlug: string | null): UseEventReturn {
+  const [event, setEvent] = useState<MarketEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvent = useCallback(async () => {
+    if (!eventSlug) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/events/${encodeURIComponent(eventSlug)}`);
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error('Event not found');
+        }
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to fetch event');
+      }
+
+      const data: MarketEvent = await response.json();
+      setEvent(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[useEvent] Error:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventSlug]);
+
+  useEffect(() => {
+    fetchEvent();
+  }, [fetchEvent]);
+
+  return {
+    event,
+    loading,
+    error,
+    refetch: fetchEvent,
+  };
+}
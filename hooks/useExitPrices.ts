@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Position, Venue } from '@/types';
+import { getHeldTokenId } from '@/lib/math/pnl';
+import { getMarketStreamClient } from '@/lib/stream/client';
+
+interface UseExitPricesReturn {
+  prices: Record<string, number>; // token id -> bid-side price
+  loading: boolean;
+  updatedAt: number | null;
+  refetch: () => void;
+}
+
+// Bid prices are re-polled on this interval even without live ticks
+const POLL_INTERVAL = 30 * 1000;
+// Live ticks trigger a refresh at most this often
+const TICK_REFRESH_INTERVAL = 5 * 1000;
+
+/**
+ * Bid-side (exit) prices for the tokens held by a set of positions
+ *
+ * Polls /api/markets/prices?side=sell and refreshes early whenever
+ * /api/stream reports a price change on one of the held tokens.
+ */
+export function useExitPrices(positions: Position[]): UseExitPricesReturn {
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const lastFetchRef = useRef(0);
+
+  // Held tokens per venue as "venue:token,token|venue:token", so effects only
+  // rerun when the set of held tokens changes
+  const heldTokens = useMemo(() => {
+    const byVenue = new Map<Venue, Set<string>>();
+    positions.forEach(position => {
+      const tokenId = getHeldTokenId(position);
+      if (!tokenId || tokenId.includes('-')) return;
+      const venue = position.market.venue ?? 'polymarket';
+      byVenue.set(venue, (byVenue.get(venue) ?? new Set<string>()).add(tokenId));
+    });
+    return Array.from(byVenue.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([venue, tokens]) => `${venue}:${Array.from(tokens).sort().join(',')}`)
+      .join('|');
+  }, [positions]);
+
+  const fetchPrices = useCallback(async () => {
+    if (!heldTokens) return;
+    lastFetchRef.current = Date.now();
+
+    try {
+      setLoading(true);
+      // Each venue's bids come from its own provider
+      const results = await Promise.all(heldTokens.split('|').map(async group => {
+        const [venue, tokens] = group.split(':');
+        const response = await fetch(`/api/markets/prices?tokens=${encodeURIComponent(tokens)}&side=sell&venue=${venue}`);
+        if (!response.ok) return null;
+        const data = await response.json();
+        return (data.prices || {}) as Record<string, number>;
+      }));
+      if (results.every(result => result === null)) return;
+      setPrices(Object.assign({}, ...results));
+      setUpdatedAt(Date.now());
+    } catch (error) {
+      console.warn('[useExitPrices] Failed to fetch prices:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [heldTokens]);
+
+  useEffect(() => {
+    if (!heldTokens) {
+      setPrices({});
+      return;
+    }
+
+    fetchPrices();
+    const interval = setInterval(fetchPrices, POLL_INTERVAL);
+
+    // Refresh bids early when the market moves
+    const unsubscribe = getMarketStreamClient().subscribe({
+      tokenIds: heldTokens.split('|').flatMap(group => group.split(':')[1].split(',')),
+      channels: ['price'],
+      onEvent: () => {
+        if (Date.now() - lastFetchRef.current >= TICK_REFRESH_INTERVAL) fetchPrices();
+      },
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [heldTokens, fetchPrices]);
+
+  return { prices, loading, updatedAt, refetch: fetchPrices };
+}
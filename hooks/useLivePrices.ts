@@ -1,36 +1,67 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { useLivePrice } from './useWebSocket';
+import { useEffect, useMemo, useState } from 'react';
 import { Market } from '@/types';
+import { getMarketStreamClient, STREAM_TOKEN_ID_PATTERN } from '@/lib/stream/client';
 
 /**
  * Hook to subscribe to live prices for multiple markets
- * Useful for the markets list page
+ * Useful for the markets list page. Prices are those of each market's first
+ * outcome, keyed by market id; markets without a CLOB token are skipped.
+ * Updates come from the server's shared connection over the tab's /api/stream.
  */
 export function useLivePrices(markets: Market[]) {
   const [livePrices, setLivePrices] = useState<Record<string, number>>({});
+  const [isConnected, setIsConnected] = useState(false);
 
   // Extract token IDs from markets
-  const tokenMap = new Map<string, string>(); // marketId -> tokenId
-  markets.forEach((market) => {
-    const tokenId = market.outcomes[0]?.id;
-    if (tokenId && !tokenId.includes('-')) {
-      tokenMap.set(market.id, tokenId);
-    }
-  });
-
-  // Update live prices when any price changes
-  const updatePrice = useCallback((marketId: string, price: number | null) => {
-    if (price !== null) {
-      setLivePrices((prev) => ({
-        ...prev,
-        [marketId]: price,
-      }));
+  const tokenMap = useMemo(() => {
+    const map = new Map<string, string>(); // marketId -> tokenId
+    markets.forEach((market) => {
+      const tokenId = market.outcomes[0]?.id;
+      if (tokenId && STREAM_TOKEN_ID_PATTERN.test(tokenId)) {
+        map.set(market.id, tokenId);
+      }
+    });
+    return map;
+  }, [markets]);
+
+  // Only resubscribe when the set of tokens changes
+  const subscriptionKey = JSON.stringify(Array.from(tokenMap.entries()).sort());
+
+  useEffect(() => {
+    const pairs = JSON.parse(subscriptionKey) as [string, string][];
+    if (pairs.length === 0) {
+      setIsConnected(false);
+      return;
     }
-  }, []);
 
-  return { livePrices, tokenMap };
+    // Several markets can share a token
+    const marketsByToken = new Map<string, string[]>();
+    pairs.forEach(([marketId, tokenId]) => {
+      marketsByToken.set(tokenId, [...(marketsByToken.get(tokenId) ?? []), marketId]);
+    });
+
+    return getMarketStreamClient().subscribe({
+      tokenIds: Array.from(marketsByToken.keys()),
+      channels: ['price'],
+      onEvent: (update) => {
+        if (update.type !== 'price') return;
+        const marketIds = marketsByToken.get(update.tokenId);
+        if (!marketIds) return;
+        setLivePrices((prev) => {
+          const next = { ...prev };
+          marketIds.forEach((marketId) => {
+            next[marketId] = update.price;
+          });
+          return next;
+        });
+      },
+      onStatus: (status) => setIsConnected(status.state === 'open'),
+    });
+  }, [subscriptionKey]);
+
+  return { livePrices, tokenMap, isConnected };
 }
 
 /**
@@ -38,8 +69,9 @@ export function useLivePrices(markets: Market[]) {
  * Returns the live price if available, otherwise falls back to market price
  */
 export function useMarketLivePrice(market: Market | null) {
-  const tokenId = market?.outcomes[0]?.id;
-  const { price: livePrice, isConnected } = useLivePrice(tokenId);
+  const markets = useMemo(() => (market ? [market] : []), [market]);
+  const { livePrices, isConnected } = useLivePrices(markets);
+  const livePrice = market ? livePrices[market.id] ?? null : null;
 
   // Return live price if available, otherwise use market price
   const currentPrice = livePrice ?? market?.outcomes[0]?.price ?? null;
@@ -50,4 +82,3 @@ export function useMarketLivePrice(market: Market | null) {
     isConnected,
   };
 }
-
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Candle, PriceHistoryGap, TimeRange } from '@/types';
+
+interface UseMarketCandlesReturn {
+  candles: Candle[];
+  gaps: PriceHistoryGap[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook to fetch OHLCV candles for a market; nothing is fetched while
+ * `enabled` is false
+ */
+export function useMarketCandles(
+  marketId: string | null,
+  range: TimeRange,
+  enabled = true
+): UseMarketCandlesReturn {
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [gaps, setGaps] = useState<PriceHistoryGap[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCandles = useCallback(async () => {
+    if (!marketId || !enabled) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(
+        `/api/market/${encodeURIComponent(marketId)}/candles?range=${range}`
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || 'Failed to fetch candles');
+      }
+
+      const data = await response.json();
+      setCandles(data.candles || []);
+      setGaps(data.gaps || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[useMarketCandles] Error:', errorMessage);
+      setError(errorMessage);
+      setCandles([]);
+      setGaps([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [marketId, range, enabled]);
+
+  useEffect(() => {
+    fetchCandles();
+  }, [fetchCandles]);
+
+  return {
+    candles,
+    gaps,
+    loading,
+    error,
+    refetch: fetchCandles,
+  };
+}
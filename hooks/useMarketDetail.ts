@@ -1,11 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Market, PricePoint, TimeRange } from '@/types';
+import { Market, PricePoint, PriceHistoryGap, TimeRange } from '@/types';
 
 interface UseMarketDetailReturn {
   market: Market | null;
   priceHistory: PricePoint[];
+  historyGaps: PriceHistoryGap[]; // Spans with no recorded prices
   loading: boolean;
   historyLoading: boolean;
   error: string | null;
@@ -18,6 +19,7 @@ interface UseMarketDetailReturn {
 export function useMarketDetail(marketId: string | null): UseMarketDetailReturn {
   const [market, setMarket] = useState<Market | null>(null);
   const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
+  const [historyGaps, setHistoryGaps] = useState<PriceHistoryGap[]>([]);
   const [loading, setLoading] = useState(true);
   const [historyLoading, setHistoryLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -67,14 +69,17 @@ export function useMarketDetail(marketId: string | null): UseMarketDetailReturn
       if (!response.ok) {
         console.error('[useMarketDetail] History fetch failed:', response.status);
         setPriceHistory([]);
+        setHistoryGaps([]);
         return;
       }
 
       const data = await response.json();
       setPriceHistory(data.history || []);
+      setHistoryGaps(data.gaps || []);
     } catch (err) {
       console.error('[useMarketDetail] History error:', err);
       setPriceHistory([]);
+      setHistoryGaps([]);
     } finally {
       setHistoryLoading(false);
     }
@@ -106,6 +111,7 @@ export function useMarketDetail(marketId: string | null): UseMarketDetailReturn
   return {
     market,
     priceHistory,
+    historyGaps,
     loading,
     historyLoading,
     error,
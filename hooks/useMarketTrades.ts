@@ -0,0 +1,58 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { MarketTrade } from '@/types';
+
+interface UseMarketTradesReturn {
+  trades: MarketTrade[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook to fetch a market's recent trades; nothing is fetched while
+ * `enabled` is false
+ */
+export function useMarketTrades(marketId: string | null, enabled = true): UseMarketTradesReturn {
+  const [trades, setTrades] = useState<MarketTrade[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrades = useCallback(async () => {
+    if (!marketId || !enabled) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/market/${encodeURIComponent(marketId)}/trades?limit=500`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || 'Failed to fetch trades');
+      }
+
+      const data = await response.json();
+      setTrades(data.trades || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[useMarketTrades] Error:', errorMessage);
+      setError(errorMessage);
+      setTrades([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [marketId, enabled]);
+
+  useEffect(() => {
+    fetchTrades();
+  }, [fetchTrades]);
+
+  return {
+    trades,
+    loading,
+    error,
+    refetch: fetchTrades,
+  };
+}
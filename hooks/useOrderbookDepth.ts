@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getMarketStreamClient } from '@/lib/stream/client';
+import { applyOrderbookUpdate } from '@/lib/math/depth';
+import { Orderbook, OrderbookMap, StreamOrderbookEvent } from '@/types';
+
+const EMPTY_BOOK: Orderbook = { bids: [], asks: [] };
+
+// Snapshots replace the book; other updates change single levels
+function applyUpdate(book: Orderbook, update: StreamOrderbookEvent): Orderbook {
+  return applyOrderbookUpdate(update.snapshot ? EMPTY_BOOK : book, update);
+}
+
+interface UseOrderbookDepthReturn {
+  books: OrderbookMap;
+  loading: boolean;
+  error: string | null;
+  isConnected: boolean;
+  refetch: () => void;
+}
+
+/**
+ * Live orderbooks for a market's outcome tokens
+ *
+ * Starts from the REST snapshot and applies incremental level updates from
+ * /api/stream. Updates arriving while the snapshot loads are replayed on top
+ * of it. After the server reconnects upstream it sends a fresh snapshot of
+ * each book, which replaces it; when the tab's own stream reopens, updates
+ * may have been missed, so the REST snapshot is fetched again.
+ */
+export function useOrderbookDepth(marketId: string | null, tokenIds: string[]): UseOrderbookDepthReturn {
+  const [books, setBooks] = useState<OrderbookMap>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Only resubscribe when the set of tokens changes
+  const tokenKey = tokenIds.join(',');
+
+  const pendingRef = useRef<StreamOrderbookEvent[]>([]);
+  const syncingRef = useRef(false);
+  const generationRef = useRef(0);
+
+  const fetchSnapshot = useCallback(async () => {
+    if (!marketId || !tokenKey) return;
+
+    const generation = ++generationRef.current;
+    syncingRef.current = true;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/market/${encodeURIComponent(marketId)}/orderbook`, { cache: 'no-store' });
+      const data = await response.json().catch(() => ({}));
+
+      // The route answers 200 with an error body when the CLOB is unreachable
+      if (!response.ok || !data.books) {
+        throw new Error(data.message || data.error || 'Failed to fetch orderbook');
+      }
+      if (generation !== generationRef.current) return;
+
+      const snapshot = data.books as OrderbookMap;
+      const pending = pendingRef.current;
+      pendingRef.current = [];
+
+      setBooks(
+        tokenKey.split(',').reduce<OrderbookMap>((acc, tokenId) => {
+          acc[tokenId] = pending
+            .filter(update => update.tokenId === tokenId)
+            .reduce(applyUpdate, snapshot[tokenId] ?? EMPTY_BOOK);
+          return acc;
+        }, {})
+      );
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[useOrderbookDepth] Error:', errorMessage);
+      setError(errorMessage);
+      pendingRef.current = [];
+    } finally {
+      if (generation === generationRef.current) {
+        syncingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [marketId, tokenKey]);
+
+  useEffect(() => {
+    setBooks({});
+    if (!marketId || !tokenKey) return;
+
+    pendingRef.current = [];
+    fetchSnapshot();
+
+    const tokens = tokenKey.split(',');
+    let lastOpenedAt: number | null | undefined;
+
+    const unsubscribe = getMarketStreamClient().subscribe({
+      tokenIds: tokens,
+      channels: ['orderbook'],
+      onEvent: (update) => {
+        if (update.type !== 'orderbook') return;
+
+        if (syncingRef.current) {
+          pendingRef.current.push(update);
+          return;
+        }
+
+        setBooks(prev => {
+          const book = prev[update.tokenId];
+          if (!book && !update.snapshot) return prev;
+          return {
+            ...prev,
+            [update.tokenId]: applyUpdate(book ?? EMPTY_BOOK, update),
+          };
+        });
+      },
+      onStatus: (status) => {
+        setIsConnected(status.state === 'open');
+
+        // Updates can be missed while the stream (re)opens; an open during a
+        // snapshot load is already covered by the pending updates
+        const opened = status.lastOpenedAt;
+        if (lastOpenedAt !== undefined && opened !== null && opened !== lastOpenedAt && !syncingRef.current) {
+          fetchSnapshot();
+        }
+        lastOpenedAt = opened;
+      },
+    });
+
+    return () => {
+      generationRef.current++;
+      syncingRef.current = false;
+      unsubscribe();
+    };
+  }, [marketId, tokenKey, fetchSnapshot]);
+
+  return {
+    books,
+    loading,
+    error,
+    isConnected,
+    refetch: fetchSnapshot,
+  };
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Market, OrderbookMap } from '@/types';
+
+interface UseOrderbooksReturn {
+  orderbooks: OrderbookMap;
+  loading: boolean;
+}
+
+/**
+ * Parsed orderbooks for every outcome token of the given markets
+ * Markets whose books fail to load are simply missing from the map
+ */
+export function useOrderbooks(markets: Market[]): UseOrderbooksReturn {
+  const [orderbooks, setOrderbooks] = useState<OrderbookMap>({});
+  const [loading, setLoading] = useState(false);
+
+  // Only refetch when the set of markets changes, not on every price tick
+  const marketIds = useMemo(
+    () => Array.from(new Set(markets.map(m => m.id))).sort().join(','),
+    [markets]
+  );
+
+  useEffect(() => {
+    if (!marketIds) {
+      setOrderbooks({});
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all(
+      marketIds.split(',').map(async id => {
+        try {
+          const response = await fetch(`/api/market/${encodeURIComponent(id)}/orderbook`);
+          if (!response.ok) return {};
+          const data = await response.json();
+          return (data.books || {}) as OrderbookMap;
+        } catch {
+          return {};
+        }
+      })
+    ).then(results => {
+      if (cancelled) return;
+      setOrderbooks(Object.assign({}, ...results));
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [marketIds]);
+
+  return { orderbooks, loading };
+}
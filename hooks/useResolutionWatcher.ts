@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { MarketResolutionStatus } from '@/types';
+import { getSettledOutcome } from '@/lib/math/pnl';
+
+// How often held markets are checked for resolution
+const RESOLUTION_POLL_INTERVAL = 5 * 60 * 1000;
+// Matches the batch size of /api/markets/resolutions
+const RESOLUTION_BATCH_SIZE = 50;
+
+/**
+ * Poll held markets and report each one once it settles
+ *
+ * Checks /api/markets/resolutions (backed by fetchMarketDetail) on mount and
+ * every few minutes, in batches the route accepts. `onResolved` may fire again for a market on later polls
+ * if it is still held, so settlement must be idempotent.
+ */
+export function useResolutionWatcher(
+  marketIds: string[],
+  onResolved: (marketId: string, outcome: string) => void
+): void {
+  // Keep the latest callback without restarting the poll
+  const onResolvedRef = useRef(onResolved);
+  onResolvedRef.current = onResolved;
+
+  const ids = useMemo(() => Array.from(new Set(marketIds)).sort().join(','), [marketIds]);
+
+  useEffect(() => {
+    if (!ids) return;
+
+    let cancelled = false;
+
+    const batches: string[] = [];
+    const all = ids.split(',');
+    for (let i = 0; i < all.length; i += RESOLUTION_BATCH_SIZE) {
+      batches.push(all.slice(i, i + RESOLUTION_BATCH_SIZE).join(','));
+    }
+
+    const checkBatch = async (batch: string) => {
+      try {
+        const response = await fetch(`/api/markets/resolutions?ids=${encodeURIComponent(batch)}`);
+        if (!response.ok || cancelled) return;
+        const data = await response.json();
+        const statuses = (data.statuses || {}) as Record<string, MarketResolutionStatus>;
+
+        Object.values(statuses).forEach(status => {
+          const outcome = getSettledOutcome(status);
+          if (outcome && !cancelled) onResolvedRef.current(status.marketId, outcome);
+        });
+      } catch (error) {
+        console.warn('[useResolutionWatcher] Failed to check resolutions:', error);
+      }
+    };
+
+    const check = () => Promise.all(batches.map(checkBatch));
+
+    check();
+    const interval = setInterval(check, RESOLUTION_POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [ids]);
+}
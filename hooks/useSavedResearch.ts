@@ -1,6 +1,10 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { useSyncedStorage } from './useSyncedStorage';
+import { useWorkspaceDocument } from './useWorkspaceDocument';
 
 export interface SavedResearch {
   id: string;
@@ -16,44 +20,43 @@ export interface SavedResearch {
   verificationStatus: 'verified' | 'partially_verified' | 'unverified';
   savedAt: number;
   notes?: string;
+  savedBy?: string; // Member name, for research saved to a team workspace
 }
 
 const STORAGE_KEY = 'pulseforge_saved_research';
 const MAX_SAVED_ITEMS = 50;
 
 /**
- * Hook for managing saved research in localStorage
+ * Hook for managing saved research
+ * Personal research is synced to the account when signed in; with a team
+ * workspace active, the workspace's shared research is used instead.
  */
 export function useSavedResearch() {
-  const [savedResearch, setSavedResearch] = useState<SavedResearch[]>([]);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const { user } = useAuth();
+  const { activeWorkspaceId, canEdit } = useWorkspace();
+  const [personal, setPersonal, { isLoaded: personalLoaded }] = useSyncedStorage<SavedResearch[]>(
+    STORAGE_KEY,
+    'research',
+    []
+  );
+  const [shared, setShared, { isLoaded: sharedLoaded }] = useWorkspaceDocument<SavedResearch[]>(
+    activeWorkspaceId,
+    'research',
+    []
+  );
 
-  // Load from localStorage on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        if (Array.isArray(parsed)) {
-          setSavedResearch(parsed);
-        }
-      }
-    } catch (error) {
-      console.error('[SavedResearch] Failed to load:', error);
-    }
-    setIsLoaded(true);
-  }, []);
+  const stored = activeWorkspaceId ? shared : personal;
+  const isLoaded = activeWorkspaceId ? sharedLoaded : personalLoaded;
+  const savedResearch = Array.isArray(stored) ? stored : [];
 
-  // Save to localStorage whenever savedResearch changes
-  useEffect(() => {
-    if (isLoaded) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(savedResearch));
-      } catch (error) {
-        console.error('[SavedResearch] Failed to save:', error);
-      }
+  // Viewers of a team workspace can't change its research
+  const setSavedResearch = useCallback((update: (prev: SavedResearch[]) => SavedResearch[]) => {
+    if (!activeWorkspaceId) {
+      setPersonal(update);
+    } else if (canEdit) {
+      setShared(prev => update(Array.isArray(prev) ? prev : []));
     }
-  }, [savedResearch, isLoaded]);
+  }, [activeWorkspaceId, canEdit, setPersonal, setShared]);
 
   // Save new research
   const saveResearch = useCallback((research: Omit<SavedResearch, 'id' | 'savedAt'>) => {
@@ -61,6 +64,7 @@ export function useSavedResearch() {
       ...research,
       id: `saved-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       savedAt: Date.now(),
+      ...(activeWorkspaceId && user && { savedBy: user.name }),
     };
 
     setSavedResearch((prev) => {
@@ -78,12 +82,12 @@ export function useSavedResearch() {
     });
 
     return newItem.id;
-  }, []);
+  }, [setSavedResearch, activeWorkspaceId, user]);
 
   // Remove saved research
   const removeResearch = useCallback((id: string) => {
     setSavedResearch((prev) => prev.filter((r) => r.id !== id));
-  }, []);
+  }, [setSavedResearch]);
 
   // Check if a market is saved
   const isMarketSaved = useCallback(
@@ -106,16 +110,17 @@ export function useSavedResearch() {
     setSavedResearch((prev) =>
       prev.map((r) => (r.id === id ? { ...r, notes } : r))
     );
-  }, []);
+  }, [setSavedResearch]);
 
   // Clear all saved research
   const clearAll = useCallback(() => {
-    setSavedResearch([]);
-  }, []);
+    setSavedResearch(() => []);
+  }, [setSavedResearch]);
 
   return {
     savedResearch,
     isLoaded,
+    canEdit,
     saveResearch,
     removeResearch,
     isMarketSaved,
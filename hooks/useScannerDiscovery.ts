@@ -0,0 +1,68 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DiscoveryResult } from '@/types';
+
+interface UseScannerDiscoveryOptions {
+  enabled?: boolean;
+  limit?: number;
+  minSeverity?: number;
+}
+
+interface UseScannerDiscoveryReturn {
+  result: DiscoveryResult | null;
+  loading: boolean;
+  error: string | null;
+  refetch: (forceRefresh?: boolean) => void;
+}
+
+export function useScannerDiscovery(
+  options: UseScannerDiscoveryOptions = {}
+): UseScannerDiscoveryReturn {
+  const { enabled = true, limit = 25, minSeverity = 0 } = options;
+  const [result, setResult] = useState<DiscoveryResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDiscovery = useCallback(async (forceRefresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        limit: String(limit),
+        minSeverity: String(minSeverity),
+      });
+      if (forceRefresh) params.set('refresh', 'true');
+
+      const response = await fetch(`/api/scanner/discover?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to run discovery');
+      }
+
+      const data: DiscoveryResult = await response.json();
+      setResult(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[useScannerDiscovery] Error:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [limit, minSeverity]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchDiscovery();
+    }
+  }, [enabled, fetchDiscovery]);
+
+  return {
+    result,
+    loading,
+    error,
+    refetch: fetchDiscovery,
+  };
+}
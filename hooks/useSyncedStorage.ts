@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { UserResource, UserDocument } from '@/types';
+import { useAuth } from '@/context/AuthContext';
+
+// Changes are pushed to the server after this much quiet time
+const SYNC_DEBOUNCE = 1000;
+
+/**
+ * Server copy of a user resource; null when signed out, missing or offline
+ */
+export async function loadUserData<T>(resource: UserResource): Promise<UserDocument<T> | null> {
+  try {
+    const response = await fetch(`/api/user/${resource}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.updatedAt ? { value: data.value as T, updatedAt: data.updatedAt } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the server copy of a user resource
+ */
+export async function saveUserData<T>(resource: UserResource, value: T): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/${resource}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn(`[Sync] Failed to save ${resource}:`, error);
+    return false;
+  }
+}
+
+/**
+ * localStorage key holding `key` for one user, or for the guest session
+ */
+export function getUserStorageKey(key: string, email?: string | null): string {
+  return `${key}-${email ?? 'guest'}`;
+}
+
+/**
+ * localStorage-backed state that follows the signed-in user across browsers
+ *
+ * The local copy loads first so the UI never waits on the network. When a
+ * user is signed in, the server copy then replaces it; if the server has
+ * nothing yet, the local copy is uploaded. Later changes are written locally
+ * right away and pushed to the server after a short debounce. Each user and
+ * the guest session keep their own local copy, so one account's data is
+ * never shown to, or uploaded into, another.
+ */
+export function useSyncedStorage<T>(
+  key: string,
+  resource: UserResource,
+  initialValue: T
+): [T, (value: T | ((prev: T) => T)) => void, { isLoaded: boolean }] {
+  const { user, isLoading: authLoading } = useAuth();
+  const userId = user?.id;
+  const storageKey = getUserStorageKey(key, user?.email);
+  const initialRef = useRef(initialValue);
+  const [value, setStoredValue] = useState<T>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const dirtyRef = useRef(false);
+
+  // Load local, then reconcile with the server for signed-in users
+  useEffect(() => {
+    // Until the session is known, the local copy may not be this user's
+    if (authLoading) return;
+
+    let cancelled = false;
+    let local: T = initialRef.current;
+    let hasLocal = false;
+
+    try {
+      const item = window.localStorage.getItem(storageKey);
+      if (item) {
+        local = JSON.parse(item) as T;
+        hasLocal = true;
+      }
+    } catch (error) {
+      console.warn(`Error reading localStorage key "${storageKey}":`, error);
+    }
+
+    dirtyRef.current = false;
+    setStoredValue(local);
+    setIsLoaded(true);
+
+    if (userId) {
+      loadUserData<T>(resource).then(document => {
+        if (cancelled) return;
+        if (document) {
+          setStoredValue(document.value);
+          window.localStorage.setItem(storageKey, JSON.stringify(document.value));
+        } else if (hasLocal) {
+          saveUserData(resource, local);
+        }
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, resource, userId, authLoading]);
+
+  const setValue = useCallback((next: T | ((prev: T) => T)) => {
+    dirtyRef.current = true;
+    setStoredValue(prev => {
+      const valueToStore = next instanceof Function ? next(prev) : next;
+      try {
+        window.localStorage.setItem(storageKey, JSON.stringify(valueToStore));
+      } catch (error) {
+        console.warn(`Error setting localStorage key "${storageKey}":`, error);
+      }
+      return valueToStore;
+    });
+  }, [storageKey]);
+
+  // Push local edits (not server loads) to the server
+  useEffect(() => {
+    if (!userId || !isLoaded || !dirtyRef.current) return;
+    const timeout = setTimeout(() => {
+      dirtyRef.current = false;
+      saveUserData(resource, value);
+    }, SYNC_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [value, userId, isLoaded, resource]);
+
+  return [value, setValue, { isLoaded }];
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { MarketCluster, ScannerConfig, WatchedCluster } from '@/types';
+import { workspaceRequest } from '@/context/WorkspaceContext';
+import { useAuth } from '@/context';
+
+type WatchedClusterUpdate = Partial<Pick<WatchedCluster, 'enabled' | 'severityThreshold' | 'intervalMinutes'>>;
+
+interface UseWatchedClustersReturn {
+  clusters: WatchedCluster[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  watchCluster: (cluster: MarketCluster, config?: Partial<ScannerConfig>) => Promise<WatchedCluster>;
+  updateCluster: (id: string, updates: WatchedClusterUpdate) => Promise<void>;
+  unwatchCluster: (id: string) => Promise<void>;
+}
+
+/**
+ * Clusters the signed-in user has saved for scheduled rescans
+ */
+export function useWatchedClusters(): UseWatchedClustersReturn {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [clusters, setClusters] = useState<WatchedCluster[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClusters = useCallback(async () => {
+    if (!userId) {
+      setClusters([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await workspaceRequest<{ clusters: WatchedCluster[] }>('/api/alerts/clusters');
+      setClusters(data.clusters);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watched clusters');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [fetchClusters]);
+
+  const watchCluster = useCallback(async (cluster: MarketCluster, config?: Partial<ScannerConfig>) => {
+    const data = await workspaceRequest<{ cluster: WatchedCluster }>('/api/alerts/clusters', 'POST', {
+      cluster,
+      config,
+    });
+    setClusters(prev => [...prev, data.cluster]);
+    return data.cluster;
+  }, []);
+
+  const updateCluster = useCallback(async (id: string, updates: WatchedClusterUpdate) => {
+    const data = await workspaceRequest<{ cluster: WatchedCluster }>(`/api/alerts/clusters/${id}`, 'PATCH', updates);
+    setClusters(prev => prev.map(c => (c.id === id ? data.cluster : c)));
+  }, []);
+
+  const unwatchCluster = useCallback(async (id: string) => {
+    await workspaceRequest(`/api/alerts/clusters/${id}`, 'DELETE');
+    setClusters(prev => prev.filter(c => c.id !== id));
+  }, []);
+
+  return {
+    clusters,
+    loading,
+    error,
+    refetch: fetchClusters,
+    watchCluster,
+    updateCluster,
+    unwatchCluster,
+  };
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Market } from '@/types';
+
+// Changes, spreads and liquidity are refreshed on this interval; prices
+// update live in between
+const WATCHLIST_POLL_INTERVAL = 60 * 1000;
+
+interface UseWatchlistMarketsReturn {
+  markets: Market[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Current data for a watchlist's markets, from /api/markets/batch
+ */
+export function useWatchlistMarkets(marketIds: string[]): UseWatchlistMarketsReturn {
+  const [markets, setMarkets] = useState<Market[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only refetch when the set of markets changes
+  const ids = useMemo(() => Array.from(new Set(marketIds)).sort().join(','), [marketIds]);
+
+  const fetchMarkets = useCallback(async () => {
+    if (!ids) {
+      setMarkets([]);
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/markets/batch?ids=${encodeURIComponent(ids)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load markets');
+      setMarkets(data.markets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load markets');
+    }
+  }, [ids]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMarkets().finally(() => setLoading(false));
+    const interval = setInterval(fetchMarkets, WATCHLIST_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchMarkets]);
+
+  return { markets, loading, error, refetch: fetchMarkets };
+}
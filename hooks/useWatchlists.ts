@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback } from 'react';
+import { Market, Watchlist, WatchlistColumn, WatchlistSort, WatchlistFilter } from '@/types';
+import { DEFAULT_WATCHLIST_COLUMNS } from '@/lib/watchlists/columns';
+import { generateId } from '@/lib/utils';
+import { matchesMarketRef } from '@/lib/providers/marketRef';
+import { useSyncedStorage } from './useSyncedStorage';
+
+const STORAGE_KEY = 'pulseforge_watchlists';
+const MAX_WATCHLISTS = 20;
+// Matches the batch size of /api/markets/batch
+export const MAX_WATCHLIST_MARKETS = 50;
+
+/**
+ * Hook for managing named watchlists
+ * Synced to the account when signed in, like saved research.
+ */
+export function useWatchlists() {
+  const [stored, setStored, { isLoaded }] = useSyncedStorage<Watchlist[]>(STORAGE_KEY, 'watchlists', []);
+  const watchlists = Array.isArray(stored) ? stored : [];
+
+  const updateWatchlists = useCallback((update: (prev: Watchlist[]) => Watchlist[]) => {
+    setStored(prev => update(Array.isArray(prev) ? prev : []));
+  }, [setStored]);
+
+  // Apply a change to one watchlist
+  const updateWatchlist = useCallback((id: string, update: (list: Watchlist) => Watchlist) => {
+    updateWatchlists(prev => prev.map(list => (list.id === id ? update(list) : list)));
+  }, [updateWatchlists]);
+
+  // Create a watchlist, optionally starting with some markets; returns its id
+  const createWatchlist = useCallback((name: string, marketIds: string[] = []) => {
+    const watchlist: Watchlist = {
+      id: generateId(),
+      name: name.trim() || 'Watchlist',
+      marketIds: marketIds.slice(0, MAX_WATCHLIST_MARKETS),
+      columns: DEFAULT_WATCHLIST_COLUMNS,
+      createdAt: Date.now(),
+    };
+    updateWatchlists(prev => [...prev, watchlist].slice(-MAX_WATCHLISTS));
+    return watchlist.id;
+  }, [updateWatchlists]);
+
+  const renameWatchlist = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    updateWatchlist(id, list => ({ ...list, name: name.trim() }));
+  }, [updateWatchlist]);
+
+  const deleteWatchlist = useCallback((id: string) => {
+    updateWatchlists(prev => prev.filter(list => list.id !== id));
+  }, [updateWatchlists]);
+
+  const addMarket = useCallback((id: string, marketId: string) => {
+    updateWatchlist(id, list =>
+      list.marketIds.includes(marketId) || list.marketIds.length >= MAX_WATCHLIST_MARKETS
+        ? list
+        : { ...list, marketIds: [...list.marketIds, marketId] }
+    );
+  }, [updateWatchlist]);
+
+  const removeMarket = useCallback((id: string, marketId: string) => {
+    updateWatchlist(id, list => ({ ...list, marketIds: list.marketIds.filter(m => m !== marketId) }));
+  }, [updateWatchlist]);
+
+  const setColumns = useCallback((id: string, columns: WatchlistColumn[]) => {
+    updateWatchlist(id, list => ({ ...list, columns }));
+  }, [updateWatchlist]);
+
+  const setSort = useCallback((id: string, sort: WatchlistSort | undefined) => {
+    updateWatchlist(id, list => ({ ...list, sort }));
+  }, [updateWatchlist]);
+
+  const setFilters = useCallback((id: string, filters: WatchlistFilter[]) => {
+    updateWatchlist(id, list => ({ ...list, filters }));
+  }, [updateWatchlist]);
+
+  // Watchlists containing a market
+  const getWatchlistsFor = useCallback(
+    (market: Pick<Market, 'id' | 'venue'>) =>
+      watchlists.filter(list => list.marketIds.some(ref => matchesMarketRef(ref, market))),
+    [watchlists]
+  );
+
+  return {
+    watchlists,
+    isLoaded,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    addMarket,
+    removeMarket,
+    setColumns,
+    setSort,
+    setFilters,
+    getWatchlistsFor,
+  };
+}
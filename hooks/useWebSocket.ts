@@ -1,7 +1,11 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { getWebSocketClient, PriceUpdate, OrderbookUpdate, TradeUpdate, WebSocketMessage } from '@/lib/polymarket/websocket';
+import { useEffect, useState } from 'react';
+import { getMarketStreamClient, StreamConnectionStatus } from '@/lib/stream/client';
+import { applyOrderbookUpdate } from '@/lib/math/depth';
+import { Orderbook, OrderbookLevel } from '@/types';
+
+const EMPTY_BOOK: Orderbook = { bids: [], asks: [] };
 
 interface UsePriceSubscriptionReturn {
   price: number | null;
@@ -11,8 +15,8 @@ interface UsePriceSubscriptionReturn {
 }
 
 interface UseOrderbookSubscriptionReturn {
-  bids: { price: string; size: string }[];
-  asks: { price: string; size: string }[];
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
   loading: boolean;
   error: string | null;
   isConnected: boolean;
@@ -20,157 +24,90 @@ interface UseOrderbookSubscriptionReturn {
 
 /**
  * Hook to subscribe to live price updates for a token
+ * Updates come from the server's shared connection over the tab's /api/stream.
  */
 export function useLivePrice(tokenId: string | undefined | null): UsePriceSubscriptionReturn {
   const [price, setPrice] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const callbackRef = useRef<(message: WebSocketMessage) => void>();
 
   useEffect(() => {
+    setPrice(null);
     if (!tokenId) {
-      setPrice(null);
       setLoading(false);
       return;
     }
 
-    const client = getWebSocketClient();
-    setIsConnected(client.isConnected());
-
-    // Connect if not already connected
-    if (!client.isConnected()) {
-      client.connect().then(() => {
-        setIsConnected(true);
-      }).catch((err) => {
-        setError('Failed to connect to WebSocket');
-        console.error('[useLivePrice] Connection error:', err);
-      });
-    }
-
-    // Create callback for price updates
-    const callback = (message: WebSocketMessage) => {
-      if (message.type === 'price') {
-        const priceValue = parseFloat(message.data.price);
-        if (!isNaN(priceValue) && priceValue >= 0 && priceValue <= 1) {
-          setPrice(priceValue);
-          setLoading(false);
-          setError(null);
-        }
-      }
-    };
-
-    callbackRef.current = callback;
-
-    // Subscribe to price updates
-    const unsubscribe = client.subscribePrice(tokenId, callback);
-
-    return () => {
-      unsubscribe();
-    };
+    setLoading(true);
+    return getMarketStreamClient().subscribe({
+      tokenIds: [tokenId],
+      channels: ['price'],
+      onEvent: (event) => {
+        if (event.type !== 'price') return;
+        setPrice(event.price);
+        setLoading(false);
+        setError(null);
+      },
+      onStatus: (status) => {
+        setIsConnected(status.state === 'open');
+        setError(status.state === 'unavailable' ? 'Live prices are unavailable' : null);
+      },
+    });
   }, [tokenId]);
 
-  // Update connection status
-  useEffect(() => {
-    const checkConnection = setInterval(() => {
-      const client = getWebSocketClient();
-      setIsConnected(client.isConnected());
-    }, 1000);
-
-    return () => clearInterval(checkConnection);
-  }, []);
-
   return { price, loading, error, isConnected };
 }
 
 /**
  * Hook to subscribe to orderbook updates for a token
+ * Level updates are applied to the book as they arrive; a snapshot replaces it.
  */
 export function useLiveOrderbook(tokenId: string | undefined | null): UseOrderbookSubscriptionReturn {
-  const [bids, setBids] = useState<{ price: string; size: string }[]>([]);
-  const [asks, setAsks] = useState<{ price: string; size: string }[]>([]);
+  const [book, setBook] = useState<Orderbook>(EMPTY_BOOK);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
 
   useEffect(() => {
+    setBook(EMPTY_BOOK);
     if (!tokenId) {
-      setBids([]);
-      setAsks([]);
       setLoading(false);
       return;
     }
 
-    const client = getWebSocketClient();
-    setIsConnected(client.isConnected());
-
-    // Connect if not already connected
-    if (!client.isConnected()) {
-      client.connect().then(() => {
-        setIsConnected(true);
-      }).catch((err) => {
-        setError('Failed to connect to WebSocket');
-        console.error('[useLiveOrderbook] Connection error:', err);
-      });
-    }
-
-    // Create callback for orderbook updates
-    const callback = (message: WebSocketMessage) => {
-      if (message.type === 'orderbook') {
-        setBids(message.data.bids || []);
-        setAsks(message.data.asks || []);
+    setLoading(true);
+    return getMarketStreamClient().subscribe({
+      tokenIds: [tokenId],
+      channels: ['orderbook'],
+      onEvent: (event) => {
+        if (event.type !== 'orderbook') return;
+        setBook(prev => applyOrderbookUpdate(event.snapshot ? EMPTY_BOOK : prev, event));
         setLoading(false);
         setError(null);
-      }
-    };
-
-    // Subscribe to orderbook updates
-    const unsubscribe = client.subscribeOrderbook(tokenId, callback);
-
-    return () => {
-      unsubscribe();
-    };
+      },
+      onStatus: (status) => {
+        setIsConnected(status.state === 'open');
+        setError(status.state === 'unavailable' ? 'Live orderbooks are unavailable' : null);
+      },
+    });
   }, [tokenId]);
 
-  // Update connection status
-  useEffect(() => {
-    const checkConnection = setInterval(() => {
-      const client = getWebSocketClient();
-      setIsConnected(client.isConnected());
-    }, 1000);
-
-    return () => clearInterval(checkConnection);
-  }, []);
-
-  return { bids, asks, loading, error, isConnected };
+  return { bids: book.bids, asks: book.asks, loading, error, isConnected };
 }
 
 /**
- * Hook to get WebSocket connection status
+ * Hook to get the live stream's connection status: the tab's EventSource to
+ * /api/stream and, behind it, the server's upstream connection
  */
 export function useWebSocketStatus() {
-  const [isConnected, setIsConnected] = useState(false);
+  const [status, setStatus] = useState<StreamConnectionStatus>(() => getMarketStreamClient().getStatus());
 
-  useEffect(() => {
-    const client = getWebSocketClient();
-    setIsConnected(client.isConnected());
-
-    // Auto-connect on mount
-    if (!client.isConnected()) {
-      client.connect().then(() => {
-        setIsConnected(true);
-      }).catch(() => {
-        setIsConnected(false);
-      });
-    }
+  useEffect(() => getMarketStreamClient().subscribe({
+    tokenIds: [],
+    channels: [],
+    onStatus: setStatus,
+  }), []);
 
-    const checkConnection = setInterval(() => {
-      setIsConnected(client.isConnected());
-    }, 1000);
-
-    return () => clearInterval(checkConnection);
-  }, []);
-
-  return { isConnected };
+  return { isConnected: status.state === 'open', status };
 }
-
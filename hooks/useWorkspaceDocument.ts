@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { WorkspaceResource, UserDocument } from '@/types';
+
+// Teammates' changes are picked up on this interval
+export const WORKSPACE_POLL_INTERVAL = 30 * 1000;
+// Changes are pushed to the server after this much quiet time
+const SYNC_DEBOUNCE = 1000;
+
+/**
+ * Shared document of a workspace; null when missing, forbidden or offline
+ */
+export async function loadWorkspaceData<T>(
+  workspaceId: string,
+  resource: WorkspaceResource
+): Promise<UserDocument<T> | null> {
+  try {
+    const response = await fetch(`/api/workspaces/${workspaceId}/data/${resource}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.updatedAt ? { value: data.value as T, updatedAt: data.updatedAt } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace a shared document of a workspace
+ * Returns the server's write time, or null when the write failed.
+ */
+export async function saveWorkspaceData<T>(
+  workspaceId: string,
+  resource: WorkspaceResource,
+  value: T
+): Promise<number | null> {
+  try {
+    const response = await fetch(`/api/workspaces/${workspaceId}/data/${resource}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.updatedAt ?? null;
+  } catch (error) {
+    console.warn(`[Sync] Failed to save workspace ${resource}:`, error);
+    return null;
+  }
+}
+
+/**
+ * State backed by a shared workspace document
+ *
+ * Loads when the workspace changes and polls for teammates' edits, skipping
+ * a poll while a local edit is waiting to be pushed. Nothing is loaded or
+ * saved when `workspaceId` is null. Writes are last-writer-wins per document.
+ */
+export function useWorkspaceDocument<T>(
+  workspaceId: string | null,
+  resource: WorkspaceResource,
+  initialValue: T
+): [T, (value: T | ((prev: T) => T)) => void, { isLoaded: boolean }] {
+  const initialRef = useRef(initialValue);
+  const [value, setStoredValue] = useState<T>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const dirtyRef = useRef(false);
+  const editsRef = useRef(0); // Local edits made so far
+  const updatedAtRef = useRef(0); // Write time of the copy we hold
+
+  useEffect(() => {
+    let cancelled = false;
+    dirtyRef.current = false;
+    updatedAtRef.current = 0;
+    setStoredValue(initialRef.current);
+    setIsLoaded(false);
+    if (!workspaceId) return;
+
+    const load = async () => {
+      if (dirtyRef.current) return;
+      const document = await loadWorkspaceData<T>(workspaceId, resource);
+      if (cancelled || dirtyRef.current) return;
+      if (document && document.updatedAt > updatedAtRef.current) {
+        updatedAtRef.current = document.updatedAt;
+        setStoredValue(document.value);
+      }
+      setIsLoaded(true);
+    };
+
+    load();
+    const interval = setInterval(load, WORKSPACE_POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [workspaceId, resource]);
+
+  const setValue = useCallback((next: T | ((prev: T) => T)) => {
+    dirtyRef.current = true;
+    editsRef.current += 1;
+    setStoredValue(prev => (next instanceof Function ? next(prev) : next));
+  }, []);
+
+  // Push local edits (not loads) to the server
+  useEffect(() => {
+    if (!workspaceId || !dirtyRef.current) return;
+    const timeout = setTimeout(async () => {
+      const edits = editsRef.current;
+      const updatedAt = await saveWorkspaceData(workspaceId, resource, value);
+      if (updatedAt) updatedAtRef.current = Math.max(updatedAtRef.current, updatedAt);
+      // Stay dirty if the user kept editing while this was in flight
+      if (editsRef.current === edits) dirtyRef.current = false;
+    }, SYNC_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [value, workspaceId, resource]);
+
+  return [value, setValue, { isLoaded }];
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Workspace, WorkspaceInvite, WorkspaceRole } from '@/types';
+import { workspaceRequest } from '@/context/WorkspaceContext';
+import { canManageWorkspace } from '@/lib/workspaces/roles';
+
+interface UseWorkspaceMembersReturn {
+  workspace: Workspace | null;
+  role: WorkspaceRole | null;
+  invites: WorkspaceInvite[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  setMemberRole: (userId: string, role: WorkspaceRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
+  createInvite: (role: WorkspaceInvite['role']) => Promise<string>;
+  revokeInvite: (inviteId: string) => Promise<void>;
+}
+
+/**
+ * Members and open invite links of a workspace, with the owner actions on them
+ * Invites are only loaded for owners.
+ */
+export function useWorkspaceMembers(workspaceId: string | null): UseWorkspaceMembersReturn {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    if (!workspaceId) {
+      setWorkspace(null);
+      setRole(null);
+      setInvites([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await workspaceRequest<{ workspace: Workspace; role: WorkspaceRole }>(
+        `/api/workspaces/${workspaceId}`
+      );
+      setWorkspace(data.workspace);
+      setRole(data.role);
+
+      if (canManageWorkspace(data.role)) {
+        const inviteData = await workspaceRequest<{ invites: WorkspaceInvite[] }>(
+          `/api/workspaces/${workspaceId}/invites`
+        );
+        setInvites(inviteData.invites);
+      } else {
+        setInvites([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workspace');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const setMemberRole = useCallback(async (userId: string, newRole: WorkspaceRole) => {
+    await workspaceRequest(`/api/workspaces/${workspaceId}/members/${userId}`, 'PATCH', { role: newRole });
+    await fetchMembers();
+  }, [workspaceId, fetchMembers]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    await workspaceRequest(`/api/workspaces/${workspaceId}/members/${userId}`, 'DELETE');
+    await fetchMembers();
+  }, [workspaceId, fetchMembers]);
+
+  const createInvite = useCallback(async (inviteRole: WorkspaceInvite['role']) => {
+    const data = await workspaceRequest<{ url: string }>(
+      `/api/workspaces/${workspaceId}/invites`,
+      'POST',
+      { role: inviteRole }
+    );
+    await fetchMembers();
+    return data.url;
+  }, [workspaceId, fetchMembers]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    await workspaceRequest(`/api/workspaces/${workspaceId}/invites?invite=${inviteId}`, 'DELETE');
+    await fetchMembers();
+  }, [workspaceId, fetchMembers]);
+
+  return {
+    workspace,
+    role,
+    invites,
+    loading,
+    error,
+    refetch: fetchMembers,
+    setMemberRole,
+    removeMember,
+    createInvite,
+    revokeInvite,
+  };
+}
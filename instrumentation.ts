@@ -0,0 +1,14 @@
+/**
+ * Runs once when the server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Switch to recording or replaying market data when configured
+  const { installDataSource } = await import('./lib/replay/install');
+  await installDataSource();
+
+  // Check alert rules from startup, not just once the alerts API is first hit
+  const { ensureAlertEngine } = await import('./lib/alerts/engine');
+  ensureAlertEngine();
+}
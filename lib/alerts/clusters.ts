@@ -0,0 +1,63 @@
+/**
+ * Watched Cluster Flags
+ * Pure comparison of a watched cluster's flags between two scans
+ */
+
+import { ScannerFlag, WatchedFlag } from '@/types';
+
+export interface ClusterFlagFiring {
+  marketId: string; // First affected market, for linking the alert
+  message: string;
+  value: number; // Severity score
+}
+
+/**
+ * Stable identity of a flag across scans: its rule and the markets it covers
+ */
+export function getFlagKey(flag: Pick<ScannerFlag, 'ruleType' | 'affectedMarkets'>): string {
+  const marketIds = flag.affectedMarkets.map(m => m.id).sort();
+  return `${flag.ruleType}:${marketIds.join(',')}`;
+}
+
+export function toWatchedFlag(flag: ScannerFlag): WatchedFlag {
+  return {
+    key: getFlagKey(flag),
+    ruleType: flag.ruleType,
+    title: flag.title,
+    severityScore: flag.severityScore,
+  };
+}
+
+/**
+ * Flags worth announcing after a rescan: ones the last scan didn't have, and
+ * known ones whose severity rose to the threshold since
+ */
+export function diffClusterFlags(
+  previous: WatchedFlag[],
+  flags: ScannerFlag[],
+  severityThreshold: number
+): ClusterFlagFiring[] {
+  const known = new Map(previous.map(f => [f.key, f]));
+  const firings: ClusterFlagFiring[] = [];
+
+  flags.forEach(flag => {
+    const before = known.get(getFlagKey(flag));
+    const marketId = flag.affectedMarkets[0]?.id || '';
+
+    if (!before) {
+      firings.push({
+        marketId,
+        message: `New flag: ${flag.title} (severity ${flag.severityScore})`,
+        value: flag.severityScore,
+      });
+    } else if (before.severityScore < severityThreshold && flag.severityScore >= severityThreshold) {
+      firings.push({
+        marketId,
+        message: `${flag.title} rose to severity ${flag.severityScore} (was ${before.severityScore})`,
+        value: flag.severityScore,
+      });
+    }
+  });
+
+  return firings;
+}
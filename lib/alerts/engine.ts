@@ -0,0 +1,199 @@
+/**
+ * Alert Engine
+ * Samples every market with an enabled rule on an interval, evaluates the
+ * rules against the samples and records the ones that fire. Watched clusters
+ * are rescanned on the same timer once their interval is up. Runs inside the
+ * server process; clients pick up fired alerts from /api/alerts/events.
+ */
+
+import { Market, AlertSample, MarketCluster, ScannerConfig, ScannerResult } from '@/types';
+import { getMarketByRef, getProviderForMarket, getOrderbooksForMarkets } from '@/lib/providers';
+import { scanCluster } from '@/lib/math/scanner';
+import { evaluateAlertCondition, canTrigger, getAlertWindowMinutes } from './evaluate';
+import { diffClusterFlags, toWatchedFlag } from './clusters';
+import {
+  listEnabledAlertRules,
+  recordAlertEvents,
+  listEnabledWatchedClusters,
+  recordClusterScan,
+  StoredAlertEvent,
+} from './store';
+
+// How often markets with enabled rules are sampled
+export const ALERT_CHECK_INTERVAL = 60 * 1000;
+
+// Samples older than the longest rule window (plus this margin) are dropped
+const SAMPLE_RETENTION_MARGIN = 10 * 60 * 1000;
+
+interface AlertEngineState {
+  samples: Map<string, AlertSample[]>; // Market id -> samples, oldest first
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+}
+
+// Kept on globalThis so dev-server reloads don't start a second engine
+const globalForAlerts = globalThis as typeof globalThis & { __pulseforgeAlerts?: AlertEngineState };
+
+function getState(): AlertEngineState {
+  if (!globalForAlerts.__pulseforgeAlerts) {
+    globalForAlerts.__pulseforgeAlerts = { samples: new Map(), timer: null, running: false };
+  }
+  return globalForAlerts.__pulseforgeAlerts;
+}
+
+/**
+ * Sample of a market's current state
+ * The spread comes from the live orderbook when requested, else from the
+ * best bid/ask Gamma reports.
+ */
+export async function sampleMarket(market: Market, withOrderbook: boolean, now: number): Promise<AlertSample> {
+  let spread = market.bestAsk !== undefined && market.bestBid !== undefined
+    ? market.bestAsk - market.bestBid
+    : undefined;
+
+  const tokenId = market.outcomes[0]?.id;
+  if (withOrderbook && tokenId) {
+    const book = (await getProviderForMarket(market).getOrderbooks([tokenId]))[tokenId];
+    const bestBid = book?.bids[0]?.price;
+    const bestAsk = book?.asks[0]?.price;
+    // Without a two-sided book, Gamma's quote stands
+    if (bestBid !== undefined && bestAsk !== undefined) spread = bestAsk - bestBid;
+  }
+
+  return {
+    timestamp: now,
+    prices: market.outcomes.map(o => o.price),
+    volume24hr: market.volume24hr,
+    spread,
+  };
+}
+
+/**
+ * Append a sample and drop those older than `retainMs`
+ */
+export function appendSample(samples: AlertSample[], sample: AlertSample, retainMs: number): AlertSample[] {
+  return [...samples, sample].filter(s => sample.timestamp - s.timestamp <= retainMs);
+}
+
+/**
+ * Sample every market with an enabled rule and record the rules that fire
+ */
+export async function runAlertCheck(now: number = Date.now()): Promise<StoredAlertEvent[]> {
+  const state = getState();
+  const rules = await listEnabledAlertRules();
+
+  const byMarket = new Map<string, typeof rules>();
+  rules.forEach(rule => byMarket.set(rule.marketId, [...(byMarket.get(rule.marketId) || []), rule]));
+
+  // Forget markets nobody watches anymore
+  Array.from(state.samples.keys()).forEach(id => {
+    if (!byMarket.has(id)) state.samples.delete(id);
+  });
+
+  const firings: { ruleId: string; message: string; value: number; triggeredAt: number }[] = [];
+
+  for (const [marketId, marketRules] of Array.from(byMarket.entries())) {
+    let market: Market | null;
+    try {
+      market = await getMarketByRef(marketId);
+    } catch (error) {
+      console.warn(`[Alerts] Failed to fetch market ${marketId}:`, error);
+      continue;
+    }
+    if (!market) continue;
+
+    const withOrderbook = marketRules.some(r => r.condition.type === 'spread_widening');
+    const retainMs = Math.max(...marketRules.map(r => getAlertWindowMinutes(r.condition))) * 60 * 1000
+      + SAMPLE_RETENTION_MARGIN;
+    const samples = appendSample(
+      state.samples.get(marketId) || [],
+      await sampleMarket(market, withOrderbook, now),
+      retainMs
+    );
+    state.samples.set(marketId, samples);
+
+    for (const rule of marketRules) {
+      if (!canTrigger(rule, now)) continue;
+      const trigger = evaluateAlertCondition(rule.condition, market, samples, now);
+      if (trigger) firings.push({ ruleId: rule.id, ...trigger, triggeredAt: now });
+    }
+  }
+
+  return recordAlertEvents(firings);
+}
+
+/**
+ * Scan a cluster at current prices
+ * Markets are refetched (a market that fails to load keeps its last snapshot)
+ * and, as in /api/scanner, flags are re-priced against the books when the
+ * config asks for it.
+ */
+export async function scanClusterLive(cluster: MarketCluster, config: ScannerConfig): Promise<ScannerResult> {
+  const markets = await Promise.all(
+    cluster.markets.map(market =>
+      getProviderForMarket(market).getMarket(market.id).catch(() => null).then(fresh => fresh || market)
+    )
+  );
+  const current: MarketCluster = { ...cluster, markets };
+
+  const result = scanCluster(current, config);
+  if (!config.useOrderbooks || result.flags.length === 0) return result;
+
+  const flagged = result.flags.flatMap(f => f.affectedMarkets);
+  return scanCluster(current, config, await getOrderbooksForMarkets(flagged));
+}
+
+/**
+ * Rescan the watched clusters that are due and record the flags they announce
+ */
+export async function runClusterCheck(now: number = Date.now()): Promise<StoredAlertEvent[]> {
+  const due = (await listEnabledWatchedClusters()).filter(
+    watched => !watched.lastScannedAt || now - watched.lastScannedAt >= watched.intervalMinutes * 60 * 1000
+  );
+
+  const events: StoredAlertEvent[] = [];
+  for (const watched of due) {
+    let result: ScannerResult;
+    try {
+      result = await scanClusterLive(watched.cluster, watched.config);
+    } catch (error) {
+      console.warn(`[Alerts] Failed to scan cluster ${watched.id}:`, error);
+      continue;
+    }
+
+    const firings = diffClusterFlags(watched.flags, result.flags, watched.severityThreshold);
+    events.push(...await recordClusterScan(
+      watched.id,
+      { cluster: result.cluster, flags: result.flags.map(toWatchedFlag), scannedAt: now },
+      firings
+    ));
+  }
+
+  return events;
+}
+
+/**
+ * Start the engine once per server process; later calls are no-ops
+ */
+export function ensureAlertEngine(): void {
+  const state = getState();
+  if (state.timer) return;
+
+  const tick = async () => {
+    if (state.running) return; // A slow check never overlaps the next
+    state.running = true;
+    try {
+      const events = [...await runAlertCheck(), ...await runClusterCheck()];
+      if (events.length > 0) console.log(`[Alerts] ${events.length} alert(s) fired`);
+    } catch (error) {
+      console.error('[Alerts] Check failed:', error);
+    } finally {
+      state.running = false;
+    }
+  };
+
+  state.timer = setInterval(tick, ALERT_CHECK_INTERVAL);
+  // Don't keep the process alive just for alerts
+  if (typeof state.timer === 'object' && 'unref' in state.timer) state.timer.unref();
+  tick();
+}
@@ -0,0 +1,173 @@
+/**
+ * Alert Evaluation
+ * Pure checks of alert conditions against a market's recent samples
+ */
+
+import { Market, AlertCondition, AlertRule, AlertSample } from '@/types';
+import { formatPrice, formatCents } from '@/lib/formatters';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export interface AlertTrigger {
+  message: string;
+  value: number;
+}
+
+/**
+ * Oldest sample still inside the window ending at the latest one
+ */
+function windowStart(samples: AlertSample[], windowMinutes: number): AlertSample | undefined {
+  const latest = samples[samples.length - 1];
+  if (!latest) return undefined;
+  const from = latest.timestamp - windowMinutes * MINUTE;
+  const start = samples.find(s => s.timestamp >= from);
+  return start === latest ? undefined : start;
+}
+
+function outcomeName(market: Market, index: number): string {
+  return market.outcomes[index]?.name || `Outcome ${index + 1}`;
+}
+
+/**
+ * Whether a condition holds for the latest sample
+ *
+ * `samples` are oldest first and end with the current state. Level
+ * conditions (price crossing, spread widening) are edge-triggered: they fire
+ * only on the sample that crosses, so a price sitting above a level doesn't
+ * fire on every check.
+ */
+export function evaluateAlertCondition(
+  condition: AlertCondition,
+  market: Market,
+  samples: AlertSample[],
+  now: number = Date.now()
+): AlertTrigger | null {
+  const latest = samples[samples.length - 1];
+  const previous = samples[samples.length - 2];
+  if (!latest) return null;
+
+  switch (condition.type) {
+    case 'price_cross': {
+      const price = latest.prices[condition.outcomeIndex];
+      const before = previous?.prices[condition.outcomeIndex];
+      if (price === undefined || before === undefined) return null;
+
+      const crossed = condition.direction === 'above'
+        ? before < condition.level && price >= condition.level
+        : before > condition.level && price <= condition.level;
+      if (!crossed) return null;
+
+      return {
+        message: `${outcomeName(market, condition.outcomeIndex)} crossed ${condition.direction} ${formatPrice(condition.level)} (now ${formatPrice(price)})`,
+        value: price,
+      };
+    }
+
+    case 'percent_move': {
+      const start = windowStart(samples, condition.windowMinutes);
+      const price = latest.prices[condition.outcomeIndex];
+      const base = start?.prices[condition.outcomeIndex];
+      if (price === undefined || !base) return null;
+
+      const change = ((price - base) / base) * 100;
+      if (Math.abs(change) < condition.percent) return null;
+
+      return {
+        message: `${outcomeName(market, condition.outcomeIndex)} moved ${change > 0 ? '+' : ''}${change.toFixed(1)}% in ${condition.windowMinutes}m (${formatPrice(base)} → ${formatPrice(price)})`,
+        value: change,
+      };
+    }
+
+    case 'volume_spike': {
+      // 24h volume is rolling, so its growth over a short window approximates
+      // what traded in that window
+      const start = windowStart(samples, condition.windowMinutes);
+      if (!start || latest.volume24hr === undefined || start.volume24hr === undefined) return null;
+
+      const traded = latest.volume24hr - start.volume24hr;
+      const elapsed = latest.timestamp - start.timestamp;
+      const expected = latest.volume24hr * (elapsed / DAY);
+      if (traded <= 0 || expected <= 0) return null;
+
+      const multiple = traded / expected;
+      if (multiple < condition.multiplier) return null;
+
+      return {
+        message: `Volume spike: $${Math.round(traded).toLocaleString()} traded in ${Math.round(elapsed / MINUTE)}m, ${multiple.toFixed(1)}x the 24h pace`,
+        value: multiple,
+      };
+    }
+
+    case 'spread_widening': {
+      const spread = latest.spread;
+      if (spread === undefined || spread < condition.maxSpread) return null;
+      if (previous?.spread !== undefined && previous.spread >= condition.maxSpread) return null;
+
+      return {
+        message: `Spread widened to ${formatCents(spread)} (alert at ${formatCents(condition.maxSpread)})`,
+        value: spread,
+      };
+    }
+
+    case 'resolution_approaching': {
+      if (market.closed || market.resolved) return null;
+      const endsAt = new Date(market.endDate).getTime();
+      if (isNaN(endsAt)) return null;
+
+      const hoursLeft = (endsAt - now) / HOUR;
+      if (hoursLeft <= 0 || hoursLeft > condition.hoursBefore) return null;
+
+      return {
+        message: `Resolves in ${hoursLeft < 1 ? `${Math.round(hoursLeft * 60)} minutes` : `${hoursLeft.toFixed(1)} hours`}`,
+        value: hoursLeft,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Short description of a condition, e.g. "Yes crosses above 60.0%"
+ */
+export function describeAlertCondition(condition: AlertCondition, outcomeNames: string[] = []): string {
+  const outcome = (index: number) => outcomeNames[index] || `Outcome ${index + 1}`;
+
+  switch (condition.type) {
+    case 'price_cross':
+      return `${outcome(condition.outcomeIndex)} crosses ${condition.direction} ${formatPrice(condition.level)}`;
+    case 'percent_move':
+      return `${outcome(condition.outcomeIndex)} moves ${condition.percent}% within ${condition.windowMinutes}m`;
+    case 'volume_spike':
+      return `Volume runs ${condition.multiplier}x its 24h pace over ${condition.windowMinutes}m`;
+    case 'spread_widening':
+      return `Spread widens to ${formatCents(condition.maxSpread)}`;
+    case 'resolution_approaching':
+      return `${condition.hoursBefore}h before resolution`;
+    default:
+      return 'Unknown condition';
+  }
+}
+
+/**
+ * Whether a rule may fire now: enabled, outside its cooldown, and for
+ * approaching resolution, not fired before (it only happens once)
+ */
+export function canTrigger(rule: AlertRule, now: number = Date.now()): boolean {
+  if (!rule.enabled) return false;
+  if (rule.lastTriggeredAt === undefined) return true;
+  if (rule.condition.type === 'resolution_approaching') return false;
+  return now - rule.lastTriggeredAt >= rule.cooldownMinutes * MINUTE;
+}
+
+/**
+ * Longest window any condition looks back over, so older samples can be dropped
+ */
+export function getAlertWindowMinutes(condition: AlertCondition): number {
+  return condition.type === 'percent_move' || condition.type === 'volume_spike'
+    ? condition.windowMinutes
+    : 0;
+}
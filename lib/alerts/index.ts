@@ -0,0 +1,5 @@
+export * from './evaluate';
+export * from './clusters';
+export * from './schema';
+export * from './store';
+export * from './engine';
@@ -0,0 +1,77 @@
+/**
+ * Alert Rule Validation
+ * Shared by the create and update routes of alert rules and watched clusters
+ */
+
+import { z } from 'zod';
+import { VENUES } from '@/types';
+
+const probability = z.number().min(0).max(1);
+const windowMinutes = z.number().int().min(1).max(24 * 60);
+
+export const alertConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('price_cross'),
+    outcomeIndex: z.number().int().min(0),
+    level: probability,
+    direction: z.enum(['above', 'below']),
+  }),
+  z.object({
+    type: z.literal('percent_move'),
+    outcomeIndex: z.number().int().min(0),
+    percent: z.number().positive().max(1000),
+    windowMinutes,
+  }),
+  z.object({
+    type: z.literal('volume_spike'),
+    multiplier: z.number().min(1).max(100),
+    windowMinutes,
+  }),
+  z.object({
+    type: z.literal('spread_widening'),
+    maxSpread: probability,
+  }),
+  z.object({
+    type: z.literal('resolution_approaching'),
+    hoursBefore: z.number().positive().max(24 * 30),
+  }),
+]);
+
+export const cooldownSchema = z.number().int().min(1).max(7 * 24 * 60);
+
+export const watchedClusterSchema = z.object({
+  cluster: z.object({
+    name: z.string().trim().min(1).max(100),
+    // Only ids and venues are kept; the server loads the markets itself
+    markets: z.array(z.object({
+      id: z.string().min(1),
+      venue: z.enum(VENUES).optional(),
+    })).min(2).max(10),
+    clusterType: z.enum(['mutual_exclusive', 'threshold', 'correlated', 'custom']),
+    thresholdConfig: z.object({
+      variable: z.string(),
+      thresholds: z.array(z.object({
+        marketId: z.string(),
+        operator: z.enum(['>', '<', '>=', '<=']),
+        value: z.number(),
+      })),
+    }).optional(),
+  }),
+  config: z.object({
+    sumToOneThreshold: z.number().positive().optional(),
+    thresholdMargin: z.number().positive().optional(),
+    minArbitrageProfit: z.number().positive().optional(),
+    enabledRules: z.array(z.enum(['sum_to_one', 'threshold_consistency', 'arbitrage_bundle', 'cross_venue_arbitrage'])).optional(),
+    venueFeeBps: z.record(z.enum(VENUES), z.number().min(0).max(10000)).optional(),
+    useOrderbooks: z.boolean().optional(),
+    targetNotional: z.number().positive().optional(),
+  }).optional(),
+  severityThreshold: z.number().min(0).max(100).optional(),
+  intervalMinutes: z.number().int().min(5).max(24 * 60).optional(),
+});
+
+export const watchedClusterUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  severityThreshold: z.number().min(0).max(100).optional(),
+  intervalMinutes: z.number().int().min(5).max(24 * 60).optional(),
+});
@@ -0,0 +1,322 @@
+/**
+ * Alert Store
+ * Alert rules, watched clusters and their firing history per user, kept in a
+ * JSON file under the data directory so the engine can evaluate every user's rules
+ */
+
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { AlertRule, AlertEvent, AlertCondition, WatchedCluster, WatchedFlag, MarketCluster, ScannerConfig } from '@/types';
+import { getDataDir, readJsonFile, writeJsonFile, createSerialQueue } from '@/lib/storage/jsonFile';
+
+export interface StoredAlertRule extends AlertRule {
+  userId: string;
+}
+
+export interface StoredAlertEvent extends AlertEvent {
+  userId: string;
+}
+
+export interface StoredWatchedCluster extends WatchedCluster {
+  userId: string;
+}
+
+interface AlertData {
+  rules: StoredAlertRule[];
+  clusters: StoredWatchedCluster[];
+  events: StoredAlertEvent[];
+}
+
+// Events kept per user, newest first
+export const MAX_ALERT_EVENTS = 200;
+
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+
+// Watched clusters notify on flags reaching "high" severity by default
+export const DEFAULT_SEVERITY_THRESHOLD = 70;
+
+export const DEFAULT_CLUSTER_INTERVAL_MINUTES = 15;
+
+function alertsFile(): string {
+  return path.join(getDataDir(), 'alerts.json');
+}
+
+const enqueue = createSerialQueue();
+
+function withData<T>(fn: (data: AlertData) => { result: T; changed: boolean }): Promise<T> {
+  const file = alertsFile();
+  return enqueue(file, async () => {
+    const stored = await readJsonFile<Partial<AlertData>>(file);
+    const data: AlertData = {
+      rules: stored?.rules || [],
+      clusters: stored?.clusters || [],
+      events: stored?.events || [],
+    };
+    const { result, changed } = fn(data);
+    if (changed) await writeJsonFile(file, data);
+    return result;
+  });
+}
+
+function newId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+function toRule({ userId: _userId, ...rule }: StoredAlertRule): AlertRule {
+  return rule;
+}
+
+function toEvent({ userId: _userId, ...event }: StoredAlertEvent): AlertEvent {
+  return event;
+}
+
+function toWatchedCluster({ userId: _userId, ...cluster }: StoredWatchedCluster): WatchedCluster {
+  return cluster;
+}
+
+/**
+ * Add events to the history, keeping each user's newest MAX_ALERT_EVENTS
+ */
+function appendEvents(data: AlertData, events: StoredAlertEvent[]): void {
+  data.events = [...events, ...data.events];
+  const counts = new Map<string, number>();
+  data.events = data.events.filter(e => {
+    const count = (counts.get(e.userId) || 0) + 1;
+    counts.set(e.userId, count);
+    return count <= MAX_ALERT_EVENTS;
+  });
+}
+
+export function listAlertRules(userId: string): Promise<AlertRule[]> {
+  return withData(data => ({
+    result: data.rules.filter(r => r.userId === userId).map(toRule),
+    changed: false,
+  }));
+}
+
+/**
+ * Enabled rules of every user, for the engine
+ */
+export function listEnabledAlertRules(): Promise<StoredAlertRule[]> {
+  return withData(data => ({
+    result: data.rules.filter(r => r.enabled),
+    changed: false,
+  }));
+}
+
+export function createAlertRule(
+  userId: string,
+  input: {
+    marketId: string;
+    marketQuestion: string;
+    outcomeNames?: string[];
+    condition: AlertCondition;
+    cooldownMinutes?: number;
+  }
+): Promise<AlertRule> {
+  const rule: StoredAlertRule = {
+    id: newId(),
+    userId,
+    marketId: input.marketId,
+    marketQuestion: input.marketQuestion,
+    outcomeNames: input.outcomeNames,
+    condition: input.condition,
+    enabled: true,
+    cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    createdAt: Date.now(),
+  };
+
+  return withData(data => {
+    data.rules.push(rule);
+    return { result: toRule(rule), changed: true };
+  });
+}
+
+/**
+ * Update one of a user's rules; returns null if they have no such rule
+ */
+export function updateAlertRule(
+  userId: string,
+  id: string,
+  updates: Partial<Pick<AlertRule, 'enabled' | 'cooldownMinutes' | 'condition'>>
+): Promise<AlertRule | null> {
+  return withData(data => {
+    const rule = data.rules.find(r => r.id === id && r.userId === userId);
+    if (!rule) return { result: null, changed: false };
+    Object.assign(rule, updates);
+    // A new condition starts fresh
+    if (updates.condition) delete rule.lastTriggeredAt;
+    return { result: toRule(rule), changed: true };
+  });
+}
+
+export function deleteAlertRule(userId: string, id: string): Promise<boolean> {
+  return withData(data => {
+    const before = data.rules.length;
+    data.rules = data.rules.filter(r => !(r.id === id && r.userId === userId));
+    const deleted = data.rules.length !== before;
+    return { result: deleted, changed: deleted };
+  });
+}
+
+/**
+ * Record rule firings: stamp each rule and append to its owner's history
+ */
+export function recordAlertEvents(
+  firings: { ruleId: string; message: string; value: number; triggeredAt: number }[]
+): Promise<StoredAlertEvent[]> {
+  if (firings.length === 0) return Promise.resolve([]);
+
+  return withData(data => {
+    const events: StoredAlertEvent[] = [];
+    firings.forEach(firing => {
+      const rule = data.rules.find(r => r.id === firing.ruleId);
+      if (!rule) return;
+      rule.lastTriggeredAt = firing.triggeredAt;
+      events.push({
+        id: newId(),
+        userId: rule.userId,
+        ruleId: rule.id,
+        marketId: rule.marketId,
+        marketQuestion: rule.marketQuestion,
+        type: rule.condition.type,
+        message: firing.message,
+        value: firing.value,
+        triggeredAt: firing.triggeredAt,
+      });
+    });
+
+    appendEvents(data, events);
+    return { result: events, changed: events.length > 0 };
+  });
+}
+
+/**
+ * A user's alert history, newest first, optionally only after `since`
+ */
+export function listAlertEvents(userId: string, since?: number): Promise<AlertEvent[]> {
+  return withData(data => ({
+    result: data.events
+      .filter(e => e.userId === userId && (since === undefined || e.triggeredAt > since))
+      .map(toEvent),
+    changed: false,
+  }));
+}
+
+export function clearAlertEvents(userId: string): Promise<void> {
+  return withData(data => {
+    const before = data.events.length;
+    data.events = data.events.filter(e => e.userId !== userId);
+    return { result: undefined, changed: data.events.length !== before };
+  });
+}
+
+export function listWatchedClusters(userId: string): Promise<WatchedCluster[]> {
+  return withData(data => ({
+    result: data.clusters.filter(c => c.userId === userId).map(toWatchedCluster),
+    changed: false,
+  }));
+}
+
+/**
+ * Enabled watched clusters of every user, for the engine
+ */
+export function listEnabledWatchedClusters(): Promise<StoredWatchedCluster[]> {
+  return withData(data => ({
+    result: data.clusters.filter(c => c.enabled),
+    changed: false,
+  }));
+}
+
+/**
+ * Start watching a cluster; `flags` are those of the scan it was saved from,
+ * so only later changes are announced
+ */
+export function createWatchedCluster(
+  userId: string,
+  input: {
+    cluster: MarketCluster;
+    config: ScannerConfig;
+    flags: WatchedFlag[];
+    scannedAt: number;
+    severityThreshold?: number;
+    intervalMinutes?: number;
+  }
+): Promise<WatchedCluster> {
+  const watched: StoredWatchedCluster = {
+    id: newId(),
+    userId,
+    cluster: input.cluster,
+    config: input.config,
+    severityThreshold: input.severityThreshold ?? DEFAULT_SEVERITY_THRESHOLD,
+    intervalMinutes: input.intervalMinutes ?? DEFAULT_CLUSTER_INTERVAL_MINUTES,
+    enabled: true,
+    createdAt: Date.now(),
+    lastScannedAt: input.scannedAt,
+    flags: input.flags,
+  };
+
+  return withData(data => {
+    data.clusters.push(watched);
+    return { result: toWatchedCluster(watched), changed: true };
+  });
+}
+
+/**
+ * Update one of a user's watched clusters; returns null if they have no such cluster
+ */
+export function updateWatchedCluster(
+  userId: string,
+  id: string,
+  updates: Partial<Pick<WatchedCluster, 'enabled' | 'severityThreshold' | 'intervalMinutes'>>
+): Promise<WatchedCluster | null> {
+  return withData(data => {
+    const watched = data.clusters.find(c => c.id === id && c.userId === userId);
+    if (!watched) return { result: null, changed: false };
+    Object.assign(watched, updates);
+    return { result: toWatchedCluster(watched), changed: true };
+  });
+}
+
+export function deleteWatchedCluster(userId: string, id: string): Promise<boolean> {
+  return withData(data => {
+    const before = data.clusters.length;
+    data.clusters = data.clusters.filter(c => !(c.id === id && c.userId === userId));
+    const deleted = data.clusters.length !== before;
+    return { result: deleted, changed: deleted };
+  });
+}
+
+/**
+ * Save a rescan of a watched cluster and record the flags it announced
+ */
+export function recordClusterScan(
+  id: string,
+  scan: { cluster: MarketCluster; flags: WatchedFlag[]; scannedAt: number },
+  firings: { marketId: string; message: string; value: number }[]
+): Promise<StoredAlertEvent[]> {
+  return withData(data => {
+    const watched = data.clusters.find(c => c.id === id);
+    // Deleted while the scan ran
+    if (!watched) return { result: [], changed: false };
+
+    watched.cluster = scan.cluster;
+    watched.flags = scan.flags;
+    watched.lastScannedAt = scan.scannedAt;
+
+    const events: StoredAlertEvent[] = firings.map(firing => ({
+      id: newId(),
+      userId: watched.userId,
+      ruleId: watched.id,
+      marketId: firing.marketId,
+      marketQuestion: watched.cluster.name,
+      type: 'scanner_flag',
+      message: firing.message,
+      value: firing.value,
+      triggeredAt: scan.scannedAt,
+    }));
+    appendEvents(data, events);
+
+    return { result: events, changed: true };
+  });
+}
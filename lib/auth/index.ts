@@ -0,0 +1,3 @@
+export * from './password';
+export * from './store';
+export * from './session';
@@ -0,0 +1,38 @@
+/**
+ * Password Hashing
+ * scrypt with a per-password random salt, stored as `scrypt$<salt>$<hash>`
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+function deriveKey(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt}$${key.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const key = await deriveKey(password, salt);
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,40 @@
+/**
+ * Session Cookies
+ * Helpers for route handlers to read, set and clear the session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, SESSION_TTL, StoredSession, StoredUser } from './store';
+
+export const SESSION_COOKIE = 'pulseforge_session';
+
+/**
+ * Signed-in user for a request, or null
+ */
+export async function getRequestSession(
+  request: NextRequest
+): Promise<{ user: StoredUser; session: StoredSession } | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  return getSession(token);
+}
+
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL / 1000,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Account Store
+ * Users and sessions kept in a JSON file under the data directory, so auth
+ * runs without any outside service
+ */
+
+import path from 'path';
+import { randomBytes, createHash } from 'crypto';
+import { User } from '@/types';
+import { getDataDir, readJsonFile, writeJsonFile, createSerialQueue } from '@/lib/storage/jsonFile';
+
+export interface StoredUser {
+  id: string;
+  email: string; // Lowercased
+  name: string;
+  passwordHash: string;
+  createdAt: number;
+  interests: string[];
+  profileCompleted: boolean;
+}
+
+export interface StoredSession {
+  id: string; // SHA-256 of the cookie token; the token itself is never stored
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface AuthData {
+  users: StoredUser[];
+  sessions: StoredSession[];
+}
+
+export const SESSION_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function authFile(): string {
+  return path.join(getDataDir(), 'auth.json');
+}
+
+const enqueue = createSerialQueue();
+
+function withData<T>(fn: (data: AuthData) => { result: T; changed: boolean }): Promise<T> {
+  const file = authFile();
+  return enqueue(file, async () => {
+    const stored = await readJsonFile<Partial<AuthData>>(file);
+    const data: AuthData = { users: stored?.users || [], sessions: stored?.sessions || [] };
+    const { result, changed } = fn(data);
+    if (changed) await writeJsonFile(file, data);
+    return result;
+  });
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Public view of a stored user
+ */
+export function toPublicUser(user: StoredUser, signedInAt: number = Date.now()): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    signedInAt,
+    interests: user.interests,
+    profileCompleted: user.profileCompleted,
+  };
+}
+
+export function findUserByEmail(email: string): Promise<StoredUser | null> {
+  const normalized = email.trim().toLowerCase();
+  return withData(data => ({
+    result: data.users.find(u => u.email === normalized) || null,
+    changed: false,
+  }));
+}
+
+/**
+ * Accounts by id, skipping ids that no longer exist
+ */
+export function findUsersByIds(ids: string[]): Promise<StoredUser[]> {
+  return withData(data => ({
+    result: data.users.filter(u => ids.includes(u.id)),
+    changed: false,
+  }));
+}
+
+/**
+ * Create an account; returns null when the email is already registered
+ */
+export function createUser(name: string, email: string, passwordHash: string): Promise<StoredUser | null> {
+  const normalized = email.trim().toLowerCase();
+  return withData(data => {
+    if (data.users.some(u => u.email === normalized)) return { result: null, changed: false };
+
+    const user: StoredUser = {
+      id: randomBytes(12).toString('hex'),
+      email: normalized,
+      name: name.trim(),
+      passwordHash,
+      createdAt: Date.now(),
+      interests: [],
+      profileCompleted: false,
+    };
+    data.users.push(user);
+    return { result: user, changed: true };
+  });
+}
+
+export function updateUser(
+  id: string,
+  updates: Partial<Pick<StoredUser, 'name' | 'interests' | 'profileCompleted'>>
+): Promise<StoredUser | null> {
+  return withData(data => {
+    const user = data.users.find(u => u.id === id);
+    if (!user) return { result: null, changed: false };
+    Object.assign(user, updates);
+    return { result: user, changed: true };
+  });
+}
+
+/**
+ * Start a session; returns the token to put in the cookie
+ * Expired sessions are pruned on the way.
+ */
+export function createSession(userId: string): Promise<{ token: string; session: StoredSession }> {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: StoredSession = {
+    id: hashToken(token),
+    userId,
+    createdAt: now,
+    expiresAt: now + SESSION_TTL,
+  };
+
+  return withData(data => {
+    data.sessions = data.sessions.filter(s => s.expiresAt > now);
+    data.sessions.push(session);
+    return { result: { token, session }, changed: true };
+  });
+}
+
+/**
+ * User and session behind a cookie token, or null if missing or expired
+ */
+export function getSession(token: string): Promise<{ user: StoredUser; session: StoredSession } | null> {
+  const id = hashToken(token);
+  return withData(data => {
+    const session = data.sessions.find(s => s.id === id && s.expiresAt > Date.now());
+    const user = session && data.users.find(u => u.id === session.userId);
+    return { result: session && user ? { user, session } : null, changed: false };
+  });
+}
+
+export function deleteSession(token: string): Promise<void> {
+  const id = hashToken(token);
+  return withData(data => {
+    const before = data.sessions.length;
+    data.sessions = data.sessions.filter(s => s.id !== id);
+    return { result: undefined, changed: data.sessions.length !== before };
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Candles
+ * Pure aggregation of trades and recorded prices into OHLCV buckets
+ */
+
+import { Candle, PricePoint } from '@/types';
+
+export interface CandleTrade {
+  timestamp: number;
+  price: number;
+  size: number; // Shares
+}
+
+function bucketStart(timestamp: number, bucketMs: number): number {
+  return Math.floor(timestamp / bucketMs) * bucketMs;
+}
+
+function groupByBucket<T extends { timestamp: number }>(items: T[], bucketMs: number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  [...items]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(item => {
+      const start = bucketStart(item.timestamp, bucketMs);
+      groups.set(start, [...(groups.get(start) || []), item]);
+    });
+  return groups;
+}
+
+/**
+ * OHLCV candles, oldest first
+ *
+ * A bucket's prices come from its trades when it has any, else from the
+ * prices recorded in it; buckets with neither are left out. Volume is only
+ * known from `tradesFrom` on (the oldest time the trade list is complete
+ * for), so earlier buckets have no volume rather than zero.
+ */
+export function buildCandles(
+  points: PricePoint[],
+  trades: CandleTrade[],
+  bucketMs: number,
+  tradesFrom: number = Infinity
+): Candle[] {
+  const tradeBuckets = groupByBucket(trades, bucketMs);
+  const pointBuckets = groupByBucket(points, bucketMs);
+  const starts = Array.from(new Set([...Array.from(tradeBuckets.keys()), ...Array.from(pointBuckets.keys())]))
+    .sort((a, b) => a - b);
+
+  return starts.map(start => {
+    const bucketTrades = tradeBuckets.get(start) || [];
+    const prices = (bucketTrades.length > 0 ? bucketTrades : pointBuckets.get(start) || []).map(p => p.price);
+
+    return {
+      timestamp: start,
+      open: prices[0],
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      close: prices[prices.length - 1],
+      volume: start >= tradesFrom
+        ? bucketTrades.reduce((sum, t) => sum + t.size * t.price, 0)
+        : undefined,
+      trades: bucketTrades.length,
+    };
+  });
+}
@@ -0,0 +1,5 @@
+export * from './series';
+export * from './candles';
+export * from './store';
+export * from './ticks';
+export * from './market';
@@ -0,0 +1,114 @@
+/**
+ * Market History
+ * Serves a market's chart history and candles from the store, backfilling
+ * gaps from the market's provider (the CLOB prices-history endpoint for
+ * Polymarket) when they haven't been tried recently. Gaps that remain are returned as such rather than filled in.
+ */
+
+import { Market, PricePoint, PriceHistory, CandleSeries, TimeRange } from '@/types';
+import { getProviderForMarket } from '@/lib/providers';
+import { singleFlight, cacheKey } from '@/lib/polymarket/cache';
+import { HISTORY_RANGES, findPriceGaps, resamplePricePoints } from './series';
+import { recordMarketSnapshots, getStoredPricePoints, getBackfilledAt, recordBackfill } from './store';
+import { watchPriceTicks } from './ticks';
+import { buildCandles } from './candles';
+
+// A range whose gaps the CLOB couldn't fill isn't asked again sooner than this
+export const BACKFILL_RETRY_MS = 10 * 60 * 1000;
+
+// Most recent trades fetched for candle volume
+const CANDLE_TRADE_LIMIT = 500;
+
+/**
+ * Time span a range covers for a market: it ends when the market closed and
+ * can't start before the market existed
+ */
+export function getHistoryWindow(
+  market: Pick<Market, 'closed' | 'endDate' | 'createdAt' | 'startDate'>,
+  range: TimeRange,
+  now: number = Date.now()
+): { from: number; to: number } {
+  const closedAt = Date.parse(market.endDate);
+  const to = market.closed && !isNaN(closedAt) ? Math.min(now, closedAt) : now;
+
+  const openedAt = Date.parse(market.startDate || market.createdAt);
+  const from = Math.max(to - HISTORY_RANGES[range].durationMs, isNaN(openedAt) ? -Infinity : openedAt);
+
+  return { from: Math.min(from, to), to };
+}
+
+/**
+ * A market's recorded points over a range, after recording its current
+ * prices and backfilling gaps from the CLOB if they are due
+ */
+async function loadPricePoints(market: Market, range: TimeRange, now: number): Promise<{
+  tokenId?: string;
+  points: PricePoint[];
+  from: number;
+  to: number;
+  bucketMs: number;
+}> {
+  const { from, to } = getHistoryWindow(market, range, now);
+  const bucketMs = HISTORY_RANGES[range].fidelityMinutes * 60 * 1000;
+  const tokenId = market.outcomes[0]?.id;
+  if (!tokenId) return { points: [], from, to, bucketMs };
+
+  await recordMarketSnapshots([market], now);
+  if (!market.closed) {
+    watchPriceTicks(market.outcomes.map(o => o.id).filter(Boolean), now, getProviderForMarket(market).getStream());
+  }
+
+  let points = await getStoredPricePoints(tokenId, from, to);
+
+  if (findPriceGaps(points, from, to, bucketMs).length > 0) {
+    const backfilledAt = await getBackfilledAt(tokenId, range);
+    if (backfilledAt === undefined || now - backfilledAt >= BACKFILL_RETRY_MS) {
+      let fetched: PricePoint[] = [];
+      try {
+        fetched = await getProviderForMarket(market)
+          .getPriceHistory(tokenId, from, to, HISTORY_RANGES[range].fidelityMinutes);
+      } catch (error) {
+        console.warn(`[History] Backfill failed for market ${market.id}:`, error);
+      }
+      await recordBackfill(tokenId, range, fetched, now);
+      points = await getStoredPricePoints(tokenId, from, to);
+    }
+  }
+
+  return { tokenId, points, from, to, bucketMs };
+}
+
+/**
+ * Recorded history of a market's first outcome over a range
+ */
+export function getMarketHistory(market: Market, range: TimeRange, now: number = Date.now()): Promise<PriceHistory> {
+  return singleFlight(cacheKey('market-history', market.id, range), async () => {
+    const { points, from, to, bucketMs } = await loadPricePoints(market, range, now);
+    const history = resamplePricePoints(points, bucketMs);
+    return { history, gaps: findPriceGaps(history, from, to, bucketMs), from, to };
+  });
+}
+
+/**
+ * OHLCV candles of a market's first outcome over a range, one per range
+ * fidelity bucket, from its recent trades and recorded prices
+ */
+export function getMarketCandles(market: Market, range: TimeRange, now: number = Date.now()): Promise<CandleSeries> {
+  return singleFlight(cacheKey('market-candles', market.id, range), async () => {
+    const { tokenId, points, from, to, bucketMs } = await loadPricePoints(market, range, now);
+    const bucketMinutes = HISTORY_RANGES[range].fidelityMinutes;
+    if (!tokenId) return { candles: [], gaps: findPriceGaps([], from, to, bucketMs), from, to, bucketMinutes };
+
+    // Null when the trades couldn't be loaded, so no bucket's volume is known
+    const trades = await getProviderForMarket(market).getRecentTrades(tokenId, CANDLE_TRADE_LIMIT);
+    const inWindow = (trades || []).filter(t => t.timestamp >= from && t.timestamp <= to && t.size > 0);
+    // A full page may not reach back to the window start; volume is only
+    // complete from the oldest trade in it
+    const tradesFrom = !trades
+      ? Infinity
+      : trades.length < CANDLE_TRADE_LIMIT ? -Infinity : Math.min(...trades.map(t => t.timestamp));
+
+    const candles = buildCandles(points, inWindow, bucketMs, tradesFrom);
+    return { candles, gaps: findPriceGaps(candles, from, to, bucketMs), from, to, bucketMinutes };
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Price Series
+ * Pure merging, compaction, resampling and gap detection of recorded prices
+ */
+
+import { PricePoint, PriceHistoryGap, TimeRange } from '@/types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Window and bucket size each chart range is served at
+export const HISTORY_RANGES: Record<TimeRange, { durationMs: number; fidelityMinutes: number }> = {
+  '1H': { durationMs: HOUR, fidelityMinutes: 1 },
+  '24H': { durationMs: DAY, fidelityMinutes: 15 },
+  '7D': { durationMs: 7 * DAY, fidelityMinutes: 60 },
+  '30D': { durationMs: 30 * DAY, fidelityMinutes: 360 },
+  ALL: { durationMs: 365 * DAY, fidelityMinutes: 1440 },
+};
+
+// Closest spacing kept for points of each age, so a series stays bounded
+// while every range keeps at least its own fidelity
+const RETENTION_TIERS: { maxAgeMs: number; spacingMs: number }[] = [
+  { maxAgeMs: DAY, spacingMs: MINUTE },
+  { maxAgeMs: 7 * DAY, spacingMs: 15 * MINUTE },
+  { maxAgeMs: 30 * DAY, spacingMs: HOUR },
+  { maxAgeMs: Infinity, spacingMs: DAY },
+];
+
+// A stretch this many buckets long without a point counts as a gap
+const GAP_BUCKETS = 3;
+
+/**
+ * Merge two series by timestamp, oldest first; `incoming` wins on equal timestamps
+ */
+export function mergePricePoints(existing: PricePoint[], incoming: PricePoint[]): PricePoint[] {
+  const byTime = new Map<number, PricePoint>();
+  existing.forEach(point => byTime.set(point.timestamp, point));
+  incoming.forEach(point => byTime.set(point.timestamp, point));
+  return Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Thin a series to its retention tiers, keeping the latest point of each
+ * tier bucket
+ */
+export function compactPricePoints(points: PricePoint[], now: number = Date.now()): PricePoint[] {
+  const kept = new Map<string, PricePoint>();
+
+  points.forEach(point => {
+    const age = now - point.timestamp;
+    const tier = RETENTION_TIERS.findIndex(t => age <= t.maxAgeMs);
+    const bucket = Math.floor(point.timestamp / RETENTION_TIERS[tier].spacingMs);
+    const key = `${tier}:${bucket}`;
+    const current = kept.get(key);
+    if (!current || point.timestamp >= current.timestamp) kept.set(key, point);
+  });
+
+  return Array.from(kept.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * One point per bucket: the latest price recorded in it
+ */
+export function resamplePricePoints(points: PricePoint[], bucketMs: number): PricePoint[] {
+  const byBucket = new Map<number, PricePoint>();
+  points.forEach(point => {
+    const bucket = Math.floor(point.timestamp / bucketMs);
+    const current = byBucket.get(bucket);
+    if (!current || point.timestamp >= current.timestamp) byBucket.set(bucket, point);
+  });
+  return Array.from(byBucket.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Spans of [from, to] without a point for at least GAP_BUCKETS buckets,
+ * including a missing start or end of the window
+ *
+ * `points` must be oldest first and within the window.
+ */
+export function findPriceGaps(
+  points: { timestamp: number }[],
+  from: number,
+  to: number,
+  bucketMs: number
+): PriceHistoryGap[] {
+  const maxSpacing = bucketMs * GAP_BUCKETS;
+  const gaps: PriceHistoryGap[] = [];
+
+  if (points.length === 0) {
+    return to > from ? [{ from, to }] : [];
+  }
+
+  const edges = [from, ...points.map(p => p.timestamp), to];
+  for (let i = 1; i < edges.length; i++) {
+    if (edges[i] - edges[i - 1] > maxSpacing) {
+      gaps.push({ from: edges[i - 1], to: edges[i] });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Whether a price is a usable probability
+ */
+export function isValidPrice(price: number): boolean {
+  return Number.isFinite(price) && price >= 0 && price <= 1;
+}
@@ -0,0 +1,162 @@
+/**
+ * Price History Store
+ * Recorded prices per outcome token, one JSON file each under the data
+ * directory. Points come from market snapshots, live price ticks and CLOB
+ * backfills; nothing here is interpolated or synthesized.
+ */
+
+import path from 'path';
+import { Market, PricePoint, TimeRange } from '@/types';
+import { getDataDir, readJsonFile, writeJsonFile, createSerialQueue } from '@/lib/storage/jsonFile';
+import { mergePricePoints, compactPricePoints, isValidPrice } from './series';
+
+interface TokenHistoryData {
+  points: PricePoint[]; // Oldest first
+  backfilledAt: Partial<Record<TimeRange, number>>; // Last CLOB backfill per range
+}
+
+// Snapshots and ticks closer together than this are skipped per token
+export const RECORD_INTERVAL_MS = 60 * 1000;
+
+// Latest recorded timestamp per token, to throttle without reading the file
+const globalForHistory = globalThis as typeof globalThis & {
+  __pulseforgeHistoryRecorded?: Map<string, number>;
+  __pulseforgeSnapshotRun?: Promise<void>;
+};
+
+function lastRecorded(): Map<string, number> {
+  if (!globalForHistory.__pulseforgeHistoryRecorded) {
+    globalForHistory.__pulseforgeHistoryRecorded = new Map();
+  }
+  return globalForHistory.__pulseforgeHistoryRecorded;
+}
+
+// CLOB token ids are numeric strings; anything else never touches the disk
+function isValidTokenId(tokenId: string): boolean {
+  return /^[\w-]{1,100}$/.test(tokenId);
+}
+
+function historyFile(tokenId: string): string {
+  return path.join(getDataDir(), 'history', `${tokenId}.json`);
+}
+
+const enqueue = createSerialQueue();
+
+function withData<T>(tokenId: string, fn: (data: TokenHistoryData) => { result: T; changed: boolean }): Promise<T> {
+  const file = historyFile(tokenId);
+  return enqueue(file, async () => {
+    const stored = await readJsonFile<Partial<TokenHistoryData>>(file);
+    const data: TokenHistoryData = {
+      points: stored?.points || [],
+      backfilledAt: stored?.backfilledAt || {},
+    };
+    const { result, changed } = fn(data);
+    if (changed) await writeJsonFile(file, data);
+    return result;
+  });
+}
+
+/**
+ * Add points to a token's series, merged by timestamp and compacted
+ */
+export function recordPricePoints(tokenId: string, points: PricePoint[], now: number = Date.now()): Promise<void> {
+  const valid = points.filter(p => isValidPrice(p.price) && Number.isFinite(p.timestamp) && p.timestamp <= now);
+  if (!isValidTokenId(tokenId) || valid.length === 0) return Promise.resolve();
+
+  return withData(tokenId, data => {
+    data.points = compactPricePoints(mergePricePoints(data.points, valid), now);
+    return { result: undefined, changed: true };
+  });
+}
+
+/**
+ * Record a single observed price, unless the token was recorded within
+ * RECORD_INTERVAL_MS of it
+ */
+export function recordPriceTick(tokenId: string, price: number, timestamp: number = Date.now()): Promise<void> {
+  const recorded = lastRecorded();
+  const last = recorded.get(tokenId);
+  if (last !== undefined && Math.abs(timestamp - last) < RECORD_INTERVAL_MS) return Promise.resolve();
+  if (!isValidTokenId(tokenId) || !isValidPrice(price)) return Promise.resolve();
+
+  recorded.set(tokenId, timestamp);
+  return recordPricePoints(tokenId, [{ timestamp, price }]);
+}
+
+/**
+ * Record every outcome price of fetched markets as of `fetchedAt`
+ * Cached responses repeat their original timestamp, so they add nothing new.
+ */
+export async function recordMarketSnapshots(markets: Market[], fetchedAt: number = Date.now()): Promise<void> {
+  const ticks = markets.flatMap(market =>
+    market.closed ? [] : market.outcomes.filter(o => o.id).map(o => ({ tokenId: o.id, price: o.price }))
+  );
+
+  for (const tick of ticks) {
+    try {
+      await recordPriceTick(tick.tokenId, tick.price, fetchedAt);
+    } catch (error) {
+      console.warn(`[History] Failed to record ${tick.tokenId}:`, error);
+    }
+  }
+}
+
+/**
+ * Record snapshots off the request path, one run at a time
+ *
+ * Calls made while a run is in flight are skipped rather than queued: the
+ * next listing request snapshots newer prices anyway, so piling up writes
+ * behind a slow disk gains nothing. Returns the run, or null when skipped.
+ */
+export function queueMarketSnapshots(markets: Market[], fetchedAt: number = Date.now()): Promise<void> | null {
+  if (globalForHistory.__pulseforgeSnapshotRun) return null;
+
+  const run = enqueue('snapshots', () => recordMarketSnapshots(markets, fetchedAt))
+    .catch(error => {
+      console.warn('[History] Failed to record market snapshots:', error);
+    })
+    .finally(() => {
+      globalForHistory.__pulseforgeSnapshotRun = undefined;
+    });
+  globalForHistory.__pulseforgeSnapshotRun = run;
+  return run;
+}
+
+/**
+ * A token's recorded points within [from, to], oldest first
+ */
+export function getStoredPricePoints(tokenId: string, from: number, to: number): Promise<PricePoint[]> {
+  if (!isValidTokenId(tokenId)) return Promise.resolve([]);
+  return withData(tokenId, data => ({
+    result: data.points.filter(p => p.timestamp >= from && p.timestamp <= to),
+    changed: false,
+  }));
+}
+
+/**
+ * When a range of the token was last backfilled from the CLOB, if ever
+ */
+export function getBackfilledAt(tokenId: string, range: TimeRange): Promise<number | undefined> {
+  if (!isValidTokenId(tokenId)) return Promise.resolve(undefined);
+  return withData(tokenId, data => ({ result: data.backfilledAt[range], changed: false }));
+}
+
+/**
+ * Save the result of a CLOB backfill, including an empty one, so the same
+ * range isn't refetched on every request
+ */
+export function recordBackfill(
+  tokenId: string,
+  range: TimeRange,
+  points: PricePoint[],
+  now: number = Date.now()
+): Promise<void> {
+  if (!isValidTokenId(tokenId)) return Promise.resolve();
+  const valid = points.filter(p => isValidPrice(p.price) && Number.isFinite(p.timestamp) && p.timestamp <= now);
+
+  return withData(tokenId, data => {
+    if (valid.length > 0) data.points = compactPricePoints(mergePricePoints(data.points, valid), now);
+    data.backfilledAt[range] = now;
+    return { result: undefined, changed: true };
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Price Tick Recorder
+ * Subscribes to live price ticks for tokens whose history is being viewed
+ * and records them. Needs a provider with a live stream: Polymarket on a
+ * runtime with a global WebSocket (Node 22+) or a replayed recording.
+ * Elsewhere snapshots and backfills are the only sources.
+ */
+
+import type { StreamUpstream } from '@/lib/stream/hub';
+import { recordPriceTick } from './store';
+
+// Tokens nobody has viewed for this long are unsubscribed
+const WATCH_TTL_MS = 30 * 60 * 1000;
+
+const MAX_WATCHED_TOKENS = 200;
+
+interface WatchedToken {
+  unsubscribe: () => void;
+  lastRequestedAt: number;
+}
+
+// Kept on globalThis so dev-server reloads don't subscribe twice
+const globalForTicks = globalThis as typeof globalThis & { __pulseforgeTicks?: Map<string, WatchedToken> };
+
+function getWatched(): Map<string, WatchedToken> {
+  if (!globalForTicks.__pulseforgeTicks) globalForTicks.__pulseforgeTicks = new Map();
+  return globalForTicks.__pulseforgeTicks;
+}
+
+/**
+ * Record live ticks for these tokens from `stream` for the next WATCH_TTL_MS
+ */
+export function watchPriceTicks(tokenIds: string[], now: number, stream: StreamUpstream | null): void {
+  if (!stream) return;
+  const watched = getWatched();
+
+  watched.forEach((token, tokenId) => {
+    if (now - token.lastRequestedAt > WATCH_TTL_MS) {
+      token.unsubscribe();
+      watched.delete(tokenId);
+    }
+  });
+
+  tokenIds.forEach(tokenId => {
+    const existing = watched.get(tokenId);
+    if (existing) {
+      existing.lastRequestedAt = now;
+      return;
+    }
+    if (watched.size >= MAX_WATCHED_TOKENS) return;
+
+    const unsubscribe = stream.subscribePrice(tokenId, message => {
+      if (message.type !== 'price') return;
+      recordPriceTick(tokenId, parseFloat(message.data.price), message.data.timestamp).catch(error => {
+        console.warn(`[History] Failed to record tick for ${tokenId}:`, error);
+      });
+    });
+    watched.set(tokenId, { unsubscribe, lastRequestedAt: now });
+  });
+}
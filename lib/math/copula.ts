@@ -0,0 +1,169 @@
+/**
+ * Gaussian Copula Sampling
+ * Draws joint market outcomes that respect pairwise correlations
+ *
+ * Each market gets a latent standard normal driver. Drivers are correlated
+ * through the Cholesky factor of the correlation matrix, then mapped onto the
+ * market's outcomes so every marginal still matches its market price.
+ */
+
+import { MarketCorrelation } from '@/types';
+
+/**
+ * Seeded uniform random generator (mulberry32), so analyses are repeatable
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Symmetric correlation matrix for the given markets (identity where unset)
+ */
+export function buildCorrelationMatrix(
+  marketIds: string[],
+  correlations: MarketCorrelation[] = []
+): number[][] {
+  const index = new Map(marketIds.map((id, i) => [id, i]));
+  const matrix: number[][] = marketIds.map((_, i) => marketIds.map((__, j) => (i === j ? 1 : 0)));
+
+  correlations.forEach(({ marketIdA, marketIdB, correlation }) => {
+    const i = index.get(marketIdA);
+    const j = index.get(marketIdB);
+    if (i === undefined || j === undefined || i === j) return;
+    const rho = Math.max(-1, Math.min(1, correlation));
+    matrix[i][j] = rho;
+    matrix[j][i] = rho;
+  });
+
+  return matrix;
+}
+
+/**
+ * Whether any pair of the given markets has a non-zero correlation
+ */
+export function hasCorrelation(
+  marketIds: string[],
+  correlations: MarketCorrelation[] = []
+): boolean {
+  const ids = new Set(marketIds);
+  return correlations.some(
+    c => c.correlation !== 0 && c.marketIdA !== c.marketIdB && ids.has(c.marketIdA) && ids.has(c.marketIdB)
+  );
+}
+
+/**
+ * Lower-triangular Cholesky factor, or null if the matrix isn't positive definite
+ */
+export function choleskyDecompose(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Cholesky factor of the matrix, shrinking it toward the identity until valid
+ *
+ * Hand-edited pairwise correlations are often jointly inconsistent (e.g. A~B
+ * and B~C strongly positive but A~C strongly negative); shrinking keeps the
+ * user's signs and relative strengths while making the matrix usable.
+ */
+export function getCholeskyFactor(matrix: number[][]): number[][] {
+  for (let shrink = 1; shrink >= 0; shrink -= 0.05) {
+    const blended = matrix.map((row, i) => row.map((v, j) => (i === j ? 1 : v * shrink)));
+    const factor = choleskyDecompose(blended);
+    if (factor) return factor;
+  }
+  return matrix.map((_, i) => matrix.map((__, j) => (i === j ? 1 : 0)));
+}
+
+/**
+ * Draw correlated joint outcomes
+ *
+ * @param outcomeProbs - Outcome probabilities for each market (each sums to 1)
+ * @param correlation - Correlation matrix between the markets' drivers
+ * @param visit - Called with the winning outcome index of every market per draw
+ */
+export function sampleJointOutcomes(
+  outcomeProbs: number[][],
+  correlation: number[][],
+  samples: number,
+  visit: (outcomes: number[]) => void,
+  seed: number = 1
+): void {
+  const n = outcomeProbs.length;
+  const factor = getCholeskyFactor(correlation);
+  const random = createRandom(seed);
+  const cumulative = outcomeProbs.map(probs => {
+    let total = 0;
+    return probs.map(p => (total += p));
+  });
+
+  // Box-Muller produces normals in pairs
+  let spare: number | null = null;
+  const nextNormal = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u1 = Math.max(random(), 1e-12);
+    const u2 = random();
+    const radius = Math.sqrt(-2 * Math.log(u1));
+    spare = radius * Math.sin(2 * Math.PI * u2);
+    return radius * Math.cos(2 * Math.PI * u2);
+  };
+
+  const independent = new Array<number>(n);
+  const outcomes = new Array<number>(n);
+
+  for (let s = 0; s < samples; s++) {
+    for (let i = 0; i < n; i++) independent[i] = nextNormal();
+
+    for (let i = 0; i < n; i++) {
+      let z = 0;
+      for (let k = 0; k <= i; k++) z += factor[i][k] * independent[k];
+
+      // Low draws map to the first outcome, so positive correlation pairs first outcomes
+      const u = normalCdf(z);
+      const buckets = cumulative[i];
+      let outcome = buckets.findIndex(c => u < c);
+      if (outcome < 0) outcome = buckets.length - 1;
+      outcomes[i] = outcome;
+    }
+
+    visit(outcomes);
+  }
+}
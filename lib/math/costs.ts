@@ -0,0 +1,53 @@
+/**
+ * Trading Cost Model
+ * Turns a stake into what actually gets filled after fees, gas and slippage
+ */
+
+import { CostModel, DEFAULT_COST_MODEL, OrderbookLevel, PositionFill, StrategyCosts } from '@/types';
+import { calculateFillForNotional } from './orderbook';
+
+/**
+ * Fill a stake of `stake` dollars for a token quoted at `sharePrice`
+ *
+ * With ask levels (and slippage enabled) the stake walks the book; any part
+ * the book cannot absorb is assumed to fill at the worst level seen.
+ * Without levels every share fills at `sharePrice`.
+ */
+export function calculateFill(
+  stake: number,
+  sharePrice: number,
+  costModel: CostModel = DEFAULT_COST_MODEL,
+  askLevels?: OrderbookLevel[] | null
+): PositionFill {
+  let shares = sharePrice > 0 ? stake / sharePrice : 0;
+
+  if (costModel.useOrderbookSlippage && askLevels && askLevels.length > 0 && stake > 0) {
+    const walk = calculateFillForNotional(askLevels, stake);
+    const worstPrice = askLevels[askLevels.length - 1].price;
+    const unfilled = stake - walk.spent;
+    shares = walk.shares + (unfilled > 1e-9 && worstPrice > 0 ? unfilled / worstPrice : 0);
+  }
+
+  const fees = stake * (costModel.takerFeeBps / 10000);
+  const gas = stake > 0 ? costModel.gasPerTrade : 0;
+
+  return {
+    shares,
+    fillPrice: shares > 0 ? stake / shares : sharePrice,
+    fees,
+    gas,
+    slippage: stake - shares * sharePrice,
+    totalCost: stake + fees + gas,
+  };
+}
+
+/**
+ * Total trading costs across a set of fills
+ */
+export function summarizeCosts(fills: PositionFill[]): StrategyCosts {
+  const fees = fills.reduce((sum, f) => sum + f.fees, 0);
+  const gas = fills.reduce((sum, f) => sum + f.gas, 0);
+  const slippage = fills.reduce((sum, f) => sum + f.slippage, 0);
+
+  return { fees, gas, slippage, total: fees + gas + slippage };
+}
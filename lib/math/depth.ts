@@ -0,0 +1,109 @@
+/**
+ * Orderbook Depth
+ * Keeps a book current from incremental level updates and summarizes it for
+ * depth charts and price ladders
+ */
+
+import { Orderbook, OrderbookLevel } from '@/types';
+
+// Level of a book with the size available at this price or better
+export interface CumulativeLevel extends OrderbookLevel {
+  total: number;
+}
+
+// One step of a depth chart; the other side is null so each area stays contiguous
+export interface DepthPoint {
+  price: number;
+  bidDepth: number | null;
+  askDepth: number | null;
+}
+
+export interface BookSummary {
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  mid: number | null;
+}
+
+/**
+ * Parse CLOB string levels, dropping any that aren't valid prices or sizes
+ */
+export function parseOrderbookLevels(levels: { price: string; size: string }[]): OrderbookLevel[] {
+  return levels
+    .map(l => ({ price: parseFloat(l.price), size: parseFloat(l.size) }))
+    .filter(l => !isNaN(l.price) && !isNaN(l.size) && l.price >= 0 && l.price <= 1 && l.size >= 0);
+}
+
+/**
+ * Apply level updates to one side of a book
+ *
+ * Each update replaces the size at its price; a size of 0 removes the level.
+ * Bids stay sorted highest first and asks lowest first.
+ */
+export function applyLevelUpdates(
+  levels: OrderbookLevel[],
+  updates: OrderbookLevel[],
+  side: 'bids' | 'asks'
+): OrderbookLevel[] {
+  if (updates.length === 0) return levels;
+
+  const byPrice = new Map(levels.map(l => [l.price, l.size]));
+  updates.forEach(u => {
+    if (u.size > 0) byPrice.set(u.price, u.size);
+    else byPrice.delete(u.price);
+  });
+
+  return Array.from(byPrice, ([price, size]) => ({ price, size }))
+    .sort((a, b) => (side === 'bids' ? b.price - a.price : a.price - b.price));
+}
+
+export function applyOrderbookUpdate(
+  book: Orderbook,
+  update: { bids: OrderbookLevel[]; asks: OrderbookLevel[] }
+): Orderbook {
+  return {
+    bids: applyLevelUpdates(book.bids, update.bids, 'bids'),
+    asks: applyLevelUpdates(book.asks, update.asks, 'asks'),
+  };
+}
+
+/**
+ * Best bid and ask with the spread between them and their midpoint
+ */
+export function summarizeBook(book: Orderbook): BookSummary {
+  const bestBid = book.bids[0]?.price ?? null;
+  const bestAsk = book.asks[0]?.price ?? null;
+  const bothSides = bestBid !== null && bestAsk !== null;
+
+  return {
+    bestBid,
+    bestAsk,
+    spread: bothSides ? bestAsk - bestBid : null,
+    mid: bothSides ? (bestAsk + bestBid) / 2 : null,
+  };
+}
+
+/**
+ * Running size from the best level outward
+ */
+export function cumulativeLevels(levels: OrderbookLevel[]): CumulativeLevel[] {
+  let total = 0;
+  return levels.map(l => {
+    total += l.size;
+    return { ...l, total };
+  });
+}
+
+/**
+ * Cumulative depth on both sides of the book, ordered by price, using the
+ * best `maxLevels` levels of each side
+ */
+export function buildDepthCurve(book: Orderbook, maxLevels: number = 50): DepthPoint[] {
+  const bids = cumulativeLevels(book.bids.slice(0, maxLevels))
+    .map(l => ({ price: l.price, bidDepth: l.total, askDepth: null }))
+    .reverse();
+  const asks = cumulativeLevels(book.asks.slice(0, maxLevels))
+    .map(l => ({ price: l.price, bidDepth: null, askDepth: l.total }));
+
+  return [...bids, ...asks];
+}
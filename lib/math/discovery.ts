@@ -0,0 +1,171 @@
+/**
+ * Automatic Cluster Discovery
+ * Groups the market universe into clusters and scans them for inefficiencies
+ */
+
+import {
+  Market,
+  ScannerConfig,
+  DEFAULT_SCANNER_CONFIG,
+  ClusterSource,
+  DiscoveredCluster,
+  DiscoveredFlag,
+  DiscoveryConfig,
+  DEFAULT_DISCOVERY_CONFIG,
+  DiscoveryResult,
+} from '@/types';
+import { scanCluster, detectClusterType, extractThresholds } from './scanner';
+
+/**
+ * Question template with every number replaced, so "BTC above $80k in June?"
+ * and "BTC above $100k in June?" share the same key
+ */
+function thresholdTemplate(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/\$?\d+[,.]?\d*[kKmMbB]?/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build a cluster from a group of markets
+ */
+function buildCluster(
+  source: ClusterSource,
+  key: string,
+  name: string,
+  markets: Market[]
+): DiscoveredCluster {
+  const thresholds = extractThresholds(markets);
+  const clusterType = source === 'threshold' ? 'threshold' : detectClusterType(markets);
+
+  return {
+    id: `discover-${source}-${key}`,
+    name,
+    markets,
+    clusterType,
+    thresholdConfig: thresholds.length >= 2 ? {
+      variable: 'Auto-detected',
+      thresholds: thresholds.map(t => ({
+        marketId: t.marketId,
+        operator: t.operator,
+        value: t.value,
+      })),
+    } : undefined,
+    createdAt: Date.now(),
+    source,
+  };
+}
+
+/**
+ * Group markets by a key, ignoring markets without one
+ */
+function groupBy(markets: Market[], getKeys: (m: Market) => string[]): Map<string, Market[]> {
+  const groups = new Map<string, Market[]>();
+  markets.forEach(market => {
+    getKeys(market).forEach(key => {
+      groups.set(key, [...(groups.get(key) || []), market]);
+    });
+  });
+  return groups;
+}
+
+/**
+ * Discover clusters across the market universe
+ *
+ * - event: markets sharing an eventSlug (siblings in one Polymarket event)
+ * - tag: markets sharing a tag, skipped when the tag is too broad
+ * - threshold: markets whose questions only differ by a numeric threshold
+ */
+export function discoverClusters(
+  markets: Market[],
+  config: DiscoveryConfig = DEFAULT_DISCOVERY_CONFIG
+): DiscoveredCluster[] {
+  const { sources, minClusterSize, maxClusterSize } = config;
+  const open = markets.filter(m => m.active && !m.closed);
+  const clusters: DiscoveredCluster[] = [];
+  const seen = new Set<string>();
+
+  const add = (source: ClusterSource, key: string, name: string, group: Market[]) => {
+    if (group.length < minClusterSize || group.length > maxClusterSize) return;
+
+    // Skip groups already covered by an identical cluster from another source
+    const signature = group.map(m => m.id).sort().join('|');
+    if (seen.has(signature)) return;
+    seen.add(signature);
+
+    clusters.push(buildCluster(source, key, name, group));
+  };
+
+  if (sources.includes('event')) {
+    groupBy(open, m => (m.eventSlug ? [m.eventSlug] : [])).forEach((group, slug) => {
+      add('event', slug, slug.replace(/-/g, ' '), group);
+    });
+  }
+
+  if (sources.includes('threshold')) {
+    const withThresholds = new Set(extractThresholds(open).map(t => t.marketId));
+    groupBy(
+      open.filter(m => withThresholds.has(m.id)),
+      m => [thresholdTemplate(m.question)]
+    ).forEach((group, template) => {
+      add('threshold', template.replace(/[^a-z0-9#]+/g, '-'), `Thresholds: ${group[0].question}`, group);
+    });
+  }
+
+  if (sources.includes('tag')) {
+    groupBy(open, m => m.tags || []).forEach((group, tag) => {
+      add('tag', tag.toLowerCase().replace(/\s+/g, '-'), `Tag: ${tag}`, group);
+    });
+  }
+
+  return clusters;
+}
+
+/**
+ * Discover clusters, scan each one, and return a ranked feed of flags
+ *
+ * The same flag can surface from several clusters (e.g. a single-market
+ * arbitrage bundle), so flags are deduplicated by rule and affected markets.
+ */
+export function discoverFlags(
+  markets: Market[],
+  scannerConfig: ScannerConfig = DEFAULT_SCANNER_CONFIG,
+  discoveryConfig: DiscoveryConfig = DEFAULT_DISCOVERY_CONFIG
+): DiscoveryResult {
+  const startTime = Date.now();
+  const clusters = discoverClusters(markets, discoveryConfig);
+  const flagsByKey = new Map<string, DiscoveredFlag>();
+
+  clusters.forEach(cluster => {
+    const { flags } = scanCluster(cluster, scannerConfig);
+
+    flags.forEach(flag => {
+      const key = `${flag.ruleType}:${flag.affectedMarkets.map(m => m.id).sort().join('|')}`;
+      const rankScore = flag.severityScore * (flag.confidence / 100);
+      const existing = flagsByKey.get(key);
+
+      if (!existing || existing.rankScore < rankScore) {
+        flagsByKey.set(key, {
+          ...flag,
+          clusterId: cluster.id,
+          clusterName: cluster.name,
+          clusterSource: cluster.source,
+          rankScore,
+        });
+      }
+    });
+  });
+
+  const flags = Array.from(flagsByKey.values()).sort((a, b) => b.rankScore - a.rankScore);
+  const marketsScanned = new Set(clusters.flatMap(c => c.markets.map(m => m.id))).size;
+
+  return {
+    flags,
+    clustersScanned: clusters.length,
+    marketsScanned,
+    discoveredAt: Date.now(),
+    scanDuration: Date.now() - startTime,
+  };
+}
@@ -1,3 +1,12 @@
 export * from './payoff';
 export * from './discounting';
 export * from './scanner';
+export * from './discovery';
+export * from './orderbook';
+export * from './costs';
+export * from './copula';
+export * from './risk';
+export * from './pnl';
+export * from './indicators';
+export * from './depth';
+export * from './matching';
@@ -0,0 +1,206 @@
+/**
+ * Technical Indicators
+ * Moving averages, bands, RSI and realized volatility over probability
+ * series. Outputs line up with their inputs, with null where the window
+ * isn't full yet.
+ */
+
+import { PricePoint, PriceHistoryGap, IndicatorPoint } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Keeps log-odds finite at 0% and 100%
+const LOGIT_EPSILON = 1e-4;
+
+export const DEFAULT_INDICATOR_PERIODS = {
+  sma: 20,
+  ema: 10,
+  bands: 20,
+  rsi: 14,
+  volatility: 20,
+};
+
+function logit(p: number): number {
+  const clamped = Math.min(1 - LOGIT_EPSILON, Math.max(LOGIT_EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+export function simpleMovingAverage(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * EMA seeded with the SMA of the first `period` values
+ */
+export function exponentialMovingAverage(values: number[], period: number): (number | null)[] {
+  const alpha = 2 / (period + 1);
+  let ema: number | null = null;
+
+  return values.map((value, i) => {
+    if (i < period - 1) return null;
+    ema = ema === null
+      ? values.slice(0, period).reduce((sum, v) => sum + v, 0) / period
+      : alpha * value + (1 - alpha) * ema;
+    return ema;
+  });
+}
+
+/**
+ * Bollinger-style bands: mean ± `width` standard deviations over `period`
+ *
+ * Computed on log-odds and mapped back, so bands stay inside 0-100% and
+ * widen less for prices pinned near the edges.
+ */
+export function bollingerBands(
+  values: number[],
+  period: number = DEFAULT_INDICATOR_PERIODS.bands,
+  width: number = 2
+): ({ middle: number; upper: number; lower: number } | null)[] {
+  const logits = values.map(logit);
+
+  return logits.map((_, i) => {
+    if (i < period - 1) return null;
+    const window = logits.slice(i - period + 1, i + 1);
+    const mean = window.reduce((sum, v) => sum + v, 0) / period;
+    const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance);
+    return {
+      middle: sigmoid(mean),
+      upper: sigmoid(mean + width * deviation),
+      lower: sigmoid(mean - width * deviation),
+    };
+  });
+}
+
+/**
+ * RSI (0-100) with Wilder's smoothing; 100 when the window only rose, 50
+ * when it didn't move
+ */
+export function relativeStrengthIndex(
+  values: number[],
+  period: number = DEFAULT_INDICATOR_PERIODS.rsi
+): (number | null)[] {
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  const rsi = () => {
+    if (gain === 0 && loss === 0) return 50;
+    if (loss === 0) return 100;
+    return 100 - 100 / (1 + gain / loss);
+  };
+
+  result[period] = rsi();
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = rsi();
+  }
+  return result;
+}
+
+/**
+ * Rolling realized volatility in probability points per day
+ *
+ * Each change is scaled by the square root of the time it took, so series
+ * with uneven spacing still give a per-day figure; the result at i covers
+ * the `window` changes ending there.
+ */
+export function realizedVolatility(
+  points: PricePoint[],
+  window: number = DEFAULT_INDICATOR_PERIODS.volatility
+): (number | null)[] {
+  const scaled = points.map((point, i) => {
+    if (i === 0) return null;
+    const elapsed = point.timestamp - points[i - 1].timestamp;
+    if (elapsed <= 0) return null;
+    return (point.price - points[i - 1].price) / Math.sqrt(elapsed / DAY);
+  });
+
+  return points.map((_, i) => {
+    if (i < window) return null;
+    const changes = scaled.slice(i - window + 1, i + 1).filter((c): c is number => c !== null);
+    if (changes.length === 0) return null;
+    return Math.sqrt(changes.reduce((sum, c) => sum + c * c, 0) / changes.length);
+  });
+}
+
+/**
+ * Split a series where a gap falls between two points, so indicators
+ * don't average across missing data
+ */
+export function splitAtGaps<T extends { timestamp: number }>(points: T[], gaps: PriceHistoryGap[]): T[][] {
+  const segments: T[][] = [];
+  points.forEach((point, i) => {
+    const previous = points[i - 1];
+    const broken = previous !== undefined
+      && gaps.some(gap => gap.from >= previous.timestamp && gap.to <= point.timestamp);
+    if (i === 0 || broken) segments.push([]);
+    segments[segments.length - 1].push(point);
+  });
+  return segments;
+}
+
+/**
+ * Every indicator for a price series at the default periods, computed per
+ * gap-free segment
+ */
+export function computeIndicators(
+  points: PricePoint[],
+  gaps: PriceHistoryGap[] = [],
+  periods: typeof DEFAULT_INDICATOR_PERIODS = DEFAULT_INDICATOR_PERIODS
+): IndicatorPoint[] {
+  return splitAtGaps(points, gaps).flatMap(segment => {
+    const prices = segment.map(p => p.price);
+    const sma = simpleMovingAverage(prices, periods.sma);
+    const ema = exponentialMovingAverage(prices, periods.ema);
+    const bands = bollingerBands(prices, periods.bands);
+    const rsi = relativeStrengthIndex(prices, periods.rsi);
+    const volatility = realizedVolatility(segment, periods.volatility);
+
+    return segment.map((point, i) => ({
+      timestamp: point.timestamp,
+      sma: sma[i],
+      ema: ema[i],
+      upperBand: bands[i]?.upper ?? null,
+      lowerBand: bands[i]?.lower ?? null,
+      rsi: rsi[i],
+      volatility: volatility[i],
+    }));
+  });
+}
+
+/**
+ * The biggest trades by notional (price × size) of at least `minNotional`,
+ * oldest first
+ */
+export function findLargeTrades<T extends { timestamp: number; price: number; size: number }>(
+  trades: T[],
+  minNotional: number = 1000,
+  limit: number = 10
+): T[] {
+  return trades
+    .filter(t => t.price * t.size >= minNotional)
+    .sort((a, b) => b.price * b.size - a.price * a.size)
+    .slice(0, limit)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,169 @@
+/**
+ * Cross-Venue Market Matching
+ * Links listings of the same question on different venues by question
+ * wording, end date and resolution source
+ */
+
+import { Market, Venue, VenueMatch, MatchConfig, DEFAULT_MATCH_CONFIG } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that carry no meaning when comparing questions
+const STOP_WORDS = new Set([
+  'will', 'the', 'a', 'an', 'be', 'is', 'are', 'does', 'do', 'of', 'in', 'on', 'at', 'to', 'for', 'by', 'and', 'or',
+]);
+
+// Spellings venues use interchangeably
+const ALIASES: Record<string, string> = {
+  btc: 'bitcoin',
+  eth: 'ethereum',
+  jan: 'january',
+  feb: 'february',
+  mar: 'march',
+  apr: 'april',
+  jun: 'june',
+  jul: 'july',
+  aug: 'august',
+  sep: 'september',
+  sept: 'september',
+  oct: 'october',
+  nov: 'november',
+  dec: 'december',
+};
+
+const UNITS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Meaningful words of a question, lowercased, with aliases expanded and
+ * amounts written out ("$150k" and "150,000" both become "150000")
+ */
+export function tokenizeQuestion(question: string): string[] {
+  return question
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/(\d+(?:\.\d+)?)([kmb])\b/g, (_, amount: string, unit: string) => String(parseFloat(amount) * UNITS[unit]))
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .split(' ')
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .map(word => ALIASES[word] ?? word)
+    // Plurals match their singular; numbers and short words are kept as is
+    .map(word => (word.length > 3 && word.endsWith('s') && !/\d/.test(word) ? word.slice(0, -1) : word))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+const isNumber = (word: string) => /^\d/.test(word);
+
+/**
+ * Word overlap of two questions, 0-1 (Dice coefficient)
+ *
+ * Numbers are thresholds and dates, so questions whose numbers conflict
+ * score 0; one may leave out a number the other gives (e.g. the day).
+ */
+export function questionSimilarity(a: string, b: string): number {
+  return tokenSimilarity(new Set(tokenizeQuestion(a)), new Set(tokenizeQuestion(b)));
+}
+
+function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  const numbersA = Array.from(a).filter(isNumber);
+  const numbersB = Array.from(b).filter(isNumber);
+  const [fewer, more] = numbersA.length <= numbersB.length ? [numbersA, b] : [numbersB, a];
+  if (!fewer.every(n => more.has(n))) return 0;
+
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Whether two resolution sources name the same site (or the same text),
+ * null when either market gives none
+ */
+export function sameResolutionSource(a?: string, b?: string): boolean | null {
+  if (!a?.trim() || !b?.trim()) return null;
+
+  const normalize = (source: string) => {
+    try {
+      return new URL(source.trim()).hostname.replace(/^www\./, '');
+    } catch {
+      return source.trim().toLowerCase();
+    }
+  };
+  return normalize(a) === normalize(b);
+}
+
+interface PreparedMarket {
+  market: Market;
+  venue: Venue;
+  tokens: Set<string>;
+  endsAt: number;
+}
+
+function prepare(market: Market): PreparedMarket {
+  return {
+    market,
+    venue: market.venue ?? 'polymarket',
+    tokens: new Set(tokenizeQuestion(market.question)),
+    endsAt: Date.parse(market.endDate),
+  };
+}
+
+function scorePair(a: PreparedMarket, b: PreparedMarket, config: MatchConfig): VenueMatch | null {
+  if (a.venue === b.venue) return null;
+
+  const endDateDiffDays = Math.abs(a.endsAt - b.endsAt) / DAY_MS;
+  if (!(endDateDiffDays <= config.maxEndDateDiffDays)) return null;
+
+  const similarity = tokenSimilarity(a.tokens, b.tokens);
+  if (similarity < config.minQuestionSimilarity) return null;
+
+  const sameSource = sameResolutionSource(a.market.resolutionSource, b.market.resolutionSource);
+  const dateScore = config.maxEndDateDiffDays > 0 ? 1 - endDateDiffDays / config.maxEndDateDiffDays : 1;
+  const sourceScore = sameSource === null ? 0.5 : sameSource ? 1 : 0;
+  const score = 0.7 * similarity + 0.2 * dateScore + 0.1 * sourceScore;
+  if (score < config.minScore) return null;
+
+  return {
+    markets: [a.market, b.market],
+    score,
+    questionSimilarity: similarity,
+    endDateDiffDays,
+    sameResolutionSource: sameSource,
+  };
+}
+
+/**
+ * Link open binary markets to their counterparts on other venues
+ *
+ * Each market is linked at most once, to its best-scoring counterpart.
+ * Markets come out in input order within a pair.
+ */
+export function matchMarketsAcrossVenues(
+  markets: Market[],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): VenueMatch[] {
+  const prepared = markets
+    .filter(m => !m.closed && m.outcomes.length === 2)
+    .map(prepare);
+
+  const candidates: VenueMatch[] = [];
+  prepared.forEach((a, i) => {
+    prepared.slice(i + 1).forEach(b => {
+      const match = scorePair(a, b, config);
+      if (match) candidates.push(match);
+    });
+  });
+
+  const key = (market: Market) => `${market.venue ?? 'polymarket'}:${market.id}`;
+  const linked = new Set<string>();
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .filter(match => {
+      const [a, b] = match.markets.map(key);
+      if (linked.has(a) || linked.has(b)) return false;
+      linked.add(a);
+      linked.add(b);
+      return true;
+    });
+}
@@ -0,0 +1,183 @@
+/**
+ * Orderbook Execution Math
+ * Prices trades against CLOB depth instead of mid prices
+ */
+
+import { Market, OrderbookLevel, OrderbookMap, ExecutableEdge } from '@/types';
+
+export type BundleDirection = 'buy' | 'sell';
+
+/**
+ * Levels available to buy one side of a binary market, best first
+ *
+ * Falls back to the opposite token's bids: buying NO at 1 - p is the same
+ * trade as selling YES at p.
+ */
+export function getBuyLevels(
+  orderbooks: OrderbookMap,
+  market: Market,
+  side: 'YES' | 'NO'
+): OrderbookLevel[] | null {
+  const [yes, no] = market.outcomes;
+  const token = side === 'YES' ? yes : no;
+  const opposite = side === 'YES' ? no : yes;
+
+  const asks = token ? orderbooks[token.id]?.asks : undefined;
+  if (asks && asks.length > 0) return asks;
+
+  const oppositeBids = opposite ? orderbooks[opposite.id]?.bids : undefined;
+  if (oppositeBids && oppositeBids.length > 0) {
+    return oppositeBids.map(l => ({ price: 1 - l.price, size: l.size }));
+  }
+
+  return null;
+}
+
+/**
+ * Levels available to sell one side of a binary market, best first
+ */
+export function getSellLevels(
+  orderbooks: OrderbookMap,
+  market: Market,
+  side: 'YES' | 'NO'
+): OrderbookLevel[] | null {
+  const [yes, no] = market.outcomes;
+  const token = side === 'YES' ? yes : no;
+  const opposite = side === 'YES' ? no : yes;
+
+  const bids = token ? orderbooks[token.id]?.bids : undefined;
+  if (bids && bids.length > 0) return bids;
+
+  const oppositeAsks = opposite ? orderbooks[opposite.id]?.asks : undefined;
+  if (oppositeAsks && oppositeAsks.length > 0) {
+    return oppositeAsks.map(l => ({ price: 1 - l.price, size: l.size }));
+  }
+
+  return null;
+}
+
+/**
+ * Size-weighted cost of filling `size` shares by walking the levels
+ */
+export function calculateFillCost(
+  levels: OrderbookLevel[],
+  size: number
+): { cost: number; filled: number; avgPrice: number } {
+  let cost = 0;
+  let filled = 0;
+
+  for (const level of levels) {
+    if (filled >= size) break;
+    const take = Math.min(level.size, size - filled);
+    cost += take * level.price;
+    filled += take;
+  }
+
+  return { cost, filled, avgPrice: filled > 0 ? cost / filled : 0 };
+}
+
+/**
+ * Walk several books in lockstep, one bundle (a share of each leg) at a time.
+ * `visit` receives the size available at the current price of every leg and
+ * returns false to stop.
+ */
+function walkBundle(
+  legs: OrderbookLevel[][],
+  visit: (size: number, bundlePrice: number) => boolean
+): void {
+  const books = legs.map(levels => levels.filter(l => l.size > 0));
+  const index = books.map(() => 0);
+  const remaining = books.map(levels => levels[0]?.size ?? 0);
+
+  while (books.every((levels, i) => index[i] < levels.length)) {
+    const size = Math.min(...remaining);
+    const bundlePrice = books.reduce((sum, levels, i) => sum + levels[index[i]].price, 0);
+
+    if (!visit(size, bundlePrice)) return;
+
+    books.forEach((levels, i) => {
+      remaining[i] -= size;
+      if (remaining[i] <= 0) {
+        index[i]++;
+        remaining[i] = levels[index[i]]?.size ?? 0;
+      }
+    });
+  }
+}
+
+/**
+ * Executable edge of a bundle trade priced against orderbook depth
+ *
+ * - buy: pay the asks of every leg, receive `payout` per bundle at resolution
+ * - sell: receive the bids of every leg, owe `payout` per bundle at resolution
+ *
+ * Marginal edge shrinks as the walk moves down the books, so profit peaks at
+ * the last size where the marginal bundle is still profitable.
+ */
+export function calculateBundleEdge(
+  legs: OrderbookLevel[][],
+  direction: BundleDirection,
+  payout: number,
+  targetNotional: number
+): ExecutableEdge {
+  const edgeOf = (bundlePrice: number) =>
+    direction === 'buy' ? payout - bundlePrice : bundlePrice - payout;
+
+  // Fill the target notional regardless of edge
+  let filledSize = 0;
+  let filledNotional = 0;
+  let profit = 0;
+  walkBundle(legs, (size, bundlePrice) => {
+    const left = targetNotional - filledNotional;
+    const take = bundlePrice > 0 ? Math.min(size, left / bundlePrice) : size;
+    filledSize += take;
+    filledNotional += take * bundlePrice;
+    profit += take * edgeOf(bundlePrice);
+    return filledNotional < targetNotional - 1e-9;
+  });
+
+  // Grow the trade while the marginal bundle is still profitable
+  let maxSize = 0;
+  let maxNotional = 0;
+  let maxProfit = 0;
+  walkBundle(legs, (size, bundlePrice) => {
+    const edge = edgeOf(bundlePrice);
+    if (edge <= 0) return false;
+    maxSize += size;
+    maxNotional += size * bundlePrice;
+    maxProfit += size * edge;
+    return true;
+  });
+
+  return {
+    targetNotional,
+    filledNotional,
+    filledSize,
+    avgBundlePrice: filledSize > 0 ? filledNotional / filledSize : 0,
+    profit,
+    maxSize,
+    maxNotional,
+    maxProfit,
+  };
+}
+
+/**
+ * Shares received for spending `notional` dollars by walking the levels
+ */
+export function calculateFillForNotional(
+  levels: OrderbookLevel[],
+  notional: number
+): { shares: number; spent: number; avgPrice: number } {
+  let shares = 0;
+  let spent = 0;
+
+  for (const level of levels) {
+    if (spent >= notional) break;
+    if (level.price <= 0) continue;
+    const take = Math.min(level.size, (notional - spent) / level.price);
+    shares += take;
+    spent += take * level.price;
+  }
+
+  return { shares, spent, avgPrice: shares > 0 ? spent / shares : 0 };
+}
@@ -3,62 +3,223 @@
  * Computes strategy payoffs across probability and time dimensions
  */
 
-import { Position, Strategy, PayoffPoint, PayoffSurface, PayoffSurfacePoint, OutcomeScenario, StrategyAnalysis } from '@/types';
+import {
+  Market,
+  Position,
+  Strategy,
+  PayoffPoint,
+  PayoffSurface,
+  PayoffSurfacePoint,
+  OutcomeScenario,
+  OutcomePayoff,
+  StrategyAnalysis,
+  CostModel,
+  DEFAULT_COST_MODEL,
+  OrderbookMap,
+  PositionFill,
+  MarketCorrelation,
+} from '@/types';
+import { generateId } from '@/lib/utils';
+import { calculateFill, summarizeCosts } from './costs';
+import { getBuyLevels } from './orderbook';
+import { buildCorrelationMatrix, hasCorrelation, sampleJointOutcomes } from './copula';
+import { calculatePayoffDistribution, convolvePayoffs } from './risk';
+
+// Fills keyed by position id
+type PositionFills = Record<string, PositionFill>;
+
+// Monte Carlo draws used to estimate joint probabilities of correlated markets
+export const CORRELATED_SAMPLES = 20000;
+
+// Largest number of outcome combinations analyzeStrategy enumerates one by one
+export const MAX_ENUMERATED_SCENARIOS = 4096;
+
+// Payoff of all of a market's positions for each of its outcomes
+interface MarketPayoffTable {
+  marketId: string;
+  payoffs: number[];
+  probabilities: number[];
+}
+
+/**
+ * Outcome names for a market, falling back to a plain YES/NO pair
+ */
+export function getOutcomeNames(market: Market): string[] {
+  return market.outcomes.length >= 2
+    ? market.outcomes.map(o => o.name)
+    : ['Yes', 'No'];
+}
+
+/**
+ * Market-implied probability of each outcome
+ *
+ * Binary markets use the first outcome price and its complement (as before).
+ * Categorical markets normalize outcome prices so they sum to 1.
+ */
+export function getOutcomeProbabilities(market: Market): number[] {
+  if (market.outcomes.length <= 2) {
+    const yesProb = market.outcomes[0]?.price || 0.5;
+    return [yesProb, 1 - yesProb];
+  }
+
+  const prices = market.outcomes.map(o => Math.max(0, o.price || 0));
+  const total = prices.reduce((sum, p) => sum + p, 0);
+  if (total === 0) return prices.map(() => 1 / prices.length);
+  return prices.map(p => p / total);
+}
+
+/**
+ * Resolve an outcome reference (token id, outcome name, or YES/NO) to an index
+ * Returns -1 when the outcome doesn't belong to the market
+ */
+export function resolveOutcomeIndex(market: Market, outcome: string): number {
+  const byId = market.outcomes.findIndex(o => o.id === outcome);
+  if (byId >= 0) return byId;
+
+  const byName = market.outcomes.findIndex(o => o.name.toLowerCase() === outcome.toLowerCase());
+  if (byName >= 0) return byName;
+
+  // Legacy YES/NO, and the Yes/No fallback names of markets saved without outcomes
+  const side = outcome.toUpperCase();
+  if (side === 'YES') return 0;
+  if (side === 'NO') return 1;
+  return -1;
+}
+
+/**
+ * Index of the outcome token a position holds
+ * Positions without an outcomeId map YES/NO onto the first two outcomes
+ */
+export function getPositionOutcomeIndex(position: Position): number {
+  if (position.outcomeId) {
+    const index = position.market.outcomes.findIndex(o => o.id === position.outcomeId);
+    if (index >= 0) return index;
+  }
+  return position.side === 'YES' ? 0 : 1;
+}
+
+/**
+ * Price paid per share of the held outcome token
+ *
+ * Positions with an outcomeId store that token's price as entryPrice.
+ * Legacy NO positions store the YES price, so the NO price is its complement.
+ */
+export function getPositionSharePrice(position: Position): number {
+  if (position.outcomeId || position.side === 'YES') return position.entryPrice;
+  return 1 - position.entryPrice;
+}
+
+/**
+ * Create a position on any outcome of a market at its current price
+ */
+export function createPosition(market: Market, outcomeIndex: number, stake: number): Position {
+  const outcome = market.outcomes[outcomeIndex];
+  const isBinary = market.outcomes.length <= 2;
+
+  return {
+    id: generateId(),
+    market,
+    side: isBinary && outcomeIndex === 1 ? 'NO' : 'YES',
+    outcomeId: outcome?.id,
+    stake,
+    entryPrice: outcome?.price || 0.5,
+    addedAt: Date.now(),
+  };
+}
+
+/**
+ * What a position gets filled at under a cost model
+ *
+ * Slippage uses the held token's asks; binary markets fall back to the
+ * opposite token's bids.
+ */
+export function getPositionFill(
+  position: Position,
+  costModel: CostModel = DEFAULT_COST_MODEL,
+  orderbooks?: OrderbookMap
+): PositionFill {
+  const index = getPositionOutcomeIndex(position);
+  const { market } = position;
+  let askLevels = null;
+
+  if (orderbooks) {
+    askLevels = market.outcomes.length <= 2
+      ? getBuyLevels(orderbooks, market, index === 0 ? 'YES' : 'NO')
+      : orderbooks[market.outcomes[index]?.id]?.asks;
+  }
+
+  return calculateFill(position.stake, getPositionSharePrice(position), costModel, askLevels);
+}
+
+/**
+ * Payoff if the held outcome wins and if it loses
+ * Without a fill, shares are bought at entryPrice with zero costs
+ */
+function getWinLosePayoffs(position: Position, fill?: PositionFill): { win: number; lose: number } {
+  if (fill) {
+    return { win: fill.shares - fill.totalCost, lose: -fill.totalCost };
+  }
+
+  const { stake } = position;
+  return { win: stake * (1 / getPositionSharePrice(position) - 1), lose: -stake };
+}
+
+/**
+ * Probability that the held outcome wins, given the probability of the first outcome
+ *
+ * For categorical markets the remaining probability mass is split across the
+ * other outcomes in proportion to their current prices.
+ */
+function heldOutcomeProbability(position: Position, firstOutcomeProbability: number): number {
+  const index = getPositionOutcomeIndex(position);
+  if (index === 0) return firstOutcomeProbability;
+
+  const { outcomes } = position.market;
+  if (outcomes.length <= 2) return 1 - firstOutcomeProbability;
+
+  const others = outcomes.slice(1).map(o => Math.max(0, o.price || 0));
+  const othersTotal = others.reduce((sum, p) => sum + p, 0);
+  const share = othersTotal > 0 ? others[index - 1] / othersTotal : 1 / others.length;
+  return (1 - firstOutcomeProbability) * share;
+}
 
 /**
  * Calculate payoff for a single position given final probability
  * 
- * If you buy YES at price P for stake S:
- * - If YES wins: payoff = S * (1/P - 1) = S * (1-P)/P
- * - If NO wins: payoff = -S
+ * If you buy an outcome at price P for stake S:
+ * - If it wins: payoff = S * (1/P - 1) = S * (1-P)/P
+ * - If it loses: payoff = -S
  * 
- * The "final probability" here represents the resolution price (1 for YES, 0 for NO)
- * For intermediate probabilities, we interpolate (useful for exit before resolution)
+ * The "final probability" here represents the resolution price of the market's
+ * first outcome (1 for YES, 0 for NO). For intermediate probabilities, we
+ * interpolate (useful for exit before resolution)
  */
 export function calculatePositionPayoff(
   position: Position,
-  finalProbability: number
+  finalProbability: number,
+  fill?: PositionFill
 ): number {
-  const { side, stake, entryPrice } = position;
-  
-  if (side === 'YES') {
-    // Expected value based on probability
-    // At resolution: YES=1 gives (1/entryPrice - 1) * stake, YES=0 gives -stake
-    const yesPayoff = stake * (1 / entryPrice - 1);
-    const noPayoff = -stake;
-    return yesPayoff * finalProbability + noPayoff * (1 - finalProbability);
-  } else {
-    // NO position
-    const noPrice = 1 - entryPrice;
-    const noPayoff = stake * (1 / noPrice - 1);
-    const yesPayoff = -stake;
-    return noPayoff * (1 - finalProbability) + yesPayoff * finalProbability;
-  }
+  const winProbability = heldOutcomeProbability(position, finalProbability);
+  const { win, lose } = getWinLosePayoffs(position, fill);
+  return win * winProbability + lose * (1 - winProbability);
 }
 
 /**
- * Calculate payoff for a single position at resolution (binary outcome)
+ * Calculate payoff for a single position at resolution
+ *
+ * @param outcome - Winning outcome as a token id, outcome name, or YES/NO
+ * @param fill - Actual fill; defaults to buying at entryPrice with no costs
  */
 export function calculatePositionResolutionPayoff(
   position: Position,
-  outcome: 'YES' | 'NO'
+  outcome: string,
+  fill?: PositionFill
 ): number {
-  const { side, stake, entryPrice } = position;
-  
-  if (side === 'YES') {
-    if (outcome === 'YES') {
-      return stake * (1 / entryPrice - 1); // Win: get 1/entryPrice per unit, minus cost
-    } else {
-      return -stake; // Lose: lose entire stake
-    }
-  } else {
-    const noPrice = 1 - entryPrice;
-    if (outcome === 'NO') {
-      return stake * (1 / noPrice - 1);
-    } else {
-      return -stake;
-    }
-  }
+  const winningIndex = resolveOutcomeIndex(position.market, outcome);
+  const { win, lose } = getWinLosePayoffs(position, fill);
+
+  // Win: $1 per share minus cost; lose: the entire cost
+  return winningIndex === getPositionOutcomeIndex(position) ? win : lose;
 }
 
 /**
@@ -101,7 +262,8 @@ export function calculateOpportunityCost(
  */
 export function generatePayoffCurve(
   positions: Position[],
-  steps: number = 50
+  steps: number = 50,
+  fills?: PositionFills
 ): PayoffPoint[] {
   const points: PayoffPoint[] = [];
   const totalStake = positions.reduce((sum, p) => sum + p.stake, 0);
@@ -111,7 +273,7 @@ export function generatePayoffCurve(
     let totalPayoff = 0;
     
     for (const position of positions) {
-      totalPayoff += calculatePositionPayoff(position, probability);
+      totalPayoff += calculatePositionPayoff(position, probability, fills?.[position.id]);
     }
     
     points.push({
@@ -132,7 +294,8 @@ export function generatePayoffSurface(
   discountRate: number = 0.10,
   probabilitySteps: number = 20,
   timeSteps: number = 10,
-  maxDays: number = 180
+  maxDays: number = 180,
+  fills?: PositionFills
 ): PayoffSurface {
   const points: PayoffSurfacePoint[] = [];
   const totalStake = positions.reduce((sum, p) => sum + p.stake, 0);
@@ -147,7 +310,7 @@ export function generatePayoffSurface(
       
       let undiscountedPayoff = 0;
       for (const position of positions) {
-        undiscountedPayoff += calculatePositionPayoff(position, probability);
+        undiscountedPayoff += calculatePositionPayoff(position, probability, fills?.[position.id]);
       }
       
       // Apply time discount
@@ -181,39 +344,85 @@ export function generatePayoffSurface(
   };
 }
 
+/**
+ * Joint scenario probabilities for correlated markets, estimated by sampling
+ * the Gaussian copula. Indexed like the scenarios: market j is digit j of a
+ * mixed-radix number.
+ */
+function sampleScenarioProbabilities(
+  marketList: Market[],
+  outcomeProbs: number[][],
+  numScenarios: number,
+  correlations: MarketCorrelation[]
+): Float64Array {
+  const counts = new Float64Array(numScenarios);
+  const matrix = buildCorrelationMatrix(marketList.map(m => m.id), correlations);
+
+  sampleJointOutcomes(outcomeProbs, matrix, CORRELATED_SAMPLES, outcomes => {
+    let index = 0;
+    let weight = 1;
+    for (let j = 0; j < outcomes.length; j++) {
+      index += outcomes[j] * weight;
+      weight *= outcomeProbs[j].length;
+    }
+    counts[index]++;
+  });
+
+  return counts.map(c => c / CORRELATED_SAMPLES);
+}
+
 /**
  * Generate all possible outcome scenarios for a strategy
+ * Enumerates every combination of each market's real outcome set
+ *
+ * Markets are independent unless correlations are given, in which case
+ * scenario probabilities come from correlated Monte Carlo draws.
  */
 export function generateOutcomeScenarios(
-  positions: Position[]
+  positions: Position[],
+  fills?: PositionFills,
+  correlations: MarketCorrelation[] = []
 ): OutcomeScenario[] {
-  const markets = Array.from(new Set(positions.map(p => p.market.id)));
-  const numMarkets = markets.length;
-  const numScenarios = Math.pow(2, numMarkets);
+  const markets = new Map<string, Market>();
+  positions.forEach(p => {
+    if (!markets.has(p.market.id)) markets.set(p.market.id, p.market);
+  });
+
+  const marketList = Array.from(markets.values());
+  const outcomeNames = marketList.map(getOutcomeNames);
+  const outcomeProbs = marketList.map(getOutcomeProbabilities);
+  const numScenarios = outcomeNames.reduce((n, names) => n * names.length, 1);
+  const jointProbs = hasCorrelation(marketList.map(m => m.id), correlations)
+    ? sampleScenarioProbabilities(marketList, outcomeProbs, numScenarios, correlations)
+    : null;
   
   const scenarios: OutcomeScenario[] = [];
   
   for (let i = 0; i < numScenarios; i++) {
-    const outcomes: Record<string, 'YES' | 'NO'> = {};
+    const outcomes: Record<string, string> = {};
+    let probability = 1;
     
-    for (let j = 0; j < numMarkets; j++) {
-      outcomes[markets[j]] = (i & (1 << j)) ? 'YES' : 'NO';
+    // Mixed-radix decode: each market contributes one digit
+    let remainder = i;
+    for (let j = 0; j < marketList.length; j++) {
+      const radix = outcomeNames[j].length;
+      const outcomeIndex = remainder % radix;
+      remainder = Math.floor(remainder / radix);
+      
+      outcomes[marketList[j].id] = outcomeNames[j][outcomeIndex];
+      // Using current market prices as probability estimates
+      probability *= outcomeProbs[j][outcomeIndex] ?? 0;
     }
+    if (jointProbs) probability = jointProbs[i];
     
     // Calculate payoff for this scenario
     let payoff = 0;
     for (const position of positions) {
-      const outcome = outcomes[position.market.id];
-      payoff += calculatePositionResolutionPayoff(position, outcome);
-    }
-    
-    // Calculate probability of this scenario
-    // Using current market prices as probability estimates
-    let probability = 1;
-    for (const position of positions) {
-      const marketProb = position.market.outcomes[0]?.price || 0.5;
-      const outcome = outcomes[position.market.id];
-      probability *= outcome === 'YES' ? marketProb : (1 - marketProb);
+      payoff += calculatePositionResolutionPayoff(
+        position,
+        outcomes[position.market.id],
+        fills?.[position.id]
+      );
     }
     
     scenarios.push({
@@ -227,11 +436,101 @@ export function generateOutcomeScenarios(
   return scenarios;
 }
 
+/**
+ * Payoff of each market's positions for every outcome of that market
+ */
+export function generateOutcomePayoffs(
+  positions: Position[],
+  fills?: PositionFills
+): OutcomePayoff[] {
+  const byMarket = new Map<string, Position[]>();
+  positions.forEach(p => {
+    byMarket.set(p.market.id, [...(byMarket.get(p.market.id) || []), p]);
+  });
+
+  const results: OutcomePayoff[] = [];
+  byMarket.forEach(marketPositions => {
+    const market = marketPositions[0].market;
+    const names = getOutcomeNames(market);
+    const probs = getOutcomeProbabilities(market);
+
+    names.forEach((name, i) => {
+      results.push({
+        marketId: market.id,
+        marketQuestion: market.question,
+        outcomeId: market.outcomes[i]?.id || `${market.id}-${i}`,
+        outcomeName: name,
+        probability: probs[i] ?? 0,
+        payoff: marketPositions.reduce(
+          (sum, p) => sum + calculatePositionResolutionPayoff(p, name, fills?.[p.id]),
+          0
+        ),
+      });
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Per-market payoff tables; a strategy's payoff is the sum of one entry per market
+ */
+function buildMarketPayoffTables(positions: Position[], fills?: PositionFills): MarketPayoffTable[] {
+  const byMarket = new Map<string, Position[]>();
+  positions.forEach(p => {
+    byMarket.set(p.market.id, [...(byMarket.get(p.market.id) || []), p]);
+  });
+
+  return Array.from(byMarket.entries()).map(([marketId, marketPositions]) => {
+    const market = marketPositions[0].market;
+    return {
+      marketId,
+      probabilities: getOutcomeProbabilities(market),
+      payoffs: getOutcomeNames(market).map(name =>
+        marketPositions.reduce(
+          (sum, p) => sum + calculatePositionResolutionPayoff(p, name, fills?.[p.id]),
+          0
+        )
+      ),
+    };
+  });
+}
+
+/**
+ * Strategy payoffs for correlated Monte Carlo draws, each equally weighted
+ */
+function sampleStrategyPayoffs(
+  tables: MarketPayoffTable[],
+  correlations: MarketCorrelation[]
+): { payoff: number; probability: number }[] {
+  const samples: { payoff: number; probability: number }[] = [];
+  const matrix = buildCorrelationMatrix(tables.map(t => t.marketId), correlations);
+
+  sampleJointOutcomes(tables.map(t => t.probabilities), matrix, CORRELATED_SAMPLES, outcomes => {
+    let payoff = 0;
+    for (let j = 0; j < outcomes.length; j++) payoff += tables[j].payoffs[outcomes[j]];
+    samples.push({ payoff, probability: 1 / CORRELATED_SAMPLES });
+  });
+
+  return samples;
+}
+
 /**
  * Calculate comprehensive strategy analysis
+ *
+ * Payoffs are computed from what each position actually fills at under the
+ * strategy's cost model, using orderbooks for slippage when provided.
+ *
+ * Small books enumerate every scenario. Larger books skip enumeration: the
+ * payoff distribution is convolved market by market when markets are
+ * independent, or sampled when they are correlated. Expected payoff and the
+ * max profit/loss come straight from the per-market tables either way.
  */
-export function analyzeStrategy(strategy: Strategy): StrategyAnalysis {
-  const { positions, discountRate } = strategy;
+export function analyzeStrategy(
+  strategy: Strategy,
+  orderbooks?: OrderbookMap
+): StrategyAnalysis {
+  const { positions, discountRate, costModel = DEFAULT_COST_MODEL, correlations = [] } = strategy;
   
   if (positions.length === 0) {
     return {
@@ -241,7 +540,11 @@ export function analyzeStrategy(strategy: Strategy): StrategyAnalysis {
       maxProfit: 0,
       maxLoss: 0,
       breakEvenProbability: 0.5,
+      costs: { fees: 0, gas: 0, slippage: 0, total: 0 },
+      scenarioCount: 0,
       scenarios: [],
+      payoffDistribution: calculatePayoffDistribution([]),
+      outcomePayoffs: [],
       payoffCurve: [],
       payoffSurface: {
         points: [],
@@ -254,21 +557,52 @@ export function analyzeStrategy(strategy: Strategy): StrategyAnalysis {
   }
   
   const totalStake = positions.reduce((sum, p) => sum + p.stake, 0);
-  const scenarios = generateOutcomeScenarios(positions);
-  const payoffCurve = generatePayoffCurve(positions);
-  const payoffSurface = generatePayoffSurface(positions, discountRate);
+  const fills: PositionFills = {};
+  positions.forEach(p => {
+    fills[p.id] = getPositionFill(p, costModel, orderbooks);
+  });
+  const costs = summarizeCosts(Object.values(fills));
+
+  const tables = buildMarketPayoffTables(positions, fills);
+  const scenarioCount = tables.reduce((n, t) => n * t.payoffs.length, 1);
+  const correlated = hasCorrelation(tables.map(t => t.marketId), correlations);
+
+  let scenarios: OutcomeScenario[] = [];
+  let payoffDistribution;
+  if (scenarioCount <= MAX_ENUMERATED_SCENARIOS) {
+    scenarios = generateOutcomeScenarios(positions, fills, correlations);
+    payoffDistribution = calculatePayoffDistribution(scenarios, {
+      method: correlated ? 'monte_carlo' : 'exact',
+      samples: correlated ? CORRELATED_SAMPLES : 0,
+    });
+  } else if (correlated) {
+    payoffDistribution = calculatePayoffDistribution(sampleStrategyPayoffs(tables, correlations), {
+      method: 'monte_carlo',
+      samples: CORRELATED_SAMPLES,
+    });
+  } else {
+    payoffDistribution = calculatePayoffDistribution(convolvePayoffs(tables), {
+      method: 'convolution',
+    });
+  }
+
+  const outcomePayoffs = generateOutcomePayoffs(positions, fills);
+  const payoffCurve = generatePayoffCurve(positions, 50, fills);
+  const payoffSurface = generatePayoffSurface(positions, discountRate, 20, 10, 180, fills);
   
-  // Expected payoff based on scenario probabilities
-  const expectedPayoff = scenarios.reduce(
-    (sum, s) => sum + s.payoff * s.probability,
+  // Expectation is linear, so correlations don't change it: sum per-market EVs
+  const expectedPayoff = tables.reduce(
+    (sum, t) => sum + t.payoffs.reduce((s, payoff, k) => s + payoff * (t.probabilities[k] ?? 0), 0),
     0
   );
   
-  const expectedReturn = totalStake > 0 ? (expectedPayoff / totalStake) * 100 : 0;
+  // Return on capital actually deployed (stake plus fees and gas)
+  const capital = totalStake + costs.fees + costs.gas;
+  const expectedReturn = capital > 0 ? (expectedPayoff / capital) * 100 : 0;
   
-  const payoffs = scenarios.map(s => s.payoff);
-  const maxProfit = Math.max(...payoffs);
-  const maxLoss = Math.min(...payoffs);
+  // Every combination of outcomes is possible, so extremes add up per market
+  const maxProfit = tables.reduce((sum, t) => sum + Math.max(...t.payoffs), 0);
+  const maxLoss = tables.reduce((sum, t) => sum + Math.min(...t.payoffs), 0);
   
   // Find break-even probability (where payoff crosses 0)
   let breakEvenProbability = 0.5;
@@ -290,7 +624,11 @@ export function analyzeStrategy(strategy: Strategy): StrategyAnalysis {
     maxProfit,
     maxLoss,
     breakEvenProbability,
+    costs,
+    scenarioCount,
     scenarios,
+    payoffDistribution,
+    outcomePayoffs,
     payoffCurve,
     payoffSurface,
   };
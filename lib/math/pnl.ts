@@ -0,0 +1,248 @@
+/**
+ * Mark-to-Market P&L and Settlement
+ * Revalues open positions at the price they could be sold for now, and
+ * settles them into the realized ledger when their markets resolve
+ */
+
+import {
+  Position,
+  Strategy,
+  CostModel,
+  DEFAULT_COST_MODEL,
+  PositionMark,
+  StrategyMark,
+  RealizedTrade,
+  PnlSnapshot,
+  Drawdown,
+  MarketResolutionStatus,
+} from '@/types';
+import {
+  getPositionFill,
+  getPositionOutcomeIndex,
+  getPositionSharePrice,
+  calculatePositionResolutionPayoff,
+  resolveOutcomeIndex,
+} from './payoff';
+
+// Minimum spacing between stored P&L snapshots
+export const PNL_SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+// Snapshots kept per strategy (about a week at the default interval)
+export const MAX_PNL_SNAPSHOTS = 2016;
+
+/**
+ * CLOB token id of the outcome a position holds
+ */
+export function getHeldTokenId(position: Position): string | undefined {
+  return position.market.outcomes[getPositionOutcomeIndex(position)]?.id;
+}
+
+/**
+ * Revalue a position at its exit price
+ *
+ * `exitPrices` is keyed by token id and should hold bid-side prices. Without
+ * one, the stored price of the held outcome is used and the mark is not live.
+ * Cost basis and share count come from the fill under the cost model.
+ */
+export function markPosition(
+  position: Position,
+  exitPrices: Record<string, number>,
+  costModel: CostModel = DEFAULT_COST_MODEL
+): PositionMark {
+  const tokenId = getHeldTokenId(position);
+  const livePrice = tokenId ? exitPrices[tokenId] : undefined;
+  const storedPrice = position.market.outcomes[getPositionOutcomeIndex(position)]?.price;
+  const exitPrice = livePrice ?? storedPrice ?? getPositionSharePrice(position);
+
+  const fill = getPositionFill(position, costModel);
+  const marketValue = fill.shares * exitPrice;
+  const unrealizedPnl = marketValue - fill.totalCost;
+
+  return {
+    positionId: position.id,
+    tokenId,
+    exitPrice,
+    isLive: livePrice !== undefined,
+    shares: fill.shares,
+    costBasis: fill.totalCost,
+    marketValue,
+    unrealizedPnl,
+    unrealizedPnlPercent: fill.totalCost > 0 ? (unrealizedPnl / fill.totalCost) * 100 : 0,
+  };
+}
+
+/**
+ * Revalue every open position of a strategy and add its realized P&L
+ */
+export function markStrategy(strategy: Strategy, exitPrices: Record<string, number>): StrategyMark {
+  const positions = strategy.positions.map(p => markPosition(p, exitPrices, strategy.costModel));
+  const costBasis = positions.reduce((sum, m) => sum + m.costBasis, 0);
+  const marketValue = positions.reduce((sum, m) => sum + m.marketValue, 0);
+  const unrealizedPnl = marketValue - costBasis;
+  const realizedPnl = (strategy.realizedTrades || []).reduce((sum, t) => sum + t.pnl, 0);
+
+  return {
+    costBasis,
+    marketValue,
+    unrealizedPnl,
+    realizedPnl,
+    totalPnl: unrealizedPnl + realizedPnl,
+    positions,
+  };
+}
+
+/**
+ * Close a position at an exit price, turning its P&L into a realized trade
+ */
+export function createRealizedTrade(
+  position: Position,
+  exitPrice: number,
+  costModel: CostModel = DEFAULT_COST_MODEL,
+  id: string,
+  closedAt: number
+): RealizedTrade {
+  const fill = getPositionFill(position, costModel);
+  const outcome = position.market.outcomes[getPositionOutcomeIndex(position)];
+  const proceeds = fill.shares * exitPrice;
+
+  return {
+    id,
+    positionId: position.id,
+    marketId: position.market.id,
+    marketQuestion: position.market.question,
+    outcomeName: outcome?.name || position.side,
+    shares: fill.shares,
+    costBasis: fill.totalCost,
+    exitPrice,
+    proceeds,
+    pnl: proceeds - fill.totalCost,
+    openedAt: position.addedAt,
+    closedAt,
+    reason: 'closed',
+    entryProbability: getPositionSharePrice(position),
+  };
+}
+
+/**
+ * Winning outcome of a market once it has settled, null while it is still open
+ */
+export function getSettledOutcome(status: MarketResolutionStatus): string | null {
+  if (!status.closed && !status.resolved) return null;
+  return status.resolutionOutcome || null;
+}
+
+/**
+ * Settle a position at its market's resolution
+ * The trade id is derived from the position so settling twice is idempotent.
+ */
+export function createSettlementTrade(
+  position: Position,
+  outcome: string,
+  costModel: CostModel = DEFAULT_COST_MODEL,
+  settledAt: number
+): RealizedTrade {
+  const fill = getPositionFill(position, costModel);
+  const heldIndex = getPositionOutcomeIndex(position);
+  const won = resolveOutcomeIndex(position.market, outcome) === heldIndex;
+  const pnl = calculatePositionResolutionPayoff(position, outcome, fill);
+
+  return {
+    id: `${position.id}-settled`,
+    positionId: position.id,
+    marketId: position.market.id,
+    marketQuestion: position.market.question,
+    outcomeName: position.market.outcomes[heldIndex]?.name || position.side,
+    shares: fill.shares,
+    costBasis: fill.totalCost,
+    exitPrice: won ? 1 : 0,
+    proceeds: pnl + fill.totalCost,
+    pnl,
+    openedAt: position.addedAt,
+    closedAt: settledAt,
+    reason: 'settled',
+    entryProbability: getPositionSharePrice(position),
+    resolutionOutcome: outcome,
+  };
+}
+
+/**
+ * Settle every position a strategy holds in a resolved market
+ *
+ * Positions move to the realized ledger and the outcome is recorded once.
+ * Returns the same strategy when it holds nothing in that market.
+ */
+export function settleStrategyMarket(
+  strategy: Strategy,
+  marketId: string,
+  outcome: string,
+  settledAt: number
+): Strategy {
+  const settling = strategy.positions.filter(p => p.market.id === marketId);
+  if (settling.length === 0) return strategy;
+
+  const resolutions = strategy.resolutions || [];
+  return {
+    ...strategy,
+    positions: strategy.positions.filter(p => p.market.id !== marketId),
+    realizedTrades: [
+      ...(strategy.realizedTrades || []),
+      ...settling.map(p => createSettlementTrade(p, outcome, strategy.costModel, settledAt)),
+    ],
+    resolutions: resolutions.some(r => r.marketId === marketId)
+      ? resolutions
+      : [
+          ...resolutions,
+          { marketId, marketQuestion: settling[0].market.question, outcome, resolvedAt: settledAt },
+        ],
+    updatedAt: settledAt,
+  };
+}
+
+/**
+ * Snapshot of a strategy mark for the P&L history
+ */
+export function createPnlSnapshot(mark: StrategyMark, timestamp: number): PnlSnapshot {
+  return {
+    timestamp,
+    marketValue: mark.marketValue,
+    unrealizedPnl: mark.unrealizedPnl,
+    realizedPnl: mark.realizedPnl,
+  };
+}
+
+/**
+ * Append a snapshot unless the last one is more recent than `minInterval`
+ * Returns the same array when nothing was added, oldest entries are trimmed.
+ */
+export function appendPnlSnapshot(
+  history: PnlSnapshot[],
+  snapshot: PnlSnapshot,
+  minInterval: number = PNL_SNAPSHOT_INTERVAL,
+  maxLength: number = MAX_PNL_SNAPSHOTS
+): PnlSnapshot[] {
+  const last = history[history.length - 1];
+  if (last && snapshot.timestamp - last.timestamp < minInterval) return history;
+  return [...history, snapshot].slice(-maxLength);
+}
+
+/**
+ * Peak-to-trough drawdown of total (realized + unrealized) P&L
+ */
+export function calculateDrawdown(history: PnlSnapshot[]): Drawdown {
+  let peakPnl = -Infinity;
+  let maxDrawdown = 0;
+  let currentDrawdown = 0;
+
+  history.forEach(s => {
+    const pnl = s.unrealizedPnl + s.realizedPnl;
+    peakPnl = Math.max(peakPnl, pnl);
+    currentDrawdown = peakPnl - pnl;
+    maxDrawdown = Math.max(maxDrawdown, currentDrawdown);
+  });
+
+  return {
+    peakPnl: history.length > 0 ? peakPnl : 0,
+    maxDrawdown,
+    currentDrawdown,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Payoff Distribution and Tail Risk
+ * Summarizes a discrete payoff distribution with VaR and expected shortfall
+ */
+
+import { PayoffBucket, PayoffDistribution } from '@/types';
+
+interface DistributionOptions {
+  method?: PayoffDistribution['method'];
+  samples?: number;
+  confidenceLevel?: number;
+  bucketCount?: number;
+}
+
+/**
+ * Loss at the (1 - confidence) quantile and the average loss beyond it
+ *
+ * Outcomes are weighted by probability; the tail is cut at exactly
+ * (1 - confidence) mass, splitting the boundary outcome if needed.
+ */
+export function calculateTailRisk(
+  outcomes: { payoff: number; probability: number }[],
+  confidenceLevel: number = 0.95
+): { valueAtRisk: number; expectedShortfall: number } {
+  const total = outcomes.reduce((sum, o) => sum + o.probability, 0);
+  if (outcomes.length === 0 || total <= 0) return { valueAtRisk: 0, expectedShortfall: 0 };
+
+  const sorted = [...outcomes].sort((a, b) => a.payoff - b.payoff);
+  const tail = 1 - confidenceLevel;
+
+  let mass = 0;
+  let tailPayoff = 0;
+  let quantile = sorted[sorted.length - 1].payoff;
+
+  for (const outcome of sorted) {
+    const probability = outcome.probability / total;
+    const take = Math.min(probability, tail - mass);
+    if (take > 0) {
+      tailPayoff += take * outcome.payoff;
+      mass += take;
+    }
+    if (mass >= tail - 1e-12) {
+      quantile = outcome.payoff;
+      break;
+    }
+  }
+
+  return {
+    valueAtRisk: -quantile,
+    expectedShortfall: tail > 0 ? -tailPayoff / tail : -quantile,
+  };
+}
+
+/**
+ * Histogram of payoffs with equal-width buckets between the min and max payoff
+ */
+export function bucketPayoffs(
+  outcomes: { payoff: number; probability: number }[],
+  bucketCount: number = 20
+): PayoffBucket[] {
+  if (outcomes.length === 0) return [];
+
+  const payoffs = outcomes.map(o => o.payoff);
+  const min = Math.min(...payoffs);
+  const max = Math.max(...payoffs);
+
+  if (max - min < 1e-9) {
+    const probability = outcomes.reduce((sum, o) => sum + o.probability, 0);
+    return [{ payoffFrom: min, payoffTo: max, probability }];
+  }
+
+  const width = (max - min) / bucketCount;
+  const buckets: PayoffBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    payoffFrom: min + i * width,
+    payoffTo: min + (i + 1) * width,
+    probability: 0,
+  }));
+
+  outcomes.forEach(({ payoff, probability }) => {
+    const index = Math.min(bucketCount - 1, Math.floor((payoff - min) / width));
+    buckets[index].probability += probability;
+  });
+
+  return buckets;
+}
+
+/**
+ * Full payoff distribution summary for a set of weighted outcomes
+ */
+export function calculatePayoffDistribution(
+  outcomes: { payoff: number; probability: number }[],
+  options: DistributionOptions = {}
+): PayoffDistribution {
+  const {
+    method = 'exact',
+    samples = 0,
+    confidenceLevel = 0.95,
+    bucketCount = 20,
+  } = options;
+
+  const total = outcomes.reduce((sum, o) => sum + o.probability, 0);
+  const normalized = total > 0
+    ? outcomes.map(o => ({ payoff: o.payoff, probability: o.probability / total }))
+    : [];
+
+  const mean = normalized.reduce((sum, o) => sum + o.payoff * o.probability, 0);
+  const variance = normalized.reduce((sum, o) => sum + (o.payoff - mean) ** 2 * o.probability, 0);
+  const probabilityOfLoss = normalized
+    .filter(o => o.payoff < 0)
+    .reduce((sum, o) => sum + o.probability, 0);
+
+  return {
+    method,
+    samples,
+    buckets: bucketPayoffs(normalized, bucketCount),
+    mean,
+    stdDev: Math.sqrt(variance),
+    probabilityOfLoss,
+    confidenceLevel,
+    ...calculateTailRisk(normalized, confidenceLevel),
+  };
+}
+
+/**
+ * Distribution of a sum of independent discrete payoffs
+ *
+ * Each variable is convolved onto a fixed grid, so the cost grows linearly
+ * with the number of variables instead of exponentially. Payoffs are rounded
+ * to the grid, at most half a grid step of error per variable.
+ */
+export function convolvePayoffs(
+  variables: { payoffs: number[]; probabilities: number[] }[],
+  gridSize: number = 4096
+): { payoff: number; probability: number }[] {
+  const mins = variables.map(v => Math.min(...v.payoffs));
+  const ranges = variables.map((v, i) => Math.max(...v.payoffs) - mins[i]);
+  const offset = mins.reduce((sum, m) => sum + m, 0);
+  const span = ranges.reduce((sum, r) => sum + r, 0);
+
+  if (span < 1e-9) return [{ payoff: offset, probability: 1 }];
+
+  const step = span / (gridSize - 1);
+  let dist = new Float64Array(gridSize);
+  dist[0] = 1;
+  let reach = 0;
+
+  variables.forEach((variable, v) => {
+    const shifts = variable.payoffs.map(p => Math.round((p - mins[v]) / step));
+    const next = new Float64Array(gridSize);
+
+    for (let i = 0; i <= reach; i++) {
+      if (dist[i] === 0) continue;
+      for (let k = 0; k < shifts.length; k++) {
+        const j = Math.min(gridSize - 1, i + shifts[k]);
+        next[j] += dist[i] * variable.probabilities[k];
+      }
+    }
+
+    dist = next;
+    reach = Math.min(gridSize - 1, reach + Math.max(...shifts));
+  });
+
+  const result: { payoff: number; probability: number }[] = [];
+  for (let i = 0; i <= reach; i++) {
+    if (dist[i] > 0) result.push({ payoff: offset + i * step, probability: dist[i] });
+  }
+  return result;
+}
@@ -12,7 +12,20 @@ import {
   ScannerConfig,
   DEFAULT_SCANNER_CONFIG,
   SeverityLevel,
+  ExecutableEdge,
+  ExecutionContext,
+  OrderbookLevel,
+  OrderbookMap,
+  Venue,
+  VENUE_LABELS,
+  DEFAULT_VENUE_FEE_BPS,
+  VenueMatch,
+  VenueComparison,
+  MatchConfig,
+  DEFAULT_MATCH_CONFIG,
 } from '@/types';
+import { BundleDirection, calculateBundleEdge, getBuyLevels, getSellLevels } from './orderbook';
+import { matchMarketsAcrossVenues } from './matching';
 
 /**
  * Generate unique ID for scanner flags
@@ -30,6 +43,53 @@ function getSeverityLevel(score: number): SeverityLevel {
   return 'low';
 }
 
+/**
+ * Price a flag's trade against the orderbooks
+ *
+ * Returns null when a leg has no book, leaving the flag on mid prices.
+ */
+function priceBundle(
+  legs: (OrderbookLevel[] | null)[],
+  direction: BundleDirection,
+  execution: ExecutionContext
+): ExecutableEdge | null {
+  if (legs.some(l => l === null)) return null;
+  return calculateBundleEdge(legs as OrderbookLevel[][], direction, 1, execution.targetNotional);
+}
+
+/**
+ * Replace the mid-price profit estimate with the executable one
+ */
+function applyExecutableEdge(flag: ScannerFlag, edge: ExecutableEdge): ScannerFlag {
+  // Profit is concave in size, so never report more than the peak
+  const potentialProfit = edge.filledNotional <= edge.maxNotional ? edge.profit : edge.maxProfit;
+
+  const execution = edge.maxSize > 0
+    ? ` Against the orderbook, $${edge.filledNotional.toFixed(0)} fills at ${(edge.avgBundlePrice * 100).toFixed(1)}¢ per bundle; the edge survives up to ${edge.maxSize.toFixed(0)} shares ($${edge.maxNotional.toFixed(0)}).`
+    : ' Against the orderbook, the edge does not survive the spread.';
+
+  return {
+    ...flag,
+    explanation: flag.explanation + execution,
+    potentialProfit: Math.max(0, potentialProfit),
+    executable: edge,
+  };
+}
+
+/**
+ * Levels to trade one side of a market, taking asks to buy and bids to sell
+ */
+function getLegLevels(
+  orderbooks: OrderbookMap,
+  market: Market,
+  side: 'YES' | 'NO',
+  direction: BundleDirection
+): OrderbookLevel[] | null {
+  return direction === 'buy'
+    ? getBuyLevels(orderbooks, market, side)
+    : getSellLevels(orderbooks, market, side);
+}
+
 /**
  * Check if mutually exclusive outcomes sum to approximately 1
  * 
@@ -40,7 +100,8 @@ function getSeverityLevel(score: number): SeverityLevel {
  */
 export function checkSumToOne(
   markets: Market[],
-  threshold: number = 0.05
+  threshold: number = 0.05,
+  execution?: ExecutionContext
 ): ScannerFlag | null {
   if (markets.length < 2) return null;
   
@@ -71,7 +132,7 @@ export function checkSumToOne(
       };
     });
     
-    return {
+    const flag: ScannerFlag = {
       id: generateFlagId(),
       ruleType: 'sum_to_one',
       severity: getSeverityLevel(severityScore),
@@ -86,6 +147,18 @@ export function checkSumToOne(
       confidence: Math.min(95, 70 + severityScore / 5),
       detectedAt: Date.now(),
     };
+
+    if (!execution) return flag;
+
+    // Buy YES on every outcome when cheap, sell YES on every outcome when rich;
+    // exactly one resolves YES either way
+    const direction: BundleDirection = isOverpriced ? 'sell' : 'buy';
+    const edge = priceBundle(
+      markets.map(m => getLegLevels(execution.orderbooks, m, 'YES', direction)),
+      direction,
+      execution
+    );
+    return edge ? applyExecutableEdge(flag, edge) : flag;
   }
   
   return null;
@@ -102,7 +175,8 @@ export function checkSumToOne(
 export function checkThresholdConsistency(
   markets: Market[],
   thresholds: { marketId: string; value: number }[],
-  margin: number = 0.02
+  margin: number = 0.02,
+  execution?: ExecutionContext
 ): ScannerFlag | null {
   if (thresholds.length < 2) return null;
   
@@ -173,7 +247,7 @@ export function checkThresholdConsistency(
     return trades;
   });
   
-  return {
+  const flag: ScannerFlag = {
     id: generateFlagId(),
     ruleType: 'threshold_consistency',
     severity: getSeverityLevel(severityScore),
@@ -186,6 +260,23 @@ export function checkThresholdConsistency(
     confidence: 85,
     detectedAt: Date.now(),
   };
+
+  if (!execution) return flag;
+
+  // YES on the lower threshold plus NO on the higher one pays at least $1
+  // whatever happens, so price the worst violation as a buy bundle
+  const worst = violations.reduce((a, b) => (b.deviation > a.deviation ? b : a));
+  const lowerMarket = markets.find(m => m.id === worst.lower.marketId)!;
+  const higherMarket = markets.find(m => m.id === worst.higher.marketId)!;
+  const edge = priceBundle(
+    [
+      getBuyLevels(execution.orderbooks, lowerMarket, 'YES'),
+      getBuyLevels(execution.orderbooks, higherMarket, 'NO'),
+    ],
+    'buy',
+    execution
+  );
+  return edge ? applyExecutableEdge(flag, edge) : flag;
 }
 
 /**
@@ -196,7 +287,8 @@ export function checkThresholdConsistency(
  */
 export function checkArbitrageBundles(
   markets: Market[],
-  minProfit: number = 0.01
+  minProfit: number = 0.01,
+  execution?: ExecutionContext
 ): ScannerFlag | null {
   // For a single market: if YES + NO prices < 1, buy both for guaranteed profit
   // For multiple markets: look for covered positions
@@ -213,7 +305,7 @@ export function checkArbitrageBundles(
     if (profitMargin > minProfit) {
       const severityScore = Math.min(100, Math.round(profitMargin * 500));
       
-      return {
+      const flag: ScannerFlag = {
         id: generateFlagId(),
         ruleType: 'arbitrage_bundle',
         severity: getSeverityLevel(severityScore),
@@ -241,6 +333,9 @@ export function checkArbitrageBundles(
         confidence: 95,
         detectedAt: Date.now(),
       };
+
+      const result = executableBundleFlag(flag, market, 'buy', execution);
+      if (result) return result;
     }
     
     // Check for overpriced bundle (total > 1)
@@ -248,7 +343,7 @@ export function checkArbitrageBundles(
       const profitMargin = (totalCost - 1) / 1;
       const severityScore = Math.min(100, Math.round(profitMargin * 500));
       
-      return {
+      const flag: ScannerFlag = {
         id: generateFlagId(),
         ruleType: 'arbitrage_bundle',
         severity: getSeverityLevel(severityScore),
@@ -269,20 +364,186 @@ export function checkArbitrageBundles(
         confidence: 75,
         detectedAt: Date.now(),
       };
+
+      const result = executableBundleFlag(flag, market, 'sell', execution);
+      if (result) return result;
     }
   }
   
   return null;
 }
 
+/**
+ * Re-check a YES + NO bundle against the books
+ *
+ * Returns null when the mid-price arbitrage disappears once the spread is
+ * crossed, so the scanner moves on to the next market.
+ */
+function executableBundleFlag(
+  flag: ScannerFlag,
+  market: Market,
+  direction: BundleDirection,
+  execution?: ExecutionContext
+): ScannerFlag | null {
+  if (!execution) return flag;
+
+  const edge = priceBundle(
+    [
+      getLegLevels(execution.orderbooks, market, 'YES', direction),
+      getLegLevels(execution.orderbooks, market, 'NO', direction),
+    ],
+    direction,
+    execution
+  );
+  if (!edge) return flag;
+
+  return edge.maxSize > 0 ? applyExecutableEdge(flag, edge) : null;
+}
+
+/**
+ * Find the same question priced apart on two venues
+ *
+ * Buying YES on one venue and NO on the other pays $1 whichever way the
+ * question resolves, so the pair is an arbitrage when both legs cost less
+ * than $1 after each venue's taker fee. That only holds if the two markets
+ * resolve together, so only pairs matchMarketsAcrossVenues links are
+ * priced, and confidence follows the match score.
+ */
+export function checkCrossVenueArbitrage(
+  markets: Market[],
+  minProfit: number = 0.01,
+  venueFeeBps: Partial<Record<Venue, number>> = {},
+  execution?: ExecutionContext,
+  matchConfig: MatchConfig = DEFAULT_MATCH_CONFIG
+): ScannerFlag | null {
+  return checkVenueMatches(matchMarketsAcrossVenues(markets, matchConfig), minProfit, venueFeeBps, execution);
+}
+
+/**
+ * Best cross-venue arbitrage among already matched pairs
+ */
+function checkVenueMatches(
+  matches: VenueMatch[],
+  minProfit: number,
+  venueFeeBps: Partial<Record<Venue, number>>,
+  execution?: ExecutionContext
+): ScannerFlag | null {
+  const venueOf = (market: Market): Venue => market.venue ?? 'polymarket';
+  const feeRate = (market: Market) => (venueFeeBps[venueOf(market)] ?? 0) / 10000;
+
+  let best: {
+    match: VenueMatch;
+    yesMarket: Market;
+    noMarket: Market;
+    yesPrice: number;
+    noPrice: number;
+    cost: number;
+    profitMargin: number;
+  } | null = null;
+
+  for (const match of matches) {
+    const [first, second] = match.markets;
+    for (const [a, b] of [[first, second], [second, first]]) {
+      // YES on a, NO on b
+      const yesPrice = a.outcomes[0].price;
+      const noPrice = b.outcomes[1].price;
+      const cost = yesPrice * (1 + feeRate(a)) + noPrice * (1 + feeRate(b));
+      if (cost <= 0) continue;
+      const profitMargin = (1 - cost) / cost;
+
+      if (!best || profitMargin > best.profitMargin) {
+        best = { match, yesMarket: a, noMarket: b, yesPrice, noPrice, cost, profitMargin };
+      }
+    }
+  }
+
+  if (!best || best.profitMargin <= minProfit) return null;
+
+  const { match, yesMarket, noMarket, yesPrice, noPrice, cost, profitMargin } = best;
+  const yesVenue = VENUE_LABELS[venueOf(yesMarket)];
+  const noVenue = VENUE_LABELS[venueOf(noMarket)];
+  const severityScore = Math.min(100, Math.round(profitMargin * 500));
+
+  const flag: ScannerFlag = {
+    id: generateFlagId(),
+    ruleType: 'cross_venue_arbitrage',
+    severity: getSeverityLevel(severityScore),
+    severityScore,
+    title: 'Cross-Venue Arbitrage',
+    explanation: `YES on ${yesVenue} (${(yesPrice * 100).toFixed(1)}¢) plus NO on ${noVenue} (${(noPrice * 100).toFixed(1)}¢) costs ${(cost * 100).toFixed(1)}¢ after fees and pays $1 either way, a ${(profitMargin * 100).toFixed(1)}% return. This assumes both markets resolve the same way; check that their rules match.`,
+    affectedMarkets: [yesMarket, noMarket],
+    suggestedTrades: [
+      {
+        marketId: yesMarket.id,
+        marketQuestion: yesMarket.question,
+        side: 'YES',
+        suggestedStake: 1,
+        reason: `Cheaper side on ${yesVenue}`,
+      },
+      {
+        marketId: noMarket.id,
+        marketQuestion: noMarket.question,
+        side: 'NO',
+        suggestedStake: 1,
+        reason: `Cheaper side on ${noVenue}`,
+      },
+    ],
+    potentialProfit: profitMargin * 100,
+    // Below a single-market bundle even for a certain match
+    confidence: Math.round(80 * match.score),
+    detectedAt: Date.now(),
+  };
+
+  if (!execution) return flag;
+
+  // Fees scale with the stake, so fold them into each level's price
+  const withFee = (levels: OrderbookLevel[] | null, rate: number) =>
+    levels && levels.map(l => ({ price: l.price * (1 + rate), size: l.size }));
+  const edge = priceBundle(
+    [
+      withFee(getBuyLevels(execution.orderbooks, yesMarket, 'YES'), feeRate(yesMarket)),
+      withFee(getBuyLevels(execution.orderbooks, noMarket, 'NO'), feeRate(noMarket)),
+    ],
+    'buy',
+    execution
+  );
+  if (!edge) return flag;
+
+  return edge.maxSize > 0 ? applyExecutableEdge(flag, edge) : null;
+}
+
+/**
+ * Price gap and cross-venue arbitrage of each match, largest gap first
+ */
+export function compareVenueMatches(
+  matches: VenueMatch[],
+  config: ScannerConfig = DEFAULT_SCANNER_CONFIG
+): VenueComparison[] {
+  return matches
+    .map(match => {
+      const [a, b] = match.markets;
+      return {
+        ...match,
+        id: `${a.venue ?? 'polymarket'}:${a.id}|${b.venue ?? 'polymarket'}:${b.id}`,
+        priceGap: a.outcomes[0].price - b.outcomes[0].price,
+        flag: checkVenueMatches([match], config.minArbitrageProfit, config.venueFeeBps ?? DEFAULT_VENUE_FEE_BPS),
+      };
+    })
+    .sort((a, b) => Math.abs(b.priceGap) - Math.abs(a.priceGap));
+}
+
 /**
  * Run all scanner checks on a market cluster
  */
 export function scanCluster(
   cluster: MarketCluster,
-  config: ScannerConfig = DEFAULT_SCANNER_CONFIG
+  config: ScannerConfig = DEFAULT_SCANNER_CONFIG,
+  orderbooks?: OrderbookMap
 ): ScannerResult {
   const startTime = Date.now();
+  const execution: ExecutionContext | undefined = orderbooks
+    ? { orderbooks, targetNotional: config.targetNotional }
+    : undefined;
   const flags: ScannerFlag[] = [];
   let checksPerformed = 0;
   
@@ -294,7 +555,7 @@ export function scanCluster(
     (clusterType === 'mutual_exclusive' || clusterType === 'custom')
   ) {
     checksPerformed++;
-    const flag = checkSumToOne(markets, config.sumToOneThreshold);
+    const flag = checkSumToOne(markets, config.sumToOneThreshold, execution);
     if (flag) flags.push(flag);
   }
   
@@ -309,14 +570,22 @@ export function scanCluster(
       marketId: t.marketId,
       value: t.value,
     }));
-    const flag = checkThresholdConsistency(markets, thresholds, config.thresholdMargin);
+    const flag = checkThresholdConsistency(markets, thresholds, config.thresholdMargin, execution);
     if (flag) flags.push(flag);
   }
   
   // Arbitrage bundle check
   if (config.enabledRules.includes('arbitrage_bundle')) {
     checksPerformed++;
-    const flag = checkArbitrageBundles(markets, config.minArbitrageProfit);
+    const flag = checkArbitrageBundles(markets, config.minArbitrageProfit, execution);
+    if (flag) flags.push(flag);
+  }
+
+  // Cross-venue check (for clusters holding one question listed on several venues)
+  if (config.enabledRules.includes('cross_venue_arbitrage')) {
+    checksPerformed++;
+    // Configs saved before venue fees existed get the default fees
+    const flag = checkCrossVenueArbitrage(markets, config.minArbitrageProfit, config.venueFeeBps ?? DEFAULT_VENUE_FEE_BPS, execution);
     if (flag) flags.push(flag);
   }
   
@@ -158,6 +158,8 @@ export const CACHE_TTL = {
   CURRENT_PRICE: 5 * 1000,      // 5 seconds
   TAGS: 10 * 60 * 1000,         // 10 minutes - stable
   CLOB_ENRICHMENT: 10 * 1000,   // 10 seconds - CLOB data refresh
+  SCANNER_DISCOVERY: 2 * 60 * 1000, // 2 minutes - discovery scans the whole universe
+  VENUE_COMPARISON: 60 * 1000,  // 1 minute - gaps between venues close quickly
 };
 
 /**
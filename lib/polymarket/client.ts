@@ -13,11 +13,16 @@
 
 import {
   Market,
+  MarketEvent,
   MarketOutcome,
+  MarketTrade,
+  EventSearchParams,
+  EventSearchResponse,
   MarketSearchParams,
   MarketSearchResponse,
+  Orderbook,
+  OrderbookMap,
   PricePoint,
-  TimeRange,
 } from '@/types';
 import {
   apiCache,
@@ -37,7 +42,7 @@ const REQUEST_TIMEOUT = 10000; // 10 seconds (reduced from 15)
 export interface FetchMeta {
   fetchedAt: number;
   cache: 'HIT' | 'MISS' | 'STALE';
-  source: ('gamma' | 'clob')[];
+  source: ('gamma' | 'clob' | 'fixture')[];
   durationMs: number;
 }
 
@@ -78,6 +83,7 @@ interface GammaMarketRaw {
   bestBid?: number;
   bestAsk?: number;
   lastTradePrice?: number;
+  events?: Array<{ slug: string; title?: string }>;
 }
 
 interface GammaEventRaw {
@@ -95,9 +101,44 @@ interface GammaEventRaw {
   icon?: string;
   createdAt: string;
   updatedAt: string;
+  endDate?: string;
+  negRisk?: boolean;
   tags?: Array<{ id: string; label: string; slug: string }>;
 }
 
+// Outcome price at which a closed market counts as settled to that outcome
+const RESOLVED_PRICE = 0.99;
+
+// Fixture mode means markets come from local files rather than any venue
+export type DataMode = 'live' | 'record' | 'replay' | 'fixture';
+
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+interface DataSource {
+  mode: DataMode;
+  fetch: HttpTransport;
+}
+
+const LIVE_SOURCE: DataSource = { mode: 'live', fetch: (url, init) => fetch(url, init) };
+
+// Where Gamma and CLOB requests go; swapped by the recorder and replay source
+// in lib/replay. Kept on globalThis since instrumentation sets it from a
+// separate bundle.
+const globalForSource = globalThis as typeof globalThis & { __pulseforgeDataSource?: DataSource };
+
+function getDataSource(): DataSource {
+  return globalForSource.__pulseforgeDataSource ?? LIVE_SOURCE;
+}
+
+/**
+ * Route every Gamma and CLOB request through `source`, or back to the
+ * network with null; cached responses from the previous source are dropped
+ */
+export function setDataSource(source: DataSource | null): void {
+  globalForSource.__pulseforgeDataSource = source ?? undefined;
+  apiCache.clear();
+}
+
 /**
  * Fetch with timeout and retry logic
  */
@@ -113,7 +154,7 @@ async function fetchWithTimeout(
     const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
 
     try {
-      const response = await fetch(url, {
+      const response = await getDataSource().fetch(url, {
         ...options,
         signal: controller.signal,
         cache: 'no-store', // Disable Next.js caching
@@ -170,6 +211,7 @@ function transformGammaMarket(
 ): Market {
   let outcomes: MarketOutcome[] = [];
   let clobTokenIds: string[] = [];
+  let resolutionOutcome: string | undefined;
 
   try {
     const outcomeNames = JSON.parse(gamma.outcomes || '["Yes", "No"]') as string[];
@@ -187,6 +229,12 @@ function transformGammaMarket(
       price: parseFloat(outcomePrices[i]) || 0.5,
       priceChange24h: i === 0 ? priceChange24h : -priceChange24h,
     }));
+
+    // Closed markets settle their winning outcome at $1
+    if (gamma.closed) {
+      const winner = outcomePrices.findIndex(p => parseFloat(p) >= RESOLVED_PRICE);
+      if (winner >= 0) resolutionOutcome = outcomeNames[winner];
+    }
   } catch {
     outcomes = [
       { id: `${gamma.id}-0`, name: 'Yes', price: 0.5, priceChange24h: 0 },
@@ -240,6 +288,7 @@ function transformGammaMarket(
 
   return {
     id: gamma.id || gamma.conditionId,
+    venue: 'polymarket',
     question: gamma.question,
     slug: cleanSlug,
     category,
@@ -253,6 +302,7 @@ function transformGammaMarket(
     active: gamma.active,
     closed: gamma.closed,
     resolved: gamma.closed && !gamma.active,
+    resolutionOutcome,
     imageUrl: gamma.image || gamma.icon,
     description: gamma.description,
     tags: eventTags?.map(t => t.label) || [],
@@ -269,7 +319,43 @@ function transformGammaMarket(
     bestAsk: gamma.bestAsk,
     lastTradePrice: gamma.lastTradePrice,
     conditionId: gamma.conditionId,
-    eventSlug: eventSlug,
+    eventSlug: eventSlug || gamma.events?.[0]?.slug,
+  };
+}
+
+/**
+ * Transform Gamma API event response to our MarketEvent type
+ */
+function transformGammaEvent(gamma: GammaEventRaw): MarketEvent {
+  const markets = (gamma.markets || [])
+    .filter(m => m.id)
+    .map(m => transformGammaMarket(m, gamma.title, gamma.tags, gamma.slug));
+
+  const toNumber = (value: string | number | undefined) =>
+    typeof value === 'string' ? parseFloat(value) || 0 : (value || 0);
+
+  // Prefer event-level aggregates, fall back to summing child markets
+  const volume = toNumber(gamma.volume) || markets.reduce((sum, m) => sum + m.volume, 0);
+  const liquidity = toNumber(gamma.liquidity) || markets.reduce((sum, m) => sum + m.liquidity, 0);
+  const volume24hr = gamma.volume24hr || markets.reduce((sum, m) => sum + (m.volume24hr || 0), 0);
+
+  return {
+    id: gamma.id,
+    slug: gamma.slug,
+    title: gamma.title,
+    description: gamma.description,
+    tags: gamma.tags?.map(t => t.label) || [],
+    markets,
+    volume,
+    volume24hr,
+    liquidity,
+    active: gamma.active,
+    closed: gamma.closed,
+    mutuallyExclusive: gamma.negRisk === true,
+    imageUrl: gamma.image || gamma.icon,
+    endDate: gamma.endDate,
+    createdAt: gamma.createdAt,
+    updatedAt: gamma.updatedAt,
   };
 }
 
@@ -753,161 +839,130 @@ export async function fetchMarketDetail(id: string): Promise<Market | null> {
 }
 
 /**
- * Fetch all markets for an event
+ * Fetch a page of active events with their child markets
  */
-export async function fetchEventMarkets(eventSlug: string): Promise<Market[]> {
-  const key = cacheKey('eventMarkets', eventSlug);
+export async function fetchEvents(
+  params: EventSearchParams = {}
+): Promise<EventSearchResponse> {
+  const { query, tag, limit = 20, offset = 0 } = params;
+  const key = cacheKey('events', query, tag, limit, offset);
 
-  return singleFlight(key, async () => {
-    const cached = apiCache.get<Market[]>(key);
-    if (cached) return cached;
+  const { data } = await staleWhileRevalidate<EventSearchResponse>(
+    key,
+    async () => {
+      const gammaParams = new URLSearchParams();
+      gammaParams.set('active', 'true');
+      gammaParams.set('closed', 'false');
+      gammaParams.set('limit', String(limit));
+      gammaParams.set('offset', String(offset));
+      gammaParams.set('order', 'volume');
+      gammaParams.set('ascending', 'false');
+      if (tag) gammaParams.set('tag_slug', tag);
+      if (query && query.trim()) gammaParams.set('_q', query.trim());
+
+      const url = `${GAMMA_API_URL}/events?${gammaParams.toString()}`;
+      console.log(`[Polymarket] Fetching events: ${url}`);
 
-    try {
-      const url = `${GAMMA_API_URL}/events?slug=${encodeURIComponent(eventSlug)}`;
       const response = await fetchWithTimeout(url);
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new Error(`Gamma API returned ${response.status}: ${errorText}`);
+      }
 
-      if (!response.ok) return [];
-
-      const data = await response.json();
-      const events = Array.isArray(data) ? data : [data];
+      const json = await response.json();
+      const rawEvents: GammaEventRaw[] = Array.isArray(json) ? json : (json.data || json.events || []);
+      const events = rawEvents.filter(e => e.slug).map(transformGammaEvent);
 
-      if (events.length === 0 || !events[0].markets) return [];
+      // Cache each event individually so detail views are instant
+      events.forEach(event => apiCache.set(cacheKey('event', event.slug), event, CACHE_TTL.MARKET_DETAIL));
 
-      const event = events[0];
-      const markets = event.markets.map((m: GammaMarketRaw) =>
-        transformGammaMarket(m, event.title, event.tags, event.slug)
-      );
+      return {
+        events,
+        hasMore: rawEvents.length >= limit,
+      };
+    },
+    CACHE_TTL.MARKETS_LIST
+  );
 
-      apiCache.set(key, markets, CACHE_TTL.MARKET_DETAIL);
-      return markets;
-    } catch (error) {
-      console.error('[Polymarket] Event markets error:', error);
-      return [];
-    }
-  });
+  return data;
 }
 
 /**
- * Fetch price history for a market
+ * Fetch a single event with all of its sibling markets
  */
-export async function fetchMarketHistory(
-  marketId: string,
-  range: TimeRange
-): Promise<PricePoint[]> {
-  const key = cacheKey('history', marketId, range);
-  const cached = apiCache.get<PricePoint[]>(key);
-  if (cached) return cached;
+export async function fetchEvent(eventSlug: string): Promise<MarketEvent | null> {
+  const key = cacheKey('event', eventSlug);
 
-  try {
-    const now = Date.now();
-    const rangeConfig: Record<TimeRange, { fidelity: number; startTime: number; points: number }> = {
-      '1H': { fidelity: 1, startTime: now - 60 * 60 * 1000, points: 60 },
-      '24H': { fidelity: 15, startTime: now - 24 * 60 * 60 * 1000, points: 96 },
-      '7D': { fidelity: 60, startTime: now - 7 * 24 * 60 * 60 * 1000, points: 168 },
-      '30D': { fidelity: 360, startTime: now - 30 * 24 * 60 * 60 * 1000, points: 120 },
-      ALL: { fidelity: 1440, startTime: now - 365 * 24 * 60 * 60 * 1000, points: 365 },
-    };
-
-    const config = rangeConfig[range];
-    const market = await fetchMarketDetail(marketId);
-    const tokenId = market?.outcomes[0]?.id;
-
-    let history: PricePoint[] = [];
+  return singleFlight(key, async () => {
+    const cached = apiCache.get<MarketEvent>(key);
+    if (cached) return cached;
 
-    const endpoints = [
-      tokenId ? `${CLOB_API_URL}/prices-history?market=${encodeURIComponent(tokenId)}&interval=${config.fidelity}m&fidelity=${config.fidelity}` : null,
-      `${GAMMA_API_URL}/prices?market=${encodeURIComponent(marketId)}&fidelity=${config.fidelity}&startTs=${Math.floor(config.startTime / 1000)}&endTs=${Math.floor(now / 1000)}`,
-      `${GAMMA_API_URL}/markets/${encodeURIComponent(marketId)}/prices?fidelity=${config.fidelity}`,
-    ].filter(Boolean) as string[];
+    try {
+      const url = `${GAMMA_API_URL}/events?slug=${encodeURIComponent(eventSlug)}`;
+      const response = await fetchWithTimeout(url);
 
-    for (const url of endpoints) {
-      try {
-        const response = await fetchWithTimeout(url);
-        if (!response.ok) continue;
+      if (!response.ok) return null;
 
-        const data = await response.json();
-        let rawPoints: Array<{ t?: number | string; p?: number | string; price?: number | string; timestamp?: number | string }> = [];
-
-        if (data.history) rawPoints = data.history;
-        else if (data.prices) rawPoints = data.prices;
-        else if (Array.isArray(data)) rawPoints = data;
-
-        history = rawPoints.map(point => {
-          const timestamp = point.t || point.timestamp;
-          const price = point.p || point.price;
-          return {
-            timestamp: typeof timestamp === 'number'
-              ? (timestamp < 1e12 ? timestamp * 1000 : timestamp)
-              : Date.parse(String(timestamp)),
-            price: typeof price === 'number' ? price : parseFloat(String(price)),
-          };
-        }).filter(p => !isNaN(p.timestamp) && !isNaN(p.price) && p.price >= 0 && p.price <= 1);
-
-        if (history.length > 0) break;
-      } catch {
-        continue;
-      }
-    }
-
-    // Generate synthetic if no data
-    if (history.length === 0 && market) {
-      history = generateSyntheticHistory(
-        market.outcomes[0]?.price || 0.5,
-        market.outcomes[0]?.priceChange24h || 0,
-        config.startTime,
-        now,
-        config.points
-      );
-    }
+      const data = await response.json();
+      const events: GammaEventRaw[] = Array.isArray(data) ? data : [data];
 
-    history.sort((a, b) => a.timestamp - b.timestamp);
+      if (events.length === 0 || !events[0]?.slug) return null;
 
-    if (history.length > 0) {
-      apiCache.set(key, history, CACHE_TTL.PRICE_HISTORY);
+      const event = transformGammaEvent(events[0]);
+      apiCache.set(key, event, CACHE_TTL.MARKET_DETAIL);
+      return event;
+    } catch (error) {
+      console.error('[Polymarket] Event fetch error:', error);
+      return null;
     }
+  });
+}
 
-    return history;
-  } catch (error) {
-    console.error('[Polymarket] Price history error:', error);
-    return [];
-  }
+/**
+ * Fetch all markets for an event
+ */
+export async function fetchEventMarkets(eventSlug: string): Promise<Market[]> {
+  const event = await fetchEvent(eventSlug);
+  return event?.markets || [];
 }
 
 /**
- * Generate synthetic price history
+ * Fetch a token's price history from the CLOB timeseries endpoint
+ * Returns only what the CLOB reports; an empty array means no data.
+ *
+ * See: https://docs.polymarket.com/developers/CLOB/timeseries
  */
-function generateSyntheticHistory(
-  currentPrice: number,
-  priceChange24h: number,
+export async function fetchPriceHistory(
+  tokenId: string,
   startTime: number,
   endTime: number,
-  numPoints: number
-): PricePoint[] {
-  const history: PricePoint[] = [];
-  const timeStep = (endTime - startTime) / numPoints;
-  const timeRangeHours = (endTime - startTime) / (1000 * 60 * 60);
-  const scaledChange = priceChange24h * (timeRangeHours / 24);
-  const startPrice = Math.max(0.01, Math.min(0.99, currentPrice - scaledChange));
-  const volatility = Math.abs(priceChange24h) * 0.5 + 0.01;
-
-  for (let i = 0; i <= numPoints; i++) {
-    const timestamp = startTime + timeStep * i;
-    const progress = i / numPoints;
-    const targetPrice = startPrice + (currentPrice - startPrice) * progress;
-    const randomWalk = (Math.random() - 0.5) * volatility * (1 - progress * 0.5);
-    let price = targetPrice + randomWalk;
-    price = Math.max(0.01, Math.min(0.99, price));
-
-    history.push({
-      timestamp: Math.round(timestamp),
-      price: Math.round(price * 1000) / 1000,
-    });
-  }
+  fidelityMinutes: number
+): Promise<PricePoint[]> {
+  const key = cacheKey('history', tokenId, startTime, fidelityMinutes);
+  const cached = apiCache.get<PricePoint[]>(key);
+  if (cached) return cached;
 
-  if (history.length > 0) {
-    history[history.length - 1].price = currentPrice;
+  const url = `${CLOB_API_URL}/prices-history?market=${encodeURIComponent(tokenId)}`
+    + `&startTs=${Math.floor(startTime / 1000)}&endTs=${Math.floor(endTime / 1000)}&fidelity=${fidelityMinutes}`;
+  const response = await fetchWithTimeout(url);
+  if (!response.ok) {
+    throw new Error(`CLOB prices-history returned ${response.status}`);
   }
 
+  const data = await response.json();
+  const rawPoints: Array<{ t?: number | string; p?: number | string }> = Array.isArray(data?.history) ? data.history : [];
+
+  const history = rawPoints.map(point => {
+    const timestamp = Number(point.t);
+    return {
+      timestamp: timestamp < 1e12 ? timestamp * 1000 : timestamp,
+      price: typeof point.p === 'number' ? point.p : parseFloat(String(point.p)),
+    };
+  })
+    .filter(p => !isNaN(p.timestamp) && !isNaN(p.price) && p.price >= 0 && p.price <= 1)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  apiCache.set(key, history, CACHE_TTL.PRICE_HISTORY);
   return history;
 }
 
@@ -957,6 +1012,78 @@ export async function fetchOrderbook(tokenId: string): Promise<{
   }
 }
 
+/**
+ * Fetch parsed orderbooks for several tokens, best levels first
+ * Tokens whose book cannot be fetched are left out of the map
+ */
+export async function fetchOrderbooks(tokenIds: string[]): Promise<OrderbookMap> {
+  const uniqueIds = Array.from(new Set(tokenIds)).filter(id => !id.includes('-'));
+
+  const books = await Promise.all(
+    uniqueIds.map(tokenId =>
+      clobLimiter(async () => {
+        const key = cacheKey('orderbook', tokenId);
+        const cached = apiCache.get<Orderbook>(key);
+        if (cached) return [tokenId, cached] as const;
+
+        const raw = await fetchOrderbook(tokenId);
+        if (!raw) return null;
+
+        const parse = (levels: { price: string; size: string }[]) =>
+          levels
+            .map(l => ({ price: parseFloat(l.price), size: parseFloat(l.size) }))
+            .filter(l => !isNaN(l.price) && !isNaN(l.size) && l.size > 0);
+
+        const book: Orderbook = {
+          bids: parse(raw.bids).sort((a, b) => b.price - a.price),
+          asks: parse(raw.asks).sort((a, b) => a.price - b.price),
+        };
+        apiCache.set(key, book, CACHE_TTL.ORDERBOOK);
+        return [tokenId, book] as const;
+      })
+    )
+  );
+
+  const orderbooks: OrderbookMap = {};
+  books.forEach(entry => {
+    if (entry) orderbooks[entry[0]] = entry[1];
+  });
+  return orderbooks;
+}
+
+/**
+ * Current CLOB prices for several tokens, keyed by token id
+ * Tokens whose price fails to load are simply missing from the map
+ */
+export async function fetchCurrentPrices(
+  tokenIds: string[],
+  side: 'buy' | 'sell' = 'buy'
+): Promise<Record<string, number>> {
+  const uniqueIds = Array.from(new Set(tokenIds)).filter(id => !id.includes('-'));
+
+  const prices = await Promise.all(
+    uniqueIds.map(tokenId =>
+      clobLimiter(async () => {
+        const key = cacheKey('price', tokenId, side);
+        const cached = apiCache.get<number>(key);
+        if (cached !== null) return [tokenId, cached] as const;
+
+        const price = await fetchCurrentPrice(tokenId, side);
+        if (price === null) return null;
+
+        apiCache.set(key, price, CACHE_TTL.CURRENT_PRICE);
+        return [tokenId, price] as const;
+      })
+    )
+  );
+
+  const result: Record<string, number> = {};
+  prices.forEach(entry => {
+    if (entry) result[entry[0]] = entry[1];
+  });
+  return result;
+}
+
 /**
  * Fetch all available tags from Gamma API
  */
@@ -996,10 +1123,10 @@ export function clearCache(): void {
 }
 
 /**
- * Get data mode status
+ * Get data mode status: live, recording live data, or replaying a recording
  */
-export function getDataMode(): 'live' {
-  return 'live';
+export function getDataMode(): DataMode {
+  return getDataSource().mode;
 }
 
 /**
@@ -1065,13 +1192,7 @@ export function getPolymarketUrlAlternatives(
 /**
  * Fetch recent trades
  */
-export async function fetchRecentTrades(tokenId: string, limit = 50): Promise<Array<{
-  id: string;
-  timestamp: number;
-  price: number;
-  size: number;
-  side: 'buy' | 'sell';
-}> | null> {
+export async function fetchRecentTrades(tokenId: string, limit = 50): Promise<MarketTrade[] | null> {
   try {
     const url = `${CLOB_API_URL}/trades?token_id=${encodeURIComponent(tokenId)}&limit=${limit}`;
     const response = await fetchWithTimeout(url);
@@ -1,10 +1,14 @@
 export {
   fetchMarkets,
   fetchMarketDetail,
-  fetchMarketHistory,
+  fetchPriceHistory,
+  fetchEvents,
+  fetchEvent,
   fetchEventMarkets,
   fetchCurrentPrice,
+  fetchCurrentPrices,
   fetchOrderbook,
+  fetchOrderbooks,
   fetchTags,
   fetchRecentTrades,
   fetchMarketStats,
@@ -13,6 +17,9 @@ export {
   getPolymarketUrlAlternatives,
   clearCache,
   getDataMode,
+  setDataSource,
+  type DataMode,
+  type HttpTransport,
   type FetchMeta,
   type MarketSearchResponseWithMeta,
 } from './client';
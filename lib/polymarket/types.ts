@@ -43,6 +43,7 @@ export interface GammaEvent {
   closed: boolean;
   tags?: { id: string; label: string; slug: string }[];
   markets: GammaMarket[];
+  negRisk?: boolean; // Child markets are mutually exclusive
 }
 
 // Gamma API Price History Point
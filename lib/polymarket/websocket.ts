@@ -1,10 +1,17 @@
 /**
  * Polymarket WebSocket Client
  * Real-time price and orderbook updates via WebSocket
- * 
+ *
+ * Reconnects forever with jittered exponential backoff. Updates sent while
+ * disconnected are lost, so after every reconnect each subscribed token is
+ * resynced from the REST API; the same happens when a sequence number shows
+ * a message was skipped.
+ *
  * WebSocket URL: wss://ws-subscriptions-clob.polymarket.com
  */
 
+import { fetchOrderbook, fetchCurrentPrice } from './client';
+
 export interface PriceUpdate {
   token_id: string;
   price: string;
@@ -12,10 +19,13 @@ export interface PriceUpdate {
   timestamp?: number;
 }
 
+// Changed levels only, where a size of "0" removes the level; a snapshot
+// replaces the whole book instead
 export interface OrderbookUpdate {
   token_id: string;
   bids: { price: string; size: string }[];
   asks: { price: string; size: string }[];
+  snapshot?: boolean;
 }
 
 export interface TradeUpdate {
@@ -26,165 +36,326 @@ export interface TradeUpdate {
   timestamp: number;
 }
 
-export type WebSocketMessage = 
+export type WebSocketMessage =
   | { type: 'price'; data: PriceUpdate }
   | { type: 'orderbook'; data: OrderbookUpdate }
   | { type: 'trade'; data: TradeUpdate }
   | { type: 'subscription_success'; channel: string; token_id: string }
   | { type: 'error'; message: string };
 
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  reconnectAttempt: number; // Failed attempts since the connection was last open
+  nextRetryAt: number | null;
+  lastOpenedAt: number | null;
+  lastClosedAt: number | null;
+}
+
+// The subset of the WebSocket API the client uses, so tests can supply `ws`
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface WebSocketClientOptions {
+  url?: string;
+  WebSocketImpl?: WebSocketConstructor; // Defaults to the global WebSocket
+  baseReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  heartbeatInterval?: number;
+  random?: () => number;
+  fetchOrderbook?: (tokenId: string) => Promise<Pick<OrderbookUpdate, 'bids' | 'asks'> | null>;
+  fetchPrice?: (tokenId: string) => Promise<number | null>;
+}
+
 type SubscriptionCallback = (message: WebSocketMessage) => void;
+type ConnectionListener = (connected: boolean) => void;
+type StatusListener = (status: ConnectionStatus) => void;
+type Channel = 'price' | 'orderbook';
+
+export type SequenceCheck = 'ok' | 'gap' | 'stale';
 
 const WS_URL = 'wss://ws-subscriptions-clob.polymarket.com';
 
-class PolymarketWebSocketClient {
-  private ws: WebSocket | null = null;
+// WebSocket.OPEN; the global may not exist in Node
+const OPEN = 1;
+
+// Close code for a server restart (e.g. a looping replay); not a failure
+const SERVICE_RESTART = 1012;
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): exponential up to
+ * `maxDelay`, with the upper half jittered so clients that dropped together
+ * don't reconnect together
+ */
+export function getReconnectDelay(
+  attempt: number,
+  baseDelay: number = 1000,
+  maxDelay: number = 30000,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+  return ceiling / 2 + random() * (ceiling / 2);
+}
+
+/**
+ * Where a message's sequence number falls relative to the last one seen
+ * on its channel: next in line, after a skipped message, or a repeat of
+ * one already handled
+ */
+export function checkSequence(last: number | undefined, next: number): SequenceCheck {
+  if (last === undefined || next === last + 1) return 'ok';
+  return next <= last ? 'stale' : 'gap';
+}
+
+function parseNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export class PolymarketWebSocketClient {
+  private ws: WebSocketLike | null = null;
   private subscribers: Map<string, Set<SubscriptionCallback>> = new Map();
-  private subscriptions: Set<string> = new Set(); // Track subscribed token_ids
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000; // Start with 1 second
-  private heartbeatInterval: NodeJS.Timeout | null = null;
-  private isConnecting = false;
+  private subscriptions: Set<string> = new Set(); // Subscriptions sent upstream, as channel:token_id
+  private connectionListeners: Set<ConnectionListener> = new Set();
+  private statusListeners: Set<StatusListener> = new Set();
+  private sequences: Map<string, number> = new Map(); // channel:token_id -> last sequence number
+  private timestamps: Map<string, number> = new Map(); // channel:token_id -> last upstream timestamp
+  private resyncing: Set<string> = new Set();
+  private status: ConnectionStatus = {
+    state: 'idle',
+    reconnectAttempt: 0,
+    nextRetryAt: null,
+    lastOpenedAt: null,
+    lastClosedAt: null,
+  };
+  private connectPromise: Promise<void> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private shouldReconnect = true;
+  private options: Required<Omit<WebSocketClientOptions, 'WebSocketImpl'>> & Pick<WebSocketClientOptions, 'WebSocketImpl'>;
+
+  constructor(options: WebSocketClientOptions = {}) {
+    this.options = {
+      url: WS_URL,
+      baseReconnectDelay: 1000,
+      maxReconnectDelay: 30000,
+      heartbeatInterval: 30000,
+      random: Math.random,
+      fetchOrderbook,
+      fetchPrice: (tokenId) => fetchCurrentPrice(tokenId),
+      ...options,
+    };
+  }
 
   /**
    * Connect to WebSocket
    */
   connect(): Promise<void> {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.ws?.readyState === OPEN) {
       return Promise.resolve();
     }
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
 
-    if (this.isConnecting) {
-      return new Promise((resolve) => {
-        const checkInterval = setInterval(() => {
-          if (this.ws?.readyState === WebSocket.OPEN) {
-            clearInterval(checkInterval);
-            resolve();
-          }
-        }, 100);
-      });
+    const Impl = this.getImpl();
+    if (!Impl) {
+      return Promise.reject(new Error('WebSocket is not available in this runtime'));
     }
 
-    this.isConnecting = true;
+    this.shouldReconnect = true;
+    this.clearReconnectTimer();
+    this.setStatus({ state: this.status.reconnectAttempt > 0 ? 'reconnecting' : 'connecting', nextRetryAt: null });
 
-    return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(WS_URL);
-
-        this.ws.onopen = () => {
-          console.log('[WebSocket] Connected to Polymarket');
-          this.isConnecting = false;
-          this.reconnectAttempts = 0;
-          this.reconnectDelay = 1000;
-
-          // Resubscribe to all previous subscriptions
-          this.resubscribeAll();
-
-          // Start heartbeat/ping
-          this.startHeartbeat();
-
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          try {
-            const message = JSON.parse(event.data);
-            this.handleMessage(message);
-          } catch (error) {
-            console.error('[WebSocket] Failed to parse message:', error);
-          }
-        };
-
-        this.ws.onerror = (error) => {
-          console.error('[WebSocket] Error:', error);
-          this.isConnecting = false;
-          reject(error);
-        };
-
-        this.ws.onclose = (event) => {
-          console.log('[WebSocket] Connection closed', event.code, event.reason);
-          this.isConnecting = false;
-          this.stopHeartbeat();
-
-          if (this.shouldReconnect && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.scheduleReconnect();
-          }
-        };
-      } catch (error) {
-        this.isConnecting = false;
+    let ws: WebSocketLike;
+    try {
+      ws = new Impl(this.options.url);
+    } catch (error) {
+      this.scheduleReconnect();
+      return Promise.reject(error);
+    }
+    this.ws = ws;
+
+    const promise = new Promise<void>((resolve, reject) => {
+      ws.onopen = () => {
+        const isReconnect = this.status.lastOpenedAt !== null;
+        console.log('[WebSocket] Connected to Polymarket');
+        this.connectPromise = null;
+        this.sequences.clear();
+        this.timestamps.clear();
+        this.setStatus({ state: 'open', reconnectAttempt: 0, nextRetryAt: null, lastOpenedAt: Date.now() });
+
+        // Resubscribe to all previous subscriptions
+        this.resubscribeAll();
+
+        // Start heartbeat/ping
+        this.startHeartbeat();
+
+        this.notifyConnectionListeners(true);
+
+        // Whatever changed while disconnected was never sent
+        if (isReconnect) this.resyncAll();
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          const message = JSON.parse(String(event.data));
+          this.handleMessage(message);
+        } catch (error) {
+          console.error('[WebSocket] Failed to parse message:', error);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error('[WebSocket] Error:', error);
         reject(error);
-      }
+      };
+
+      ws.onclose = (event) => {
+        // A socket replaced by disconnect() or a newer connect()
+        if (this.ws !== ws) return;
+
+        console.log('[WebSocket] Connection closed', event.code, event.reason);
+        const wasOpen = this.status.state === 'open';
+        this.ws = null;
+        this.connectPromise = null;
+        this.stopHeartbeat();
+        reject(new Error(`WebSocket closed (${event.code})`));
+
+        const lastClosedAt = wasOpen ? Date.now() : this.status.lastClosedAt;
+        if (this.shouldReconnect) {
+          this.scheduleReconnect({ lastClosedAt }, event.code === SERVICE_RESTART);
+        } else {
+          this.setStatus({ state: 'closed', nextRetryAt: null, lastClosedAt });
+        }
+        if (wasOpen) this.notifyConnectionListeners(false);
+      };
     });
+
+    this.connectPromise = promise;
+    return promise;
   }
 
   /**
    * Subscribe to price updates for a token
    */
   subscribePrice(tokenId: string, callback: SubscriptionCallback): () => void {
-    const key = `price:${tokenId}`;
-    
-    if (!this.subscribers.has(key)) {
-      this.subscribers.set(key, new Set());
-    }
-    this.subscribers.get(key)!.add(callback);
+    return this.subscribe('price', tokenId, callback);
+  }
 
-    // Subscribe if not already subscribed
-    if (!this.subscriptions.has(tokenId)) {
-      this.sendSubscription('price', tokenId);
-      this.subscriptions.add(tokenId);
-    }
+  /**
+   * Subscribe to orderbook updates for a token
+   */
+  subscribeOrderbook(tokenId: string, callback: SubscriptionCallback): () => void {
+    return this.subscribe('orderbook', tokenId, callback);
+  }
 
-    // Return unsubscribe function
+  /**
+   * Listen for the connection opening or closing
+   */
+  onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
     return () => {
-      const callbacks = this.subscribers.get(key);
-      if (callbacks) {
-        callbacks.delete(callback);
-        if (callbacks.size === 0) {
-          this.subscribers.delete(key);
-          this.unsubscribe('price', tokenId);
-        }
-      }
+      this.connectionListeners.delete(listener);
     };
   }
 
   /**
-   * Subscribe to orderbook updates for a token
+   * Listen for every change of connection state, including reconnect
+   * attempts; the listener is called right away with the current status
    */
-  subscribeOrderbook(tokenId: string, callback: SubscriptionCallback): () => void {
-    const key = `orderbook:${tokenId}`;
-    
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Whether this runtime can open a socket: a WebSocket implementation was
+   * passed in or there is a global one
+   */
+  isSupported(): boolean {
+    return this.getImpl() !== undefined;
+  }
+
+  private getImpl(): WebSocketConstructor | undefined {
+    return this.options.WebSocketImpl
+      ?? (globalThis as { WebSocket?: unknown }).WebSocket as WebSocketConstructor | undefined;
+  }
+
+  private subscribe(channel: Channel, tokenId: string, callback: SubscriptionCallback): () => void {
+    const key = `${channel}:${tokenId}`;
+
     if (!this.subscribers.has(key)) {
       this.subscribers.set(key, new Set());
     }
     this.subscribers.get(key)!.add(callback);
 
-    if (!this.subscriptions.has(tokenId)) {
-      this.sendSubscription('orderbook', tokenId);
-      this.subscriptions.add(tokenId);
+    // Subscribe if not already subscribed
+    if (!this.subscriptions.has(key)) {
+      this.sendSubscription(channel, tokenId);
+      this.subscriptions.add(key);
     }
 
+    // Return unsubscribe function
     return () => {
       const callbacks = this.subscribers.get(key);
       if (callbacks) {
         callbacks.delete(callback);
         if (callbacks.size === 0) {
           this.subscribers.delete(key);
-          this.unsubscribe('orderbook', tokenId);
+          this.unsubscribe(channel, tokenId);
         }
       }
     };
   }
 
+  private setStatus(patch: Partial<ConnectionStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.statusListeners.forEach((listener) => {
+      try {
+        listener(this.status);
+      } catch (error) {
+        console.error('[WebSocket] Status listener error:', error);
+      }
+    });
+  }
+
+  private notifyConnectionListeners(connected: boolean) {
+    this.connectionListeners.forEach((listener) => {
+      try {
+        listener(connected);
+      } catch (error) {
+        console.error('[WebSocket] Connection listener error:', error);
+      }
+    });
+  }
+
   /**
    * Send subscription message
    */
-  private sendSubscription(channel: 'price' | 'orderbook', tokenId: string) {
-    if (this.ws?.readyState !== WebSocket.OPEN) {
-      // Queue subscription for when connection opens
-      this.connect().then(() => {
-        this.sendSubscription(channel, tokenId);
+  private sendSubscription(channel: Channel, tokenId: string) {
+    if (this.ws?.readyState !== OPEN) {
+      // Sent by resubscribeAll once the connection opens
+      this.connect().catch(() => {
+        // Retried by scheduleReconnect
       });
       return;
     }
@@ -202,8 +373,12 @@ class PolymarketWebSocketClient {
   /**
    * Unsubscribe from updates
    */
-  private unsubscribe(channel: 'price' | 'orderbook', tokenId: string) {
-    if (this.ws?.readyState !== WebSocket.OPEN) return;
+  private unsubscribe(channel: Channel, tokenId: string) {
+    const key = `${channel}:${tokenId}`;
+    this.subscriptions.delete(key);
+    this.sequences.delete(key);
+    this.timestamps.delete(key);
+    if (this.ws?.readyState !== OPEN) return;
 
     const message = {
       type: 'unsubscribe',
@@ -212,10 +387,37 @@ class PolymarketWebSocketClient {
     };
 
     this.ws.send(JSON.stringify(message));
-    this.subscriptions.delete(tokenId);
     console.log(`[WebSocket] Unsubscribed from ${channel}:${tokenId}`);
   }
 
+  /**
+   * Drop messages older than the last one handled on their channel, and
+   * resync the channel when a sequence number shows one was skipped
+   */
+  private acceptMessage(channel: Channel, tokenId: string, data: Record<string, unknown>): boolean {
+    const key = `${channel}:${tokenId}`;
+
+    const sequence = parseNumber(data.seq ?? data.sequence);
+    if (sequence !== undefined) {
+      const check = checkSequence(this.sequences.get(key), sequence);
+      if (check === 'stale') return false;
+      this.sequences.set(key, sequence);
+      if (check === 'gap') {
+        console.warn(`[WebSocket] Sequence gap on ${key}, resyncing`);
+        this.resync(channel, tokenId);
+      }
+    }
+
+    const timestamp = parseNumber(data.timestamp);
+    if (timestamp !== undefined) {
+      const last = this.timestamps.get(key);
+      if (last !== undefined && timestamp < last) return false;
+      this.timestamps.set(key, timestamp);
+    }
+
+    return true;
+  }
+
   /**
    * Handle incoming messages
    */
@@ -226,28 +428,29 @@ class PolymarketWebSocketClient {
     if (rawMessage.type === 'price' || rawMessage.data?.type === 'price') {
       const priceData = rawMessage.data || rawMessage;
       const tokenId = priceData.token_id;
-      const key = `price:${tokenId}`;
-      
-      this.notifySubscribers(key, {
+      if (!this.acceptMessage('price', tokenId, priceData)) return;
+
+      this.notifySubscribers(`price:${tokenId}`, {
         type: 'price',
         data: {
           token_id: tokenId,
           price: priceData.price,
           side: priceData.side,
-          timestamp: Date.now(),
+          timestamp: parseNumber(priceData.timestamp) ?? Date.now(),
         },
       });
     } else if (rawMessage.type === 'orderbook' || rawMessage.data?.type === 'orderbook') {
       const orderbookData = rawMessage.data || rawMessage;
       const tokenId = orderbookData.token_id;
-      const key = `orderbook:${tokenId}`;
-      
-      this.notifySubscribers(key, {
+      if (!this.acceptMessage('orderbook', tokenId, orderbookData)) return;
+
+      this.notifySubscribers(`orderbook:${tokenId}`, {
         type: 'orderbook',
         data: {
           token_id: tokenId,
           bids: orderbookData.bids || [],
           asks: orderbookData.asks || [],
+          snapshot: orderbookData.snapshot === true || undefined,
         },
       });
     } else if (rawMessage.type === 'trade' || rawMessage.data?.type === 'trade') {
@@ -255,7 +458,7 @@ class PolymarketWebSocketClient {
       const tokenId = tradeData.token_id;
       // Notify all subscribers for trades
       this.subscribers.forEach((callbacks, key) => {
-        if (key.includes(tokenId)) {
+        if (key.endsWith(`:${tokenId}`)) {
           this.notifySubscribers(key, {
             type: 'trade',
             data: tradeData,
@@ -289,31 +492,78 @@ class PolymarketWebSocketClient {
    * Resubscribe to all active subscriptions after reconnect
    */
   private resubscribeAll() {
-    const tokenIds = Array.from(this.subscriptions);
-    tokenIds.forEach((tokenId) => {
-      // Check which channels need resubscription
-      const priceKey = `price:${tokenId}`;
-      const orderbookKey = `orderbook:${tokenId}`;
-
-      if (this.subscribers.has(priceKey)) {
-        this.sendSubscription('price', tokenId);
-      }
-      if (this.subscribers.has(orderbookKey)) {
-        this.sendSubscription('orderbook', tokenId);
-      }
+    Array.from(this.subscriptions).forEach((key) => {
+      if (!this.subscribers.has(key)) return;
+      const [channel, tokenId] = key.split(':') as [Channel, string];
+      this.sendSubscription(channel, tokenId);
+    });
+  }
+
+  /**
+   * Fetch the current book or price of every subscribed token
+   */
+  private resyncAll() {
+    Array.from(this.subscribers.keys()).forEach((key) => {
+      const [channel, tokenId] = key.split(':') as [Channel, string];
+      this.resync(channel, tokenId);
     });
   }
 
   /**
-   * Schedule reconnection with exponential backoff
+   * Send subscribers a REST snapshot of one channel; the book arrives as a
+   * snapshot message that replaces whatever they hold
    */
-  private scheduleReconnect() {
-    this.reconnectAttempts++;
-    const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1), 30000);
-    
-    console.log(`[WebSocket] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
-    
-    setTimeout(() => {
+  private async resync(channel: Channel, tokenId: string) {
+    const key = `${channel}:${tokenId}`;
+    if (this.resyncing.has(key)) return;
+    this.resyncing.add(key);
+
+    try {
+      if (channel === 'orderbook') {
+        const book = await this.options.fetchOrderbook(tokenId);
+        if (book && this.subscribers.has(key)) {
+          this.notifySubscribers(key, {
+            type: 'orderbook',
+            data: { token_id: tokenId, bids: book.bids, asks: book.asks, snapshot: true },
+          });
+        }
+      } else {
+        const price = await this.options.fetchPrice(tokenId);
+        if (price !== null && this.subscribers.has(key)) {
+          this.notifySubscribers(key, {
+            type: 'price',
+            data: { token_id: tokenId, price: String(price), timestamp: Date.now() },
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`[WebSocket] Resync failed for ${key}:`, error);
+    } finally {
+      this.resyncing.delete(key);
+    }
+  }
+
+  /**
+   * Schedule reconnection with jittered exponential backoff; never gives up
+   * while reconnecting is wanted. A server restart reconnects at once
+   * without counting as a failed attempt.
+   */
+  private scheduleReconnect(patch: Partial<ConnectionStatus> = {}, restart = false) {
+    if (this.reconnectTimer) return;
+
+    const attempt = restart ? this.status.reconnectAttempt : this.status.reconnectAttempt + 1;
+    const delay = restart ? 0 : getReconnectDelay(
+      attempt,
+      this.options.baseReconnectDelay,
+      this.options.maxReconnectDelay,
+      this.options.random
+    );
+
+    console.log(`[WebSocket] Reconnecting in ${Math.round(delay)}ms (attempt ${attempt})`);
+    this.setStatus({ ...patch, state: 'reconnecting', reconnectAttempt: attempt, nextRetryAt: Date.now() + delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       if (this.shouldReconnect) {
         this.connect().catch(() => {
           // Reconnection will be retried by scheduleReconnect
@@ -322,27 +572,34 @@ class PolymarketWebSocketClient {
     }, delay);
   }
 
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   /**
    * Start heartbeat to keep connection alive
    */
   private startHeartbeat() {
     this.stopHeartbeat();
-    this.heartbeatInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
+    this.heartbeatTimer = setInterval(() => {
+      if (this.ws?.readyState === OPEN) {
         // Send ping if server requires it
         // Adjust based on Polymarket's heartbeat requirements
         this.ws.send(JSON.stringify({ type: 'ping' }));
       }
-    }, 30000); // Ping every 30 seconds
+    }, this.options.heartbeatInterval);
   }
 
   /**
    * Stop heartbeat
    */
   private stopHeartbeat() {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
   }
 
@@ -351,38 +608,60 @@ class PolymarketWebSocketClient {
    */
   disconnect() {
     this.shouldReconnect = false;
+    this.clearReconnectTimer();
     this.stopHeartbeat();
-    
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+
+    const ws = this.ws;
+    this.ws = null;
+    this.connectPromise = null;
+    ws?.close();
+
+    const wasOpen = this.status.state === 'open';
+    this.setStatus({ state: 'closed', nextRetryAt: null, lastClosedAt: wasOpen ? Date.now() : this.status.lastClosedAt });
+    if (wasOpen) this.notifyConnectionListeners(false);
 
     this.subscribers.clear();
     this.subscriptions.clear();
+    this.sequences.clear();
+    this.timestamps.clear();
+    this.connectionListeners.clear();
+    this.statusListeners.clear();
   }
 
   /**
    * Get connection status
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.ws?.readyState === OPEN;
   }
 }
 
 // Singleton instance
 let wsClient: PolymarketWebSocketClient | null = null;
 
+// Kept on globalThis since instrumentation sets it from a separate bundle
+const globalForOptions = globalThis as typeof globalThis & { __pulseforgeWebSocketOptions?: WebSocketClientOptions };
+
 /**
  * Get or create WebSocket client instance
  */
 export function getWebSocketClient(): PolymarketWebSocketClient {
   if (!wsClient) {
-    wsClient = new PolymarketWebSocketClient();
+    wsClient = new PolymarketWebSocketClient(globalForOptions.__pulseforgeWebSocketOptions);
   }
   return wsClient;
 }
 
+/**
+ * Options for the shared client, e.g. a recording or replaying socket
+ * implementation; set at startup, since an existing client is disconnected
+ * and replaced
+ */
+export function setWebSocketClientOptions(options: WebSocketClientOptions): void {
+  globalForOptions.__pulseforgeWebSocketOptions = options;
+  disconnectWebSocket();
+}
+
 /**
  * Connect to WebSocket (call this early in app lifecycle)
  */
@@ -400,4 +679,3 @@ export function disconnectWebSocket(): void {
     wsClient = null;
   }
 }
-
@@ -0,0 +1,346 @@
+/**
+ * Fixture Provider
+ * Serves markets from local files, for offline demos and tests. A fixture
+ * directory holds:
+ *
+ * - markets.json: an array of markets, with at least id, question, endDate
+ *   and outcomes; other Market fields are kept as given
+ * - orderbooks.json: books keyed by outcome token id (optional)
+ * - history.csv: token_id,timestamp,price rows (optional)
+ * - trades.csv: token_id,id,timestamp,price,size,side rows (optional)
+ *
+ * Timestamps are seconds, milliseconds or ISO 8601. Files are read once, on
+ * the first request. Markets sharing an eventSlug form one event; any other
+ * market is an event of its own.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { readJsonFile } from '@/lib/storage/jsonFile';
+import {
+  VENUE_LABELS,
+  Market,
+  MarketEvent,
+  MarketSearchParams,
+  MarketTrade,
+  OrderbookLevel,
+  OrderbookMap,
+  PricePoint,
+} from '@/types';
+import { MarketDataProvider } from './types';
+
+export interface MarketFixture {
+  markets: Market[];
+  orderbooks: OrderbookMap;
+  history: Record<string, PricePoint[]>; // Oldest first
+  trades: Record<string, MarketTrade[]>; // Newest first
+}
+
+const outcomeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  price: z.coerce.number().min(0).max(1),
+  priceChange24h: z.coerce.number().default(0),
+});
+
+const marketSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  endDate: z.string().min(1),
+  outcomes: z.array(outcomeSchema).min(1),
+  slug: z.string().optional(),
+  category: z.string().default('other'),
+  volume: z.coerce.number().default(0),
+  liquidity: z.coerce.number().default(0),
+  active: z.boolean().default(true),
+  closed: z.boolean().default(false),
+  resolved: z.boolean().default(false),
+}).passthrough();
+
+const levelSchema = z.object({
+  price: z.coerce.number(),
+  size: z.coerce.number(),
+});
+
+const orderbooksSchema = z.record(z.object({
+  bids: z.array(levelSchema).default([]),
+  asks: z.array(levelSchema).default([]),
+}));
+
+/**
+ * Rows of a CSV file with a header line, keyed by column name
+ * Handles quoted fields with commas, doubled quotes and line breaks.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) return [];
+  const columns = header.map(name => name.trim());
+  return body.map(values =>
+    Object.fromEntries(columns.map((name, index) => [name, (values[index] ?? '').trim()]))
+  );
+}
+
+// Seconds, milliseconds or an ISO 8601 date, as milliseconds
+function parseTimestamp(value: string): number {
+  const numeric = Number(value);
+  if (value !== '' && !isNaN(numeric)) return numeric < 1e12 ? numeric * 1000 : numeric;
+  return Date.parse(value);
+}
+
+async function readCsvFile(file: string): Promise<Record<string, string>[]> {
+  try {
+    return parseCsv(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function groupByToken<T>(rows: Record<string, string>[], toItem: (row: Record<string, string>) => T | null) {
+  const grouped: Record<string, T[]> = {};
+  rows.forEach(row => {
+    const item = row.token_id ? toItem(row) : null;
+    if (item) (grouped[row.token_id] ??= []).push(item);
+  });
+  return grouped;
+}
+
+function parseLevels(levels: { price: number; size: number }[]): OrderbookLevel[] {
+  return levels.filter(l => !isNaN(l.price) && !isNaN(l.size) && l.size > 0);
+}
+
+/**
+ * Read and check a fixture directory; throws if markets.json is missing or
+ * any market is malformed
+ */
+export async function loadMarketFixture(dir: string, now: number = Date.now()): Promise<MarketFixture> {
+  const rawMarkets = await readJsonFile<unknown>(path.join(dir, 'markets.json'));
+  if (rawMarkets === null) {
+    throw new Error(`No markets.json in fixture directory ${dir}`);
+  }
+
+  const loadedAt = new Date(now).toISOString();
+  const markets = z.array(marketSchema).parse(rawMarkets).map(market => ({
+    createdAt: loadedAt,
+    updatedAt: loadedAt,
+    ...market,
+    slug: market.slug || market.id,
+    venue: 'fixture',
+  }) as Market);
+
+  const rawBooks = orderbooksSchema.parse(await readJsonFile<unknown>(path.join(dir, 'orderbooks.json')) ?? {});
+  const orderbooks: OrderbookMap = {};
+  Object.entries(rawBooks).forEach(([tokenId, book]) => {
+    orderbooks[tokenId] = {
+      bids: parseLevels(book.bids).sort((a, b) => b.price - a.price),
+      asks: parseLevels(book.asks).sort((a, b) => a.price - b.price),
+    };
+  });
+
+  const history = groupByToken<PricePoint>(await readCsvFile(path.join(dir, 'history.csv')), row => {
+    const point = { timestamp: parseTimestamp(row.timestamp), price: Number(row.price) };
+    return !isNaN(point.timestamp) && point.price >= 0 && point.price <= 1 ? point : null;
+  });
+  Object.values(history).forEach(points => points.sort((a, b) => a.timestamp - b.timestamp));
+
+  const trades = groupByToken<MarketTrade>(await readCsvFile(path.join(dir, 'trades.csv')), row => {
+    const trade: MarketTrade = {
+      id: row.id || '',
+      timestamp: parseTimestamp(row.timestamp),
+      price: Number(row.price),
+      size: Number(row.size),
+      side: row.side?.toLowerCase() === 'sell' ? 'sell' : 'buy',
+    };
+    return !isNaN(trade.timestamp) && !isNaN(trade.price) && !isNaN(trade.size) ? trade : null;
+  });
+  Object.values(trades).forEach(list => list.sort((a, b) => b.timestamp - a.timestamp));
+
+  return { markets, orderbooks, history, trades };
+}
+
+const SORT_VALUES: Record<NonNullable<MarketSearchParams['sortBy']>, (market: Market) => number> = {
+  volume: market => market.volume,
+  recent: market => Date.parse(market.createdAt) || 0,
+  volatility: market => Math.abs(market.priceChange24h ?? market.outcomes[0]?.priceChange24h ?? 0),
+  change: market => Math.abs(market.priceChange24h ?? market.outcomes[0]?.priceChange24h ?? 0),
+  trending: market => market.volume24hr ?? 0,
+};
+
+/**
+ * Open markets of a fixture matching the search, sorted and paged like the
+ * Gamma listing
+ */
+export function searchFixtureMarkets(markets: Market[], params: MarketSearchParams = {}) {
+  const { query, category, sortBy = 'volume', sortOrder = 'desc', limit = 50, offset = 0 } = params;
+  const needle = query?.trim().toLowerCase();
+
+  const matching = markets
+    .filter(market => !market.closed)
+    .filter(market => !category || category === 'all' || market.category.toLowerCase() === category.toLowerCase())
+    .filter(market => !needle
+      || market.question.toLowerCase().includes(needle)
+      || market.description?.toLowerCase().includes(needle))
+    .sort((a, b) => {
+      const difference = SORT_VALUES[sortBy](a) - SORT_VALUES[sortBy](b);
+      return sortOrder === 'asc' ? difference : -difference;
+    });
+
+  return {
+    markets: matching.slice(offset, offset + limit),
+    total: matching.length,
+    hasMore: offset + limit < matching.length,
+  };
+}
+
+const sumOf = (markets: Market[], value: (market: Market) => number) =>
+  markets.reduce((sum, market) => sum + value(market), 0);
+
+/**
+ * Events of a fixture, most traded first: markets sharing an eventSlug, and
+ * every other market on its own
+ */
+export function groupFixtureEvents(markets: Market[]): MarketEvent[] {
+  const bySlug = new Map<string, Market[]>();
+  markets.forEach(market => {
+    const slug = market.eventSlug || market.slug;
+    bySlug.set(slug, [...(bySlug.get(slug) ?? []), market]);
+  });
+
+  return Array.from(bySlug.entries())
+    .map(([slug, children]): MarketEvent => ({
+      id: slug,
+      slug,
+      title: children.length === 1
+        ? children[0].question
+        : slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      tags: Array.from(new Set(children.flatMap(m => m.tags ?? []))),
+      markets: children,
+      volume: sumOf(children, m => m.volume),
+      volume24hr: sumOf(children, m => m.volume24hr ?? 0),
+      liquidity: sumOf(children, m => m.liquidity),
+      active: children.some(m => m.active),
+      closed: children.every(m => m.closed),
+      mutuallyExclusive: false, // Fixtures don't say
+      endDate: children.map(m => m.endDate).sort().pop(),
+      createdAt: children.map(m => m.createdAt).sort()[0],
+      updatedAt: children.map(m => m.updatedAt).sort().pop() ?? children[0].updatedAt,
+    }))
+    .sort((a, b) => b.volume - a.volume);
+}
+
+/**
+ * Provider over the fixture files in `dir`; a failed load is retried on the
+ * next request
+ */
+export function createFixtureProvider(dir: string): MarketDataProvider {
+  let loading: Promise<MarketFixture> | null = null;
+
+  const load = () => {
+    if (!loading) {
+      loading = loadMarketFixture(dir).catch(error => {
+        loading = null;
+        throw error;
+      });
+    }
+    return loading;
+  };
+
+  return {
+    venue: 'fixture',
+    label: VENUE_LABELS.fixture,
+    getDataMode: () => 'fixture',
+    async listMarkets(params) {
+      const startTime = Date.now();
+      const fixture = await load();
+      return {
+        ...searchFixtureMarkets(fixture.markets, params),
+        meta: { fetchedAt: startTime, cache: 'HIT', source: ['fixture'], durationMs: Date.now() - startTime },
+      };
+    },
+    async getMarket(id) {
+      const fixture = await load();
+      return fixture.markets.find(market => market.id === id || market.slug === id) ?? null;
+    },
+    async listEvents({ query, tag, limit = 20, offset = 0 } = {}) {
+      const fixture = await load();
+      const needle = query?.trim().toLowerCase();
+      const events = groupFixtureEvents(fixture.markets)
+        .filter(event => !event.closed)
+        .filter(event => !tag || event.tags.some(t => t.toLowerCase() === tag.toLowerCase()))
+        .filter(event => !needle
+          || event.title.toLowerCase().includes(needle)
+          || event.markets.some(market => market.question.toLowerCase().includes(needle)));
+      return { events: events.slice(offset, offset + limit), hasMore: offset + limit < events.length };
+    },
+    async getEvent(slug) {
+      const fixture = await load();
+      return groupFixtureEvents(fixture.markets).find(event => event.slug === slug) ?? null;
+    },
+    async getPriceHistory(tokenId, startTime, endTime) {
+      const fixture = await load();
+      return (fixture.history[tokenId] ?? []).filter(p => p.timestamp >= startTime && p.timestamp <= endTime);
+    },
+    async getCurrentPrices(tokenIds, side = 'buy') {
+      const fixture = await load();
+      // A buy pays the best ask and a sell gets the best bid; without a book, the listed price
+      const listed = new Map(fixture.markets.flatMap(m => m.outcomes.map(o => [o.id, o.price] as const)));
+      const prices: Record<string, number> = {};
+      tokenIds.forEach(tokenId => {
+        const book = fixture.orderbooks[tokenId];
+        const price = (side === 'buy' ? book?.asks[0] : book?.bids[0])?.price ?? listed.get(tokenId);
+        if (price !== undefined) prices[tokenId] = price;
+      });
+      return prices;
+    },
+    async getOrderbooks(tokenIds) {
+      const fixture = await load();
+      const books: OrderbookMap = {};
+      tokenIds.forEach(tokenId => {
+        if (fixture.orderbooks[tokenId]) books[tokenId] = fixture.orderbooks[tokenId];
+      });
+      return books;
+    },
+    async getRecentTrades(tokenId, limit = 50) {
+      const fixture = await load();
+      return (fixture.trades[tokenId] ?? []).slice(0, limit);
+    },
+    getStream: () => null,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Market Data Providers
+ * The venue the app reads markets from is chosen at server start by
+ * MARKET_DATA_PROVIDER: polymarket (default) or fixture, which reads the
+ * files in MARKET_DATA_FIXTURES (default ./fixtures/sample).
+ */
+
+import { existsSync } from 'fs';
+import path from 'path';
+import type { DataMode } from '@/lib/polymarket/client';
+import { Market, OrderbookMap, Venue, VENUES } from '@/types';
+import { MarketDataProvider } from './types';
+import { polymarketProvider } from './polymarket';
+import { createFixtureProvider } from './fixture';
+import { parseMarketRef } from './marketRef';
+
+export * from './types';
+export * from './polymarket';
+export * from './fixture';
+export * from './marketRef';
+
+export function getFixtureDir(env: Record<string, string | undefined> = process.env): string {
+  return env.MARKET_DATA_FIXTURES || path.join(process.cwd(), 'fixtures', 'sample');
+}
+
+// Kept on globalThis so dev-server reloads don't read the fixture files again
+const globalForProviders = globalThis as typeof globalThis & {
+  __pulseforgeFixtureProvider?: { dir: string; provider: MarketDataProvider };
+};
+
+function getFixtureProvider(): MarketDataProvider {
+  const dir = getFixtureDir();
+  if (globalForProviders.__pulseforgeFixtureProvider?.dir !== dir) {
+    globalForProviders.__pulseforgeFixtureProvider = { dir, provider: createFixtureProvider(dir) };
+  }
+  return globalForProviders.__pulseforgeFixtureProvider.provider;
+}
+
+/**
+ * Venue named by MARKET_DATA_PROVIDER; throws on an unknown name
+ */
+export function getDefaultVenue(env: Record<string, string | undefined> = process.env): Venue {
+  const venue = (env.MARKET_DATA_PROVIDER || 'polymarket') as Venue;
+  if (!VENUES.includes(venue)) {
+    throw new Error(`Invalid MARKET_DATA_PROVIDER "${venue}"; expected ${VENUES.join(', ')}`);
+  }
+  return venue;
+}
+
+/**
+ * The provider for `venue`, or the configured one
+ */
+export function getMarketDataProvider(venue: Venue = getDefaultVenue()): MarketDataProvider {
+  return venue === 'fixture' ? getFixtureProvider() : polymarketProvider;
+}
+
+/**
+ * The market a URL names, by venue-qualified or bare id (see marketRef.ts)
+ */
+export function getMarketByRef(ref: string): Promise<Market | null> {
+  const { venue, id } = parseMarketRef(ref);
+  return getMarketDataProvider(venue ?? undefined).getMarket(id);
+}
+
+/**
+ * Every provider with data to serve: Polymarket, and the fixture provider
+ * when its directory has a markets.json
+ */
+export function getMarketDataProviders(): MarketDataProvider[] {
+  const providers = [polymarketProvider];
+  if (existsSync(path.join(getFixtureDir(), 'markets.json'))) providers.push(getFixtureProvider());
+  return providers;
+}
+
+/**
+ * Where the configured provider's data comes from: live, recording or
+ * replaying Polymarket, or local fixtures
+ */
+export function getDataMode(): DataMode {
+  return getMarketDataProvider().getDataMode();
+}
+
+/**
+ * The provider a market was listed by; markets saved before venues existed
+ * are Polymarket's
+ */
+export function getProviderForMarket(market: Pick<Market, 'venue'>): MarketDataProvider {
+  return getMarketDataProvider(market.venue ?? 'polymarket');
+}
+
+/**
+ * Books for the outcome tokens of markets from any venue, each fetched from
+ * the market's own provider
+ */
+export async function getOrderbooksForMarkets(markets: Market[]): Promise<OrderbookMap> {
+  const byVenue = new Map<Venue, string[]>();
+  markets.forEach(market => {
+    const venue = market.venue ?? 'polymarket';
+    byVenue.set(venue, [...(byVenue.get(venue) ?? []), ...market.outcomes.map(o => o.id)]);
+  });
+
+  const books = await Promise.all(
+    Array.from(byVenue.entries()).map(([venue, tokenIds]) => getMarketDataProvider(venue).getOrderbooks(tokenIds))
+  );
+  return Object.assign({}, ...books);
+}
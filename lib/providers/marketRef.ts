@@ -0,0 +1,35 @@
+/**
+ * Market References
+ * How a market from any venue is named in URLs: `venue:id`, e.g.
+ * `fixture:fx-fed-cut-dec-2026`. A bare id belongs to the configured venue.
+ * Kept apart from the providers so client components can import it.
+ */
+
+import { Market, Venue, VENUES } from '@/types';
+
+export interface MarketRef {
+  venue: Venue | null; // Null for a bare id
+  id: string;
+}
+
+export function formatMarketRef(market: Pick<Market, 'id' | 'venue'>): string {
+  return `${market.venue ?? 'polymarket'}:${market.id}`;
+}
+
+export function parseMarketRef(ref: string): MarketRef {
+  const separator = ref.indexOf(':');
+  const venue = ref.slice(0, separator) as Venue;
+  if (separator > 0 && VENUES.includes(venue)) {
+    return { venue, id: ref.slice(separator + 1) };
+  }
+  return { venue: null, id: ref };
+}
+
+/**
+ * Whether a stored reference names `market`; a bare id (saved before refs
+ * were qualified) only has the id to go on
+ */
+export function matchesMarketRef(ref: string, market: Pick<Market, 'id' | 'venue'>): boolean {
+  const { venue, id } = parseMarketRef(ref);
+  return id === market.id && (venue === null || venue === (market.venue ?? 'polymarket'));
+}
@@ -0,0 +1,38 @@
+/**
+ * Polymarket Provider
+ * Markets and events from the Gamma API, prices, books, trades and history
+ * from the CLOB, and live updates from the shared WebSocket client
+ */
+
+import {
+  fetchMarkets,
+  fetchMarketDetail,
+  fetchEvents,
+  fetchEvent,
+  fetchPriceHistory,
+  fetchCurrentPrices,
+  fetchOrderbooks,
+  fetchRecentTrades,
+  getDataMode,
+} from '@/lib/polymarket/client';
+import { getWebSocketClient } from '@/lib/polymarket/websocket';
+import { VENUE_LABELS } from '@/types';
+import { MarketDataProvider } from './types';
+
+export const polymarketProvider: MarketDataProvider = {
+  venue: 'polymarket',
+  label: VENUE_LABELS.polymarket,
+  getDataMode,
+  listMarkets: fetchMarkets,
+  getMarket: fetchMarketDetail,
+  listEvents: fetchEvents,
+  getEvent: fetchEvent,
+  getPriceHistory: fetchPriceHistory,
+  getCurrentPrices: fetchCurrentPrices,
+  getOrderbooks: fetchOrderbooks,
+  getRecentTrades: fetchRecentTrades,
+  getStream() {
+    const client = getWebSocketClient();
+    return client.isSupported() ? client : null;
+  },
+};
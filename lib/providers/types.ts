@@ -0,0 +1,40 @@
+/**
+ * Market Data Provider
+ * What the app reads from a venue. Routes, history, alerts and the stream
+ * hub go through a provider rather than a venue's API directly.
+ */
+
+import type { DataMode, MarketSearchResponseWithMeta } from '@/lib/polymarket/client';
+import type { StreamUpstream } from '@/lib/stream/hub';
+import {
+  EventSearchParams,
+  EventSearchResponse,
+  Market,
+  MarketEvent,
+  MarketSearchParams,
+  MarketTrade,
+  OrderbookMap,
+  PricePoint,
+  Venue,
+} from '@/types';
+
+export interface MarketDataProvider {
+  venue: Venue;
+  label: string; // Shown in errors and the UI
+  getDataMode(): DataMode;
+  listMarkets(params?: MarketSearchParams): Promise<MarketSearchResponseWithMeta>;
+  getMarket(id: string): Promise<Market | null>;
+  // Events grouping sibling markets, most traded first
+  listEvents(params?: EventSearchParams): Promise<EventSearchResponse>;
+  getEvent(slug: string): Promise<MarketEvent | null>;
+  // Points between the two times, at most one per `fidelityMinutes` where the venue supports it
+  getPriceHistory(tokenId: string, startTime: number, endTime: number, fidelityMinutes: number): Promise<PricePoint[]>;
+  // Price to buy (or sell) each token now; tokens without one are left out
+  getCurrentPrices(tokenIds: string[], side?: 'buy' | 'sell'): Promise<Record<string, number>>;
+  // Parsed books, best levels first; tokens without a book are left out
+  getOrderbooks(tokenIds: string[]): Promise<OrderbookMap>;
+  // Newest first, or null when the venue couldn't be reached
+  getRecentTrades(tokenId: string, limit?: number): Promise<MarketTrade[] | null>;
+  // Live price and orderbook updates, or null when there are none in this runtime
+  getStream(): StreamUpstream | null;
+}
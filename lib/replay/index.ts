@@ -0,0 +1,4 @@
+export * from './store';
+export * from './recorder';
+export * from './replay';
+export * from './install';
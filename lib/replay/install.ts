@@ -0,0 +1,74 @@
+/**
+ * Data Source Setup
+ * Checks the configured market data provider and switches the Polymarket
+ * client and WebSocket to recording or replaying, from POLYMARKET_DATA_MODE
+ * at server start
+ */
+
+import { setDataSource, DataMode } from '@/lib/polymarket/client';
+import { setWebSocketClientOptions, WebSocketConstructor } from '@/lib/polymarket/websocket';
+import { getDefaultVenue, getFixtureDir } from '@/lib/providers';
+import { createMarketDataRecorder, createRecordingFetch, createRecordingWebSocket } from './recorder';
+import { createReplayClock, createReplayFetch, createReplayWebSocket } from './replay';
+import { loadRecording, getRecordingFile } from './store';
+
+const DATA_MODES: DataMode[] = ['live', 'record', 'replay'];
+
+/**
+ * Install the data source named by the environment:
+ *
+ * - POLYMARKET_DATA_MODE: live (default), record or replay
+ * - POLYMARKET_RECORDING: recording name (default "default")
+ * - POLYMARKET_REPLAY_SPEED: playback speed multiplier (default 1)
+ * - POLYMARKET_REPLAY_LOOP: "false" to stop at the end instead of looping
+ */
+export async function installDataSource(env: Record<string, string | undefined> = process.env): Promise<DataMode> {
+  const mode = (env.POLYMARKET_DATA_MODE || 'live') as DataMode;
+  const name = env.POLYMARKET_RECORDING || 'default';
+
+  if (!DATA_MODES.includes(mode)) {
+    throw new Error(`Invalid POLYMARKET_DATA_MODE "${mode}"; expected ${DATA_MODES.join(', ')}`);
+  }
+
+  // Throws on an unknown provider, so a typo fails at startup
+  if (getDefaultVenue(env) === 'fixture') {
+    console.log(`[Providers] Serving markets from the fixtures in ${getFixtureDir(env)}`);
+  }
+
+  if (mode === 'record') {
+    // Validates the name before anything is recorded
+    const file = getRecordingFile(name);
+    const recorder = createMarketDataRecorder(name);
+    setDataSource({ mode, fetch: createRecordingFetch(recorder, (url, init) => fetch(url, init)) });
+
+    const Impl = (globalThis as { WebSocket?: unknown }).WebSocket as WebSocketConstructor | undefined;
+    if (Impl) {
+      setWebSocketClientOptions({ WebSocketImpl: createRecordingWebSocket(recorder, Impl) });
+    } else {
+      console.warn('[Recorder] No WebSocket in this runtime; only HTTP responses are recorded');
+    }
+    console.log(`[Recorder] Recording market data to ${file}`);
+  }
+
+  if (mode === 'replay') {
+    const recording = await loadRecording(name);
+    if (!recording) {
+      throw new Error(`No recording named "${name}" at ${getRecordingFile(name)}`);
+    }
+
+    const speed = env.POLYMARKET_REPLAY_SPEED ? Number(env.POLYMARKET_REPLAY_SPEED) : 1;
+    if (!Number.isFinite(speed) || speed <= 0) {
+      throw new Error(`Invalid POLYMARKET_REPLAY_SPEED "${env.POLYMARKET_REPLAY_SPEED}"`);
+    }
+
+    const clock = createReplayClock(recording.endedAt - recording.startedAt, {
+      speed,
+      loop: env.POLYMARKET_REPLAY_LOOP !== 'false',
+    });
+    setDataSource({ mode, fetch: createReplayFetch(recording, clock) });
+    setWebSocketClientOptions({ WebSocketImpl: createReplayWebSocket(recording, clock) });
+    console.log(`[Replay] Replaying "${name}" at ${speed}x`);
+  }
+
+  return mode;
+}
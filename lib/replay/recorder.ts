@@ -0,0 +1,132 @@
+/**
+ * Market Data Recorder
+ * Captures Gamma/CLOB responses and WebSocket frames as they are received
+ * and saves them as a recording that the replay source can play back
+ */
+
+import type { HttpTransport } from '@/lib/polymarket/client';
+import type { WebSocketConstructor, WebSocketLike } from '@/lib/polymarket/websocket';
+import { MarketDataRecording } from '@/types';
+import { saveRecording } from './store';
+
+// Recordings stop growing past these sizes
+export const MAX_RECORDED_EXCHANGES = 5000;
+export const MAX_RECORDED_MESSAGES = 50000;
+
+// How often a recording in progress is written out
+const FLUSH_INTERVAL = 5000;
+
+export interface MarketDataRecorder {
+  recording: MarketDataRecording;
+  recordHttp(url: string, status: number, contentType: string | null, body: string): void;
+  recordMessage(data: string): void;
+  flush(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a new recording; whatever was saved under the same name is
+ * replaced on the first flush
+ */
+export function createMarketDataRecorder(name: string, now: () => number = Date.now): MarketDataRecorder {
+  const startedAt = now();
+  const recording: MarketDataRecording = { name, startedAt, endedAt: startedAt, http: [], messages: [] };
+  let dirty = false;
+  let warned = false;
+
+  const full = (count: number, max: number) => {
+    if (count < max) return false;
+    if (!warned) {
+      console.warn(`[Recorder] Recording "${name}" is full; later data is not recorded`);
+      warned = true;
+    }
+    return true;
+  };
+
+  const flush = async () => {
+    if (!dirty) return;
+    dirty = false;
+    await saveRecording(recording);
+  };
+
+  const timer = setInterval(() => {
+    flush().catch(error => console.error('[Recorder] Failed to save recording:', error));
+  }, FLUSH_INTERVAL);
+  // Don't keep the process alive just to flush
+  (timer as { unref?: () => void }).unref?.();
+
+  return {
+    recording,
+    recordHttp(url, status, contentType, body) {
+      if (full(recording.http.length, MAX_RECORDED_EXCHANGES)) return;
+      const at = now() - startedAt;
+      recording.http.push({ at, url, status, contentType, body });
+      recording.endedAt = Math.max(recording.endedAt, startedAt + at);
+      dirty = true;
+    },
+    recordMessage(data) {
+      if (full(recording.messages.length, MAX_RECORDED_MESSAGES)) return;
+      const at = now() - startedAt;
+      recording.messages.push({ at, data });
+      recording.endedAt = Math.max(recording.endedAt, startedAt + at);
+      dirty = true;
+    },
+    flush,
+    async stop() {
+      clearInterval(timer);
+      await flush();
+    },
+  };
+}
+
+/**
+ * HTTP transport that passes requests to `transport` and records every
+ * response except rate limits
+ */
+export function createRecordingFetch(recorder: MarketDataRecorder, transport: HttpTransport): HttpTransport {
+  return async (url, init) => {
+    const response = await transport(url, init);
+    if (response.status !== 429) {
+      const body = await response.clone().text();
+      recorder.recordHttp(url, response.status, response.headers.get('content-type'), body);
+    }
+    return response;
+  };
+}
+
+/**
+ * WebSocket implementation that wraps `Impl` and records every frame it
+ * receives
+ */
+export function createRecordingWebSocket(recorder: MarketDataRecorder, Impl: WebSocketConstructor): WebSocketConstructor {
+  return class RecordingWebSocket implements WebSocketLike {
+    private socket: WebSocketLike;
+    onopen: WebSocketLike['onopen'] = null;
+    onmessage: WebSocketLike['onmessage'] = null;
+    onerror: WebSocketLike['onerror'] = null;
+    onclose: WebSocketLike['onclose'] = null;
+
+    constructor(url: string) {
+      this.socket = new Impl(url);
+      this.socket.onopen = (event) => this.onopen?.(event);
+      this.socket.onmessage = (event) => {
+        recorder.recordMessage(String(event.data));
+        this.onmessage?.(event);
+      };
+      this.socket.onerror = (event) => this.onerror?.(event);
+      this.socket.onclose = (event) => this.onclose?.(event);
+    }
+
+    get readyState() {
+      return this.socket.readyState;
+    }
+
+    send(data: string) {
+      this.socket.send(data);
+    }
+
+    close() {
+      this.socket.close();
+    }
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Market Data Replay
+ * Serves a recording in place of Gamma/CLOB and the Polymarket WebSocket.
+ * A shared clock moves through the recording, optionally faster than real
+ * time and looping, so HTTP responses and socket frames stay in step.
+ */
+
+import type { HttpTransport } from '@/lib/polymarket/client';
+import type { WebSocketConstructor, WebSocketLike } from '@/lib/polymarket/websocket';
+import { MarketDataRecording, RecordedHttpExchange } from '@/types';
+
+// Query parameters that depend on when a request was made, ignored when matching
+const TIME_PARAMS = ['startTs', 'endTs'];
+
+// Recorded time between the end of a looping recording and its restart
+const LOOP_GAP = 1000;
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+// WebSocket close code for a server restart; the client reconnects without backoff
+const SERVICE_RESTART = 1012;
+
+export interface ReplayClock {
+  speed: number;
+  loop: boolean;
+  duration: number; // Recorded ms
+  cycle: number; // Recorded ms before a looping replay restarts
+  position(): number; // Recorded ms since the recording started
+}
+
+export function createReplayClock(
+  duration: number,
+  { speed = 1, loop = true, now = Date.now }: { speed?: number; loop?: boolean; now?: () => number } = {}
+): ReplayClock {
+  const start = now();
+  const cycle = duration + LOOP_GAP;
+
+  return {
+    speed,
+    loop,
+    duration,
+    cycle,
+    position() {
+      const elapsed = (now() - start) * speed;
+      return Math.min(duration, loop ? elapsed % cycle : elapsed);
+    },
+  };
+}
+
+/**
+ * Key a request by URL, with query parameters sorted and time bounds left
+ * out, so replayed requests made at a different time still match
+ */
+export function getRequestKey(url: string): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !TIME_PARAMS.includes(name))
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  return `${parsed.origin}${parsed.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * The latest response to `url` recorded at or before `position`, or the
+ * earliest one if it was only requested later
+ */
+export function findRecordedExchange(
+  exchanges: RecordedHttpExchange[],
+  url: string,
+  position: number
+): RecordedHttpExchange | null {
+  const key = getRequestKey(url);
+  const matches = exchanges.filter(e => getRequestKey(e.url) === key);
+  if (matches.length === 0) return null;
+  return matches.filter(e => e.at <= position).pop() ?? matches[0];
+}
+
+/**
+ * HTTP transport answering from the recording; requests it never saw get a
+ * 404, so nothing reaches the network
+ */
+export function createReplayFetch(recording: MarketDataRecording, clock: ReplayClock): HttpTransport {
+  const byKey = new Map<string, RecordedHttpExchange[]>();
+  recording.http.forEach(exchange => {
+    const key = getRequestKey(exchange.url);
+    byKey.set(key, [...(byKey.get(key) ?? []), exchange]);
+  });
+  const missed = new Set<string>();
+
+  return async (url) => {
+    const key = getRequestKey(url);
+    const exchange = findRecordedExchange(byKey.get(key) ?? [], url, clock.position());
+
+    if (!exchange) {
+      if (!missed.has(key)) {
+        console.warn(`[Replay] Not in recording "${recording.name}": ${url}`);
+        missed.add(key);
+      }
+      return new Response(JSON.stringify({ error: 'Not in recording', url }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+
+    return new Response(exchange.body, {
+      status: exchange.status,
+      headers: exchange.contentType ? { 'content-type': exchange.contentType } : {},
+    });
+  };
+}
+
+/**
+ * WebSocket implementation that opens at once and plays the recorded frames
+ * from the clock's position onward. When a looping replay restarts, the
+ * socket closes as a server restart and the next one plays the new cycle.
+ */
+export function createReplayWebSocket(recording: MarketDataRecording, clock: ReplayClock): WebSocketConstructor {
+  const messages = recording.messages;
+
+  return class ReplayWebSocket implements WebSocketLike {
+    readyState = CONNECTING;
+    onopen: WebSocketLike['onopen'] = null;
+    onmessage: WebSocketLike['onmessage'] = null;
+    onerror: WebSocketLike['onerror'] = null;
+    onclose: WebSocketLike['onclose'] = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private playhead = 0;
+    private index = 0;
+
+    // The URL is ignored; every socket plays the same recording
+    constructor() {
+      this.timer = setTimeout(() => {
+        this.readyState = OPEN;
+        this.onopen?.({});
+        this.playhead = clock.position();
+        this.index = messages.findIndex(m => m.at >= this.playhead);
+        if (this.index === -1) this.index = messages.length;
+        this.scheduleNext();
+      }, 0);
+    }
+
+    private scheduleNext() {
+      if (this.readyState !== OPEN) return;
+
+      // Restarting inside the open socket would look like old frames to the
+      // client, so a loop ends the socket and the client reconnects at once
+      if (this.index >= messages.length) {
+        if (!clock.loop || messages.length === 0) return;
+        this.timer = setTimeout(() => {
+          this.closeWith(SERVICE_RESTART, 'Replay restarted');
+        }, Math.max(0, clock.cycle - this.playhead) / clock.speed);
+        return;
+      }
+
+      const message = messages[this.index];
+      this.timer = setTimeout(() => {
+        this.playhead = message.at;
+        this.index++;
+        this.onmessage?.({ data: message.data });
+        this.scheduleNext();
+      }, Math.max(0, message.at - this.playhead) / clock.speed);
+    }
+
+    send() {
+      // Subscriptions don't filter a replay; the client drops unwanted frames
+    }
+
+    close() {
+      this.closeWith(1000, 'Replay closed');
+    }
+
+    private closeWith(code: number, reason: string) {
+      if (this.readyState === CLOSED) return;
+      if (this.timer) clearTimeout(this.timer);
+      this.readyState = CLOSED;
+      setTimeout(() => this.onclose?.({ code, reason }), 0);
+    }
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Recording Store
+ * One JSON file per recording under the data directory
+ */
+
+import path from 'path';
+import { MarketDataRecording } from '@/types';
+import { getDataDir, readJsonFile, writeJsonFile, createSerialQueue } from '@/lib/storage/jsonFile';
+
+export function isValidRecordingName(name: string): boolean {
+  return /^[\w-]{1,100}$/.test(name);
+}
+
+export function getRecordingFile(name: string): string {
+  if (!isValidRecordingName(name)) {
+    throw new Error(`Invalid recording name: ${name}`);
+  }
+  return path.join(getDataDir(), 'recordings', `${name}.json`);
+}
+
+const enqueue = createSerialQueue();
+
+export async function loadRecording(name: string): Promise<MarketDataRecording | null> {
+  const file = getRecordingFile(name);
+  return enqueue(file, () => readJsonFile<MarketDataRecording>(file));
+}
+
+export async function saveRecording(recording: MarketDataRecording): Promise<void> {
+  const file = getRecordingFile(recording.name);
+  await enqueue(file, () => writeJsonFile(file, recording));
+}
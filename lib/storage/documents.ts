@@ -0,0 +1,50 @@
+/**
+ * Document Store
+ * One JSON document per owner and resource. Callers depend on the
+ * DocumentStore interface only, so the file implementation can be swapped
+ * for a database without touching them.
+ */
+
+import path from 'path';
+import { UserDocument } from '@/types';
+import { readJsonFile, writeJsonFile, deleteJsonFile, createSerialQueue } from './jsonFile';
+
+export interface DocumentStore<R extends string> {
+  get<T>(ownerId: string, resource: R): Promise<UserDocument<T> | null>;
+  put<T>(ownerId: string, resource: R, value: T): Promise<UserDocument<T>>;
+  delete(ownerId: string, resource: R): Promise<void>;
+}
+
+/**
+ * File-backed store: <root>/<ownerId>/<resource>.json
+ */
+export function createFileDocumentStore<R extends string>(root: string): DocumentStore<R> {
+  const enqueue = createSerialQueue();
+
+  const fileFor = (ownerId: string, resource: R) => {
+    // Owner ids are generated hex; refuse anything that could escape the directory
+    if (!/^[a-zA-Z0-9_-]+$/.test(ownerId)) throw new Error('Invalid owner id');
+    return path.join(root, ownerId, `${resource}.json`);
+  };
+
+  return {
+    get<T>(ownerId: string, resource: R) {
+      const file = fileFor(ownerId, resource);
+      return enqueue(file, () => readJsonFile<UserDocument<T>>(file));
+    },
+
+    put<T>(ownerId: string, resource: R, value: T) {
+      const file = fileFor(ownerId, resource);
+      const document: UserDocument<T> = { value, updatedAt: Date.now() };
+      return enqueue(file, async () => {
+        await writeJsonFile(file, document);
+        return document;
+      });
+    },
+
+    delete(ownerId: string, resource: R) {
+      const file = fileFor(ownerId, resource);
+      return enqueue(file, () => deleteJsonFile(file));
+    },
+  };
+}
@@ -0,0 +1,3 @@
+export * from './jsonFile';
+export * from './documents';
+export * from './userData';
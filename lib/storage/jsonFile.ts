@@ -0,0 +1,58 @@
+/**
+ * JSON Files
+ * Atomic reads and writes of JSON documents under the data directory
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory for server-side data files (PULSEFORGE_DATA_DIR, default ./.data)
+ */
+export function getDataDir(): string {
+  return process.env.PULSEFORGE_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+/**
+ * Parsed contents of a JSON file, or null if it doesn't exist
+ */
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Write to a temp file and rename, so a crash never leaves half a file
+ */
+export async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
+
+export async function deleteJsonFile(file: string): Promise<void> {
+  await fs.rm(file, { force: true });
+}
+
+/**
+ * Run async tasks one at a time per key, so read-modify-write cycles on the
+ * same file never interleave within this process
+ */
+export function createSerialQueue() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return function enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const run = (tails.get(key) || Promise.resolve()).then(task);
+    const tail = run.catch(() => undefined);
+    tails.set(key, tail);
+    tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+    return run;
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * User Data Store
+ * Per-user documents (strategies, research, drafts, settings)
+ */
+
+import path from 'path';
+import { UserResource } from '@/types';
+import { getDataDir } from './jsonFile';
+import { DocumentStore, createFileDocumentStore } from './documents';
+
+export type UserDataStore = DocumentStore<UserResource>;
+
+/**
+ * File-backed store: <dir>/users/<userId>/<resource>.json
+ */
+export function createFileUserDataStore(dir: string = getDataDir()): UserDataStore {
+  return createFileDocumentStore<UserResource>(path.join(dir, 'users'));
+}
+
+let store: UserDataStore | null = null;
+
+/**
+ * Shared store for route handlers
+ */
+export function getUserDataStore(): UserDataStore {
+  if (!store) store = createFileUserDataStore();
+  return store;
+}
@@ -0,0 +1,217 @@
+/**
+ * Market Stream Client
+ * Browser side of /api/stream. Every hook in a tab shares one EventSource
+ * carrying the union of their tokens and channels, so a tab holds a single
+ * connection however many live components it renders. When that union
+ * changes a new EventSource is opened, and the old one is closed once the
+ * new one is open, so updates keep flowing while it switches.
+ */
+
+import { StreamChannel, StreamEvent, StreamStatusEvent } from '@/types';
+
+export type StreamUpdateEvent = Exclude<StreamEvent, StreamStatusEvent>;
+
+export type StreamConnectionState = 'connecting' | 'open' | 'reconnecting' | 'unavailable' | 'closed';
+
+export interface StreamConnectionStatus {
+  state: StreamConnectionState;
+  upstream: StreamStatusEvent | null; // Last status the server sent
+  lastOpenedAt: number | null; // When the tab's stream last (re)opened
+}
+
+export interface StreamSubscription {
+  tokenIds: string[]; // Empty to follow the connection status only
+  channels: StreamChannel[];
+  onEvent?: (event: StreamUpdateEvent) => void;
+  onStatus?: (status: StreamConnectionStatus) => void;
+}
+
+// The subset of the EventSource API the client uses, so tests can supply a fake
+export interface EventSourceLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  close(): void;
+}
+
+// CLOB token ids are long decimal strings; others (e.g. fixtures) have no stream
+export const STREAM_TOKEN_ID_PATTERN = /^\d{1,100}$/;
+
+export const MAX_STREAM_TOKENS = 200;
+
+// EventSource.readyState values
+const CONNECTING = 0;
+const OPEN = 1;
+
+// Subscriptions changed in the same render share one reopen
+const REOPEN_DELAY = 50;
+
+const EVENT_CHANNEL: Record<StreamUpdateEvent['type'], StreamChannel> = {
+  price: 'price',
+  orderbook: 'orderbook',
+  trade: 'trades',
+};
+
+/**
+ * Where a tab's stream stands: its own EventSource first, then the server's
+ * upstream connection as last reported
+ */
+export function getStreamConnectionState(
+  readyState: number | null,
+  upstream: StreamStatusEvent | null,
+  hasOpened: boolean
+): StreamConnectionState {
+  if (readyState === null) return 'closed';
+  if (readyState === CONNECTING) return hasOpened ? 'reconnecting' : 'connecting';
+  if (readyState !== OPEN) return 'closed';
+  if (!upstream) return 'connecting';
+  if (!upstream.available) return 'unavailable';
+  return upstream.connected ? 'open' : 'reconnecting';
+}
+
+/**
+ * /api/stream URL for the union of the given subscriptions, leaving out
+ * tokens the stream can't carry
+ */
+export function buildStreamUrl(subscriptions: Pick<StreamSubscription, 'tokenIds' | 'channels'>[]): string {
+  const tokens = Array.from(new Set(subscriptions.flatMap(s => s.tokenIds)))
+    .filter(tokenId => STREAM_TOKEN_ID_PATTERN.test(tokenId))
+    .sort()
+    .slice(0, MAX_STREAM_TOKENS);
+  const channels = new Set(subscriptions.flatMap(s => s.channels));
+  if (channels.size === 0) channels.add('price');
+
+  const params = new URLSearchParams();
+  if (tokens.length > 0) params.set('tokens', tokens.join(','));
+  params.set('channels', Array.from(channels).sort().join(','));
+  return `/api/stream?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+export class MarketStreamClient {
+  private subscriptions: Set<StreamSubscription> = new Set();
+  private source: EventSourceLike | null = null;
+  private next: EventSourceLike | null = null; // Opening to replace `source`
+  private url: string | null = null;
+  private upstream: StreamStatusEvent | null = null;
+  private hasOpened = false;
+  private lastOpenedAt: number | null = null;
+  private reopenTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private createSource: (url: string) => EventSourceLike = url => new EventSource(url)) {}
+
+  /**
+   * Deliver events for the subscription's tokens and channels, and every
+   * status change, until the returned function is called
+   */
+  subscribe(subscription: StreamSubscription): () => void {
+    this.subscriptions.add(subscription);
+    subscription.onStatus?.(this.getStatus());
+    this.scheduleReopen();
+
+    return () => {
+      if (!this.subscriptions.delete(subscription)) return;
+      this.scheduleReopen();
+    };
+  }
+
+  getStatus(): StreamConnectionStatus {
+    return {
+      state: getStreamConnectionState(this.source?.readyState ?? null, this.upstream, this.hasOpened),
+      upstream: this.upstream,
+      lastOpenedAt: this.lastOpenedAt,
+    };
+  }
+
+  private scheduleReopen() {
+    if (this.reopenTimer) return;
+    this.reopenTimer = setTimeout(() => {
+      this.reopenTimer = null;
+      this.reopen();
+    }, REOPEN_DELAY);
+  }
+
+  private reopen() {
+    if (this.subscriptions.size === 0) {
+      this.closeAll();
+      this.notify();
+      return;
+    }
+
+    const url = buildStreamUrl(Array.from(this.subscriptions));
+    if (url === this.url) return;
+    this.url = url;
+
+    this.next?.close();
+    const source = this.createSource(url);
+    this.next = source;
+    if (!this.source) this.promote(source);
+
+    source.onopen = () => {
+      if (source === this.next) this.promote(source);
+      if (source !== this.source) return;
+      this.hasOpened = true;
+      this.lastOpenedAt = Date.now();
+      this.notify();
+    };
+    // EventSource retries on its own; report it until the server answers again
+    source.onerror = () => {
+      if (source === this.source) this.notify();
+    };
+
+    (Object.keys(EVENT_CHANNEL) as StreamUpdateEvent['type'][]).forEach(type => {
+      source.addEventListener(type, event => {
+        if (source === this.source) this.dispatch(JSON.parse(event.data) as StreamUpdateEvent);
+      });
+    });
+    source.addEventListener('status', event => {
+      if (source !== this.source) return;
+      this.upstream = JSON.parse(event.data) as StreamStatusEvent;
+      this.notify();
+    });
+  }
+
+  // Switch to `source`, closing the one it replaces
+  private promote(source: EventSourceLike) {
+    if (this.source && this.source !== source) this.source.close();
+    this.source = source;
+    this.next = null;
+  }
+
+  private closeAll() {
+    this.source?.close();
+    this.next?.close();
+    this.source = null;
+    this.next = null;
+    this.url = null;
+    this.upstream = null;
+    this.hasOpened = false;
+  }
+
+  private dispatch(event: StreamUpdateEvent) {
+    const channel = EVENT_CHANNEL[event.type];
+    this.subscriptions.forEach(subscription => {
+      if (!subscription.channels.includes(channel) || !subscription.tokenIds.includes(event.tokenId)) return;
+      try {
+        subscription.onEvent?.(event);
+      } catch (error) {
+        console.error('[Stream] Subscriber error:', error);
+      }
+    });
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.subscriptions.forEach(subscription => subscription.onStatus?.(status));
+  }
+}
+
+let streamClient: MarketStreamClient | null = null;
+
+/**
+ * The tab-wide stream client
+ */
+export function getMarketStreamClient(): MarketStreamClient {
+  if (!streamClient) streamClient = new MarketStreamClient();
+  return streamClient;
+}
@@ -0,0 +1,65 @@
+/**
+ * Stream Events
+ * Normalizes upstream WebSocket messages into stream events and encodes
+ * them for Server-Sent Events
+ */
+
+import type { WebSocketMessage } from '@/lib/polymarket/websocket';
+import { StreamEvent } from '@/types';
+import { parseOrderbookLevels } from '@/lib/math/depth';
+
+function parseProbability(value: string): number | null {
+  const parsed = parseFloat(value);
+  return !isNaN(parsed) && parsed >= 0 && parsed <= 1 ? parsed : null;
+}
+
+/**
+ * Stream event for an upstream message, with prices and sizes parsed to
+ * numbers; null for control messages and updates without a valid price
+ */
+export function normalizeStreamMessage(message: WebSocketMessage, now: number = Date.now()): StreamEvent | null {
+  switch (message.type) {
+    case 'price': {
+      const price = parseProbability(message.data.price);
+      if (price === null) return null;
+      return {
+        type: 'price',
+        tokenId: message.data.token_id,
+        price,
+        side: message.data.side,
+        timestamp: message.data.timestamp ?? now,
+      };
+    }
+    case 'orderbook':
+      return {
+        type: 'orderbook',
+        tokenId: message.data.token_id,
+        bids: parseOrderbookLevels(message.data.bids),
+        asks: parseOrderbookLevels(message.data.asks),
+        ...(message.data.snapshot ? { snapshot: true } : {}),
+        timestamp: now,
+      };
+    case 'trade': {
+      const price = parseProbability(message.data.price);
+      const size = parseFloat(message.data.size);
+      if (price === null || isNaN(size) || size <= 0) return null;
+      return {
+        type: 'trade',
+        tokenId: message.data.token_id,
+        price,
+        size,
+        side: message.data.side,
+        timestamp: message.data.timestamp ?? now,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * One SSE frame, named after the event type so clients can listen per type
+ */
+export function formatSseEvent(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
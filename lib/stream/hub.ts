@@ -0,0 +1,146 @@
+/**
+ * Market Stream Hub
+ * One upstream Polymarket WebSocket connection shared by every client of
+ * /api/stream. Upstream subscriptions are reference counted: a token is
+ * subscribed while at least one client wants it and dropped after the last
+ * one leaves. The upstream is the configured provider's stream; when it has
+ * none, clients only receive status events.
+ */
+
+import type { WebSocketMessage } from '@/lib/polymarket/websocket';
+import { getMarketDataProvider } from '@/lib/providers';
+import { StreamChannel, StreamEvent, StreamStatusEvent } from '@/types';
+import { normalizeStreamMessage } from './events';
+
+type UpstreamCallback = (message: WebSocketMessage) => void;
+
+// The parts of the WebSocket client the hub relies on
+export interface StreamUpstream {
+  subscribePrice(tokenId: string, callback: UpstreamCallback): () => void;
+  subscribeOrderbook(tokenId: string, callback: UpstreamCallback): () => void;
+  onConnectionChange(listener: (connected: boolean) => void): () => void;
+  isConnected(): boolean;
+}
+
+export type StreamListener = (event: StreamEvent) => void;
+
+// Trades arrive on the upstream price channel
+const UPSTREAM_CHANNEL: Record<StreamChannel, 'price' | 'orderbook'> = {
+  price: 'price',
+  trades: 'price',
+  orderbook: 'orderbook',
+};
+
+const EVENT_CHANNEL: Record<'price' | 'orderbook' | 'trade', StreamChannel> = {
+  price: 'price',
+  orderbook: 'orderbook',
+  trade: 'trades',
+};
+
+export class MarketStreamHub {
+  private listeners: Map<string, Set<StreamListener>> = new Map(); // channel:tokenId
+  private clients: Set<StreamListener> = new Set();
+  private upstream: Map<string, () => void> = new Map(); // Upstream channel:tokenId -> unsubscribe
+
+  constructor(private source: StreamUpstream | null) {
+    source?.onConnectionChange(() => {
+      const status = this.getStatus();
+      this.clients.forEach(listener => this.deliver(listener, status));
+    });
+  }
+
+  /**
+   * Send `listener` the given channels for each token until the returned
+   * function is called
+   */
+  subscribe(tokenIds: string[], channels: StreamChannel[], listener: StreamListener): () => void {
+    const keys = tokenIds.flatMap(tokenId => channels.map(channel => ({ channel, tokenId })));
+
+    this.clients.add(listener);
+    keys.forEach(({ channel, tokenId }) => {
+      const key = `${channel}:${tokenId}`;
+      if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+      this.listeners.get(key)!.add(listener);
+      this.retainUpstream(UPSTREAM_CHANNEL[channel], tokenId);
+    });
+
+    return () => {
+      this.clients.delete(listener);
+      keys.forEach(({ channel, tokenId }) => {
+        const key = `${channel}:${tokenId}`;
+        const listeners = this.listeners.get(key);
+        listeners?.delete(listener);
+        if (listeners?.size === 0) this.listeners.delete(key);
+        this.releaseUpstream(UPSTREAM_CHANNEL[channel], tokenId);
+      });
+    };
+  }
+
+  getStatus(): StreamStatusEvent {
+    return {
+      type: 'status',
+      connected: this.source?.isConnected() ?? false,
+      available: this.source !== null,
+    };
+  }
+
+  getStats() {
+    return {
+      clients: this.clients.size,
+      upstreamSubscriptions: this.upstream.size,
+    };
+  }
+
+  private retainUpstream(channel: 'price' | 'orderbook', tokenId: string) {
+    const key = `${channel}:${tokenId}`;
+    if (!this.source || this.upstream.has(key)) return;
+
+    const callback = (message: WebSocketMessage) => this.dispatch(channel, message);
+    const unsubscribe = channel === 'price'
+      ? this.source.subscribePrice(tokenId, callback)
+      : this.source.subscribeOrderbook(tokenId, callback);
+    this.upstream.set(key, unsubscribe);
+  }
+
+  private releaseUpstream(channel: 'price' | 'orderbook', tokenId: string) {
+    const key = `${channel}:${tokenId}`;
+    const stillWanted = (Object.keys(UPSTREAM_CHANNEL) as StreamChannel[])
+      .some(c => UPSTREAM_CHANNEL[c] === channel && this.listeners.has(`${c}:${tokenId}`));
+    if (stillWanted) return;
+
+    this.upstream.get(key)?.();
+    this.upstream.delete(key);
+  }
+
+  private dispatch(upstreamChannel: 'price' | 'orderbook', message: WebSocketMessage) {
+    const event = normalizeStreamMessage(message);
+    if (!event || event.type === 'status') return;
+
+    // The upstream client hands trades to every channel of the token
+    const channel = EVENT_CHANNEL[event.type];
+    if (UPSTREAM_CHANNEL[channel] !== upstreamChannel) return;
+
+    this.listeners.get(`${channel}:${event.tokenId}`)?.forEach(listener => this.deliver(listener, event));
+  }
+
+  private deliver(listener: StreamListener, event: StreamEvent) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[Stream] Listener error:', error);
+    }
+  }
+}
+
+// Kept on globalThis so dev-server reloads don't open a second upstream connection
+const globalForStream = globalThis as typeof globalThis & { __pulseforgeStreamHub?: MarketStreamHub };
+
+/**
+ * The process-wide hub, backed by the configured provider's stream
+ */
+export function getStreamHub(): MarketStreamHub {
+  if (!globalForStream.__pulseforgeStreamHub) {
+    globalForStream.__pulseforgeStreamHub = new MarketStreamHub(getMarketDataProvider().getStream());
+  }
+  return globalForStream.__pulseforgeStreamHub;
+}
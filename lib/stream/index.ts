@@ -0,0 +1,3 @@
+export * from './events';
+export * from './hub';
+export * from './client';
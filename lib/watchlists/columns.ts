@@ -0,0 +1,131 @@
+/**
+ * Watchlist Columns
+ * Column values, labels and formatting, plus sorting and filtering of rows
+ */
+
+import { Market, WatchlistColumn, WatchlistSort, WatchlistFilter } from '@/types';
+import { formatPrice, formatCents, formatPriceChange, formatCompactNumber } from '@/lib/formatters';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_WATCHLIST_COLUMNS: WatchlistColumn[] = ['price', 'change24h', 'spread', 'liquidity', 'daysLeft'];
+
+export const WATCHLIST_COLUMN_LABELS: Record<WatchlistColumn, string> = {
+  price: 'Price',
+  change1h: '1h',
+  change24h: '24h',
+  change7d: '7d',
+  spread: 'Spread',
+  liquidity: 'Liquidity',
+  volume24h: '24h Volume',
+  daysLeft: 'Days Left',
+};
+
+// How filter bounds are entered: prices and changes in percent points,
+// spread in cents, dollars and days as is
+export const WATCHLIST_COLUMN_UNITS: Record<WatchlistColumn, { label: string; scale: number }> = {
+  price: { label: '%', scale: 100 },
+  change1h: { label: '%', scale: 100 },
+  change24h: { label: '%', scale: 100 },
+  change7d: { label: '%', scale: 100 },
+  spread: { label: '¢', scale: 100 },
+  liquidity: { label: '$', scale: 1 },
+  volume24h: { label: '$', scale: 1 },
+  daysLeft: { label: 'days', scale: 1 },
+};
+
+export interface WatchlistRow {
+  market: Market;
+  livePrice?: number; // First outcome, from the WebSocket
+}
+
+/**
+ * Value of a column for a row, or null when the market doesn't report it
+ */
+export function getColumnValue(row: WatchlistRow, column: WatchlistColumn, now: number = Date.now()): number | null {
+  const { market } = row;
+
+  switch (column) {
+    case 'price':
+      return row.livePrice ?? market.outcomes[0]?.price ?? null;
+    case 'change1h':
+      return market.priceChange1h ?? null;
+    case 'change24h':
+      return market.priceChange24h ?? market.outcomes[0]?.priceChange24h ?? null;
+    case 'change7d':
+      return market.priceChange7d ?? null;
+    case 'spread':
+      return market.bestAsk !== undefined && market.bestBid !== undefined
+        ? market.bestAsk - market.bestBid
+        : null;
+    case 'liquidity':
+      return market.liquidity;
+    case 'volume24h':
+      return market.volume24hr ?? null;
+    case 'daysLeft': {
+      const endsAt = new Date(market.endDate).getTime();
+      return isNaN(endsAt) ? null : Math.max(0, (endsAt - now) / DAY);
+    }
+    default:
+      return null;
+  }
+}
+
+export function formatColumnValue(column: WatchlistColumn, value: number | null): string {
+  if (value === null) return '—';
+
+  switch (column) {
+    case 'price':
+      return formatPrice(value);
+    case 'change1h':
+    case 'change24h':
+    case 'change7d':
+      return formatPriceChange(value).text;
+    case 'spread':
+      return formatCents(value);
+    case 'liquidity':
+    case 'volume24h':
+      return `$${formatCompactNumber(value)}`;
+    case 'daysLeft':
+      return value < 1 ? '<1' : Math.floor(value).toString();
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Rows ordered by a column; rows without a value always sort last
+ */
+export function sortWatchlistRows(rows: WatchlistRow[], sort: WatchlistSort | undefined, now: number = Date.now()): WatchlistRow[] {
+  if (!sort) return rows;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  if (sort.column === 'question') {
+    return [...rows].sort((a, b) => sign * a.market.question.localeCompare(b.market.question));
+  }
+
+  const column = sort.column;
+  return [...rows].sort((a, b) => {
+    const va = getColumnValue(a, column, now);
+    const vb = getColumnValue(b, column, now);
+    if (va === null) return vb === null ? 0 : 1;
+    if (vb === null) return -1;
+    return sign * (va - vb);
+  });
+}
+
+/**
+ * Rows within every filter's bounds; a row without a value fails the filter
+ */
+export function filterWatchlistRows(rows: WatchlistRow[], filters: WatchlistFilter[] = [], now: number = Date.now()): WatchlistRow[] {
+  const active = filters.filter(f => f.min !== undefined || f.max !== undefined);
+  if (active.length === 0) return rows;
+
+  return rows.filter(row =>
+    active.every(filter => {
+      const value = getColumnValue(row, filter.column, now);
+      if (value === null) return false;
+      return (filter.min === undefined || value >= filter.min) && (filter.max === undefined || value <= filter.max);
+    })
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Workspace Access
+ * Resolves the signed-in member of a workspace for route handlers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Workspace, WorkspaceMember, WorkspaceRole } from '@/types';
+import { getRequestSession, findUsersByIds, StoredUser } from '@/lib/auth';
+import { getWorkspace } from './store';
+import { getMemberRole, canEditWorkspace, canManageWorkspace } from './roles';
+
+export type WorkspaceAccess = 'view' | 'edit' | 'manage';
+
+/**
+ * Signed-in user, workspace and role, or the error response to send instead
+ * Non-members get a 404 so workspace ids can't be probed.
+ */
+export async function authorizeWorkspace(
+  request: NextRequest,
+  workspaceId: string,
+  access: WorkspaceAccess
+): Promise<{ error: NextResponse } | { user: StoredUser; workspace: Workspace; role: WorkspaceRole }> {
+  const current = await getRequestSession(request);
+  if (!current) {
+    return { error: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) };
+  }
+
+  const workspace = await getWorkspace(workspaceId);
+  const role = workspace && getMemberRole(workspace, current.user.id);
+  if (!workspace || !role) {
+    return { error: NextResponse.json({ error: 'Workspace not found' }, { status: 404 }) };
+  }
+
+  const allowed = access === 'view'
+    || (access === 'edit' && canEditWorkspace(role))
+    || (access === 'manage' && canManageWorkspace(role));
+  if (!allowed) {
+    return { error: NextResponse.json({ error: `Your role (${role}) can't do that` }, { status: 403 }) };
+  }
+
+  return { user: current.user, workspace, role };
+}
+
+/**
+ * Members with their current account name and email
+ */
+export async function withMemberProfiles(workspace: Workspace): Promise<WorkspaceMember[]> {
+  const users = await findUsersByIds(workspace.members.map(m => m.userId));
+  return workspace.members.map(member => {
+    const user = users.find(u => u.id === member.userId);
+    return user ? { ...member, name: user.name, email: user.email } : member;
+  });
+}
@@ -0,0 +1,3 @@
+export * from './roles';
+export * from './store';
+export * from './access';
@@ -0,0 +1,28 @@
+/**
+ * Workspace Roles
+ * What each role may do, shared by routes and the UI
+ */
+
+import { Workspace, WorkspaceRole } from '@/types';
+
+export function getMemberRole(workspace: Workspace, userId: string): WorkspaceRole | null {
+  return workspace.members.find(m => m.userId === userId)?.role ?? null;
+}
+
+// Change strategies, clusters and research
+export function canEditWorkspace(role: WorkspaceRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+// Rename, delete, invite and change members
+export function canManageWorkspace(role: WorkspaceRole | null): boolean {
+  return role === 'owner';
+}
+
+/**
+ * Whether a member is the only owner, who can't be removed or demoted
+ */
+export function isLastOwner(workspace: Workspace, userId: string): boolean {
+  const owners = workspace.members.filter(m => m.role === 'owner');
+  return owners.length === 1 && owners[0].userId === userId;
+}
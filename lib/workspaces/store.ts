@@ -0,0 +1,208 @@
+/**
+ * Workspace Store
+ * Team workspaces, their members and invite links, kept in a JSON file under
+ * the data directory alongside the accounts they reference
+ */
+
+import path from 'path';
+import { randomBytes, createHash } from 'crypto';
+import { Workspace, WorkspaceInvite, WorkspaceRole, WorkspaceResource } from '@/types';
+import { getDataDir, readJsonFile, writeJsonFile, createSerialQueue } from '@/lib/storage/jsonFile';
+import { DocumentStore, createFileDocumentStore } from '@/lib/storage/documents';
+import { isLastOwner } from './roles';
+
+interface WorkspaceData {
+  workspaces: Workspace[];
+  invites: WorkspaceInvite[];
+}
+
+export const INVITE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+function workspacesFile(): string {
+  return path.join(getDataDir(), 'workspaces.json');
+}
+
+const enqueue = createSerialQueue();
+
+function withData<T>(fn: (data: WorkspaceData) => { result: T; changed: boolean }): Promise<T> {
+  const file = workspacesFile();
+  return enqueue(file, async () => {
+    const stored = await readJsonFile<Partial<WorkspaceData>>(file);
+    const data: WorkspaceData = { workspaces: stored?.workspaces || [], invites: stored?.invites || [] };
+    const { result, changed } = fn(data);
+    if (changed) await writeJsonFile(file, data);
+    return result;
+  });
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a workspace owned by its creator
+ */
+export function createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+  const now = Date.now();
+  const workspace: Workspace = {
+    id: randomBytes(12).toString('hex'),
+    name: name.trim(),
+    createdAt: now,
+    createdBy: ownerId,
+    members: [{ userId: ownerId, role: 'owner', joinedAt: now }],
+  };
+
+  return withData(data => {
+    data.workspaces.push(workspace);
+    return { result: workspace, changed: true };
+  });
+}
+
+export function getWorkspace(id: string): Promise<Workspace | null> {
+  return withData(data => ({
+    result: data.workspaces.find(w => w.id === id) || null,
+    changed: false,
+  }));
+}
+
+export function listWorkspacesForUser(userId: string): Promise<Workspace[]> {
+  return withData(data => ({
+    result: data.workspaces.filter(w => w.members.some(m => m.userId === userId)),
+    changed: false,
+  }));
+}
+
+export function renameWorkspace(id: string, name: string): Promise<Workspace | null> {
+  return withData(data => {
+    const workspace = data.workspaces.find(w => w.id === id);
+    if (!workspace) return { result: null, changed: false };
+    workspace.name = name.trim();
+    return { result: workspace, changed: true };
+  });
+}
+
+/**
+ * Delete a workspace and its invites; its documents are removed by the caller
+ */
+export function deleteWorkspace(id: string): Promise<boolean> {
+  return withData(data => {
+    const before = data.workspaces.length;
+    data.workspaces = data.workspaces.filter(w => w.id !== id);
+    data.invites = data.invites.filter(i => i.workspaceId !== id);
+    const deleted = data.workspaces.length !== before;
+    return { result: deleted, changed: deleted };
+  });
+}
+
+/**
+ * Change a member's role; returns null if they aren't a member or are the last owner
+ */
+export function setMemberRole(id: string, userId: string, role: WorkspaceRole): Promise<Workspace | null> {
+  return withData(data => {
+    const workspace = data.workspaces.find(w => w.id === id);
+    const member = workspace?.members.find(m => m.userId === userId);
+    if (!workspace || !member) return { result: null, changed: false };
+    if (role !== 'owner' && isLastOwner(workspace, userId)) return { result: null, changed: false };
+    member.role = role;
+    return { result: workspace, changed: true };
+  });
+}
+
+/**
+ * Remove a member; returns null if they aren't a member or are the last owner
+ */
+export function removeMember(id: string, userId: string): Promise<Workspace | null> {
+  return withData(data => {
+    const workspace = data.workspaces.find(w => w.id === id);
+    if (!workspace || !workspace.members.some(m => m.userId === userId)) return { result: null, changed: false };
+    if (isLastOwner(workspace, userId)) return { result: null, changed: false };
+    workspace.members = workspace.members.filter(m => m.userId !== userId);
+    return { result: workspace, changed: true };
+  });
+}
+
+/**
+ * Create an invite link; returns the token to put in the URL
+ * Expired invites are pruned on the way.
+ */
+export function createInvite(
+  workspaceId: string,
+  role: WorkspaceInvite['role'],
+  createdBy: string
+): Promise<{ token: string; invite: WorkspaceInvite }> {
+  const token = randomBytes(24).toString('base64url');
+  const now = Date.now();
+  const invite: WorkspaceInvite = {
+    id: hashToken(token),
+    workspaceId,
+    role,
+    createdBy,
+    createdAt: now,
+    expiresAt: now + INVITE_TTL,
+  };
+
+  return withData(data => {
+    data.invites = data.invites.filter(i => i.expiresAt > now);
+    data.invites.push(invite);
+    return { result: { token, invite }, changed: true };
+  });
+}
+
+export function listInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+  const now = Date.now();
+  return withData(data => ({
+    result: data.invites.filter(i => i.workspaceId === workspaceId && i.expiresAt > now),
+    changed: false,
+  }));
+}
+
+export function revokeInvite(workspaceId: string, inviteId: string): Promise<boolean> {
+  return withData(data => {
+    const before = data.invites.length;
+    data.invites = data.invites.filter(i => !(i.workspaceId === workspaceId && i.id === inviteId));
+    const revoked = data.invites.length !== before;
+    return { result: revoked, changed: revoked };
+  });
+}
+
+/**
+ * Invite and workspace behind a link token, or null if missing or expired
+ */
+export function getInvite(token: string): Promise<{ invite: WorkspaceInvite; workspace: Workspace } | null> {
+  const id = hashToken(token);
+  return withData(data => {
+    const invite = data.invites.find(i => i.id === id && i.expiresAt > Date.now());
+    const workspace = invite && data.workspaces.find(w => w.id === invite.workspaceId);
+    return { result: invite && workspace ? { invite, workspace } : null, changed: false };
+  });
+}
+
+/**
+ * Join the workspace behind an invite link
+ * Links stay valid until they expire or are revoked, so a team can share one.
+ * Existing members keep their role.
+ */
+export function acceptInvite(token: string, userId: string): Promise<Workspace | null> {
+  const id = hashToken(token);
+  return withData(data => {
+    const invite = data.invites.find(i => i.id === id && i.expiresAt > Date.now());
+    const workspace = invite && data.workspaces.find(w => w.id === invite.workspaceId);
+    if (!invite || !workspace) return { result: null, changed: false };
+    if (workspace.members.some(m => m.userId === userId)) return { result: workspace, changed: false };
+
+    workspace.members.push({ userId, role: invite.role, joinedAt: Date.now() });
+    return { result: workspace, changed: true };
+  });
+}
+
+export type WorkspaceDataStore = DocumentStore<WorkspaceResource>;
+
+let dataStore: WorkspaceDataStore | null = null;
+
+/**
+ * Shared documents: <data dir>/workspaces/<workspaceId>/<resource>.json
+ */
+export function getWorkspaceDataStore(): WorkspaceDataStore {
+  if (!dataStore) dataStore = createFileDocumentStore<WorkspaceResource>(path.join(getDataDir(), 'workspaces'));
+  return dataStore;
+}
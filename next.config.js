@@ -12,6 +12,8 @@ const nextConfig = {
   // Fix for framer-motion vendor chunk issue in Next.js 14
   experimental: {
     optimizePackageImports: ['framer-motion'],
+    // Runs instrumentation.ts, which sets up market data recording and replay
+    instrumentationHook: true,
   },
 };
 
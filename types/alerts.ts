@@ -0,0 +1,85 @@
+/**
+ * Price Alert Types
+ */
+
+import { MarketCluster } from './strategy';
+import { ScannerConfig, ScannerRuleType } from './scanner';
+
+export const ALERT_TYPES = [
+  'price_cross',
+  'percent_move',
+  'volume_spike',
+  'spread_widening',
+  'resolution_approaching',
+] as const;
+
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export type AlertCondition =
+  // Outcome price crosses a level (0-1)
+  | { type: 'price_cross'; outcomeIndex: number; level: number; direction: 'above' | 'below' }
+  // Outcome price moves by at least `percent` (relative) within the window
+  | { type: 'percent_move'; outcomeIndex: number; percent: number; windowMinutes: number }
+  // Volume traded in the window is `multiplier` times the market's 24h average pace
+  | { type: 'volume_spike'; multiplier: number; windowMinutes: number }
+  // Best ask minus best bid on the first outcome reaches `maxSpread` (0-1)
+  | { type: 'spread_widening'; maxSpread: number }
+  // The market's end date is within `hoursBefore`
+  | { type: 'resolution_approaching'; hoursBefore: number };
+
+export interface AlertRule {
+  id: string;
+  marketId: string;
+  marketQuestion: string;
+  outcomeNames?: string[]; // For describing the rule without fetching the market
+  condition: AlertCondition;
+  enabled: boolean;
+  cooldownMinutes: number; // Minimum time between two firings
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+// Alert history entries also come from watched clusters
+export type AlertEventType = AlertType | 'scanner_flag';
+
+// A rule or watched cluster firing, as kept in the alert history
+export interface AlertEvent {
+  id: string;
+  ruleId: string; // Rule or watched cluster id
+  marketId: string;
+  marketQuestion: string; // Cluster name for scanner flags
+  type: AlertEventType;
+  message: string;
+  value: number; // Price, percent, multiple, spread, hours or severity score, by type
+  triggeredAt: number;
+}
+
+// Market state the alert engine records on every check
+export interface AlertSample {
+  timestamp: number;
+  prices: number[]; // Per outcome, 0-1
+  volume24hr?: number;
+  spread?: number; // Best ask - best bid of the first outcome
+}
+
+// A scanner flag as remembered between rescans of a watched cluster.
+// Flag ids change on every scan, so flags are matched by `key`.
+export interface WatchedFlag {
+  key: string; // Rule type + affected market ids
+  ruleType: ScannerRuleType;
+  title: string;
+  severityScore: number;
+}
+
+// A cluster saved with its scanner config and rescanned on a schedule
+export interface WatchedCluster {
+  id: string;
+  cluster: MarketCluster;
+  config: ScannerConfig;
+  severityThreshold: number; // Notify when a flag's score rises to this (0-100)
+  intervalMinutes: number; // Time between rescans
+  enabled: boolean;
+  createdAt: number;
+  lastScannedAt?: number;
+  flags: WatchedFlag[]; // Flags found by the last scan
+}
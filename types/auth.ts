@@ -0,0 +1,26 @@
+/**
+ * Account Types
+ */
+
+// Public view of an account, as returned by /api/auth/me
+export interface User {
+  id?: string;
+  email: string;
+  name: string;
+  provider?: string;
+  signedInAt: number;
+  interests?: string[]; // Market category IDs the user is interested in
+  profileCompleted?: boolean; // Whether user has completed profile setup
+}
+
+// App preferences from the settings modal
+export interface UserSettings {
+  autoRefresh?: boolean;
+  refreshInterval?: number; // Seconds
+  defaultLimit?: number;
+  defaultSort?: 'volume' | 'recent' | 'volatility' | 'change';
+  compactView?: boolean;
+  notifications?: boolean;
+  priceAlerts?: boolean;
+  priceAlertThreshold?: number; // Percent
+}
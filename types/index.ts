@@ -6,3 +6,11 @@ export * from './market';
 export * from './strategy';
 export * from './scanner';
 export * from './gemini';
+export * from './auth';
+export * from './storage';
+export * from './workspace';
+export * from './alerts';
+export * from './watchlist';
+export * from './stream';
+export * from './replay';
+export * from './venues';
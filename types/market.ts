@@ -2,8 +2,26 @@
  * Market Types for Polymarket Data
  */
 
+// Where a market is listed: Polymarket, or the local fixture files
+export const VENUES = ['polymarket', 'fixture'] as const;
+
+export type Venue = (typeof VENUES)[number];
+
+export const VENUE_LABELS: Record<Venue, string> = {
+  polymarket: 'Polymarket',
+  fixture: 'Fixtures',
+};
+
+// Taker fee on the stake per venue, in basis points. Polymarket charges none
+// on most markets; the fixtures stand in for a venue that does.
+export const DEFAULT_VENUE_FEE_BPS: Record<Venue, number> = {
+  polymarket: 0,
+  fixture: 100,
+};
+
 export interface Market {
   id: string;
+  venue?: Venue; // Polymarket when missing
   question: string;
   slug: string;
   category: string;
@@ -49,6 +67,60 @@ export interface MarketOutcome {
   priceChange24h: number; // percentage change
 }
 
+// Whether a market has settled, as polled by the resolution watcher
+export interface MarketResolutionStatus {
+  marketId: string;
+  closed: boolean;
+  resolved: boolean;
+  resolutionOutcome?: string; // Winning outcome name once settled
+}
+
+// Single price level of a CLOB orderbook, parsed to numbers
+export interface OrderbookLevel {
+  price: number; // 0-1
+  size: number; // Shares available at this price
+}
+
+export interface Orderbook {
+  bids: OrderbookLevel[]; // Best (highest) first
+  asks: OrderbookLevel[]; // Best (lowest) first
+}
+
+// Orderbooks keyed by outcome token id
+export type OrderbookMap = Record<string, Orderbook>;
+
+// Event grouping sibling markets (e.g. every candidate in one nomination race)
+export interface MarketEvent {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string;
+  tags: string[];
+  markets: Market[];
+  volume: number; // Aggregate volume across child markets
+  volume24hr: number;
+  liquidity: number;
+  active: boolean;
+  closed: boolean;
+  mutuallyExclusive: boolean; // Exactly one child market resolves YES (negRisk events)
+  imageUrl?: string;
+  endDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EventSearchParams {
+  query?: string;
+  tag?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EventSearchResponse {
+  events: MarketEvent[];
+  hasMore: boolean;
+}
+
 export interface MarketWithHistory extends Market {
   priceHistory: PricePoint[];
 }
@@ -88,6 +160,59 @@ export interface HistoryParams {
   range: TimeRange;
 }
 
+// Span of a history window with no recorded prices
+export interface PriceHistoryGap {
+  from: number;
+  to: number;
+}
+
+// Recorded price history of a market's first outcome over a window
+export interface PriceHistory {
+  history: PricePoint[];
+  gaps: PriceHistoryGap[];
+  from: number;
+  to: number;
+}
+
+// OHLC of one bucket starting at `timestamp`
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number; // USDC traded; undefined where no trade data covers the bucket
+  trades: number;
+}
+
+export interface CandleSeries {
+  candles: Candle[];
+  gaps: PriceHistoryGap[];
+  from: number;
+  to: number;
+  bucketMinutes: number;
+}
+
+// Fill on the CLOB; size in shares
+export interface MarketTrade {
+  id: string;
+  timestamp: number;
+  price: number;
+  size: number;
+  side: 'buy' | 'sell';
+}
+
+// Indicator values at one point of a price series; null until a window fills
+export interface IndicatorPoint {
+  timestamp: number;
+  sma: number | null;
+  ema: number | null;
+  upperBand: number | null;
+  lowerBand: number | null;
+  rsi: number | null;
+  volatility: number | null; // Probability points per day
+}
+
 // Sparkline data for market cards
 export interface SparklineData {
   prices: number[];
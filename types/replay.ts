@@ -0,0 +1,27 @@
+/**
+ * Market Data Recording Types
+ * Gamma/CLOB responses and WebSocket messages captured for offline replay
+ */
+
+// Response to one HTTP request, `at` ms after the recording started
+export interface RecordedHttpExchange {
+  at: number;
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+// Raw WebSocket frame, `at` ms after the recording started
+export interface RecordedMessage {
+  at: number;
+  data: string;
+}
+
+export interface MarketDataRecording {
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  http: RecordedHttpExchange[];
+  messages: RecordedMessage[]; // Oldest first
+}
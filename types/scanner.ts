@@ -2,13 +2,14 @@
  * Scanner Types for Inefficiency Detection
  */
 
-import { Market } from './market';
+import { Market, OrderbookMap, Venue, DEFAULT_VENUE_FEE_BPS } from './market';
 import { MarketCluster } from './strategy';
 
 export type ScannerRuleType =
   | 'sum_to_one' // Mutually exclusive outcomes should sum to 1
   | 'threshold_consistency' // P(X>60) <= P(X>50)
-  | 'arbitrage_bundle'; // Contradictory probabilities suggesting hedge
+  | 'arbitrage_bundle' // Contradictory probabilities suggesting hedge
+  | 'cross_venue_arbitrage'; // YES on one venue plus NO on another costs under $1 after fees
 
 export type SeverityLevel = 'high' | 'medium' | 'low';
 
@@ -22,10 +23,30 @@ export interface ScannerFlag {
   affectedMarkets: Market[];
   suggestedTrades: SuggestedTrade[];
   potentialProfit?: number; // Estimated arbitrage profit if applicable
+  executable?: ExecutableEdge; // Set when the flag was priced against orderbooks
   confidence: number; // 0-100 confidence in the flag
   detectedAt: number;
 }
 
+// Arbitrage priced against orderbook depth rather than mid prices.
+// Sizes are in bundles: one share of every leg of the trade.
+export interface ExecutableEdge {
+  targetNotional: number; // $ the scanner tried to deploy
+  filledNotional: number; // Less than target when the books are too thin
+  filledSize: number;
+  avgBundlePrice: number; // Size-weighted price of one bundle
+  profit: number; // $ profit at the filled size
+  maxSize: number; // Largest size before the marginal edge turns negative
+  maxNotional: number;
+  maxProfit: number;
+}
+
+// Orderbooks plus target size used to price flags as executable trades
+export interface ExecutionContext {
+  orderbooks: OrderbookMap;
+  targetNotional: number;
+}
+
 export interface SuggestedTrade {
   marketId: string;
   marketQuestion: string;
@@ -64,17 +85,58 @@ export interface ArbitrageBundleCheck {
   profitMargin: number; // (payout - cost) / cost
 }
 
+// How an automatically discovered cluster was formed
+export type ClusterSource = 'event' | 'tag' | 'threshold';
+
+export interface DiscoveredCluster extends MarketCluster {
+  source: ClusterSource;
+}
+
+// Flag found by discovery, annotated with the cluster that produced it
+export interface DiscoveredFlag extends ScannerFlag {
+  clusterId: string;
+  clusterName: string;
+  clusterSource: ClusterSource;
+  rankScore: number; // severityScore weighted by confidence
+}
+
+export interface DiscoveryConfig {
+  sources: ClusterSource[];
+  minClusterSize: number;
+  maxClusterSize: number; // Larger groups (e.g. broad tags) are skipped
+}
+
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
+  sources: ['event', 'tag', 'threshold'],
+  minClusterSize: 2,
+  maxClusterSize: 10,
+};
+
+export interface DiscoveryResult {
+  flags: DiscoveredFlag[];
+  clustersScanned: number;
+  marketsScanned: number;
+  discoveredAt: number;
+  scanDuration: number; // ms
+}
+
 // Scanner configuration
 export interface ScannerConfig {
   sumToOneThreshold: number; // Deviation threshold for sum-to-one (default 0.05)
   thresholdMargin: number; // Margin for threshold consistency (default 0.02)
   minArbitrageProfit: number; // Minimum profit margin for arbitrage (default 0.01)
   enabledRules: ScannerRuleType[];
+  useOrderbooks: boolean; // Price flags against orderbook depth
+  targetNotional: number; // $ size used for executable profit (default 100)
+  venueFeeBps: Partial<Record<Venue, number>>; // Taker fee on the stake per venue; none when missing (default DEFAULT_VENUE_FEE_BPS)
 }
 
 export const DEFAULT_SCANNER_CONFIG: ScannerConfig = {
   sumToOneThreshold: 0.05,
   thresholdMargin: 0.02,
   minArbitrageProfit: 0.01,
-  enabledRules: ['sum_to_one', 'threshold_consistency', 'arbitrage_bundle'],
+  enabledRules: ['sum_to_one', 'threshold_consistency', 'arbitrage_bundle', 'cross_venue_arbitrage'],
+  useOrderbooks: false,
+  targetNotional: 100,
+  venueFeeBps: DEFAULT_VENUE_FEE_BPS,
 };
@@ -0,0 +1,14 @@
+/**
+ * Server-Side User Data Types
+ */
+
+// Per-user documents synced between the browser and the server
+export const USER_RESOURCES = ['strategies', 'research', 'drafts', 'settings', 'watchlists'] as const;
+
+export type UserResource = (typeof USER_RESOURCES)[number];
+
+// A stored document with the time it was last written
+export interface UserDocument<T = unknown> {
+  value: T;
+  updatedAt: number;
+}
@@ -7,7 +7,8 @@ import { Market } from './market';
 export interface Position {
   id: string;
   market: Market;
-  side: 'YES' | 'NO';
+  side: 'YES' | 'NO'; // NO only for the second outcome of a binary market
+  outcomeId?: string; // Outcome token held; when set, entryPrice is that token's price
   stake: number; // USD amount
   entryPrice: number; // Price at entry (0-1)
   addedAt: number; // Timestamp
@@ -20,6 +21,112 @@ export interface Strategy {
   createdAt: number;
   updatedAt: number;
   discountRate: number; // APR for time-value discounting (default 10%)
+  costModel?: CostModel; // Trading costs; zero-cost fills when omitted
+  correlations?: MarketCorrelation[]; // Pairs not listed are independent
+  archivedAt?: number; // Hidden from the workspace switcher when set
+  realizedTrades?: RealizedTrade[]; // Positions closed out of the strategy
+  pnlHistory?: PnlSnapshot[]; // Mark-to-market P&L over time, oldest first
+  resolutions?: MarketResolution[]; // Final outcomes of markets this strategy held
+}
+
+// Final outcome of a market, recorded when its positions settle
+export interface MarketResolution {
+  marketId: string;
+  marketQuestion: string;
+  outcome: string; // Winning outcome name
+  resolvedAt: number;
+}
+
+// A position closed out at an exit price, or settled when its market resolved
+export interface RealizedTrade {
+  id: string;
+  positionId: string;
+  marketId: string;
+  marketQuestion: string;
+  outcomeName: string;
+  shares: number;
+  costBasis: number; // Stake plus fees and gas paid to open
+  exitPrice: number; // Price received per share; 1 or 0 when settled
+  proceeds: number;
+  pnl: number; // proceeds - costBasis
+  openedAt: number;
+  closedAt: number;
+  reason: 'closed' | 'settled';
+  entryProbability?: number; // Price paid for the held outcome, for calibration
+  resolutionOutcome?: string; // Winning outcome when settled
+}
+
+// A position revalued at the price it could be sold for now
+export interface PositionMark {
+  positionId: string;
+  tokenId?: string;
+  exitPrice: number;
+  isLive: boolean; // false when falling back to the stored market price
+  shares: number;
+  costBasis: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export interface StrategyMark {
+  costBasis: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+  positions: PositionMark[];
+}
+
+export interface PnlSnapshot {
+  timestamp: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+}
+
+export interface Drawdown {
+  peakPnl: number; // Highest total P&L seen
+  maxDrawdown: number; // Largest fall from a running peak (USD, positive)
+  currentDrawdown: number; // Fall from the peak to the latest snapshot
+}
+
+// Correlation between two markets' latent drivers (Gaussian copula).
+// Positive values make the first outcomes of both markets win together.
+export interface MarketCorrelation {
+  marketIdA: string;
+  marketIdB: string;
+  correlation: number; // -1 to 1
+}
+
+// Trading costs applied when a position is opened
+export interface CostModel {
+  takerFeeBps: number; // Fee on the stake, in basis points
+  gasPerTrade: number; // USD gas/relayer cost per position
+  useOrderbookSlippage: boolean; // Walk the asks for the fill price when books are available
+}
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  takerFeeBps: 0,
+  gasPerTrade: 0,
+  useOrderbookSlippage: true,
+};
+
+// What a position actually gets filled at under a cost model
+export interface PositionFill {
+  shares: number; // Shares received for the stake
+  fillPrice: number; // Average price paid per share
+  fees: number;
+  gas: number;
+  slippage: number; // USD lost versus filling every share at entryPrice
+  totalCost: number; // Stake plus fees and gas
+}
+
+export interface StrategyCosts {
+  fees: number;
+  gas: number;
+  slippage: number;
+  total: number; // fees + gas + slippage
 }
 
 // Payoff calculation result for a single probability point
@@ -48,11 +155,41 @@ export interface PayoffSurface {
 // Outcome scenario for strategy evaluation
 export interface OutcomeScenario {
   id: string;
-  outcomes: Record<string, 'YES' | 'NO'>; // marketId -> outcome
+  outcomes: Record<string, string>; // marketId -> winning outcome name
   probability: number; // Probability of this scenario
   payoff: number;
 }
 
+// Payoff of a market's positions if a given outcome wins
+export interface OutcomePayoff {
+  marketId: string;
+  marketQuestion: string;
+  outcomeId: string;
+  outcomeName: string;
+  probability: number; // Market-implied probability of this outcome
+  payoff: number;
+}
+
+// Probability mass of payoffs falling in one histogram bucket
+export interface PayoffBucket {
+  payoffFrom: number;
+  payoffTo: number;
+  probability: number;
+}
+
+// Joint distribution of strategy payoffs with tail-risk measures
+export interface PayoffDistribution {
+  method: 'exact' | 'monte_carlo' | 'convolution';
+  samples: number; // Monte Carlo draws; 0 when exact
+  buckets: PayoffBucket[];
+  mean: number;
+  stdDev: number;
+  probabilityOfLoss: number;
+  confidenceLevel: number; // e.g. 0.95
+  valueAtRisk: number; // Loss not exceeded with confidenceLevel probability (positive = loss)
+  expectedShortfall: number; // Average loss in the worst (1 - confidenceLevel) tail
+}
+
 export interface StrategyAnalysis {
   totalStake: number;
   expectedPayoff: number;
@@ -60,7 +197,11 @@ export interface StrategyAnalysis {
   maxProfit: number;
   maxLoss: number;
   breakEvenProbability: number;
-  scenarios: OutcomeScenario[];
+  costs: StrategyCosts;
+  scenarioCount: number; // All outcome combinations across the strategy's markets
+  scenarios: OutcomeScenario[]; // Empty when scenarioCount is too large to enumerate
+  payoffDistribution: PayoffDistribution;
+  outcomePayoffs: OutcomePayoff[];
   payoffCurve: PayoffPoint[];
   payoffSurface: PayoffSurface;
 }
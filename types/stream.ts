@@ -0,0 +1,45 @@
+/**
+ * Live Market Stream Types
+ * Events the server fans out to clients over /api/stream
+ */
+
+import { OrderbookLevel } from './market';
+
+export type StreamChannel = 'price' | 'orderbook' | 'trades';
+
+export interface StreamPriceEvent {
+  type: 'price';
+  tokenId: string;
+  price: number; // 0-1
+  side?: 'buy' | 'sell';
+  timestamp: number;
+}
+
+// Changed levels only, where a size of 0 removes the level; a snapshot
+// replaces the whole book instead
+export interface StreamOrderbookEvent {
+  type: 'orderbook';
+  tokenId: string;
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+  snapshot?: boolean;
+  timestamp: number;
+}
+
+export interface StreamTradeEvent {
+  type: 'trade';
+  tokenId: string;
+  price: number;
+  size: number; // Shares
+  side: 'buy' | 'sell';
+  timestamp: number;
+}
+
+// Whether the server's upstream connection is open
+export interface StreamStatusEvent {
+  type: 'status';
+  connected: boolean;
+  available: boolean; // False where the server runtime has no WebSocket
+}
+
+export type StreamEvent = StreamPriceEvent | StreamOrderbookEvent | StreamTradeEvent | StreamStatusEvent;
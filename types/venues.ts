@@ -0,0 +1,45 @@
+/**
+ * Cross-Venue Types
+ * Listings of the same question on different venues, and their price gaps
+ */
+
+import { Market, Venue } from './market';
+import { ScannerFlag } from './scanner';
+
+// Two markets on different venues judged to ask the same question
+export interface VenueMatch {
+  markets: [Market, Market];
+  score: number; // 0-1 confidence that both resolve the same way
+  questionSimilarity: number; // 0-1
+  endDateDiffDays: number;
+  sameResolutionSource: boolean | null; // Null when either market names none
+}
+
+export interface MatchConfig {
+  minQuestionSimilarity: number; // Word overlap needed to consider a pair (default 0.6)
+  maxEndDateDiffDays: number; // Pairs ending further apart are different questions (default 3)
+  minScore: number; // Overall score needed to link a pair (default 0.7)
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  minQuestionSimilarity: 0.6,
+  maxEndDateDiffDays: 3,
+  minScore: 0.7,
+};
+
+// A match with its price gap, as listed in the comparison view
+export interface VenueComparison extends VenueMatch {
+  id: string;
+  priceGap: number; // YES price of the first market minus the second
+  flag: ScannerFlag | null; // Cross-venue arbitrage after fees, if any
+}
+
+export interface CrossVenueResult {
+  venues: Venue[]; // Venues with markets to compare
+  failedVenues: Venue[]; // Venues whose markets failed to load
+  venueFeeBps: Partial<Record<Venue, number>>; // Fees the arbitrage flags were priced with
+  comparisons: VenueComparison[]; // Largest gap first
+  marketsCompared: number;
+  comparedAt: number;
+  scanDuration: number; // ms
+}
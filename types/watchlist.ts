@@ -0,0 +1,38 @@
+/**
+ * Watchlist Types
+ */
+
+export const WATCHLIST_COLUMNS = [
+  'price',
+  'change1h',
+  'change24h',
+  'change7d',
+  'spread',
+  'liquidity',
+  'volume24h',
+  'daysLeft',
+] as const;
+
+export type WatchlistColumn = (typeof WATCHLIST_COLUMNS)[number];
+
+export interface WatchlistSort {
+  column: WatchlistColumn | 'question';
+  direction: 'asc' | 'desc';
+}
+
+// Keeps rows whose column value is within [min, max]; values in column units
+export interface WatchlistFilter {
+  column: WatchlistColumn;
+  min?: number;
+  max?: number;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  marketIds: string[];
+  columns: WatchlistColumn[]; // Shown in this order
+  sort?: WatchlistSort;
+  filters?: WatchlistFilter[];
+  createdAt: number;
+}
@@ -0,0 +1,47 @@
+/**
+ * Team Workspace Types
+ */
+
+// Owners manage members and invites, editors change shared data, viewers read it
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+// Documents a workspace owns instead of its members
+export const WORKSPACE_RESOURCES = ['strategies', 'clusters', 'research'] as const;
+
+export type WorkspaceResource = (typeof WORKSPACE_RESOURCES)[number];
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: number;
+  // Filled in from the account when listed
+  name?: string;
+  email?: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  createdBy: string; // User id
+  members: WorkspaceMember[];
+}
+
+// A workspace as listed for one of its members
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+export interface WorkspaceInvite {
+  id: string; // SHA-256 of the link token; the token itself is never stored
+  workspaceId: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  createdBy: string; // User id
+  createdAt: number;
+  expiresAt: number;
+}